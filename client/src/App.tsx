@@ -3,19 +3,27 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
 import Dashboard from "@/pages/dashboard";
 import SearchPage from "@/pages/search";
 import AgenticSearchPage from "@/pages/agentic-search";
 import PropertiesViewer from "@/pages/properties-viewer";
+import ApiTokensPage from "@/pages/api-tokens";
+import AuditLogPage from "@/pages/audit-log";
+import AuthPage from "@/pages/auth-page";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Dashboard} />
-      <Route path="/search" component={SearchPage} />
-      <Route path="/agentic-search" component={AgenticSearchPage} />
-      <Route path="/properties" component={PropertiesViewer} />
+      <ProtectedRoute path="/" component={Dashboard} />
+      <ProtectedRoute path="/search" component={SearchPage} />
+      <ProtectedRoute path="/agentic-search" component={AgenticSearchPage} />
+      <ProtectedRoute path="/properties" component={PropertiesViewer} />
+      <ProtectedRoute path="/tokens" component={ApiTokensPage} />
+      <ProtectedRoute path="/audit" component={AuditLogPage} />
+      <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -24,10 +32,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
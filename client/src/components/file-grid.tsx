@@ -6,6 +6,7 @@ import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { usePermissions } from "@/hooks/use-permissions";
 import { useToast } from "@/hooks/use-toast";
 import { type DriveFile } from "@shared/schema";
 import {
@@ -27,11 +28,29 @@ import {
   RefreshCw,
   Folder,
   CloudUpload,
-  Copy
+  Copy,
+  History,
+  SkipForward
 } from "lucide-react";
 
+interface FileGridStats {
+  total: number;
+  processed: number;
+  processing: number;
+  pending: number;
+}
+
 interface FileGridProps {
   files: DriveFile[];
+  totalFiles: number;
+  stats?: FileGridStats;
+  filter: string;
+  onFilterChange: (filter: string) => void;
+  sort: string;
+  onSortChange: (sort: string) => void;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
   onFileSelect: (file: DriveFile) => void;
   selectedFileId?: number;
   currentFolderId: string;
@@ -40,13 +59,24 @@ interface FileGridProps {
 
 export default function FileGrid({ 
   files, 
+  totalFiles,
+  stats = { total: 0, processed: 0, processing: 0, pending: 0 },
+  filter,
+  onFilterChange,
+  sort,
+  onSortChange,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
   onFileSelect, 
   selectedFileId, 
   currentFolderId,
   onRefresh 
 }: FileGridProps) {
+  const { can } = usePermissions();
+  const canProcess = can("files.process");
+  const canExport = can("drive.export");
   const [viewMode, setViewMode] = useState<"grid" | "list">("list");
-  const [filter, setFilter] = useState("all");
   const [selectedFiles, setSelectedFiles] = useState<Set<number>>(new Set());
   const { toast } = useToast();
 
@@ -77,6 +107,7 @@ export default function FileGrid({
         description: "File processing has been initiated.",
       });
       queryClient.invalidateQueries({ queryKey: [`/api/drive/files/${currentFolderId}`, currentFolderId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/drive/files/${currentFolderId}/stats`] });
     },
     onError: (error: any) => {
       toast({
@@ -146,12 +177,17 @@ export default function FileGrid({
     }
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
+  const getStatusBadge = (file: DriveFile) => {
+    switch (file.status) {
       case 'processed':
+        if (file.stale) {
+          return <Badge variant="secondary" className="bg-orange-100 text-orange-800" title="Changed in Drive since it was processed"><History className="h-3 w-3 mr-1" />Stale</Badge>;
+        }
         return <Badge variant="secondary" className="bg-accent/20 text-accent"><CheckCircle className="h-3 w-3 mr-1" />Processed</Badge>;
       case 'processing':
         return <Badge variant="secondary" className="bg-yellow-100 text-yellow-800"><Clock className="h-3 w-3 mr-1" />Processing</Badge>;
+      case 'skipped':
+        return <Badge variant="outline" className="text-muted-foreground" title={file.processingError ?? undefined}><SkipForward className="h-3 w-3 mr-1" />{file.skipReason === 'too_large' ? 'Too large' : 'Skipped'}</Badge>;
       case 'error':
         return <Badge variant="destructive"><AlertCircle className="h-3 w-3 mr-1" />Error</Badge>;
       default:
@@ -201,21 +237,8 @@ export default function FileGrid({
     return `Modified ${date.toLocaleDateString()}`;
   };
 
-  const filteredFiles = files.filter(file => {
-    if (filter === "all") return true;
-    if (filter === "images") return file.type === "image";
-    if (filter === "videos") return file.type === "video";
-    if (filter === "audio") return file.type === "audio";
-    if (filter === "pdfs") return file.type === "pdf";
-    if (filter === "documents") return file.type === "document";
-    if (filter === "spreadsheets") return file.type === "spreadsheet";
-    if (filter === "presentations") return file.type === "presentation";
-    if (filter === "text") return file.type === "text";
-    if (filter === "archives") return file.type === "archive";
-    if (filter === "processed") return file.status === "processed";
-    if (filter === "unprocessed") return file.status === "pending";
-    return true;
-  });
+  // Files arrive already filtered and sorted by the server
+  const filteredFiles = files;
 
   const processedFiles = files.filter(f => f.status === "processed");
   
@@ -242,13 +265,6 @@ export default function FileGrid({
     bulkExportMutation.mutate(fileIds);
   };
 
-  const stats = {
-    total: files.length,
-    processed: files.filter(f => f.status === "processed").length,
-    processing: files.filter(f => f.status === "processing").length,
-    pending: files.filter(f => f.status === "pending").length,
-  };
-
   if (!currentFolderId) {
     return (
       <main className="flex-1 flex items-center justify-center">
@@ -267,7 +283,9 @@ export default function FileGrid({
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4">
             <h2 className="text-lg font-semibold text-foreground">Files</h2>
-            <span className="text-sm text-muted-foreground">{files.length} files</span>
+            <span className="text-sm text-muted-foreground">
+              {files.length < totalFiles ? `${files.length} of ${totalFiles}` : totalFiles} files
+            </span>
             <Button 
               variant="ghost" 
               size="sm" 
@@ -278,7 +296,7 @@ export default function FileGrid({
             </Button>
           </div>
           <div className="flex items-center space-x-3">
-            {processedFiles.length > 0 && (
+            {canExport && processedFiles.length > 0 && (
               <div className="flex items-center space-x-2">
                 <Button
                   variant="outline"
@@ -318,7 +336,20 @@ export default function FileGrid({
                 <List className="h-4 w-4" />
               </Button>
             </div>
-            <Select value={filter} onValueChange={setFilter}>
+            <Select value={sort} onValueChange={onSortChange}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="name">Name (A-Z)</SelectItem>
+                <SelectItem value="-name">Name (Z-A)</SelectItem>
+                <SelectItem value="-modifiedTime">Recently Modified</SelectItem>
+                <SelectItem value="modifiedTime">Oldest Modified</SelectItem>
+                <SelectItem value="-size">Largest First</SelectItem>
+                <SelectItem value="size">Smallest First</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={filter} onValueChange={onFilterChange}>
               <SelectTrigger className="w-48">
                 <SelectValue />
               </SelectTrigger>
@@ -396,10 +427,10 @@ export default function FileGrid({
                         {formatFileSize(file.size)}
                       </div>
                       <div className="col-span-2">
-                        {getStatusBadge(file.status)}
+                        {getStatusBadge(file)}
                       </div>
                       <div className="col-span-1 flex justify-center">
-                        {file.status === "processed" && (
+                        {canExport && file.status === "processed" && (
                           <Checkbox
                             checked={selectedFiles.has(file.id)}
                             onCheckedChange={(checked) => handleFileSelection(file.id, checked as boolean)}
@@ -417,7 +448,7 @@ export default function FileGrid({
                               processFileMutation.mutate(file.id);
                             }
                           }}
-                          disabled={file.status === "processing" || processFileMutation.isPending}
+                          disabled={!canProcess || file.status === "processing" || processFileMutation.isPending}
                           className="h-8 w-8 p-0"
                         >
                           <MoreVertical className="h-4 w-4" />
@@ -453,7 +484,7 @@ export default function FileGrid({
                         {getFileIcon(file, true)}
                       </div>
                     )}
-                    {file.status === "processed" && (
+                    {canExport && file.status === "processed" && (
                       <div className="absolute top-2 left-2 z-10">
                         <Checkbox
                           checked={selectedFiles.has(file.id)}
@@ -493,7 +524,7 @@ export default function FileGrid({
                             processFileMutation.mutate(file.id);
                           }
                         }}
-                        disabled={file.status === "processing" || processFileMutation.isPending}
+                        disabled={!canProcess || file.status === "processing" || processFileMutation.isPending}
                         className="h-6 w-6 p-0 flex-shrink-0"
                       >
                         <MoreVertical className="h-3 w-3" />
@@ -502,7 +533,7 @@ export default function FileGrid({
                     <div className="flex justify-between items-center text-xs text-muted-foreground gap-1">
                       <span className="truncate flex-1">{formatFileSize(file.size)}</span>
                       <div className="flex-shrink-0">
-                        {getStatusBadge(file.status)}
+                        {getStatusBadge(file)}
                       </div>
                     </div>
                   </div>
@@ -512,6 +543,14 @@ export default function FileGrid({
           </div>
         )}
 
+        {hasMore && (
+          <div className="mt-6 flex justify-center">
+            <Button variant="outline" onClick={onLoadMore} disabled={isLoadingMore}>
+              {isLoadingMore ? "Loading..." : `Load more (${files.length} of ${totalFiles})`}
+            </Button>
+          </div>
+        )}
+
         {/* Stats Cards */}
         <div className="mt-6 grid grid-cols-1 md:grid-cols-4 gap-4">
           <Card>
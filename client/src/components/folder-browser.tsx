@@ -1,108 +1,162 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { ChevronRight, ChevronDown, Folder, FolderOpen, Home } from "lucide-react";
+import { useQueries, useQuery } from "@tanstack/react-query";
+import { ChevronRight, ChevronDown, Cloud, Folder, FolderOpen, HardDrive, Home, Server } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { cn } from "@/lib/utils";
-
-interface FolderInfo {
-  id: string;
-  name: string;
-  path: string;
-}
+import { SHARED_DRIVES_PARENT_ID, type DriveFolderNode } from "@shared/schema";
 
 interface FolderBrowserProps {
   selectedFolderId: string;
   onFolderSelect: (folderId: string) => void;
 }
 
-interface FolderNode extends FolderInfo {
-  children?: FolderNode[];
-  isExpanded?: boolean;
+interface FolderTreeResponse {
+  parentId: string;
+  folders: DriveFolderNode[];
+  refreshedAt: string | null;
+}
+
+// Storage configured on the server rather than linked per user. Their folder
+// ids start with the root id, which is how the browser tells them from Drive.
+const SERVER_PROVIDERS = [
+  { type: "local", rootId: "local:", icon: Server },
+  { type: "s3", rootId: "s3:", icon: Cloud },
+];
+
+interface ServerFolderTreeResponse extends FolderTreeResponse {
+  root: { id: string; name: string };
+}
+
+function treeUrl(parentId: string) {
+  const provider = SERVER_PROVIDERS.find(provider => parentId.startsWith(provider.rootId));
+  const base = provider ? `/api/storage/${provider.type}/tree` : "/api/drive/tree";
+  return `${base}?parentId=${encodeURIComponent(parentId)}&depth=1`;
+}
+
+const ROOT_FOLDER: DriveFolderNode = {
+  id: "root",
+  name: "My Drive",
+  path: "My Drive",
+  parentId: null,
+  sharedDriveId: null,
+  hasChildren: true,
+};
+
+interface FolderTreeNodeProps extends FolderBrowserProps {
+  node: DriveFolderNode;
   level: number;
+  expandedFolders: Set<string>;
+  onToggle: (folderId: string) => void;
+}
+
+// Renders one folder and, once expanded, fetches its children from the cached tree
+function FolderTreeNode({ node, level, expandedFolders, onToggle, selectedFolderId, onFolderSelect }: FolderTreeNodeProps) {
+  const isExpanded = expandedFolders.has(node.id);
+  const isSelected = selectedFolderId === node.id;
+
+  const { data, isLoading } = useQuery<FolderTreeResponse>({
+    queryKey: [treeUrl(node.id)],
+    enabled: isExpanded && node.hasChildren,
+  });
+
+  const children = data?.folders || [];
+  const ServerRootIcon = SERVER_PROVIDERS.find(provider => provider.rootId === node.id)?.icon;
+
+  return (
+    <div>
+      <div
+        className={cn(
+          "flex items-center py-2 px-2 hover:bg-accent rounded-sm cursor-pointer transition-colors",
+          isSelected && "bg-primary text-primary-foreground hover:bg-primary/90"
+        )}
+        style={{ paddingLeft: `${level * 16 + 8}px` }}
+      >
+        <div className="flex items-center flex-1" onClick={() => onFolderSelect(node.id)}>
+          {node.hasChildren ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="p-0 h-4 w-4 mr-1"
+              onClick={(e) => {
+                e.stopPropagation();
+                onToggle(node.id);
+              }}
+            >
+              {isExpanded ? (
+                <ChevronDown className="h-3 w-3" />
+              ) : (
+                <ChevronRight className="h-3 w-3" />
+              )}
+            </Button>
+          ) : (
+            <div className="w-5" />
+          )}
+
+          {node.id === "root" ? (
+            <Home className="h-4 w-4 mr-2 text-blue-600" />
+          ) : ServerRootIcon ? (
+            <ServerRootIcon className="h-4 w-4 mr-2 text-blue-600" />
+          ) : node.id === node.sharedDriveId ? (
+            <HardDrive className="h-4 w-4 mr-2 text-blue-600" />
+          ) : isExpanded ? (
+            <FolderOpen className="h-4 w-4 mr-2 text-blue-600" />
+          ) : (
+            <Folder className="h-4 w-4 mr-2 text-blue-600" />
+          )}
+
+          <span className="text-sm truncate">{node.name}</span>
+        </div>
+      </div>
+
+      {isExpanded && isLoading && (
+        <div className="py-1 text-xs text-muted-foreground" style={{ paddingLeft: `${(level + 1) * 16 + 28}px` }}>
+          Loading...
+        </div>
+      )}
+
+      {isExpanded && children.length > 0 && (
+        <div>
+          {children.map(child => (
+            <FolderTreeNode
+              key={child.id}
+              node={child}
+              level={level + 1}
+              expandedFolders={expandedFolders}
+              onToggle={onToggle}
+              selectedFolderId={selectedFolderId}
+              onFolderSelect={onFolderSelect}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
 }
 
 export default function FolderBrowser({ selectedFolderId, onFolderSelect }: FolderBrowserProps) {
   const [expandedFolders, setExpandedFolders] = useState<Set<string>>(new Set(["root"]));
-  
-  const { data: allFolders = [] } = useQuery({
-    queryKey: ["/api/drive/folders"],
-  });
 
-  // Build folder tree structure
-  const buildFolderTree = (folders: FolderInfo[]): FolderNode[] => {
-    const folderMap = new Map<string, FolderNode>();
-    const rootFolders: FolderNode[] = [];
-
-    // Add root folder
-    const rootFolder: FolderNode = {
-      id: "root",
-      name: "My Drive", 
-      path: "My Drive",
-      level: 0,
-      children: []
-    };
-    folderMap.set("root", rootFolder);
-    rootFolders.push(rootFolder);
-
-    // Create all folder nodes
-    folders.forEach(folder => {
-      // Clean path and calculate depth - Google Drive paths start with "/"
-      const cleanPath = folder.path.startsWith('/') ? folder.path.substring(1) : folder.path;
-      const pathParts = cleanPath.split("/").filter(part => part.trim() !== "");
-      const level = pathParts.length;
-      
-      const node: FolderNode = {
-        ...folder,
-        level: level,
-        children: []
-      };
-      folderMap.set(folder.id, node);
-    });
-
-    // Build parent-child relationships
-    folders.forEach(folder => {
-      const node = folderMap.get(folder.id)!;
-      const cleanPath = folder.path.startsWith('/') ? folder.path.substring(1) : folder.path;
-      const pathParts = cleanPath.split("/").filter(part => part.trim() !== "");
-      
-      if (pathParts.length === 1) {
-        // Top-level folder under root
-        if (!rootFolder.children!.some(child => child.id === node.id)) {
-          rootFolder.children!.push(node);
-        }
-      } else {
-        // Find parent folder by path
-        const parentPath = "/" + pathParts.slice(0, -1).join("/");
-        const parentFolder = folders.find(f => f.path === parentPath);
-        
-        if (parentFolder) {
-          const parentNode = folderMap.get(parentFolder.id);
-          if (parentNode && !parentNode.children!.some(child => child.id === node.id)) {
-            parentNode.children!.push(node);
-          }
-        } else {
-          // If parent not found, put under root
-          if (!rootFolder.children!.some(child => child.id === node.id)) {
-            rootFolder.children!.push(node);
-          }
-        }
-      }
-    });
-
-    // Sort all children alphabetically
-    const sortChildren = (node: FolderNode) => {
-      if (node.children && node.children.length > 0) {
-        node.children.sort((a, b) => a.name.localeCompare(b.name));
-        node.children.forEach(sortChildren);
-      }
-    };
-    sortChildren(rootFolder);
-
-    return rootFolders;
-  };
+  // Shared drives are roots of their own next to My Drive
+  const { data: sharedDrives } = useQuery<FolderTreeResponse>({
+    queryKey: [`/api/drive/tree?parentId=${SHARED_DRIVES_PARENT_ID}&depth=1`],
+  });
 
-  const folderTree = buildFolderTree(allFolders);
+  // Each answers only when the server is configured for it
+  const serverRoots = useQueries({
+    queries: SERVER_PROVIDERS.map(provider => ({ queryKey: [treeUrl(provider.rootId)] })),
+  });
+  const serverRootNodes: DriveFolderNode[] = serverRoots.flatMap(({ data }) => {
+    const tree = data as ServerFolderTreeResponse | undefined;
+    return tree ? [{
+      id: tree.root.id,
+      name: tree.root.name,
+      path: tree.root.name,
+      parentId: null,
+      sharedDriveId: null,
+      hasChildren: tree.folders.length > 0,
+    }] : [];
+  });
 
   const toggleFolder = (folderId: string) => {
     const newExpanded = new Set(expandedFolders);
@@ -114,75 +168,29 @@ export default function FolderBrowser({ selectedFolderId, onFolderSelect }: Fold
     setExpandedFolders(newExpanded);
   };
 
-  const renderFolderNode = (node: FolderNode) => {
-    const isExpanded = expandedFolders.has(node.id);
-    const isSelected = selectedFolderId === node.id;
-    const hasChildren = node.children && node.children.length > 0;
-
-    return (
-      <div key={node.id}>
-        <div
-          className={cn(
-            "flex items-center py-2 px-2 hover:bg-accent rounded-sm cursor-pointer transition-colors",
-            isSelected && "bg-primary text-primary-foreground hover:bg-primary/90"
-          )}
-          style={{ paddingLeft: `${node.level * 16 + 8}px` }}
-        >
-          <div className="flex items-center flex-1" onClick={() => onFolderSelect(node.id)}>
-            {hasChildren ? (
-              <Button
-                variant="ghost"
-                size="sm"
-                className="p-0 h-4 w-4 mr-1"
-                onClick={(e) => {
-                  e.stopPropagation();
-                  toggleFolder(node.id);
-                }}
-              >
-                {isExpanded ? (
-                  <ChevronDown className="h-3 w-3" />
-                ) : (
-                  <ChevronRight className="h-3 w-3" />
-                )}
-              </Button>
-            ) : (
-              <div className="w-5" />
-            )}
-            
-            {node.id === "root" ? (
-              <Home className="h-4 w-4 mr-2 text-blue-600" />
-            ) : isExpanded ? (
-              <FolderOpen className="h-4 w-4 mr-2 text-blue-600" />
-            ) : (
-              <Folder className="h-4 w-4 mr-2 text-blue-600" />
-            )}
-            
-            <span className="text-sm truncate">{node.name}</span>
-          </div>
-        </div>
-        
-        {isExpanded && hasChildren && (
-          <div>
-            {node.children!.map(renderFolderNode)}
-          </div>
-        )}
-      </div>
-    );
-  };
-
   return (
     <div className="border rounded-md">
       <div className="p-3 border-b bg-muted/30">
         <h4 className="text-sm font-medium">Browse Folders</h4>
         <p className="text-xs text-muted-foreground mt-1">
-          Expand "My Drive" and click on any folder to select it for processing
+          Expand "My Drive" or a shared drive and click on any folder to select it for processing
         </p>
       </div>
       <ScrollArea className="h-64">
         <div className="p-2">
-          {folderTree.map(renderFolderNode)}
+          {[ROOT_FOLDER, ...(sharedDrives?.folders || []), ...serverRootNodes].map(node => (
+            <FolderTreeNode
+              key={node.id}
+              node={node}
+              level={0}
+              expandedFolders={expandedFolders}
+              onToggle={toggleFolder}
+              selectedFolderId={selectedFolderId}
+              onFolderSelect={onFolderSelect}
+            />
+          ))}
         </div>
       </ScrollArea>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -5,10 +5,16 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { apiRequest } from "@/lib/queryClient";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { apiRequest, apiHeaders, getActiveGoogleAccountId, setActiveGoogleAccountId } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
 import { useToast } from "@/hooks/use-toast";
 import { Cloud, Settings, UserCircle, FolderOpen, Upload, Play, Edit, LogOut, Download, CloudUpload } from "lucide-react";
 import FolderBrowser from "./folder-browser";
+import WorkspaceSwitcher from "./workspace-switcher";
+import { type PublicGoogleAccount } from "@shared/schema";
 
 interface HeaderProps {
   currentFolderId: string;
@@ -16,13 +22,24 @@ interface HeaderProps {
   onStartProcessing: () => void;
 }
 
+interface AuthStatus {
+  isAuthenticated: boolean;
+  accounts: PublicGoogleAccount[];
+  defaultAccountId: number | null;
+}
+
+const LINK_ACCOUNT = "link";
+
 export default function Header({ currentFolderId, onFolderChange, onStartProcessing }: HeaderProps) {
   const [showFolderDialog, setShowFolderDialog] = useState(false);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user, logoutMutation } = useAuth();
+  const { can } = usePermissions();
+  const [activeAccountId, setActiveAccount] = useState(getActiveGoogleAccountId);
 
   // Check authentication status
-  const { data: authStatus, refetch: refetchAuthStatus } = useQuery({
+  const { data: authStatus, refetch: refetchAuthStatus } = useQuery<AuthStatus>({
     queryKey: ["/api/auth/status"],
     refetchInterval: 2000, // Check every 2 seconds
     staleTime: 0, // Always consider stale
@@ -31,13 +48,31 @@ export default function Header({ currentFolderId, onFolderChange, onStartProcess
 
   const isConnected = authStatus?.isAuthenticated || false;
 
-  const { data: folders } = useQuery({
-    queryKey: ["/api/drive/folders"],
-    enabled: isConnected,
-  });
+  // Folders and files belong to the Google account they were listed through,
+  // so everything except the logged-in user and workspaces is refetched with
+  // the new X-Google-Account-Id header, starting from no selected folder.
+  const switchAccount = (accountId: number | null) => {
+    setActiveGoogleAccountId(accountId);
+    setActiveAccount(accountId);
+    queryClient.resetQueries({
+      predicate: (query) => !["/api/user", "/api/workspaces", "/api/auth/status"].includes(String(query.queryKey[0])),
+    });
+    onFolderChange("");
+  };
+
+  // Fall back to the first linked account when none is picked, or the
+  // remembered one has been disconnected
+  useEffect(() => {
+    if (!authStatus) return;
+    if (!authStatus.accounts.some(account => account.id === activeAccountId)) {
+      if (authStatus.defaultAccountId !== activeAccountId) {
+        switchAccount(authStatus.defaultAccountId);
+      }
+    }
+  }, [authStatus, activeAccountId]);
 
-  const { data: userInfo } = useQuery({
-    queryKey: ["/api/auth/user"],
+  const { data: folders } = useQuery<{ id: string; path: string }[]>({
+    queryKey: ["/api/drive/folders"],
     enabled: isConnected,
   });
 
@@ -50,8 +85,8 @@ export default function Header({ currentFolderId, onFolderChange, onStartProcess
     const handleMessage = (event: MessageEvent) => {
       if (event.data.type === 'GOOGLE_AUTH_SUCCESS') {
         refetchAuthStatus();
-        queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
-        queryClient.invalidateQueries({ queryKey: ["/api/drive/folders"] });
+        // Continue with the account that was just linked
+        switchAccount(event.data.accountId);
         toast({
           title: "Connected to Google Drive",
           description: "You can now browse and process your files.",
@@ -67,7 +102,7 @@ export default function Header({ currentFolderId, onFolderChange, onStartProcess
 
     window.addEventListener('message', handleMessage);
     return () => window.removeEventListener('message', handleMessage);
-  }, [refetchAuthStatus, toast]);
+  }, [refetchAuthStatus, toast, onFolderChange]);
 
   const connectMutation = useMutation({
     mutationFn: async () => {
@@ -101,6 +136,7 @@ export default function Header({ currentFolderId, onFolderChange, onStartProcess
     mutationFn: async (formData: FormData) => {
       const response = await fetch("/api/templates/upload", {
         method: "POST",
+        headers: apiHeaders(),
         body: formData,
         credentials: "include",
       });
@@ -128,18 +164,17 @@ export default function Header({ currentFolderId, onFolderChange, onStartProcess
 
   
 
+  // Unlinks the active account; the fallback above then picks another one
   const disconnectMutation = useMutation({
-    mutationFn: async () => {
-      const response = await apiRequest("POST", "/api/auth/disconnect");
+    mutationFn: async (accountId: number) => {
+      const response = await apiRequest("DELETE", `/api/auth/google/accounts/${accountId}`);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       refetchAuthStatus();
-      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/drive/folders"] });
       toast({
         title: "Disconnected",
-        description: "You have been disconnected from Google Drive.",
+        description: data.message,
       });
     },
     onError: (error: any) => {
@@ -216,25 +251,42 @@ Category,Type of content,select,Portrait;Landscape;Product;Event;Other`;
         <div className="flex items-center space-x-2">
           <Cloud className="text-primary text-xl" />
           <h1 className="text-xl font-semibold text-foreground">Metadata Enhancer</h1>
+          <div className="pl-4">
+            <WorkspaceSwitcher />
+          </div>
         </div>
 
         <div className="flex items-center space-x-4">
           {isConnected ? (
             <div className="flex items-center space-x-2">
-              <div className="flex items-center space-x-2 px-3 py-1 bg-accent/10 rounded-full">
-                <div className="w-2 h-2 bg-accent rounded-full"></div>
-                <div className="flex flex-col">
-                  <span className="text-sm text-accent font-medium">Connected to Google Drive</span>
-                  {userInfo && (
-                    <span className="text-xs text-muted-foreground">
-                      {userInfo.name} ({userInfo.email})
-                    </span>
-                  )}
-                </div>
-              </div>
+              <Select
+                value={activeAccountId ? String(activeAccountId) : undefined}
+                onValueChange={(value) => {
+                  if (value === LINK_ACCOUNT) {
+                    connectMutation.mutate();
+                  } else {
+                    switchAccount(Number(value));
+                  }
+                }}
+              >
+                <SelectTrigger className="w-64 h-8">
+                  <div className="w-2 h-2 bg-accent rounded-full mr-2 shrink-0"></div>
+                  <SelectValue placeholder="Google account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {authStatus?.accounts.map(account => (
+                    <SelectItem key={account.id} value={String(account.id)}>
+                      {account.name ? `${account.name} (${account.email})` : account.email}
+                    </SelectItem>
+                  ))}
+                  <SelectSeparator />
+                  <SelectItem value={LINK_ACCOUNT}>Link another account...</SelectItem>
+                </SelectContent>
+              </Select>
               <Button 
-                onClick={() => disconnectMutation.mutate()}
-                disabled={disconnectMutation.isPending}
+                onClick={() => activeAccountId && disconnectMutation.mutate(activeAccountId)}
+                disabled={!activeAccountId || disconnectMutation.isPending}
+                title="Disconnect this Google account"
                 variant="ghost"
                 size="sm"
                 className="text-muted-foreground hover:text-destructive"
@@ -256,9 +308,24 @@ Category,Type of content,select,Portrait;Landscape;Product;Event;Other`;
           <Button variant="ghost" size="icon">
             <Settings className="h-4 w-4" />
           </Button>
-          <Button variant="ghost" size="icon">
-            <UserCircle className="h-5 w-5" />
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="icon">
+                <UserCircle className="h-5 w-5" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>{user?.username}</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign out
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
 
@@ -299,50 +366,55 @@ Category,Type of content,select,Portrait;Landscape;Product;Event;Other`;
             </div>
 
             <div className="flex items-center space-x-3">
-              <input
-                type="file"
-                accept=".csv,.xlsx"
-                onChange={handleFileUpload}
-                style={{ display: 'none' }}
-                id="csv-file-input"
-              />
-              <Button 
-                variant="outline" 
-                size="sm"
-                onClick={downloadSampleTemplate}
-              >
-                <Download className="h-4 w-4 mr-2" />
-                Download Sample
-              </Button>
-              <Button 
-                variant="outline" 
-                size="sm"
-                onClick={() => document.getElementById('csv-file-input')?.click()}
-                disabled={uploadTemplateMutation.isPending}
-              >
-                <Upload className="h-4 w-4 mr-2" />
-                {uploadTemplateMutation.isPending ? "Uploading..." : "Upload CSV Template"}
-              </Button>
-              
+              {can("templates.manage") && (
+                <>
+                  <input
+                    type="file"
+                    accept=".csv,.xlsx"
+                    onChange={handleFileUpload}
+                    style={{ display: 'none' }}
+                    id="csv-file-input"
+                  />
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={downloadSampleTemplate}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Download Sample
+                  </Button>
+                  <Button 
+                    variant="outline" 
+                    size="sm"
+                    onClick={() => document.getElementById('csv-file-input')?.click()}
+                    disabled={uploadTemplateMutation.isPending}
+                  >
+                    <Upload className="h-4 w-4 mr-2" />
+                    {uploadTemplateMutation.isPending ? "Uploading..." : "Upload CSV Template"}
+                  </Button>
+                </>
+              )}
 
               <Button 
                 onClick={onStartProcessing}
-                disabled={!currentFolderId}
+                disabled={!currentFolderId || !can("files.process")}
                 size="sm"
               >
                 <Play className="h-4 w-4 mr-2" />
                 Start Processing
               </Button>
 
-              <Button 
-                variant="outline"
-                onClick={() => bulkExportMutation.mutate()}
-                disabled={!currentFolderId || bulkExportMutation.isPending}
-                size="sm"
-              >
-                <CloudUpload className="h-4 w-4 mr-2" />
-                {bulkExportMutation.isPending ? "Exporting..." : "Export All to Drive"}
-              </Button>
+              {can("drive.export") && (
+                <Button 
+                  variant="outline"
+                  onClick={() => bulkExportMutation.mutate()}
+                  disabled={!currentFolderId || bulkExportMutation.isPending}
+                  size="sm"
+                >
+                  <CloudUpload className="h-4 w-4 mr-2" />
+                  {bulkExportMutation.isPending ? "Exporting..." : "Export All to Drive"}
+                </Button>
+              )}
             </div>
           </div>
         </div>
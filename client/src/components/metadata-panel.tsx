@@ -1,4 +1,4 @@
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useMutation, useQuery } from "@tanstack/react-query";
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
@@ -8,10 +8,53 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { usePermissions } from "@/hooks/use-permissions";
 import { useToast } from "@/hooks/use-toast";
-import { type DriveFile } from "@shared/schema";
-import { RefreshCw, Monitor, Upload, CheckCircle, Edit3, Save, X } from "lucide-react";
+import { type DriveFile, type ExistingMetadata, type MetadataRevision, type MetadataRevisionDiff } from "@shared/schema";
+import { RefreshCw, Monitor, Upload, CheckCircle, Edit3, Save, X, History, RotateCcw } from "lucide-react";
+
+function formatDuration(millis: number) {
+  const seconds = Math.round(millis / 1000);
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// Label and value of each detail Drive reported about the file
+function existingMetadataRows(metadata: ExistingMetadata | null): [string, string][] {
+  if (!metadata) return [];
+
+  const yesNo = (value: boolean) => value ? "Yes" : "No";
+  const exposure = [
+    metadata.exposureTime !== undefined &&
+      (metadata.exposureTime < 1 ? `1/${Math.round(1 / metadata.exposureTime)}s` : `${metadata.exposureTime}s`),
+    metadata.aperture !== undefined && `f/${metadata.aperture}`,
+    metadata.isoSpeed !== undefined && `ISO ${metadata.isoSpeed}`,
+    metadata.focalLength !== undefined && `${metadata.focalLength}mm`,
+  ].filter(Boolean).join(" · ");
+  const camera = [metadata.cameraMake, metadata.cameraModel].filter(Boolean).join(" ");
+  const location = metadata.location;
+
+  const rows: [string, string | false | undefined][] = [
+    ["Description", metadata.description],
+    ["Starred", metadata.starred !== undefined && yesNo(metadata.starred)],
+    ["Owners", metadata.owners?.join(", ")],
+    ["Shared", metadata.shared !== undefined && yesNo(metadata.shared)],
+    ["Shared by", metadata.sharedBy],
+    ["Camera", camera],
+    ["Exposure", exposure],
+    ["Flash", metadata.flashUsed !== undefined && yesNo(metadata.flashUsed)],
+    ["Taken", metadata.takenAt],
+    ["Location", location?.latitude !== undefined && location.longitude !== undefined &&
+      `${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`],
+    ["Rotation", metadata.rotation !== undefined && `${metadata.rotation * 90}°`],
+    ["Dimensions", metadata.width !== undefined && metadata.height !== undefined && `${metadata.width} × ${metadata.height}`],
+    ["Duration", metadata.durationMillis !== undefined && formatDuration(metadata.durationMillis)],
+  ];
+  return rows.filter((row): row is [string, string] => !!row[1]);
+}
 
 interface MetadataPanelProps {
   file: DriveFile | null;
@@ -20,6 +63,7 @@ interface MetadataPanelProps {
 
 export default function MetadataPanel({ file, onFileUpdate }: MetadataPanelProps) {
   const { toast } = useToast();
+  const { can } = usePermissions();
   const [isEditing, setIsEditing] = useState(false);
   const [editedMetadata, setEditedMetadata] = useState<any>(null);
 
@@ -88,6 +132,7 @@ export default function MetadataPanel({ file, onFileUpdate }: MetadataPanelProps
       setEditedMetadata(null);
       // Invalidate the query to refresh data
       queryClient.invalidateQueries({ queryKey: ['/api/files'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/files/${updatedFile.id}/revisions`] });
     },
     onError: (error: any) => {
       toast({
@@ -116,9 +161,7 @@ export default function MetadataPanel({ file, onFileUpdate }: MetadataPanelProps
     );
   }
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleString();
-  };
+  const existingRows = existingMetadataRows(file.existingMetadata as ExistingMetadata | null);
 
   const renderKeywords = (keywords: string[] | string) => {
     const keywordArray = Array.isArray(keywords) ? keywords : [keywords];
@@ -172,284 +215,446 @@ export default function MetadataPanel({ file, onFileUpdate }: MetadataPanelProps
         <h3 className="text-lg font-semibold text-foreground">File Details</h3>
       </div>
       
-      <ScrollArea className="flex-1">
-        <div className="p-6 space-y-6">
-          {/* File Preview */}
-          <Card>
-            <CardContent className="p-4">
-              {file.thumbnailLink ? (
-                <img 
-                  src={file.thumbnailLink} 
-                  alt={file.name}
-                  className="w-full h-32 object-cover rounded-lg border border-border"
-                />
-              ) : (
-                <div className="w-full h-32 bg-muted rounded-lg border border-border flex items-center justify-center">
-                  <span className="text-muted-foreground text-sm">No preview available</span>
-                </div>
-              )}
-              <div className="mt-3">
-                <h4 className="font-medium text-foreground">{file.name}</h4>
-                <p className="text-sm text-muted-foreground">{file.parentFolderId}</p>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Existing Metadata */}
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="text-base">Existing Metadata</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              <div className="flex justify-between items-start">
-                <span className="text-sm text-muted-foreground">Created</span>
-                <span className="text-sm text-foreground">{formatDate(file.createdTime.toString())}</span>
-              </div>
-              <div className="flex justify-between items-start">
-                <span className="text-sm text-muted-foreground">Modified</span>
-                <span className="text-sm text-foreground">{formatDate(file.modifiedTime.toString())}</span>
-              </div>
-              <div className="flex justify-between items-start">
-                <span className="text-sm text-muted-foreground">Size</span>
-                <span className="text-sm text-foreground">
-                  {(file.size / (1024 * 1024)).toFixed(2)} MB
-                </span>
-              </div>
-              <div className="flex justify-between items-start">
-                <span className="text-sm text-muted-foreground">Type</span>
-                <span className="text-sm text-foreground">{file.mimeType}</span>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* AI-Generated Metadata */}
-          {(file.aiGeneratedMetadata && Object.keys(file.aiGeneratedMetadata).length > 0) && (
-            <Card>
-              <CardHeader className="pb-3">
-                <div className="flex items-center justify-between">
-                  <CardTitle className="text-base">AI-Generated Metadata</CardTitle>
-                  <div className="flex items-center gap-2">
-                    <Badge variant="secondary" className="bg-accent/20 text-accent">Generated</Badge>
-                    {!isEditing && (
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={handleStartEditing}
-                        className="h-8 w-8 p-0"
-                      >
-                        <Edit3 className="h-4 w-4" />
-                      </Button>
-                    )}
+      <Tabs defaultValue="details" className="flex-1 flex flex-col overflow-hidden">
+        <div className="px-6 pt-4">
+          <TabsList className="w-full">
+            <TabsTrigger value="details" className="flex-1">Details</TabsTrigger>
+            <TabsTrigger value="history" className="flex-1">
+              <History className="h-3 w-3 mr-1" />
+              History
+            </TabsTrigger>
+          </TabsList>
+        </div>
+
+        <TabsContent value="history" className="flex-1 overflow-hidden mt-0">
+          <MetadataHistoryContent file={file} onFileUpdate={onFileUpdate} />
+        </TabsContent>
+
+        <TabsContent value="details" className="flex-1 overflow-hidden mt-0">
+          <ScrollArea className="h-full">
+            <div className="p-6 space-y-6">
+              {/* File Preview */}
+              <Card>
+                <CardContent className="p-4">
+                  {file.thumbnailLink ? (
+                    <img 
+                      src={file.thumbnailLink} 
+                      alt={file.name}
+                      className="w-full h-32 object-cover rounded-lg border border-border"
+                    />
+                  ) : (
+                    <div className="w-full h-32 bg-muted rounded-lg border border-border flex items-center justify-center">
+                      <span className="text-muted-foreground text-sm">No preview available</span>
+                    </div>
+                  )}
+                  <div className="mt-3">
+                    <h4 className="font-medium text-foreground">{file.name}</h4>
+                    <p className="text-sm text-muted-foreground">{file.parentFolderId}</p>
                   </div>
-                </div>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                {isEditing ? (
-                  <>
-                    {/* Editing Mode */}
-                    {Object.entries(editedMetadata || {}).map(([key, value]) => {
-                      const fieldName = key.charAt(0).toUpperCase() + key.slice(1);
-                      
-                      if (Array.isArray(value) || (typeof value === 'string' && value.includes(','))) {
-                        // Handle tags/keywords fields
-                        const items = Array.isArray(value) ? value : value.split(',').map(s => s.trim()).filter(Boolean);
-                        return (
-                          <div key={key}>
-                            <Label className="text-sm text-muted-foreground mb-2 block">{fieldName}</Label>
-                            <Input
-                              value={Array.isArray(value) ? value.join(', ') : value}
-                              onChange={(e) => updateMetadataArrayField(key, e.target.value)}
-                              placeholder="Enter tags separated by commas"
-                              className="text-sm"
-                            />
-                          </div>
-                        );
-                      } else if (key.toLowerCase().includes('description') || key.toLowerCase().includes('subject')) {
-                        // Handle description fields
-                        return (
-                          <div key={key}>
-                            <Label className="text-sm text-muted-foreground mb-2 block">{fieldName}</Label>
-                            <Textarea
-                              value={String(value)}
-                              onChange={(e) => updateMetadataField(key, e.target.value)}
-                              placeholder="Enter description"
-                              className="text-sm min-h-[80px]"
-                            />
-                          </div>
-                        );
-                      } else {
-                        // Handle regular text fields
-                        return (
-                          <div key={key}>
-                            <Label className="text-sm text-muted-foreground mb-2 block">{fieldName}</Label>
-                            <Input
-                              value={String(value)}
-                              onChange={(e) => updateMetadataField(key, e.target.value)}
-                              placeholder={`Enter ${fieldName.toLowerCase()}`}
-                              className="text-sm"
-                            />
-                          </div>
-                        );
-                      }
-                    })}
-                    
-                    {/* Save/Cancel buttons */}
-                    <div className="flex gap-2 pt-2">
-                      <Button
-                        size="sm"
-                        onClick={handleSaveMetadata}
-                        disabled={saveMetadataMutation.isPending}
-                        className="flex items-center gap-1"
-                      >
-                        <Save className="h-3 w-3" />
-                        {saveMetadataMutation.isPending ? 'Saving...' : 'Save'}
-                      </Button>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={handleCancelEditing}
-                        disabled={saveMetadataMutation.isPending}
-                        className="flex items-center gap-1"
-                      >
-                        <X className="h-3 w-3" />
-                        Cancel
-                      </Button>
+                </CardContent>
+              </Card>
+
+              {/* Existing Metadata */}
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">Existing Metadata</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {existingRows.length > 0 ? (
+                    existingRows.map(([label, value]) => (
+                      <div key={label} className="flex justify-between items-start gap-4">
+                        <span className="text-sm text-muted-foreground shrink-0">{label}</span>
+                        <span className="text-sm text-foreground text-right break-words">{value}</span>
+                      </div>
+                    ))
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Google Drive reported no description, sharing or media details.</p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* AI-Generated Metadata */}
+              {(file.aiGeneratedMetadata && Object.keys(file.aiGeneratedMetadata).length > 0) && (
+                <Card>
+                  <CardHeader className="pb-3">
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-base">AI-Generated Metadata</CardTitle>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary" className="bg-accent/20 text-accent">Generated</Badge>
+                        {!isEditing && can("metadata.edit") && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={handleStartEditing}
+                            className="h-8 w-8 p-0"
+                          >
+                            <Edit3 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
                     </div>
-                  </>
-                ) : (
-                  <>
-                    {/* Display Mode */}
-                    {Object.entries(file.aiGeneratedMetadata || {}).map(([key, value]) => {
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {isEditing ? (
+                      <>
+                        {/* Editing Mode */}
+                        {Object.entries(editedMetadata || {}).map(([key, value]) => {
+                          const fieldName = key.charAt(0).toUpperCase() + key.slice(1);
+                          
+                          if (Array.isArray(value) || (typeof value === 'string' && value.includes(','))) {
+                            // Handle tags/keywords fields
+                            const items = Array.isArray(value) ? value : value.split(',').map(s => s.trim()).filter(Boolean);
+                            return (
+                              <div key={key}>
+                                <Label className="text-sm text-muted-foreground mb-2 block">{fieldName}</Label>
+                                <Input
+                                  value={Array.isArray(value) ? value.join(', ') : value}
+                                  onChange={(e) => updateMetadataArrayField(key, e.target.value)}
+                                  placeholder="Enter tags separated by commas"
+                                  className="text-sm"
+                                />
+                              </div>
+                            );
+                          } else if (key.toLowerCase().includes('description') || key.toLowerCase().includes('subject')) {
+                            // Handle description fields
+                            return (
+                              <div key={key}>
+                                <Label className="text-sm text-muted-foreground mb-2 block">{fieldName}</Label>
+                                <Textarea
+                                  value={String(value)}
+                                  onChange={(e) => updateMetadataField(key, e.target.value)}
+                                  placeholder="Enter description"
+                                  className="text-sm min-h-[80px]"
+                                />
+                              </div>
+                            );
+                          } else {
+                            // Handle regular text fields
+                            return (
+                              <div key={key}>
+                                <Label className="text-sm text-muted-foreground mb-2 block">{fieldName}</Label>
+                                <Input
+                                  value={String(value)}
+                                  onChange={(e) => updateMetadataField(key, e.target.value)}
+                                  placeholder={`Enter ${fieldName.toLowerCase()}`}
+                                  className="text-sm"
+                                />
+                              </div>
+                            );
+                          }
+                        })}
+                        
+                        {/* Save/Cancel buttons */}
+                        <div className="flex gap-2 pt-2">
+                          <Button
+                            size="sm"
+                            onClick={handleSaveMetadata}
+                            disabled={saveMetadataMutation.isPending}
+                            className="flex items-center gap-1"
+                          >
+                            <Save className="h-3 w-3" />
+                            {saveMetadataMutation.isPending ? 'Saving...' : 'Save'}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={handleCancelEditing}
+                            disabled={saveMetadataMutation.isPending}
+                            className="flex items-center gap-1"
+                          >
+                            <X className="h-3 w-3" />
+                            Cancel
+                          </Button>
+                        </div>
+                      </>
+                    ) : (
+                      <>
+                        {/* Display Mode */}
+                        {Object.entries(file.aiGeneratedMetadata || {}).map(([key, value]) => {
+                          if (!value) return null;
+                          
+                          // Handle different field types
+                          const fieldName = key.charAt(0).toUpperCase() + key.slice(1);
+                          
+                          if (Array.isArray(value) || (typeof value === 'string' && value.includes(';'))) {
+                            // Handle tags/keywords fields
+                            const items = Array.isArray(value) ? value : value.split(';').map(s => s.trim()).filter(Boolean);
+                            return (
+                              <div key={key}>
+                                <Label className="text-sm text-muted-foreground mb-2 block">{fieldName}</Label>
+                                {renderKeywords(items)}
+                              </div>
+                            );
+                          } else if (key.toLowerCase().includes('description') || key.toLowerCase().includes('subject')) {
+                            // Handle description fields with styled background
+                            return (
+                              <div key={key}>
+                                <Label className="text-sm text-muted-foreground">{fieldName}</Label>
+                                <p className="text-sm text-foreground bg-muted p-3 rounded-lg mt-1">
+                                  {String(value)}
+                                </p>
+                              </div>
+                            );
+                          } else {
+                            // Handle regular text fields
+                            return (
+                              <div key={key}>
+                                <Label className="text-sm text-muted-foreground">{fieldName}</Label>
+                                <p className="text-sm text-foreground">{String(value)}</p>
+                              </div>
+                            );
+                          }
+                        })}
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Custom/Manual Metadata */}
+              {file.customMetadata && Object.keys(file.customMetadata).length > 0 && (
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">Custom Metadata</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {Object.entries(file.customMetadata).map(([key, value]) => {
                       if (!value) return null;
                       
-                      // Handle different field types
                       const fieldName = key.charAt(0).toUpperCase() + key.slice(1);
                       
-                      if (Array.isArray(value) || (typeof value === 'string' && value.includes(';'))) {
-                        // Handle tags/keywords fields
-                        const items = Array.isArray(value) ? value : value.split(';').map(s => s.trim()).filter(Boolean);
-                        return (
-                          <div key={key}>
-                            <Label className="text-sm text-muted-foreground mb-2 block">{fieldName}</Label>
-                            {renderKeywords(items)}
-                          </div>
-                        );
-                      } else if (key.toLowerCase().includes('description') || key.toLowerCase().includes('subject')) {
-                        // Handle description fields with styled background
-                        return (
-                          <div key={key}>
-                            <Label className="text-sm text-muted-foreground">{fieldName}</Label>
-                            <p className="text-sm text-foreground bg-muted p-3 rounded-lg mt-1">
-                              {String(value)}
-                            </p>
-                          </div>
-                        );
-                      } else {
-                        // Handle regular text fields
-                        return (
-                          <div key={key}>
-                            <Label className="text-sm text-muted-foreground">{fieldName}</Label>
-                            <p className="text-sm text-foreground">{String(value)}</p>
-                          </div>
-                        );
-                      }
+                      return (
+                        <div key={key} className="flex justify-between items-start">
+                          <span className="text-sm text-muted-foreground">{fieldName}</span>
+                          <span className="text-sm text-foreground">{String(value)}</span>
+                        </div>
+                      );
                     })}
-                  </>
-                )}
-              </CardContent>
-            </Card>
-          )}
+                  </CardContent>
+                </Card>
+              )}
 
-          {/* Custom/Manual Metadata */}
-          {file.customMetadata && Object.keys(file.customMetadata).length > 0 && (
-            <Card>
-              <CardHeader className="pb-3">
-                <CardTitle className="text-base">Custom Metadata</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {Object.entries(file.customMetadata).map(([key, value]) => {
-                  if (!value) return null;
-                  
-                  const fieldName = key.charAt(0).toUpperCase() + key.slice(1);
+              {/* Action Buttons */}
+              {file.status === "processed" && file.aiGeneratedMetadata && (
+                <div className="space-y-3">
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button variant="outline" className="w-full">
+                        <CheckCircle className="h-4 w-4 mr-2" />
+                        Verify Exported Metadata
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="max-w-4xl max-h-[80vh]">
+                      <DialogHeader>
+                        <DialogTitle>Exported Metadata Verification - All Files</DialogTitle>
+                      </DialogHeader>
+                      <AllFilesVerificationContent />
+                    </DialogContent>
+                  </Dialog>
                   
-                  return (
-                    <div key={key} className="flex justify-between items-start">
-                      <span className="text-sm text-muted-foreground">{fieldName}</span>
-                      <span className="text-sm text-foreground">{String(value)}</span>
-                    </div>
-                  );
-                })}
-              </CardContent>
-            </Card>
-          )}
+                  <Button 
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => regenerateMetadataMutation.mutate()}
+                    disabled={!can("files.process") || regenerateMetadataMutation.isPending || file.status === "processing"}
+                  >
+                    <RefreshCw className="h-4 w-4 mr-2" />
+                    {regenerateMetadataMutation.isPending ? "Regenerating..." : "Regenerate AI Metadata"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        </TabsContent>
+      </Tabs>
+    </aside>
+  );
+}
 
-          {/* Existing Drive Metadata */}
-          {file.existingMetadata && Object.keys(file.existingMetadata).length > 0 && (
-            <Card>
-              <CardHeader className="pb-3">
-                <CardTitle className="text-base">Drive Metadata</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {Object.entries(file.existingMetadata).map(([key, value]) => {
-                  if (!value) return null;
-                  
-                  const fieldName = key.charAt(0).toUpperCase() + key.slice(1);
-                  
-                  return (
-                    <div key={key} className="flex justify-between items-start">
-                      <span className="text-sm text-muted-foreground">{fieldName}</span>
-                      <span className="text-sm text-foreground">{String(value)}</span>
+const REVISION_SOURCE_LABELS: Record<string, string> = {
+  ai: "AI run",
+  manual: "Manual edit",
+  drive_restore: "Drive restore",
+  bulk: "Bulk processing",
+  revert: "Revert",
+};
+
+function formatRevisionValue(value: unknown) {
+  if (value === undefined || value === null) return "—";
+  return Array.isArray(value) ? value.join(", ") : typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function MetadataHistoryContent({ file, onFileUpdate }: MetadataPanelProps & { file: DriveFile }) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [selectedRevisionId, setSelectedRevisionId] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState("current");
+
+  const { data: revisions, isLoading } = useQuery<MetadataRevision[]>({
+    queryKey: [`/api/files/${file.id}/revisions`],
+  });
+
+  const diffUrl = selectedRevisionId
+    ? `/api/files/${file.id}/revisions/diff?from=${selectedRevisionId}${compareTo !== "current" ? `&to=${compareTo}` : ""}`
+    : null;
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<MetadataRevisionDiff>({
+    queryKey: [diffUrl],
+    enabled: !!diffUrl,
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const response = await apiRequest("POST", `/api/files/${file.id}/revisions/${revisionId}/revert`);
+      return response.json();
+    },
+    onSuccess: (updatedFile: DriveFile) => {
+      toast({
+        title: "Metadata reverted",
+        description: "The file's metadata has been restored from the selected revision.",
+      });
+      onFileUpdate(updatedFile);
+      setSelectedRevisionId(null);
+      setCompareTo("current");
+      queryClient.invalidateQueries({ queryKey: [`/api/files/${file.id}/revisions`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Revert failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="p-6 text-center text-sm text-muted-foreground">Loading revision history...</div>;
+  }
+
+  if (!revisions || revisions.length === 0) {
+    return (
+      <div className="p-6 text-center text-sm text-muted-foreground">
+        No metadata changes have been recorded for this file yet.
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-6 space-y-3">
+        {revisions.map((revision, index) => {
+          const isSelected = revision.id === selectedRevisionId;
+
+          return (
+            <Card
+              key={revision.id}
+              className={`cursor-pointer ${isSelected ? "border-primary" : ""}`}
+              onClick={() => {
+                setSelectedRevisionId(isSelected ? null : revision.id);
+                setCompareTo("current");
+              }}
+            >
+              <CardContent className="p-3 space-y-2">
+                <div className="flex items-center justify-between">
+                  <Badge variant="secondary">{REVISION_SOURCE_LABELS[revision.source] || revision.source}</Badge>
+                  {index === 0 && <span className="text-xs text-accent">Current</span>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  #{revision.id} · {new Date(revision.createdAt).toLocaleString()}
+                  {revision.templateId && ` · template ${revision.templateId}`}
+                  {revision.revertedFromId && ` · from #${revision.revertedFromId}`}
+                </p>
+
+                {isSelected && (
+                  <div className="space-y-3 pt-2" onClick={(e) => e.stopPropagation()}>
+                    <div>
+                      <Label className="text-xs text-muted-foreground mb-1 block">Compare with</Label>
+                      <Select value={compareTo} onValueChange={setCompareTo}>
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="current">Current metadata</SelectItem>
+                          {revisions
+                            .filter(other => other.id !== revision.id)
+                            .map(other => (
+                              <SelectItem key={other.id} value={String(other.id)}>
+                                #{other.id} · {REVISION_SOURCE_LABELS[other.source] || other.source}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
                     </div>
-                  );
-                })}
+
+                    {isDiffLoading ? (
+                      <p className="text-xs text-muted-foreground">Loading changes...</p>
+                    ) : diff && diff.changes.length === 0 ? (
+                      <p className="text-xs text-muted-foreground">No differences.</p>
+                    ) : (
+                      <div className="space-y-2">
+                        {diff?.changes.map(change => (
+                          <div key={`${change.section}.${change.field}`} className="bg-muted rounded-lg p-2 text-xs space-y-1">
+                            <div className="font-medium text-foreground">
+                              {change.section === "custom" ? "Custom · " : ""}{change.field}
+                              <span className="ml-2 text-muted-foreground">({change.change})</span>
+                            </div>
+                            {change.change !== "added" && (
+                              <p className="text-red-600 break-words">− {formatRevisionValue(change.before)}</p>
+                            )}
+                            {change.change !== "removed" && (
+                              <p className="text-green-700 break-words">+ {formatRevisionValue(change.after)}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {index > 0 && can("metadata.edit") && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="w-full"
+                        onClick={() => revertMutation.mutate(revision.id)}
+                        disabled={revertMutation.isPending}
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        {revertMutation.isPending ? "Reverting..." : "Revert to this revision"}
+                      </Button>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
-          )}
-
-          {/* Action Buttons */}
-          {file.status === "processed" && file.aiGeneratedMetadata && (
-            <div className="space-y-3">
-              <Dialog>
-                <DialogTrigger asChild>
-                  <Button variant="outline" className="w-full">
-                    <CheckCircle className="h-4 w-4 mr-2" />
-                    Verify Exported Metadata
-                  </Button>
-                </DialogTrigger>
-                <DialogContent className="max-w-4xl max-h-[80vh]">
-                  <DialogHeader>
-                    <DialogTitle>Exported Metadata Verification - All Files</DialogTitle>
-                  </DialogHeader>
-                  <AllFilesVerificationContent />
-                </DialogContent>
-              </Dialog>
-              
-              <Button 
-                variant="outline"
-                className="w-full"
-                onClick={() => regenerateMetadataMutation.mutate()}
-                disabled={regenerateMetadataMutation.isPending || file.status === "processing"}
-              >
-                <RefreshCw className="h-4 w-4 mr-2" />
-                {regenerateMetadataMutation.isPending ? "Regenerating..." : "Regenerate AI Metadata"}
-              </Button>
-            </div>
-          )}
-        </div>
-      </ScrollArea>
-    </aside>
+          );
+        })}
+      </div>
+    </ScrollArea>
   );
 }
 
+interface VerificationPage {
+  verifications: any[];
+  nextCursor: string | null;
+  total: number;
+}
+
 function AllFilesVerificationContent() {
-  const { data: allVerifications, isLoading, error } = useQuery({
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
     queryKey: ["/api/verify/all-files"],
-    queryFn: async () => {
-      const response = await apiRequest("GET", "/api/verify/all-files");
-      return response.json();
+    queryFn: async ({ pageParam }) => {
+      const url = pageParam
+        ? `/api/verify/all-files?cursor=${encodeURIComponent(pageParam)}`
+        : "/api/verify/all-files";
+      const response = await apiRequest("GET", url);
+      return await response.json() as VerificationPage;
     },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
 
+  const allVerifications = data?.pages.flatMap(page => page.verifications);
+  const totalFiles = data?.pages[0]?.total || 0;
+
   if (isLoading) {
     return <div className="p-4 text-center">Loading verification data for all files...</div>;
   }
@@ -467,7 +672,9 @@ function AllFilesVerificationContent() {
       <div className="space-y-6 p-4">
         {allVerifications.map((verification: any, index: number) => {
           const driveProperties = verification.driveProperties || {};
-          const hasExportedData = Object.keys(driveProperties).some(key => key.startsWith('AI_'));
+          // Read back from whichever targets the export profile wrote to
+          const driveMetadata: Record<string, unknown> = verification.driveMetadata || {};
+          const hasExportedData = Object.keys(driveMetadata).length > 0;
           
           return (
             <Card key={index} className="border">
@@ -486,14 +693,14 @@ function AllFilesVerificationContent() {
                   <div className="space-y-3">
                     <Label className="text-sm font-medium text-green-600">Metadata Successfully Exported to Google Drive</Label>
                     <div className="bg-muted rounded-lg p-3 space-y-2">
-                      {Object.entries(driveProperties)
-                        .filter(([key]) => key.startsWith('AI_'))
-                        .map(([key, value]) => (
-                          <div key={key}>
-                            <Label className="text-xs text-muted-foreground">{key}</Label>
-                            <p className="text-sm text-foreground break-words">{String(value)}</p>
-                          </div>
-                        ))}
+                      {Object.entries(driveMetadata).map(([key, value]) => (
+                        <div key={key}>
+                          <Label className="text-xs text-muted-foreground">{key}</Label>
+                          <p className="text-sm text-foreground break-words">
+                            {Array.isArray(value) ? value.join(', ') : String(value)}
+                          </p>
+                        </div>
+                      ))}
                     </div>
                     
                     {Object.keys(driveProperties).filter(key => !key.startsWith('AI_')).length > 0 && (
@@ -516,7 +723,7 @@ function AllFilesVerificationContent() {
                   <div>
                     <Label className="text-sm font-medium text-orange-600">No exported metadata found in Google Drive</Label>
                     <p className="text-sm text-muted-foreground mt-2">
-                      Use the bulk export feature to save metadata as Google Drive properties.
+                      Use the bulk export feature to save metadata to Google Drive.
                     </p>
                   </div>
                 )}
@@ -524,6 +731,13 @@ function AllFilesVerificationContent() {
             </Card>
           );
         })}
+        {hasNextPage && (
+          <div className="flex justify-center">
+            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+              {isFetchingNextPage ? "Loading..." : `Load more (${allVerifications.length} of ${totalFiles})`}
+            </Button>
+          </div>
+        )}
       </div>
     </ScrollArea>
   );
@@ -5,9 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Bot, X, Trash2 } from "lucide-react";
+import { type LLMProviderList, type ProcessingJob } from "@shared/schema";
 
 interface ProcessingModalProps {
   isOpen: boolean;
@@ -18,6 +20,9 @@ interface ProcessingModalProps {
 
 export default function ProcessingModal({ isOpen, onClose, folderId, onProcessingComplete }: ProcessingModalProps) {
   const [selectedTemplateId, setSelectedTemplateId] = useState<string>("default");
+  // "template" keeps the template's provider, or the server default
+  const [selectedProvider, setSelectedProvider] = useState<string>("template");
+  const [model, setModel] = useState("");
   const [currentJobId, setCurrentJobId] = useState<number | null>(null);
   const { toast } = useToast();
 
@@ -25,7 +30,12 @@ export default function ProcessingModal({ isOpen, onClose, folderId, onProcessin
     queryKey: ["/api/templates"],
   });
 
-  const { data: currentJob, refetch: refetchJob } = useQuery({
+  const { data: llm } = useQuery<LLMProviderList>({
+    queryKey: ["/api/llm/providers"],
+    enabled: isOpen,
+  });
+
+  const { data: currentJob, refetch: refetchJob } = useQuery<ProcessingJob>({
     queryKey: [`/api/jobs/${currentJobId}`],
     enabled: !!currentJobId,
     refetchInterval: 1000, // Poll every second when enabled
@@ -65,6 +75,8 @@ export default function ProcessingModal({ isOpen, onClose, folderId, onProcessin
       const response = await apiRequest("POST", "/api/process/batch", {
         folderId,
         templateId: selectedTemplateId !== "default" ? parseInt(selectedTemplateId) : undefined,
+        llmProvider: selectedProvider !== "template" ? selectedProvider : undefined,
+        llmModel: model.trim() || undefined,
       });
       return response.json();
     },
@@ -106,7 +118,7 @@ export default function ProcessingModal({ isOpen, onClose, folderId, onProcessin
 
   const getProgress = () => {
     if (!currentJob) return 0;
-    return (currentJob.processedFiles / currentJob.totalFiles) * 100;
+    return ((currentJob.processedFiles + currentJob.skippedFiles) / currentJob.totalFiles) * 100;
   };
 
   return (
@@ -170,6 +182,30 @@ export default function ProcessingModal({ isOpen, onClose, folderId, onProcessin
                 )}
               </div>
 
+              <div className="space-y-3">
+                <Label>AI Provider (Optional)</Label>
+                <div className="flex gap-2">
+                  <Select value={selectedProvider} onValueChange={setSelectedProvider}>
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="template">Template default</SelectItem>
+                      {llm?.providers.map(provider => (
+                        <SelectItem key={provider.name} value={provider.name} disabled={!provider.configured}>
+                          {provider.name}{provider.configured ? "" : " (not configured)"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={model}
+                    onChange={event => setModel(event.target.value)}
+                    placeholder={llm?.providers.find(provider => provider.name === selectedProvider)?.models.chat ?? "Default model"}
+                  />
+                </div>
+              </div>
+
               <div className="flex gap-3">
                 <Button 
                   onClick={() => startProcessingMutation.mutate()}
@@ -206,7 +242,7 @@ export default function ProcessingModal({ isOpen, onClose, folderId, onProcessin
                     <div className="flex justify-between text-sm text-muted-foreground mb-2">
                       <span>Progress</span>
                       <span>
-                        {currentJob.processedFiles} of {currentJob.totalFiles} files
+                        {currentJob.processedFiles + currentJob.skippedFiles} of {currentJob.totalFiles} files
                       </span>
                     </div>
                     <Progress value={getProgress()} className="h-2" />
@@ -227,6 +263,8 @@ export default function ProcessingModal({ isOpen, onClose, folderId, onProcessin
                       <p className="text-xs text-muted-foreground">
                         {currentJob.failedFiles > 0 && 
                           `${currentJob.failedFiles} files failed to process`}
+                        {currentJob.skippedFiles > 0 &&
+                          ` ${currentJob.skippedFiles} files skipped as too large`}
                       </p>
                     </div>
                   )}
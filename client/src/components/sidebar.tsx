@@ -8,6 +8,7 @@ import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { 
   Folder, 
   Clock, 
@@ -17,7 +18,9 @@ import {
   Edit,
   FolderOpen,
   Search,
-  Bot
+  Bot,
+  KeyRound,
+  ScrollText
 } from "lucide-react";
 
 export default function Sidebar() {
@@ -27,6 +30,7 @@ export default function Sidebar() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [location] = useLocation();
+  const { can } = usePermissions();
 
   const { data: jobs } = useQuery({
     queryKey: ["/api/jobs"],
@@ -41,6 +45,8 @@ export default function Sidebar() {
     { id: "ai-search", label: "AI Search", icon: Search, href: "/search" },
     { id: "agentic-search", label: "Agentic Search", icon: Bot, href: "/agentic-search" },
     { id: "properties", label: "Drive Properties", icon: FileText, href: "/properties" },
+    { id: "api-tokens", label: "API Tokens", icon: KeyRound, href: "/tokens" },
+    ...(can("audit.view") ? [{ id: "audit-log", label: "Audit Log", icon: ScrollText, href: "/audit" }] : []),
   ];
 
   const tabs = [
@@ -0,0 +1,132 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectSeparator, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, getActiveWorkspaceId, setActiveWorkspaceId } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Users } from "lucide-react";
+import { type Workspace } from "@shared/schema";
+
+interface WorkspacesResponse {
+  defaultWorkspaceId: number | null;
+  workspaces: Workspace[];
+}
+
+const NEW_WORKSPACE = "new";
+
+export default function WorkspaceSwitcher() {
+  const [activeWorkspaceId, setActiveWorkspace] = useState(getActiveWorkspaceId);
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [newWorkspaceName, setNewWorkspaceName] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<WorkspacesResponse>({
+    queryKey: ["/api/workspaces"],
+  });
+
+  // Apart from the logged-in user, every cached query belongs to the previous
+  // workspace, so they are reset and refetched with the new X-Workspace-Id header.
+  const switchWorkspace = (workspaceId: number) => {
+    setActiveWorkspaceId(workspaceId);
+    setActiveWorkspace(workspaceId);
+    queryClient.resetQueries({ predicate: (query) => query.queryKey[0] !== "/api/user" });
+  };
+
+  // Fall back to the user's default workspace when none is picked, or the
+  // remembered one is gone or belongs to another account
+  useEffect(() => {
+    if (!data || data.defaultWorkspaceId === null) return;
+    if (!data.workspaces.some(workspace => workspace.id === activeWorkspaceId)) {
+      switchWorkspace(data.defaultWorkspaceId);
+    }
+  }, [data, activeWorkspaceId]);
+
+  const createWorkspaceMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const response = await apiRequest("POST", "/api/workspaces", { name });
+      return response.json() as Promise<Workspace>;
+    },
+    onSuccess: (workspace) => {
+      setShowCreateDialog(false);
+      setNewWorkspaceName("");
+      switchWorkspace(workspace.id);
+      toast({
+        title: "Workspace created",
+        description: `Switched to "${workspace.name}".`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Could not create workspace",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <>
+      <Select
+        value={activeWorkspaceId ? String(activeWorkspaceId) : undefined}
+        onValueChange={(value) => {
+          if (value === NEW_WORKSPACE) {
+            setShowCreateDialog(true);
+          } else {
+            switchWorkspace(Number(value));
+          }
+        }}
+      >
+        <SelectTrigger className="w-48 h-8">
+          <Users className="h-4 w-4 mr-2 text-muted-foreground" />
+          <SelectValue placeholder="Workspace" />
+        </SelectTrigger>
+        <SelectContent>
+          {data?.workspaces.map(workspace => (
+            <SelectItem key={workspace.id} value={String(workspace.id)}>
+              {workspace.name}
+            </SelectItem>
+          ))}
+          <SelectSeparator />
+          <SelectItem value={NEW_WORKSPACE}>New workspace...</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>New Workspace</DialogTitle>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (newWorkspaceName.trim()) {
+                createWorkspaceMutation.mutate(newWorkspaceName.trim());
+              }
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="workspace-name">Name</Label>
+              <Input
+                id="workspace-name"
+                value={newWorkspaceName}
+                onChange={(e) => setNewWorkspaceName(e.target.value)}
+                placeholder="Marketing team"
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={!newWorkspaceName.trim() || createWorkspaceMutation.isPending}>
+                {createWorkspaceMutation.isPending ? "Creating..." : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
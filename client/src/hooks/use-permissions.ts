@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { type Workspace, type WorkspacePermission, type WorkspaceRole } from "@shared/schema";
+
+interface CurrentWorkspace {
+  workspace: Workspace;
+  role: WorkspaceRole;
+  permissions: WorkspacePermission[];
+}
+
+// The caller's role in the active workspace. can() is false until the role
+// has loaded, so restricted actions never flash up for viewers.
+export function usePermissions() {
+  const { data, isLoading } = useQuery<CurrentWorkspace>({
+    queryKey: ["/api/workspaces/current"],
+  });
+
+  return {
+    role: data?.role,
+    isLoading,
+    can: (permission: WorkspacePermission) => data?.permissions.includes(permission) ?? false,
+  };
+}
@@ -1,5 +1,42 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+const ACTIVE_WORKSPACE_KEY = "activeWorkspaceId";
+
+export function getActiveWorkspaceId(): number | null {
+  const stored = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+  return stored ? Number(stored) : null;
+}
+
+export function setActiveWorkspaceId(workspaceId: number) {
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, String(workspaceId));
+}
+
+const ACTIVE_GOOGLE_ACCOUNT_KEY = "activeGoogleAccountId";
+
+export function getActiveGoogleAccountId(): number | null {
+  const stored = localStorage.getItem(ACTIVE_GOOGLE_ACCOUNT_KEY);
+  return stored ? Number(stored) : null;
+}
+
+export function setActiveGoogleAccountId(accountId: number | null) {
+  if (accountId === null) {
+    localStorage.removeItem(ACTIVE_GOOGLE_ACCOUNT_KEY);
+  } else {
+    localStorage.setItem(ACTIVE_GOOGLE_ACCOUNT_KEY, String(accountId));
+  }
+}
+
+// Every API call carries the active workspace and Google account; the server
+// falls back to the user's first of each when none has been picked yet.
+export function apiHeaders(): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const workspaceId = getActiveWorkspaceId();
+  if (workspaceId) headers["X-Workspace-Id"] = String(workspaceId);
+  const googleAccountId = getActiveGoogleAccountId();
+  if (googleAccountId) headers["X-Google-Account-Id"] = String(googleAccountId);
+  return headers;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -14,7 +51,7 @@ export async function apiRequest(
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { ...apiHeaders(), "Content-Type": "application/json" } : apiHeaders(),
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -30,6 +67,7 @@ export const getQueryFn: <T>(options: {
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
     const res = await fetch(queryKey[0] as string, {
+      headers: apiHeaders(),
       credentials: "include",
     });
 
@@ -8,6 +8,7 @@ import { Separator } from "@/components/ui/separator";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Loader2, Search, Bot, FileText, Image, Video, File, ExternalLink, FolderOpen, ChevronDown, ChevronRight } from "lucide-react";
 import { DriveFile } from "@shared/schema";
+import { apiHeaders } from "@/lib/queryClient";
 import Header from "@/components/header";
 import Sidebar from "@/components/sidebar";
 import FolderBrowser from "@/components/folder-browser";
@@ -35,7 +36,7 @@ export default function AgenticSearchPage() {
         q: searchQuery,
         folderId: currentFolderId
       });
-      const response = await fetch(`/api/agentic-search?${params.toString()}`);
+      const response = await fetch(`/api/agentic-search?${params.toString()}`, { headers: apiHeaders() });
       if (!response.ok) {
         throw new Error('Failed to perform agentic search');
       }
@@ -53,7 +54,7 @@ export default function AgenticSearchPage() {
   const { data: analytics } = useQuery({
     queryKey: ["/api/analytics", currentFolderId],
     queryFn: async () => {
-      const response = await fetch(`/api/analytics/${currentFolderId}`);
+      const response = await fetch(`/api/analytics/${currentFolderId}`, { headers: apiHeaders() });
       if (!response.ok) throw new Error('Failed to fetch analytics');
       return response.json();
     },
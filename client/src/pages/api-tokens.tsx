@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, KeyRound, RefreshCw, Trash2 } from "lucide-react";
+import Header from "@/components/header";
+import Sidebar from "@/components/sidebar";
+import { API_TOKEN_SCOPES, type ApiTokenScope, type PublicApiToken } from "@shared/schema";
+
+const SCOPE_DESCRIPTIONS: Record<ApiTokenScope, string> = {
+  "read-only": "Read files, folders, templates, jobs and search",
+  process: "Run AI processing and edit metadata and templates",
+  export: "Write metadata back to Google Drive",
+  admin: "Everything, including workspaces, backups and tokens",
+};
+
+function formatDate(value: string | Date | null) {
+  return value ? new Date(value).toLocaleString() : "Never";
+}
+
+export default function ApiTokensPage() {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read-only"]);
+  const [revealedToken, setRevealedToken] = useState<PublicApiToken | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: tokens, isLoading } = useQuery<PublicApiToken[]>({
+    queryKey: ["/api/tokens"],
+  });
+
+  const onTokenIssued = (token: PublicApiToken) => {
+    setRevealedToken(token);
+    queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Token request failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/tokens", { name, scopes });
+      return response.json() as Promise<PublicApiToken>;
+    },
+    onSuccess: (token) => {
+      setName("");
+      setScopes(["read-only"]);
+      onTokenIssued(token);
+    },
+    onError,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/tokens/${id}/rotate`);
+      return response.json() as Promise<PublicApiToken>;
+    },
+    onSuccess: onTokenIssued,
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      toast({ title: "Token revoked", description: "Requests using it are now rejected." });
+    },
+    onError,
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(other => other !== scope));
+  };
+
+  const copyToken = async () => {
+    if (!revealedToken?.token) return;
+    await navigator.clipboard.writeText(revealedToken.token);
+    toast({ title: "Copied", description: "The token is on your clipboard." });
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        currentFolderId=""
+        onFolderChange={() => {}}
+        onStartProcessing={() => {}}
+      />
+      <div className="flex">
+        <Sidebar />
+        <div className="flex-1 p-6">
+          <div className="max-w-4xl mx-auto space-y-6">
+            <div>
+              <h1 className="text-3xl font-bold mb-2">API Tokens</h1>
+              <p className="text-muted-foreground">
+                Personal tokens let scripts and CI jobs call the API as you. Send them as{" "}
+                <code className="text-sm">Authorization: Bearer &lt;token&gt;</code>.
+              </p>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>New Token</CardTitle>
+                <CardDescription>Give each script its own token with only the scopes it needs.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <form
+                  className="space-y-4"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    if (name.trim() && scopes.length > 0) {
+                      createMutation.mutate();
+                    }
+                  }}
+                >
+                  <div className="space-y-2">
+                    <Label htmlFor="token-name">Name</Label>
+                    <Input
+                      id="token-name"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="Nightly processing job"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Scopes</Label>
+                    {API_TOKEN_SCOPES.map(scope => (
+                      <div key={scope} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`scope-${scope}`}
+                          checked={scopes.includes(scope)}
+                          onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                        />
+                        <Label htmlFor={`scope-${scope}`} className="font-normal">
+                          <span className="font-medium">{scope}</span>
+                          <span className="text-muted-foreground"> - {SCOPE_DESCRIPTIONS[scope]}</span>
+                        </Label>
+                      </div>
+                    ))}
+                  </div>
+                  <Button type="submit" disabled={!name.trim() || scopes.length === 0 || createMutation.isPending}>
+                    <KeyRound className="h-4 w-4 mr-2" />
+                    {createMutation.isPending ? "Creating..." : "Create token"}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Your Tokens</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {isLoading ? (
+                  <p className="text-muted-foreground">Loading tokens...</p>
+                ) : !tokens?.length ? (
+                  <p className="text-muted-foreground">You have no API tokens yet.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Token</TableHead>
+                        <TableHead>Scopes</TableHead>
+                        <TableHead>Last used</TableHead>
+                        <TableHead className="text-right">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {tokens.map(token => (
+                        <TableRow key={token.id}>
+                          <TableCell className="font-medium">{token.name}</TableCell>
+                          <TableCell>
+                            <code className="text-xs">{token.tokenPrefix}...</code>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {token.scopes.map(scope => (
+                                <Badge key={scope} variant="outline">{scope}</Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">{formatDate(token.lastUsedAt)}</TableCell>
+                          <TableCell className="text-right space-x-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Rotate"
+                              onClick={() => rotateMutation.mutate(token.id)}
+                              disabled={rotateMutation.isPending}
+                            >
+                              <RefreshCw className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Revoke"
+                              className="text-muted-foreground hover:text-destructive"
+                              onClick={() => revokeMutation.mutate(token.id)}
+                              disabled={revokeMutation.isPending}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      <Dialog open={!!revealedToken} onOpenChange={(open) => !open && setRevealedToken(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Copy your token</DialogTitle>
+            <DialogDescription>
+              This is the only time "{revealedToken?.name}" is shown. Store it somewhere safe.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex gap-2">
+            <Input readOnly value={revealedToken?.token ?? ""} className="font-mono text-xs" />
+            <Button variant="outline" size="icon" onClick={copyToken}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedToken(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
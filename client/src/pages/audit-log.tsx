@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest } from "@/lib/queryClient";
+import { usePermissions } from "@/hooks/use-permissions";
+import Header from "@/components/header";
+import Sidebar from "@/components/sidebar";
+import { auditActions, type AuditEventPage } from "@shared/schema";
+
+const ALL_ACTIONS = "all";
+
+interface AuditFilters {
+  action: string;
+  targetId: string;
+  requestId: string;
+  after: string;
+  before: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { action: ALL_ACTIONS, targetId: "", requestId: "", after: "", before: "" };
+
+function buildAuditUrl(filters: AuditFilters, cursor: number | null) {
+  const params = new URLSearchParams();
+  if (filters.action !== ALL_ACTIONS) params.set("actions", filters.action);
+  if (filters.targetId.trim()) params.set("targetId", filters.targetId.trim());
+  if (filters.requestId.trim()) params.set("requestId", filters.requestId.trim());
+  if (filters.after) params.set("after", new Date(filters.after).toISOString());
+  if (filters.before) params.set("before", new Date(filters.before).toISOString());
+  if (cursor !== null) params.set("cursor", String(cursor));
+
+  const query = params.toString();
+  return query ? `/api/audit?${query}` : "/api/audit";
+}
+
+function formatSummary(summary: unknown) {
+  if (summary === null || summary === undefined) return "";
+  return JSON.stringify(summary);
+}
+
+export default function AuditLogPage() {
+  const [draft, setDraft] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const { can, isLoading: permissionsLoading } = usePermissions();
+  const canView = can("audit.view");
+
+  const { data, isLoading, error, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/audit", filters],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest("GET", buildAuditUrl(filters, pageParam));
+      return await response.json() as AuditEventPage;
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: canView,
+  });
+
+  const events = data?.pages.flatMap(page => page.events) ?? [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header
+        currentFolderId=""
+        onFolderChange={() => {}}
+        onStartProcessing={() => {}}
+      />
+      <div className="flex">
+        <Sidebar />
+        <div className="flex-1 p-6">
+          <div className="max-w-6xl mx-auto space-y-6">
+            <div>
+              <h1 className="text-3xl font-bold mb-2">Audit Log</h1>
+              <p className="text-muted-foreground">
+                Every template change, metadata edit, processing run, Drive export and Google
+                connection in this workspace, newest first.
+              </p>
+            </div>
+
+            {!permissionsLoading && !canView ? (
+              <Card>
+                <CardContent className="pt-6">
+                  <p className="text-muted-foreground">Only reviewers and admins can view the audit log.</p>
+                </CardContent>
+              </Card>
+            ) : (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Filters</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <form
+                      className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        setFilters(draft);
+                      }}
+                    >
+                      <div className="space-y-2">
+                        <Label>Action</Label>
+                        <Select value={draft.action} onValueChange={(action) => setDraft({ ...draft, action })}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={ALL_ACTIONS}>All actions</SelectItem>
+                            {auditActions.map(action => (
+                              <SelectItem key={action} value={action}>{action}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="audit-target">Target id</Label>
+                        <Input
+                          id="audit-target"
+                          value={draft.targetId}
+                          onChange={(e) => setDraft({ ...draft, targetId: e.target.value })}
+                          placeholder="File or template id"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="audit-request">Request id</Label>
+                        <Input
+                          id="audit-request"
+                          value={draft.requestId}
+                          onChange={(e) => setDraft({ ...draft, requestId: e.target.value })}
+                          placeholder="X-Request-Id"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="audit-after">From</Label>
+                        <Input
+                          id="audit-after"
+                          type="datetime-local"
+                          value={draft.after}
+                          onChange={(e) => setDraft({ ...draft, after: e.target.value })}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="audit-before">To</Label>
+                        <Input
+                          id="audit-before"
+                          type="datetime-local"
+                          value={draft.before}
+                          onChange={(e) => setDraft({ ...draft, before: e.target.value })}
+                        />
+                      </div>
+                      <div className="md:col-span-5 flex gap-2">
+                        <Button type="submit">Apply</Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => {
+                            setDraft(EMPTY_FILTERS);
+                            setFilters(EMPTY_FILTERS);
+                          }}
+                        >
+                          Reset
+                        </Button>
+                      </div>
+                    </form>
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Events</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {isLoading || permissionsLoading ? (
+                      <p className="text-muted-foreground">Loading audit events...</p>
+                    ) : error ? (
+                      <p className="text-destructive">{(error as Error).message}</p>
+                    ) : events.length === 0 ? (
+                      <p className="text-muted-foreground">No audit events match these filters.</p>
+                    ) : (
+                      <>
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead>Time</TableHead>
+                              <TableHead>Actor</TableHead>
+                              <TableHead>Action</TableHead>
+                              <TableHead>Target</TableHead>
+                              <TableHead>Before / After</TableHead>
+                              <TableHead>Request</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {events.map(event => (
+                              <TableRow key={event.id}>
+                                <TableCell className="text-sm whitespace-nowrap">
+                                  {new Date(event.createdAt).toLocaleString()}
+                                </TableCell>
+                                <TableCell className="text-sm">
+                                  {event.actorUsername ?? "Unknown"}
+                                  {event.actorApiTokenId !== null && (
+                                    <Badge variant="outline" className="ml-2">API token</Badge>
+                                  )}
+                                </TableCell>
+                                <TableCell>
+                                  <Badge variant="secondary">{event.action}</Badge>
+                                </TableCell>
+                                <TableCell className="text-sm">
+                                  <span className="text-muted-foreground">{event.targetType}</span>{" "}
+                                  <span className="break-all">{event.targetIds.join(", ")}</span>
+                                </TableCell>
+                                <TableCell className="max-w-md">
+                                  {event.before !== null && (
+                                    <code className="block text-xs text-muted-foreground break-all">
+                                      - {formatSummary(event.before)}
+                                    </code>
+                                  )}
+                                  {event.after !== null && (
+                                    <code className="block text-xs break-all">
+                                      + {formatSummary(event.after)}
+                                    </code>
+                                  )}
+                                </TableCell>
+                                <TableCell>
+                                  <button
+                                    type="button"
+                                    className="text-xs font-mono text-muted-foreground hover:underline"
+                                    title="Show every event from this request"
+                                    onClick={() => {
+                                      const next = { ...EMPTY_FILTERS, requestId: event.requestId ?? "" };
+                                      setDraft(next);
+                                      setFilters(next);
+                                    }}
+                                    disabled={!event.requestId}
+                                  >
+                                    {event.requestId?.slice(0, 8) ?? "-"}
+                                  </button>
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                        {hasNextPage && (
+                          <div className="flex justify-center mt-4">
+                            <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                              {isFetchingNextPage ? "Loading..." : "Load more"}
+                            </Button>
+                          </div>
+                        )}
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,27 +1,83 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
 import Header from "@/components/header";
 import Sidebar from "@/components/sidebar";
 import FileGrid from "@/components/file-grid";
 import MetadataPanel from "@/components/metadata-panel";
 import ProcessingModal from "@/components/processing-modal";
-import { type DriveFile } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { type DriveFile, type DriveFilePage } from "@shared/schema";
+
+const PAGE_SIZE = 100;
+
+// Maps the file grid's filter and sort choices onto /api/drive/files query params
+const FILTER_PARAMS: Record<string, Record<string, string>> = {
+  all: {},
+  images: { type: "image" },
+  videos: { type: "video" },
+  audio: { type: "audio" },
+  pdfs: { type: "pdf" },
+  documents: { type: "document" },
+  spreadsheets: { type: "spreadsheet" },
+  presentations: { type: "presentation" },
+  text: { type: "text" },
+  archives: { type: "archive" },
+  processed: { status: "processed" },
+  unprocessed: { status: "pending" },
+};
+
+interface FolderStats {
+  total: number;
+  processed: number;
+  processing: number;
+  pending: number;
+  error: number;
+}
 
 export default function Dashboard() {
   const [selectedFile, setSelectedFile] = useState<DriveFile | null>(null);
   const [currentFolderId, setCurrentFolderId] = useState<string>("");
   const [showProcessingModal, setShowProcessingModal] = useState(false);
+  const [filter, setFilter] = useState("all");
+  const [sort, setSort] = useState("name");
 
   const { data: folders } = useQuery({
     queryKey: ["/api/drive/folders"],
     enabled: false, // Will be enabled after authentication
   });
 
-  const { data: files, refetch: refetchFiles } = useQuery({
-    queryKey: [`/api/drive/files/${currentFolderId}`, currentFolderId],
+  const {
+    data: filePages,
+    refetch: refetchFileList,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [`/api/drive/files/${currentFolderId}`, currentFolderId, filter, sort],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ ...FILTER_PARAMS[filter], sort, limit: String(PAGE_SIZE) });
+      if (pageParam) params.set("cursor", pageParam);
+      const response = await apiRequest("GET", `/api/drive/files/${currentFolderId}?${params.toString()}`);
+      return await response.json() as DriveFilePage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!currentFolderId,
+  });
+
+  const { data: stats, refetch: refetchStats } = useQuery<FolderStats>({
+    queryKey: [`/api/drive/files/${currentFolderId}/stats`],
     enabled: !!currentFolderId,
   });
 
+  const files = filePages?.pages.flatMap(page => page.files) || [];
+  const matchingFiles = filePages?.pages[0]?.total || 0;
+
+  const refetchFiles = () => {
+    refetchFileList();
+    refetchStats();
+  };
+
   const handleFileSelect = (file: DriveFile) => {
     setSelectedFile(file);
   };
@@ -42,7 +98,16 @@ export default function Dashboard() {
         <Sidebar />
         
         <FileGrid
-          files={files || []}
+          files={files}
+          totalFiles={matchingFiles}
+          stats={stats}
+          filter={filter}
+          onFilterChange={setFilter}
+          sort={sort}
+          onSortChange={setSort}
+          hasMore={!!hasNextPage}
+          isLoadingMore={isFetchingNextPage}
+          onLoadMore={() => fetchNextPage()}
           onFileSelect={handleFileSelect}
           selectedFileId={selectedFile?.id}
           currentFolderId={currentFolderId}
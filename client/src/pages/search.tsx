@@ -8,7 +8,8 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Search, FolderOpen, Image, Tag, Calendar, ExternalLink } from "lucide-react";
-import { type DriveFile } from "@shared/schema";
+import { type DriveFile, type DriveFilePage } from "@shared/schema";
+import { apiHeaders } from "@/lib/queryClient";
 import FolderBrowser from "@/components/folder-browser";
 import Header from "@/components/header";
 import Sidebar from "@/components/sidebar";
@@ -17,6 +18,8 @@ export default function SearchPage() {
   const [selectedFolderId, setSelectedFolderId] = useState("root");
   const [searchQuery, setSearchQuery] = useState("");
   const [searchResults, setSearchResults] = useState<DriveFile[]>([]);
+  const [totalResults, setTotalResults] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   const [showFolderDialog, setShowFolderDialog] = useState(false);
 
@@ -29,7 +32,7 @@ export default function SearchPage() {
   const { data: analytics } = useQuery({
     queryKey: ["/api/analytics", selectedFolderId],
     queryFn: async () => {
-      const response = await fetch(`/api/analytics/${selectedFolderId}`);
+      const response = await fetch(`/api/analytics/${selectedFolderId}`, { headers: apiHeaders() });
       if (!response.ok) throw new Error('Failed to fetch analytics');
       return response.json();
     },
@@ -38,23 +41,27 @@ export default function SearchPage() {
   const selectedFolder = (folders as any)?.find?.((f: any) => f.id === selectedFolderId);
   const folderName = selectedFolder?.name || "Root";
 
-  const handleSearch = async () => {
+  const handleSearch = async (cursor?: string) => {
     if (!searchQuery.trim()) return;
     
     setIsSearching(true);
     try {
       const response = await fetch(`/api/search`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { ...apiHeaders(), 'Content-Type': 'application/json' },
         body: JSON.stringify({
           query: searchQuery,
-          folderId: selectedFolderId
+          folderId: selectedFolderId,
+          limit: 60,
+          cursor
         })
       });
       
       if (response.ok) {
-        const results = await response.json();
-        setSearchResults(results);
+        const page: DriveFilePage = await response.json();
+        setSearchResults(previous => cursor ? [...previous, ...page.files] : page.files);
+        setTotalResults(page.total);
+        setNextCursor(page.nextCursor);
       }
     } catch (error) {
       console.error('Search failed:', error);
@@ -161,6 +168,7 @@ export default function SearchPage() {
                             setSelectedFolderId(folderId);
                             setShowFolderDialog(false);
                             setSearchResults([]); // Clear previous results
+                            setNextCursor(null);
                           }}
                         />
                       </div>
@@ -188,7 +196,7 @@ export default function SearchPage() {
                     className="flex-1"
                   />
                   <Button 
-                    onClick={handleSearch}
+                    onClick={() => handleSearch()}
                     disabled={isSearching || !searchQuery.trim()}
                   >
                     {isSearching ? "Searching..." : "Search"}
@@ -209,7 +217,7 @@ export default function SearchPage() {
             {searchResults.length > 0 && (
               <Card>
                 <CardHeader>
-                  <CardTitle>Search Results ({searchResults.length} found)</CardTitle>
+                  <CardTitle>Search Results ({totalResults} found)</CardTitle>
                 </CardHeader>
                 <CardContent>
                   <ScrollArea className="h-[600px]">
@@ -218,6 +226,17 @@ export default function SearchPage() {
                         <SearchResultCard key={file.id} file={file} />
                       ))}
                     </div>
+                    {nextCursor && (
+                      <div className="flex justify-center mt-4">
+                        <Button
+                          variant="outline"
+                          onClick={() => handleSearch(nextCursor)}
+                          disabled={isSearching}
+                        >
+                          {isSearching ? "Loading..." : `Load more (${searchResults.length} of ${totalResults})`}
+                        </Button>
+                      </div>
+                    )}
                   </ScrollArea>
                 </CardContent>
               </Card>
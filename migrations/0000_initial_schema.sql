@@ -0,0 +1,49 @@
+CREATE TABLE "drive_files" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"drive_id" text NOT NULL,
+	"name" text NOT NULL,
+	"type" text NOT NULL,
+	"size" integer NOT NULL,
+	"mime_type" text NOT NULL,
+	"parent_folder_id" text,
+	"web_view_link" text,
+	"thumbnail_link" text,
+	"created_time" timestamp NOT NULL,
+	"modified_time" timestamp NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"processing_error" text,
+	"existing_metadata" jsonb,
+	"ai_generated_metadata" jsonb,
+	"custom_metadata" jsonb,
+	CONSTRAINT "drive_files_drive_id_unique" UNIQUE("drive_id")
+);
+--> statement-breakpoint
+CREATE TABLE "metadata_templates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"fields" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "processing_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"folder_id" text NOT NULL,
+	"template_id" integer,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"total_files" integer NOT NULL,
+	"processed_files" integer DEFAULT 0 NOT NULL,
+	"failed_files" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	"error_message" text
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD CONSTRAINT "processing_jobs_template_id_metadata_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."metadata_templates"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
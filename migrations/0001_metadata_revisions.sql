@@ -0,0 +1,14 @@
+CREATE TABLE "metadata_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"file_id" integer NOT NULL,
+	"source" text NOT NULL,
+	"template_id" integer,
+	"reverted_from_id" integer,
+	"ai_generated_metadata" jsonb,
+	"custom_metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "metadata_revisions" ADD CONSTRAINT "metadata_revisions_file_id_drive_files_id_fk" FOREIGN KEY ("file_id") REFERENCES "public"."drive_files"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "metadata_revisions" ADD CONSTRAINT "metadata_revisions_template_id_metadata_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."metadata_templates"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "metadata_revisions_file_id_idx" ON "metadata_revisions" USING btree ("file_id");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "drive_folders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"drive_id" text NOT NULL,
+	"name" text NOT NULL,
+	"parent_drive_id" text NOT NULL,
+	"path" text NOT NULL,
+	"id_path" text NOT NULL,
+	"synced_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "drive_folders_drive_id_unique" UNIQUE("drive_id")
+);
+--> statement-breakpoint
+CREATE INDEX "drive_folders_parent_drive_id_idx" ON "drive_folders" USING btree ("parent_drive_id");
\ No newline at end of file
@@ -0,0 +1,32 @@
+CREATE TABLE "workspace_members" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"workspace_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"role" text DEFAULT 'member' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "workspace_members_workspace_user_unique" UNIQUE("workspace_id","user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "workspaces" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+INSERT INTO "workspaces" ("name") VALUES ('Default workspace');--> statement-breakpoint
+ALTER TABLE "drive_files" DROP CONSTRAINT "drive_files_drive_id_unique";--> statement-breakpoint
+ALTER TABLE "drive_files" ADD COLUMN "workspace_id" integer;--> statement-breakpoint
+UPDATE "drive_files" SET "workspace_id" = (SELECT min("id") FROM "workspaces");--> statement-breakpoint
+ALTER TABLE "drive_files" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "metadata_templates" ADD COLUMN "workspace_id" integer;--> statement-breakpoint
+UPDATE "metadata_templates" SET "workspace_id" = (SELECT min("id") FROM "workspaces");--> statement-breakpoint
+ALTER TABLE "metadata_templates" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD COLUMN "workspace_id" integer;--> statement-breakpoint
+UPDATE "processing_jobs" SET "workspace_id" = (SELECT min("id") FROM "workspaces");--> statement-breakpoint
+ALTER TABLE "processing_jobs" ALTER COLUMN "workspace_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "workspace_members" ADD CONSTRAINT "workspace_members_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "drive_files" ADD CONSTRAINT "drive_files_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "metadata_templates" ADD CONSTRAINT "metadata_templates_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD CONSTRAINT "processing_jobs_workspace_id_workspaces_id_fk" FOREIGN KEY ("workspace_id") REFERENCES "public"."workspaces"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "drive_files" ADD CONSTRAINT "drive_files_workspace_drive_id_unique" UNIQUE("workspace_id","drive_id");
\ No newline at end of file
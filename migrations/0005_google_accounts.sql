@@ -0,0 +1,22 @@
+CREATE TABLE "google_accounts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"email" text NOT NULL,
+	"name" text,
+	"access_token" text,
+	"refresh_token" text,
+	"token_expires_at" timestamp,
+	"scope" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "google_accounts_user_email_unique" UNIQUE("user_id","email")
+);
+--> statement-breakpoint
+ALTER TABLE "drive_folders" DROP CONSTRAINT "drive_folders_drive_id_unique";--> statement-breakpoint
+ALTER TABLE "drive_files" ADD COLUMN "google_account_id" integer;--> statement-breakpoint
+DELETE FROM "drive_folders";--> statement-breakpoint
+ALTER TABLE "drive_folders" ADD COLUMN "google_account_id" integer NOT NULL;--> statement-breakpoint
+ALTER TABLE "google_accounts" ADD CONSTRAINT "google_accounts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "drive_files" ADD CONSTRAINT "drive_files_google_account_id_google_accounts_id_fk" FOREIGN KEY ("google_account_id") REFERENCES "public"."google_accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "drive_folders" ADD CONSTRAINT "drive_folders_google_account_id_google_accounts_id_fk" FOREIGN KEY ("google_account_id") REFERENCES "public"."google_accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "drive_folders" ADD CONSTRAINT "drive_folders_account_drive_id_unique" UNIQUE("google_account_id","drive_id");
\ No newline at end of file
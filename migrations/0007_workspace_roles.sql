@@ -0,0 +1,3 @@
+ALTER TABLE "workspace_members" ALTER COLUMN "role" SET DEFAULT 'viewer';--> statement-breakpoint
+UPDATE "workspace_members" SET "role" = 'admin' WHERE "role" = 'owner';--> statement-breakpoint
+UPDATE "workspace_members" SET "role" = 'editor' WHERE "role" = 'member';
@@ -0,0 +1,15 @@
+CREATE TABLE "drive_sync_states" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"google_account_id" integer NOT NULL,
+	"start_page_token" text NOT NULL,
+	"last_synced_at" timestamp,
+	"last_error" text,
+	"last_change_counts" jsonb,
+	"total_change_counts" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "drive_sync_states_google_account_id_unique" UNIQUE("google_account_id")
+);
+--> statement-breakpoint
+ALTER TABLE "drive_files" ADD COLUMN "stale" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "drive_files" ADD COLUMN "removed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "drive_sync_states" ADD CONSTRAINT "drive_sync_states_google_account_id_google_accounts_id_fk" FOREIGN KEY ("google_account_id") REFERENCES "public"."google_accounts"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
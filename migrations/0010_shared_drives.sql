@@ -0,0 +1,2 @@
+ALTER TABLE "drive_files" ADD COLUMN "shared_drive_id" text;--> statement-breakpoint
+ALTER TABLE "drive_folders" ADD COLUMN "shared_drive_id" text;
\ No newline at end of file
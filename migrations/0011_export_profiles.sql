@@ -0,0 +1,2 @@
+ALTER TABLE "metadata_templates" ADD COLUMN "export_profile" jsonb;--> statement-breakpoint
+ALTER TABLE "workspaces" ADD COLUMN "export_profile" jsonb;
\ No newline at end of file
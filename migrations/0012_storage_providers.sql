@@ -0,0 +1 @@
+ALTER TABLE "drive_files" ADD COLUMN "provider" text DEFAULT 'google_drive' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "drive_files" ALTER COLUMN "size" SET DATA TYPE bigint;--> statement-breakpoint
+ALTER TABLE "drive_files" ADD COLUMN "skip_reason" text;--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD COLUMN "skipped_files" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "drive_watch_channels" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"google_account_id" integer NOT NULL,
+	"kind" text NOT NULL,
+	"file_id" text,
+	"channel_id" text NOT NULL,
+	"resource_id" text NOT NULL,
+	"token" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"last_notified_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "drive_watch_channels_channel_id_unique" UNIQUE("channel_id")
+);
+--> statement-breakpoint
+ALTER TABLE "drive_watch_channels" ADD CONSTRAINT "drive_watch_channels_google_account_id_google_accounts_id_fk" FOREIGN KEY ("google_account_id") REFERENCES "public"."google_accounts"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
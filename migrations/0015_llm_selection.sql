@@ -0,0 +1,4 @@
+ALTER TABLE "metadata_templates" ADD COLUMN "llm_provider" text;--> statement-breakpoint
+ALTER TABLE "metadata_templates" ADD COLUMN "llm_model" text;--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD COLUMN "llm_provider" text;--> statement-breakpoint
+ALTER TABLE "processing_jobs" ADD COLUMN "llm_model" text;
\ No newline at end of file
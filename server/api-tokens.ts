@@ -0,0 +1,119 @@
+import type { NextFunction, Request, Response } from "express";
+import { createHash, randomBytes } from "crypto";
+import { storage } from "./storage";
+import {
+  type ApiToken,
+  type ApiTokenScope,
+  type CreateApiToken,
+  type PublicApiToken
+} from "@shared/schema";
+
+const TOKEN_PREFIX = "mde_";
+const DISPLAY_PREFIX_LENGTH = 12;
+
+// lastUsedAt is only rewritten once it is this old, so a busy script doesn't
+// turn every request into a write
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiToken?: ApiToken;
+    }
+  }
+}
+
+// Which scope a personal API token needs for the routes under path. GET
+// requests only need read-only unless reads is set.
+export interface ApiTokenRouteGroup {
+  path: string;
+  scope: ApiTokenScope;
+  reads?: boolean;
+}
+
+function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function generateSecret() {
+  const token = TOKEN_PREFIX + randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashApiToken(token), tokenPrefix: token.slice(0, DISPLAY_PREFIX_LENGTH) };
+}
+
+export function toPublicApiToken(apiToken: ApiToken, token?: string): PublicApiToken {
+  const { tokenHash: _tokenHash, ...publicToken } = apiToken;
+  return token ? { ...publicToken, token } : publicToken;
+}
+
+export async function createApiToken(userId: number, { name, scopes }: CreateApiToken): Promise<PublicApiToken> {
+  const { token, tokenHash, tokenPrefix } = generateSecret();
+  const apiToken = await storage.createApiToken({ userId, name, scopes, tokenHash, tokenPrefix });
+  return toPublicApiToken(apiToken, token);
+}
+
+// Replaces the secret but keeps the name and scopes; the old secret stops
+// working immediately
+export async function rotateApiToken(apiToken: ApiToken): Promise<PublicApiToken> {
+  const { token, tokenHash, tokenPrefix } = generateSecret();
+  const rotated = await storage.updateApiToken(apiToken.id, { tokenHash, tokenPrefix, rotatedAt: new Date(), lastUsedAt: null });
+  if (!rotated) {
+    throw new Error("API token no longer exists");
+  }
+  return toPublicApiToken(rotated, token);
+}
+
+export function hasScope(apiToken: ApiToken, scope: ApiTokenScope): boolean {
+  return scope === "read-only" || apiToken.scopes.includes("admin") || apiToken.scopes.includes(scope);
+}
+
+// Logs in requests that carry `Authorization: Bearer <token>` as the token's
+// owner for that request only. Requests without the header keep using their
+// session.
+export async function authenticateApiToken(req: Request, res: Response, next: NextFunction) {
+  const authorization = req.header("authorization");
+  if (!authorization?.startsWith("Bearer ")) {
+    return next();
+  }
+
+  try {
+    const apiToken = await storage.getApiTokenByHash(hashApiToken(authorization.slice("Bearer ".length).trim()));
+    const user = apiToken && await storage.getUser(apiToken.userId);
+    if (!apiToken || !user) {
+      return res.status(401).json({ message: "Invalid API token" });
+    }
+
+    const now = new Date();
+    if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      await storage.updateApiToken(apiToken.id, { lastUsedAt: now });
+    }
+
+    req.user = user;
+    req.apiToken = apiToken;
+    next();
+  } catch (error) {
+    res.status(500).json({ message: (error as Error).message });
+  }
+}
+
+// Limits personal API tokens to the route groups their scopes cover; the
+// first group whose path matches applies. Changes outside every group need
+// admin. Browser sessions are not limited.
+export function requireApiTokenScopes(groups: ApiTokenRouteGroup[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.apiToken) {
+      return next();
+    }
+
+    const path = req.baseUrl + req.path;
+    const isRead = req.method === "GET" || req.method === "HEAD";
+    const group = groups.find(candidate => path === candidate.path || path.startsWith(`${candidate.path}/`));
+    const scope: ApiTokenScope = group
+      ? (isRead && !group.reads ? "read-only" : group.scope)
+      : (isRead ? "read-only" : "admin");
+
+    if (!hasScope(req.apiToken, scope)) {
+      return res.status(403).json({ message: `This API token needs the "${scope}" scope` });
+    }
+    next();
+  };
+}
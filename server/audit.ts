@@ -0,0 +1,61 @@
+import type { NextFunction, Request, Response } from "express";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { type AuditAction } from "@shared/schema";
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: string;
+  targetIds: (string | number)[];
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+  workspaceId?: number | null; // defaults to the active workspace, if any
+}
+
+// Gives every request an id, reusing X-Request-Id when a proxy or script sent
+// one, and echoes it back so callers can find their audit entries
+export function assignRequestId(req: Request, res: Response, next: NextFunction) {
+  const incoming = req.header(REQUEST_ID_HEADER);
+  req.requestId = incoming && incoming.length <= 128 ? incoming : randomUUID();
+  res.setHeader(REQUEST_ID_HEADER, req.requestId);
+  next();
+}
+
+// Appends an entry for the logged-in user (and API token, if one was used).
+// A failed write is logged rather than failing an action that already happened.
+export async function recordAuditEvent(req: Request, entry: AuditEntry): Promise<void> {
+  try {
+    await storage.createAuditEvent({
+      workspaceId: entry.workspaceId !== undefined ? entry.workspaceId : req.workspace?.id ?? null,
+      actorUserId: req.user?.id ?? null,
+      actorApiTokenId: req.apiToken?.id ?? null,
+      action: entry.action,
+      targetType: entry.targetType,
+      targetIds: entry.targetIds.map(String),
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      requestId: req.requestId ?? null,
+    });
+  } catch (error) {
+    console.error(`Failed to record audit event ${entry.action}:`, (error as Error).message);
+  }
+}
+
+// The previous and new values of just the fields an update touches
+export function summarizeChanges<T extends object>(before: T, updates: Partial<T>) {
+  const keys = Object.keys(updates) as (keyof T)[];
+  return {
+    before: Object.fromEntries(keys.map(key => [key, before[key] ?? null])),
+    after: Object.fromEntries(keys.map(key => [key, updates[key] ?? null])),
+  };
+}
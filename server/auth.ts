@@ -0,0 +1,181 @@
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import { createSessionStore, storage } from "./storage";
+import { getDefaultWorkspace } from "./workspaces";
+import { authenticateApiToken } from "./api-tokens";
+import {
+  loginSchema,
+  registerUserSchema,
+  type PublicUser,
+  type User as StoredUser
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends StoredUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Stored as "<hash>.<salt>", both hex
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  if (!hash || !salt) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function toPublicUser(user: StoredUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+
+  console.warn("SESSION_SECRET is not set; using a random secret, sessions will not survive a restart");
+  return randomBytes(32).toString("hex");
+}
+
+// The first account takes over the default workspace, which holds any data
+// from before logins existed. Later accounts start in a workspace of their
+// own until someone adds them to a team workspace.
+async function createInitialWorkspace(user: StoredUser): Promise<void> {
+  const defaultWorkspace = await getDefaultWorkspace();
+  const isUnclaimed = (await storage.getWorkspaceMembers(defaultWorkspace.id)).length === 0;
+  const workspace = isUnclaimed
+    ? defaultWorkspace
+    : await storage.createWorkspace({ name: `${user.username}'s workspace` });
+
+  await storage.addWorkspaceMember({ workspaceId: workspace.id, userId: user.id, role: "admin" });
+}
+
+// Rejects API requests from callers who are not logged in
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not logged in" });
+  }
+  next();
+}
+
+// Sessions, passport, bearer API tokens and the register/login/logout/user
+// routes. Must run before any route that relies on req.user.
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: getSessionSecret(),
+    store: createSessionStore(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+  app.use("/api", authenticateApiToken);
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false, { message: "Invalid username or password" });
+      }
+      done(null, user);
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // A deleted account simply ends the session
+      done(null, (await storage.getUser(id)) ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/register", async (req, res, next) => {
+    try {
+      const { username, password } = registerUserSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+
+      const user = await storage.createUser({ username, password: await hashPassword(password) });
+      await createInitialWorkspace(user);
+
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json(toPublicUser(user));
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/login", (req, res, next) => {
+    const credentials = loginSchema.safeParse(req.body);
+    if (!credentials.success) {
+      return res.status(400).json({ message: fromZodError(credentials.error).message });
+    }
+
+    passport.authenticate("local", (error: Error | null, user: StoredUser | false, info?: { message: string }) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ message: info?.message || "Invalid username or password" });
+      }
+
+      // req.login issues a fresh session id, guarding against session fixation
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.sendStatus(204);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
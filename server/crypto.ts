@@ -0,0 +1,51 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const VERSION = "v1";
+
+let encryptionKey: Buffer | undefined;
+
+// TOKEN_ENCRYPTION_KEY can be any string; it is stretched to a 256-bit key.
+// Changing it makes every stored token unreadable, so accounts have to be
+// linked again.
+function getEncryptionKey(): Buffer {
+  if (encryptionKey) return encryptionKey;
+
+  let secret = process.env.TOKEN_ENCRYPTION_KEY;
+  if (!secret) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("TOKEN_ENCRYPTION_KEY must be set in production");
+    }
+    console.warn("TOKEN_ENCRYPTION_KEY is not set; using a random key, linked Google accounts will not survive a restart");
+    secret = randomBytes(32).toString("hex");
+  }
+
+  encryptionKey = createHash("sha256").update(secret).digest();
+  return encryptionKey;
+}
+
+// Encrypts a secret as "v1.<iv>.<auth tag>.<ciphertext>", all base64
+export function encryptSecret(plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return [VERSION, iv, cipher.getAuthTag(), ciphertext].map(part => (
+    typeof part === "string" ? part : part.toString("base64")
+  )).join(".");
+}
+
+export function decryptSecret(encrypted: string): string {
+  const [version, iv, authTag, ciphertext] = encrypted.split(".");
+  if (version !== VERSION || !iv || !authTag || ciphertext === undefined) {
+    throw new Error("Unrecognized encrypted secret");
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getEncryptionKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(authTag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
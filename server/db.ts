@@ -0,0 +1,26 @@
+import path from "path";
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Any drizzle Postgres database built on our schema. DbStorage only depends on
+// this type, so it can run against node-postgres in production or an embedded
+// Postgres (e.g. PGlite) in tests.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+// The production database; migrations run through node-postgres's migrator
+export type NodePgSchemaDatabase = NodePgDatabase<typeof schema>;
+
+export const MIGRATIONS_FOLDER = path.resolve(import.meta.dirname, "..", "migrations");
+
+export function createDatabase(connectionString: string): { db: NodePgSchemaDatabase; pool: pg.Pool } {
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+  return { db, pool };
+}
+
+export async function runMigrations(db: NodePgSchemaDatabase): Promise<void> {
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+}
@@ -0,0 +1,211 @@
+import {
+  driveFileQuerySchema,
+  driveFileSortFields,
+  type DriveFile,
+  type DriveFileFilter,
+  type DriveFileQuery,
+  type DriveFileSort,
+  type DriveFileSortField,
+  type MetadataPredicate
+} from "@shared/schema";
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 1000;
+
+const DATE_SORT_FIELDS: DriveFileSortField[] = ["createdTime", "modifiedTime"];
+const NUMBER_SORT_FIELDS: DriveFileSortField[] = ["size", "id"];
+
+// Every ordering ends with id so cursors are stable across rows with equal sort values
+export function resolveSort(sort?: DriveFileSort[]): DriveFileSort[] {
+  const keys = (sort || []).filter(key => key.field !== "id");
+  const idKey = sort?.find(key => key.field === "id") || { field: "id" as const, direction: "asc" as const };
+  return [...keys, idKey];
+}
+
+export function resolveLimit(limit?: number): number {
+  return Math.min(Math.max(limit || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+}
+
+export function encodeCursor(file: DriveFile, sort: DriveFileSort[]): string {
+  const values = sort.map(key => {
+    const value = file[key.field];
+    return value instanceof Date ? value.toISOString() : value;
+  });
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+export function decodeCursor(cursor: string, sort: DriveFileSort[]): Array<string | number | Date> {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Invalid cursor");
+  }
+
+  if (!Array.isArray(values) || values.length !== sort.length) {
+    throw new Error("Cursor does not match the requested sort order");
+  }
+
+  return values.map((value, index) => {
+    const field = sort[index].field;
+    if (DATE_SORT_FIELDS.includes(field)) {
+      const date = typeof value === "string" ? new Date(value) : new Date(NaN);
+      if (isNaN(date.getTime())) throw new Error("Invalid cursor");
+      return date;
+    }
+    if (NUMBER_SORT_FIELDS.includes(field)) {
+      if (typeof value !== "number" || !Number.isFinite(value)) throw new Error("Invalid cursor");
+      return value;
+    }
+    if (typeof value !== "string") throw new Error("Invalid cursor");
+    return value;
+  });
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === "number" && typeof b === "number") return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+export function compareDriveFiles(a: DriveFile, b: DriveFile, sort: DriveFileSort[]): number {
+  for (const key of sort) {
+    const result = compareValues(a[key.field], b[key.field]);
+    if (result !== 0) return key.direction === "asc" ? result : -result;
+  }
+  return 0;
+}
+
+// True when the file sorts strictly after the cursor position
+export function isAfterCursor(file: DriveFile, cursorValues: unknown[], sort: DriveFileSort[]): boolean {
+  for (let i = 0; i < sort.length; i++) {
+    const result = compareValues(file[sort[i].field], cursorValues[i]);
+    if (result !== 0) return sort[i].direction === "asc" ? result > 0 : result < 0;
+  }
+  return false;
+}
+
+export function searchTerms(search?: string): string[] {
+  return (search || "").toLowerCase().split(/\s+/).filter(term => term.length > 0);
+}
+
+export function hasAiMetadata(file: DriveFile): boolean {
+  const metadata = file.aiGeneratedMetadata as Record<string, unknown> | null;
+  return !!metadata && typeof metadata === "object" && !Array.isArray(metadata) && Object.keys(metadata).length > 0;
+}
+
+function matchesMetadataPredicate(file: DriveFile, predicate: MetadataPredicate): boolean {
+  const metadata = (file.aiGeneratedMetadata || {}) as Record<string, unknown>;
+  const present = Object.prototype.hasOwnProperty.call(metadata, predicate.field);
+  const value = metadata[predicate.field];
+  const expected = predicate.value ?? "";
+
+  switch (predicate.op) {
+    case "exists":
+      return present;
+    case "missing":
+      return !present;
+    case "eq":
+      if (Array.isArray(value)) return value.some(item => item === expected);
+      return present && value !== null && typeof value !== "object" && String(value) === expected;
+    case "contains": {
+      if (!present || value === null || value === undefined) return false;
+      const text = typeof value === "string" ? value : JSON.stringify(value);
+      return text.toLowerCase().includes(expected.toLowerCase());
+    }
+  }
+}
+
+// In-memory equivalent of the SQL filter built by DbStorage
+export function matchesDriveFileFilter(file: DriveFile, filter: DriveFileFilter): boolean {
+  if (filter.workspaceId !== undefined && file.workspaceId !== filter.workspaceId) return false;
+  if (filter.types?.length && !filter.types.includes(file.type)) return false;
+  if (filter.statuses?.length && !filter.statuses.includes(file.status)) return false;
+  if (filter.folderIds?.length && !filter.folderIds.includes(file.parentFolderId ?? "")) return false;
+  if (filter.createdAfter && file.createdTime < filter.createdAfter) return false;
+  if (filter.createdBefore && file.createdTime > filter.createdBefore) return false;
+  if (filter.modifiedAfter && file.modifiedTime < filter.modifiedAfter) return false;
+  if (filter.modifiedBefore && file.modifiedTime > filter.modifiedBefore) return false;
+  if (filter.hasAiMetadata !== undefined && hasAiMetadata(file) !== filter.hasAiMetadata) return false;
+  if (filter.stale !== undefined && file.stale !== filter.stale) return false;
+  if (!filter.includeRemoved && file.removedAt) return false;
+
+  const terms = searchTerms(filter.search);
+  if (terms.length > 0) {
+    const searchableText = [
+      file.name,
+      file.type,
+      file.mimeType,
+      JSON.stringify(file.aiGeneratedMetadata || {}),
+      JSON.stringify(file.existingMetadata || {})
+    ].join(" ").toLowerCase();
+    if (!terms.some(term => searchableText.includes(term))) return false;
+  }
+
+  return (filter.metadata || []).every(predicate => matchesMetadataPredicate(file, predicate));
+}
+
+function toList(value: unknown): string[] | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const items = Array.isArray(value) ? value : [value];
+  return items
+    .flatMap(item => String(item).split(","))
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+}
+
+// sort=-modifiedTime,name  ->  modifiedTime desc, name asc
+function parseSort(value: unknown): DriveFileSort[] | undefined {
+  if (Array.isArray(value) && value.every(item => typeof item === "object")) {
+    return value as DriveFileSort[];
+  }
+  return toList(value)?.map(item => {
+    const direction = item.startsWith("-") ? "desc" : "asc";
+    const field = item.replace(/^[-+]/, "");
+    if (!driveFileSortFields.includes(field as DriveFileSortField)) {
+      throw new Error(`Unsupported sort field "${field}"`);
+    }
+    return { field: field as DriveFileSortField, direction };
+  });
+}
+
+// meta=field:op[:value], repeatable; value may itself contain ':'
+function parseMetadataPredicates(value: unknown): MetadataPredicate[] | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const items = Array.isArray(value) ? value : [value];
+  return items.map(item => {
+    if (typeof item === "object") return item as MetadataPredicate;
+    const [field, op, ...rest] = String(item).split(":");
+    return { field, op, value: rest.length > 0 ? rest.join(":") : undefined } as MetadataPredicate;
+  });
+}
+
+function parseBoolean(value: unknown): boolean | undefined {
+  if (value === undefined || value === "") return undefined;
+  if (typeof value === "boolean") return value;
+  return String(value) === "true";
+}
+
+// Accepts both query-string params (comma separated) and JSON bodies (arrays).
+// The cursor is decoded here too, so a bad one is rejected with the rest of
+// the query rather than failing later in storage.
+export function parseDriveFileQuery(params: Record<string, unknown>): DriveFileQuery {
+  const query = driveFileQuerySchema.parse({
+    types: toList(params.types ?? params.type),
+    statuses: toList(params.statuses ?? params.status),
+    folderIds: toList(params.folderIds),
+    createdAfter: params.createdAfter || undefined,
+    createdBefore: params.createdBefore || undefined,
+    modifiedAfter: params.modifiedAfter || undefined,
+    modifiedBefore: params.modifiedBefore || undefined,
+    hasAiMetadata: parseBoolean(params.hasAiMetadata),
+    stale: parseBoolean(params.stale),
+    search: typeof params.search === "string" && params.search.trim() ? params.search : undefined,
+    metadata: parseMetadataPredicates(params.metadata ?? params.meta),
+    sort: parseSort(params.sort),
+    limit: params.limit !== undefined && params.limit !== "" ? Number(params.limit) : undefined,
+    cursor: typeof params.cursor === "string" && params.cursor ? params.cursor : undefined,
+  });
+  if (query.cursor) decodeCursor(query.cursor, resolveSort(query.sort));
+  return query;
+}
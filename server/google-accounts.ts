@@ -0,0 +1,98 @@
+import type { NextFunction, Request, Response } from "express";
+import { storage } from "./storage";
+import { googleDriveService } from "./services/google-drive";
+import { type DriveFile, type GoogleAccount, type PublicGoogleAccount } from "@shared/schema";
+
+export const GOOGLE_ACCOUNT_HEADER = "X-Google-Account-Id";
+
+declare global {
+  namespace Express {
+    interface Request {
+      googleAccount?: GoogleAccount;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    googleOAuthState?: string;
+  }
+}
+
+export function toPublicGoogleAccount(account: GoogleAccount): PublicGoogleAccount {
+  return { id: account.id, email: account.email, name: account.name, createdAt: account.createdAt };
+}
+
+// Resolves which of the caller's linked Google accounts Drive requests go
+// through: the one named by the X-Google-Account-Id header, otherwise the
+// first account they linked. Users without a linked account get none.
+export async function googleAccountContext(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+
+    const requested = req.header(GOOGLE_ACCOUNT_HEADER);
+    if (requested === undefined || requested === "") {
+      [req.googleAccount] = await storage.getGoogleAccountsByUser(req.user.id);
+      return next();
+    }
+
+    const accountId = Number(requested);
+    const account = Number.isInteger(accountId) ? await storage.getGoogleAccount(accountId) : undefined;
+    if (!account || account.userId !== req.user.id) {
+      return res.status(404).json({ message: "Google account not found" });
+    }
+
+    req.googleAccount = account;
+    next();
+  } catch (error) {
+    res.status(500).json({ message: (error as Error).message });
+  }
+}
+
+// The active Google account's id, or undefined after answering 401 when the
+// caller hasn't linked one
+export function requireGoogleAccountId(req: Request, res: Response): number | undefined {
+  if (!req.googleAccount) {
+    res.status(401).json({ message: "Not connected to Google Drive" });
+    return undefined;
+  }
+  return req.googleAccount.id;
+}
+
+// For routes mounted before googleAccountContext: the account named by the
+// header when the caller owns it, otherwise their first linked account
+export async function getActiveGoogleAccount(req: Request): Promise<GoogleAccount | undefined> {
+  const accounts = await storage.getGoogleAccountsByUser(req.user!.id);
+  const requested = Number(req.header(GOOGLE_ACCOUNT_HEADER));
+  return accounts.find(account => account.id === requested) ?? accounts[0];
+}
+
+// A stored Drive file as the caller reads and writes it: through their own
+// active Google account, which must be able to open the file, rather than the
+// account of whichever member first listed its folder. Files of providers
+// configured on the server need no account.
+export async function resolveFileForCaller(req: Request, file: DriveFile): Promise<{ file: DriveFile } | { status: 401 | 403; message: string }> {
+  if (file.provider !== "google_drive") {
+    return { file };
+  }
+  if (!req.googleAccount) {
+    return { status: 401, message: "Not connected to Google Drive" };
+  }
+  if (!await googleDriveService.canAccessFile(req.googleAccount.id, file.driveId)) {
+    return { status: 403, message: `Your Google account ${req.googleAccount.email} can't access "${file.name}"` };
+  }
+  return { file: { ...file, googleAccountId: req.googleAccount.id } };
+}
+
+// resolveFileForCaller for routes handling one file: undefined after
+// answering when the caller can't use it
+export async function fileForCaller(req: Request, res: Response, file: DriveFile): Promise<DriveFile | undefined> {
+  const resolved = await resolveFileForCaller(req, file);
+  if ("status" in resolved) {
+    res.status(resolved.status).json({ message: resolved.message });
+    return undefined;
+  }
+  return resolved.file;
+}
@@ -1,5 +1,11 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { initStorage } from "./storage";
+import { folderTreeService } from "./services/folder-tree";
+import { driveSyncService } from "./services/drive-sync";
+import { driveWatchService } from "./services/drive-watch";
+import { DEMO_USERNAME, demoService } from "./services/demo";
+import { isFakeDriveEnabled } from "./services/fake-drive";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
@@ -37,6 +43,18 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await initStorage();
+  if (demoService.isEnabled()) {
+    await demoService.seed();
+    log(`demo mode: sign in as "${DEMO_USERNAME}" with the password in DEMO_PASSWORD`);
+  }
+  // Also refuses to start with the fake Drive in production
+  if (isFakeDriveEnabled()) {
+    log(`fake Drive: serving ${process.env.DRIVE_FIXTURES_DIR || "fixtures/drive"} instead of Google Drive`);
+  }
+  folderTreeService.startRefreshJob();
+  driveSyncService.startSyncJob();
+  driveWatchService.startWatchJob();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
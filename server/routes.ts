@@ -1,82 +1,396 @@
-import type { Express } from "express";
+import type { Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { googleDriveService } from "./services/google-drive";
 import { fileProcessorService } from "./services/file-processor";
-import { openAIService } from "./services/openai";
 import { agenticSearchService } from "./services/agentic-search";
+import { metadataHistoryService } from "./services/metadata-history";
+import { folderTreeService } from "./services/folder-tree";
+import { driveSyncService } from "./services/drive-sync";
+import { driveWatchService, parseDriveNotification, toPublicDriveWatchChannel } from "./services/drive-watch";
+import { driveQuotaService } from "./services/drive-quota";
+import { backupService } from "./services/backup";
+import { driveMetadataService, type DriveMetadataSource } from "./services/drive-metadata";
+import { storageProviders, type ServerStorageProvider } from "./services/storage-provider";
+import { llmProviders, type LLMChoice } from "./services/llm-provider";
 import multer from "multer";
 import csv from "csv-parser";
 import * as XLSX from "xlsx";
-import { insertDriveFileSchema, insertMetadataTemplateSchema, insertProcessingJobSchema } from "@shared/schema";
+import { createGzip } from "zlib";
+import { randomBytes } from "crypto";
+import { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+import {
+  insertDriveFileSchema,
+  insertMetadataTemplateSchema,
+  insertProcessingJobSchema,
+  insertWorkspaceMemberSchema,
+  insertWorkspaceSchema,
+  createApiTokenSchema,
+  restoreOptionsSchema,
+  updateFileMetadataSchema,
+  hasWorkspacePermission,
+  WORKSPACE_PERMISSIONS,
+  auditEventQuerySchema,
+  updateExportProfileSchema,
+  type AuditAction,
+  createDriveWatchSchema,
+  llmSelectionSchema,
+  updateTemplateLLMSchema,
+  type AuditEventPage,
+  type DriveFileQuery,
+  type GoogleAccount,
+  type LLMProviderList,
+  type MetadataTemplate,
+  type RestoreOptions,
+  type RestoreReport,
+  type WorkspaceArchive,
+  type WorkspaceMember,
+  type WorkspacePermission
+} from "@shared/schema";
+import { parseDriveFileQuery } from "./file-query";
+import { WORKSPACE_HEADER, getWorkspaceId, inWorkspace, requirePermission, workspaceContext } from "./workspaces";
+import { requireAuth, setupAuth } from "./auth";
+import { assignRequestId, recordAuditEvent, summarizeChanges } from "./audit";
+import { createApiToken, requireApiTokenScopes, rotateApiToken, toPublicApiToken, type ApiTokenRouteGroup } from "./api-tokens";
+import {
+  GOOGLE_ACCOUNT_HEADER,
+  fileForCaller,
+  getActiveGoogleAccount,
+  googleAccountContext,
+  requireGoogleAccountId,
+  resolveFileForCaller,
+  toPublicGoogleAccount
+} from "./google-accounts";
 
 const upload = multer({ storage: multer.memoryStorage() });
 
+// Backup archives are capped on upload as well as when decompressed
+function uploadBackupArchive(req: Request, res: Response, next: NextFunction) {
+  const maxBytes = backupService.getMaxUploadBytes();
+  multer({ storage: multer.memoryStorage(), limits: { fileSize: maxBytes } }).single("archive")(req, res, error => {
+    if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+      return res.status(413).json({ message: `Backup archive is larger than ${maxBytes} bytes` });
+    }
+    next(error);
+  });
+}
+
+// Parses filter/sort/pagination params, answering 400 when they are invalid
+function parseFileQueryParams(params: Record<string, unknown>, res: Response): DriveFileQuery | undefined {
+  try {
+    return parseDriveFileQuery(params);
+  } catch (error) {
+    res.status(400).json({ message: `Invalid file query: ${(error as Error).message}` });
+    return undefined;
+  }
+}
+
+// Loads the caller's membership of the workspace in the URL. Workspaces they
+// don't belong to answer 404; a missing required permission answers 403.
+async function getWorkspaceMembership(
+  req: Request,
+  res: Response,
+  requiredPermission?: WorkspacePermission
+): Promise<WorkspaceMember | undefined> {
+  const workspaceId = parseInt(req.params.id);
+  const membership = isNaN(workspaceId) ? undefined : await storage.getWorkspaceMember(workspaceId, req.user!.id);
+
+  if (!membership) {
+    res.status(404).json({ message: "Workspace not found" });
+    return undefined;
+  }
+  if (requiredPermission && !hasWorkspacePermission(membership.role, requiredPermission)) {
+    res.status(403).json({ message: `Your workspace role (${membership.role}) does not allow ${requiredPermission}` });
+    return undefined;
+  }
+  return membership;
+}
+
+// Scopes personal API tokens need per route group; see requireApiTokenScopes
+const API_TOKEN_ROUTE_GROUPS: ApiTokenRouteGroup[] = [
+  { path: "/api/tokens", scope: "admin", reads: true },
+  { path: "/api/admin", scope: "admin", reads: true },
+  { path: "/api/auth", scope: "admin" },
+  { path: "/api/workspaces", scope: "admin" },
+  { path: "/api/process", scope: "process" },
+  { path: "/api/files", scope: "process" },
+  { path: "/api/templates", scope: "process" },
+  { path: "/api/drive/tree/refresh", scope: "process" },
+  { path: "/api/drive/sync", scope: "process" },
+  { path: "/api/drive/watch", scope: "process" },
+  { path: "/api/export", scope: "export" },
+  { path: "/api/search", scope: "read-only" },
+];
+
+// Whether userId is the only admin left, so demoting or removing them would
+// leave nobody able to manage the workspace
+async function isLastAdmin(workspaceId: number, userId: number): Promise<boolean> {
+  const admins = (await storage.getWorkspaceMembers(workspaceId)).filter(member => member.role === "admin");
+  return admins.length === 1 && admins[0].userId === userId;
+}
+
+// Work on a provider without credentials would only fail file by file, so
+// it is refused up front. Responds and returns false when refused.
+function checkLLMConfigured(res: Response, ...selections: (LLMChoice | null | undefined)[]): boolean {
+  const { provider } = llmProviders.resolve(...selections);
+  if (!provider.isConfigured()) {
+    res.status(400).json({ message: `The ${provider.name} LLM provider is not configured` });
+    return false;
+  }
+  return true;
+}
+
+function recordTemplateCreate(req: Request, template: MetadataTemplate): Promise<void> {
+  return recordAuditEvent(req, {
+    action: "template.create",
+    targetType: "template",
+    targetIds: [template.id],
+    after: { name: template.name, fieldCount: Array.isArray(template.fields) ? template.fields.length : null },
+  });
+}
+
+// Tokens belong to the user rather than a workspace
+function recordApiTokenEvent(req: Request, action: AuditAction, token: { id: number; name: string; scopes: string[] }): Promise<void> {
+  return recordAuditEvent(req, {
+    action,
+    targetType: "api_token",
+    targetIds: [token.id],
+    after: { name: token.name, scopes: token.scopes },
+    workspaceId: null,
+  });
+}
+
+function recordGoogleConnect(req: Request, account: GoogleAccount): Promise<void> {
+  return recordAuditEvent(req, {
+    action: "google.connect",
+    targetType: "google_account",
+    targetIds: [account.id],
+    after: { email: account.email, scope: account.scope },
+    workspaceId: null,
+  });
+}
+
+// Rebuilds the folder tree of a newly linked account and starts following
+// its Drive changes
+function refreshAccountInBackground(accountId: number): void {
+  folderTreeService.invalidate(accountId);
+  folderTreeService.refresh(accountId).catch(error => {
+    console.error("Folder tree refresh failed:", (error as Error).message);
+  });
+  driveSyncService.sync(accountId).catch(error => {
+    console.error("Drive sync failed:", (error as Error).message);
+  });
+  if (driveWatchService.isEnabled()) {
+    driveWatchService.watchAccount(accountId).catch(error => {
+      console.error("Could not watch Drive changes:", (error as Error).message);
+    });
+  }
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Google Drive authentication
+  app.use("/api", assignRequestId);
+
+  // Drive push notifications. Drive posts without a session or API token, so
+  // this sits in front of the auth middleware; the channel's token is checked
+  // instead.
+  app.post("/api/drive/webhook", async (req, res) => {
+    try {
+      const result = await driveWatchService.receive(parseDriveNotification(req.headers));
+      if (result === "unknown_channel") {
+        return res.status(404).json({ message: "Unknown channel" });
+      }
+      if (result === "forbidden") {
+        return res.status(403).json({ message: "Channel token or resource does not match" });
+      }
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Local accounts; every other API route needs a logged-in user or an API
+  // token with the right scope
+  setupAuth(app);
+  app.use("/api", requireAuth);
+  app.use("/api", requireApiTokenScopes(API_TOKEN_ROUTE_GROUPS));
+
+  // Personal API tokens. The secret is only returned by create and rotate.
+  app.get("/api/tokens", async (req, res) => {
+    try {
+      const tokens = await storage.getApiTokensByUser(req.user!.id);
+      res.json(tokens.map(token => toPublicApiToken(token)));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/tokens", async (req, res) => {
+    try {
+      const validatedData = createApiTokenSchema.parse(req.body);
+      const created = await createApiToken(req.user!.id, validatedData);
+      await recordApiTokenEvent(req, "api_token.create", created);
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/tokens/:id/rotate", async (req, res) => {
+    try {
+      const token = await storage.getApiToken(parseInt(req.params.id));
+      if (!token || token.userId !== req.user!.id) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+
+      const rotated = await rotateApiToken(token);
+      await recordApiTokenEvent(req, "api_token.rotate", rotated);
+      res.json(rotated);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Revoking deletes the token; requests using it are rejected from then on
+  app.delete("/api/tokens/:id", async (req, res) => {
+    try {
+      const token = await storage.getApiToken(parseInt(req.params.id));
+      if (!token || token.userId !== req.user!.id) {
+        return res.status(404).json({ message: "API token not found" });
+      }
+
+      await storage.deleteApiToken(token.id);
+      await recordApiTokenEvent(req, "api_token.revoke", token);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Google Drive accounts. Each user links their own Google accounts; the
+  // client picks the active one with the X-Google-Account-Id header.
   app.get("/api/auth/google/url", async (req, res) => {
     try {
-      const authUrl = googleDriveService.getAuthUrl();
+      const state = randomBytes(16).toString("hex");
+      req.session.googleOAuthState = state;
+      const authUrl = googleDriveService.getAuthUrl(state);
       res.json({ authUrl });
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
   // Check authentication status
   app.get("/api/auth/status", async (req, res) => {
     try {
-      const isAuthenticated = googleDriveService.isAuthenticated();
-      res.json({ isAuthenticated });
+      const accounts = await storage.getGoogleAccountsByUser(req.user!.id);
+      res.json({
+        isAuthenticated: accounts.length > 0,
+        accounts: accounts.map(toPublicGoogleAccount),
+        defaultAccountId: accounts[0]?.id ?? null,
+      });
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Get authenticated user info
+  // Profile of the active Google account
   app.get("/api/auth/user", async (req, res) => {
     try {
-      const userInfo = await googleDriveService.getUserInfo();
-      res.json(userInfo);
+      const account = await getActiveGoogleAccount(req);
+      res.json(account ? { name: account.name || "Unknown User", email: account.email } : null);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Disconnect from Google Drive
+  app.get("/api/auth/google/accounts", async (req, res) => {
+    try {
+      const accounts = await storage.getGoogleAccountsByUser(req.user!.id);
+      res.json(accounts.map(toPublicGoogleAccount));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Unlinks one of the caller's Google accounts
+  app.delete("/api/auth/google/accounts/:id", async (req, res) => {
+    try {
+      const account = await storage.getGoogleAccount(parseInt(req.params.id));
+      if (!account || account.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Google account not found" });
+      }
+
+      await driveWatchService.stopAll(account.id);
+      await googleDriveService.disconnect(account.id);
+      folderTreeService.invalidate(account.id);
+      await recordAuditEvent(req, {
+        action: "google.disconnect",
+        targetType: "google_account",
+        targetIds: [account.id],
+        before: { email: account.email },
+        workspaceId: null,
+      });
+      res.json({ success: true, message: `Disconnected ${account.email}` });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Disconnect the active Google account
   app.post("/api/auth/disconnect", async (req, res) => {
     try {
-      googleDriveService.disconnect();
+      const account = await getActiveGoogleAccount(req);
+      if (account) {
+        await driveWatchService.stopAll(account.id);
+        await googleDriveService.disconnect(account.id);
+        folderTreeService.invalidate(account.id);
+        await recordAuditEvent(req, {
+          action: "google.disconnect",
+          targetType: "google_account",
+          targetIds: [account.id],
+          before: { email: account.email },
+          workspaceId: null,
+        });
+      }
       res.json({ success: true, message: "Disconnected from Google Drive" });
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
   // Handle Google OAuth callback (GET request from redirect)
   app.get("/api/auth/google/callback", async (req, res) => {
+    const reply = (message: Record<string, unknown>) => res.send(`
+        <script>
+          window.opener.postMessage(${JSON.stringify(message).replace(/</g, "\\u003c")}, window.location.origin);
+          window.close();
+        </script>
+      `);
+
     try {
-      const { code } = req.query;
+      const { code, state } = req.query;
       if (!code) {
         return res.status(400).send('Authorization code missing');
       }
 
-      await googleDriveService.setAuthToken(code as string);
+      const expectedState = req.session.googleOAuthState;
+      delete req.session.googleOAuthState;
+      if (!expectedState || state !== expectedState) {
+        return reply({ type: 'GOOGLE_AUTH_ERROR', error: 'The sign-in request expired, please try again' });
+      }
+
+      const account = await googleDriveService.linkAccount(req.user!.id, code as string);
+      refreshAccountInBackground(account.id);
+      await recordGoogleConnect(req, account);
 
       // Redirect back to the main app with success
-      res.send(`
-        <script>
-          window.opener.postMessage({ type: 'GOOGLE_AUTH_SUCCESS' }, '*');
-          window.close();
-        </script>
-      `);
+      reply({ type: 'GOOGLE_AUTH_SUCCESS', accountId: account.id });
     } catch (error) {
-      res.send(`
-        <script>
-          window.opener.postMessage({ type: 'GOOGLE_AUTH_ERROR', error: '${error.message}' }, '*');
-          window.close();
-        </script>
-      `);
+      reply({ type: 'GOOGLE_AUTH_ERROR', error: (error as Error).message });
     }
   });
 
@@ -84,74 +398,426 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/auth/google/callback", async (req, res) => {
     try {
       const { code } = req.body;
-      await googleDriveService.setAuthToken(code);
+      const account = await googleDriveService.linkAccount(req.user!.id, code);
+      refreshAccountInBackground(account.id);
+      await recordGoogleConnect(req, account);
+      res.json({ success: true, account: toPublicGoogleAccount(account) });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Drive routes below go through the caller's active Google account
+  app.use("/api", googleAccountContext);
+
+  // Workspaces. These routes sit in front of workspaceContext so the client can
+  // still list workspaces when its remembered one is gone or was someone else's.
+  app.get("/api/workspaces", async (req, res) => {
+    try {
+      const workspaces = await storage.getWorkspacesForUser(req.user!.id);
+      res.json({ defaultWorkspaceId: workspaces[0]?.id ?? null, workspaces });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // The creator becomes the workspace's admin
+  app.post("/api/workspaces", async (req, res) => {
+    try {
+      const validatedData = insertWorkspaceSchema.parse(req.body);
+      const workspace = await storage.createWorkspace(validatedData);
+      await storage.addWorkspaceMember({ workspaceId: workspace.id, userId: req.user!.id, role: "admin" });
+      await recordAuditEvent(req, {
+        action: "workspace.create",
+        targetType: "workspace",
+        targetIds: [workspace.id],
+        after: { name: workspace.name },
+        workspaceId: workspace.id,
+      });
+      res.status(201).json(workspace);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.get("/api/workspaces/:id/members", async (req, res) => {
+    try {
+      const membership = await getWorkspaceMembership(req, res);
+      if (!membership) return;
+
+      const members = await storage.getWorkspaceMembers(membership.workspaceId);
+      const users = await Promise.all(members.map(member => storage.getUser(member.userId)));
+      res.json(members.map((member, i) => ({ ...member, username: users[i]?.username ?? null })));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Admins add a user by username, or change the role of an existing member
+  app.post("/api/workspaces/:id/members", async (req, res) => {
+    try {
+      const membership = await getWorkspaceMembership(req, res, "workspace.manage");
+      if (!membership) return;
+
+      const user = typeof req.body.username === "string" ? await storage.getUserByUsername(req.body.username.trim()) : undefined;
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const validatedData = insertWorkspaceMemberSchema.parse({
+        workspaceId: membership.workspaceId,
+        userId: user.id,
+        role: req.body.role,
+      });
+      if (validatedData.role !== "admin" && await isLastAdmin(membership.workspaceId, user.id)) {
+        return res.status(400).json({ message: "A workspace needs at least one admin" });
+      }
+
+      const existing = await storage.getWorkspaceMember(membership.workspaceId, user.id);
+      const member = await storage.addWorkspaceMember(validatedData);
+      await recordAuditEvent(req, {
+        action: existing ? "member.update" : "member.add",
+        targetType: "user",
+        targetIds: [user.id],
+        before: existing ? { role: existing.role } : null,
+        after: { username: user.username, role: member.role },
+        workspaceId: membership.workspaceId,
+      });
+      res.status(201).json({ ...member, username: user.username });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/workspaces/:id/members/:userId", async (req, res) => {
+    try {
+      const membership = await getWorkspaceMembership(req, res, "workspace.manage");
+      if (!membership) return;
+
+      const userId = parseInt(req.params.userId);
+      const member = await storage.getWorkspaceMember(membership.workspaceId, userId);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      if (await isLastAdmin(membership.workspaceId, userId)) {
+        return res.status(400).json({ message: "A workspace needs at least one admin" });
+      }
+
+      await storage.removeWorkspaceMember(membership.workspaceId, userId);
+      await recordAuditEvent(req, {
+        action: "member.remove",
+        targetType: "user",
+        targetIds: [userId],
+        before: { role: member.role },
+        workspaceId: membership.workspaceId,
+      });
       res.json({ success: true });
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
-  // Drive folders
+  // Everything below works on the caller's active workspace
+  app.use("/api", workspaceContext);
+
+  // The caller's role in the active workspace and what it allows
+  app.get("/api/workspaces/current", async (req, res) => {
+    try {
+      const role = req.workspaceMember!.role;
+      res.json({
+        workspace: req.workspace,
+        role,
+        permissions: WORKSPACE_PERMISSIONS.filter(permission => hasWorkspacePermission(role, permission)),
+      });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Where Drive exports write metadata for this workspace; null restores the
+  // default of public properties. Templates can override it.
+  app.put("/api/workspaces/current/export-profile", requirePermission("workspace.manage"), async (req, res) => {
+    try {
+      const { exportProfile } = updateExportProfileSchema.parse(req.body);
+      const workspace = req.workspace!;
+      const updated = await storage.updateWorkspace(workspace.id, { exportProfile });
+
+      await recordAuditEvent(req, {
+        action: "export_profile.update",
+        targetType: "workspace",
+        targetIds: [workspace.id],
+        ...summarizeChanges(workspace, { exportProfile }),
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Audit log of the active workspace plus the caller's own account-level
+  // events. Filters: actions (comma-separated), actorUserId, targetType,
+  // targetId, requestId, after, before, limit and cursor.
+  app.get("/api/audit", requirePermission("audit.view"), async (req, res) => {
+    try {
+      const { actions, ...params } = req.query;
+      let query;
+      try {
+        query = auditEventQuerySchema.parse({
+          ...params,
+          actions: typeof actions === "string" && actions ? actions.split(",") : undefined,
+          workspaceId: getWorkspaceId(req),
+          accountUserId: req.user!.id,
+        });
+      } catch (error) {
+        const message = error instanceof ZodError ? fromZodError(error).message : (error as Error).message;
+        return res.status(400).json({ message: `Invalid audit query: ${message}` });
+      }
+
+      const limit = query.limit ?? 50;
+      const events = await storage.queryAuditEvents({ ...query, limit: limit + 1 });
+      const page = events.slice(0, limit);
+
+      const actorIds = Array.from(new Set(page.map(event => event.actorUserId).filter((id): id is number => id !== null)));
+      const actors = new Map((await Promise.all(actorIds.map(id => storage.getUser(id))))
+        .filter(user => user !== undefined)
+        .map(user => [user.id, user.username]));
+
+      const result: AuditEventPage = {
+        events: page.map(event => ({ ...event, actorUsername: event.actorUserId !== null ? actors.get(event.actorUserId) ?? null : null })),
+        nextCursor: events.length > limit ? page[page.length - 1].id : null,
+      };
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Drive folders, served from the cached folder tree
   app.get("/api/drive/folders", async (req, res) => {
     try {
+      const accountId = requireGoogleAccountId(req, res);
+      if (accountId === undefined) return;
+
       const { parentId } = req.query;
-      const folders = await googleDriveService.listFolders(parentId as string);
+      const folders = await folderTreeService.listFolders(accountId, parentId as string | undefined);
       res.json(folders);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Folder hierarchy below parentId (default root); depth limits how many
+  // levels are returned so the folder browser can lazy-load children
+  app.get("/api/drive/tree", async (req, res) => {
+    try {
+      const accountId = requireGoogleAccountId(req, res);
+      if (accountId === undefined) return;
+
+      const parentId = typeof req.query.parentId === "string" && req.query.parentId ? req.query.parentId : "root";
+      const depth = req.query.depth !== undefined ? parseInt(String(req.query.depth)) : Infinity;
+
+      if (isNaN(depth) || depth < 1) {
+        return res.status(400).json({ message: "depth must be a positive integer" });
+      }
+
+      const folders = await folderTreeService.getTree(accountId, parentId, depth);
+      res.json({ parentId, folders, refreshedAt: folderTreeService.getLastRefreshedAt(accountId) });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/drive/tree/refresh", async (req, res) => {
+    try {
+      const accountId = requireGoogleAccountId(req, res);
+      if (accountId === undefined) return;
+
+      const folderCount = await folderTreeService.refresh(accountId);
+      res.json({ folderCount, refreshedAt: folderTreeService.getLastRefreshedAt(accountId) });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Drive API request, retry and rate limit counters
+  app.get("/api/drive/quota", async (req, res) => {
+    try {
+      res.json(driveQuotaService.getStats());
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Folders directly below parentId (default the provider's root) for the
+  // local and s3 providers, answered like /api/drive/tree with depth 1
+  app.get("/api/storage/:provider/tree", async (req, res) => {
+    let provider: ServerStorageProvider;
+    try {
+      provider = storageProviders.getServerProvider(req.params.provider);
+    } catch (error) {
+      return res.status(404).json({ message: (error as Error).message });
+    }
+
+    try {
+      if (!provider.isConfigured()) {
+        return res.status(404).json({ message: `Storage provider ${provider.type} is not configured` });
+      }
+
+      const root = provider.getRootFolder();
+      const parentId = typeof req.query.parentId === "string" && req.query.parentId ? req.query.parentId : root.id;
+      if (!provider.ownsId(parentId)) {
+        return res.status(400).json({ message: `parentId is not a ${provider.type} folder` });
+      }
+
+      res.json({ parentId, root, folders: await provider.getChildFolders(parentId), refreshedAt: null });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Incremental sync from the Drive Changes feed; the sync job also runs it
+  // every DRIVE_SYNC_INTERVAL_MINUTES
+  app.get("/api/drive/sync/status", async (req, res) => {
+    try {
+      const accountId = requireGoogleAccountId(req, res);
+      if (accountId === undefined) return;
+
+      res.json(await driveSyncService.getStatus(accountId));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/drive/sync", async (req, res) => {
+    try {
+      const accountId = requireGoogleAccountId(req, res);
+      if (accountId === undefined) return;
+
+      await driveSyncService.sync(accountId);
+      res.json(await driveSyncService.getStatus(accountId));
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Push notification channels of the active account. Its Changes feed is
+  // watched automatically; single files or folders can be watched as well.
+  app.get("/api/drive/watch", async (req, res) => {
+    try {
+      const accountId = requireGoogleAccountId(req, res);
+      if (accountId === undefined) return;
+
+      const channels = await storage.getDriveWatchChannels(accountId);
+      res.json({ enabled: driveWatchService.isEnabled(), channels: channels.map(toPublicDriveWatchChannel) });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/drive/watch", async (req, res) => {
+    try {
+      const accountId = requireGoogleAccountId(req, res);
+      if (accountId === undefined) return;
+
+      const { fileId } = createDriveWatchSchema.parse(req.body);
+      if (!driveWatchService.isEnabled()) {
+        return res.status(400).json({ message: "Drive push notifications are off; set DRIVE_WEBHOOK_URL to enable them" });
+      }
+
+      const channel = await driveWatchService.watchFile(accountId, fileId);
+      res.status(201).json(toPublicDriveWatchChannel(channel));
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.delete("/api/drive/watch/:id", async (req, res) => {
+    try {
+      const accountId = requireGoogleAccountId(req, res);
+      if (accountId === undefined) return;
+
+      const channel = (await storage.getDriveWatchChannels(accountId)).find(channel => channel.id === parseInt(req.params.id));
+      if (!channel) {
+        return res.status(404).json({ message: "Watch channel not found" });
+      }
+
+      await driveWatchService.stop(channel);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
   // Drive files
+  app.get("/api/drive/files/:folderId/stats", async (req, res) => {
+    try {
+      const { folderId } = req.params;
+      const counts = await storage.countDriveFilesByStatus({ workspaceId: getWorkspaceId(req), folderIds: [folderId] });
+
+      res.json({
+        total: Object.values(counts).reduce((sum, n) => sum + n, 0),
+        processed: counts.processed || 0,
+        processing: counts.processing || 0,
+        pending: counts.pending || 0,
+        error: counts.error || 0
+      });
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Syncs the folder from Google Drive, or from the local or S3 provider its id
+  // belongs to, then returns one page of stored files. Accepts type, status, createdAfter/Before, modifiedAfter/Before, hasAiMetadata, stale,
+  // search, meta=field:op:value, sort=-modifiedTime,name, limit and cursor.
   app.get("/api/drive/files/:folderId", async (req, res) => {
     try {
       const { folderId } = req.params;
+      const workspaceId = getWorkspaceId(req);
+      const query = parseFileQueryParams(req.query, res);
+      if (!query) return;
+
+      // Local and S3 folders need no Google account; their sync restores
+      // metadata from sidecars or tags
+      if (storageProviders.findServerProvider(folderId)) {
+        if (!query.cursor) {
+          await agenticSearchService.syncFolder(workspaceId, null, folderId);
+        }
+        return res.json(await storage.queryDriveFiles({ ...query, workspaceId, folderIds: [folderId] }));
+      }
 
-      // First get files from Google Drive
-      const driveFiles = await googleDriveService.listFiles(folderId);
+      // Only the first page syncs with Drive; later pages read from storage
+      const accountId = query.cursor ? undefined : requireGoogleAccountId(req, res);
+      if (!query.cursor && accountId === undefined) return;
+      const driveFiles = accountId === undefined ? [] : await googleDriveService.listFiles(accountId, folderId);
 
-      // Store/update files in our database and return the stored versions
-      const storedFiles = [];
       for (const driveFile of driveFiles) {
-        let stored = await storage.getDriveFileByDriveId(driveFile.id);
+        let stored = await storage.getDriveFileByDriveId(workspaceId, driveFile.id);
 
         if (!stored) {
-          // Get full metadata from Google Drive to check for AI properties
-          const fullMetadata = await googleDriveService.getFileMetadata(driveFile.id);
-          const driveProperties = fullMetadata.properties || {};
-          
-          // Restore AI metadata from Google Drive properties
-          let aiGeneratedMetadata = null;
-          let status = 'pending';
-          
-          if (Object.keys(driveProperties).some(key => key.startsWith('AI_'))) {
-            // Reconstruct AI metadata from Google Drive properties
-            aiGeneratedMetadata = {};
-            for (const [key, value] of Object.entries(driveProperties)) {
-              if (key.startsWith('AI_')) {
-                const metadataKey = key.substring(3); // Remove 'AI_' prefix
-                
-                // Handle arrays (tags) and other data types
-                if (metadataKey === 'tags' && typeof value === 'string') {
-                  try {
-                    aiGeneratedMetadata[metadataKey] = JSON.parse(value);
-                  } catch {
-                    aiGeneratedMetadata[metadataKey] = value.split(',').map(tag => tag.trim());
-                  }
-                } else {
-                  aiGeneratedMetadata[metadataKey] = value;
-                }
-              }
-            }
-            
-            if (Object.keys(aiGeneratedMetadata).length > 0) {
-              status = 'processed';
-            }
-          }
+          // Restore AI metadata an earlier export wrote to the file's
+          // properties, appProperties or description
+          const fullMetadata = await googleDriveService.getFileMetadata(accountId!, driveFile.id);
+          const aiGeneratedMetadata = driveMetadataService.readMetadata(fullMetadata);
+          const status = aiGeneratedMetadata ? 'processed' : 'pending';
 
           // Create new file record
           const fileData = {
+            workspaceId,
+            googleAccountId: accountId!,
             driveId: driveFile.id,
+            sharedDriveId: driveFile.driveId ?? null,
             name: driveFile.name,
             type: googleDriveService.getFileType(driveFile.mimeType),
             size: parseInt(driveFile.size || '0'),
@@ -163,60 +829,56 @@ export async function registerRoutes(app: Express): Promise<Server> {
             modifiedTime: new Date(driveFile.modifiedTime),
             status: status,
             processingError: null,
-            existingMetadata: null,
+            existingMetadata: driveMetadataService.readExistingMetadata(fullMetadata),
             aiGeneratedMetadata: aiGeneratedMetadata,
             customMetadata: null
           };
 
           const validatedData = insertDriveFileSchema.parse(fileData);
           stored = await storage.createDriveFile(validatedData);
+          if (aiGeneratedMetadata) {
+            await metadataHistoryService.recordRevision(stored, { source: 'drive_restore' });
+          }
         } else {
+          // Files recorded before accounts were tracked belong to whichever
+          // account first lists them again
+          if (stored.googleAccountId === null) {
+            stored = await storage.updateDriveFile(stored.id, { googleAccountId: accountId! }) || stored;
+          }
+
+          // Listed again after the drive sync saw it removed, e.g. restored from the trash
+          if (stored.removedAt) {
+            stored = await storage.updateDriveFile(stored.id, { removedAt: null }) || stored;
+          }
+
+          const existingMetadata = driveMetadataService.readExistingMetadata(driveFile);
+          if (driveMetadataService.existingMetadataChanged(stored, existingMetadata)) {
+            stored = await storage.updateDriveFile(stored.id, { existingMetadata }) || stored;
+          }
+
           // For existing files, check if we need to restore AI metadata
-          if (!stored.aiGeneratedMetadata || Object.keys(stored.aiGeneratedMetadata as any).length === 0) {
+          if (!stored.aiGeneratedMetadata || Object.keys(stored.aiGeneratedMetadata as Record<string, unknown>).length === 0) {
             try {
-              const fullMetadata = await googleDriveService.getFileMetadata(driveFile.id);
-              const driveProperties = fullMetadata.properties || {};
-              console.log(`Route AI restoration for ${driveFile.name}: properties=`, driveProperties);
-              
-              if (Object.keys(driveProperties).some(key => key.startsWith('AI_'))) {
-                console.log(`Found AI properties for ${driveFile.name}`);
-                // Reconstruct AI metadata from Google Drive properties
-                const aiGeneratedMetadata: any = {};
-                for (const [key, value] of Object.entries(driveProperties)) {
-                  if (key.startsWith('AI_')) {
-                    const metadataKey = key.substring(3); // Remove 'AI_' prefix
-                    
-                    // Handle arrays (tags) and other data types
-                    if (metadataKey === 'tags' && typeof value === 'string') {
-                      try {
-                        aiGeneratedMetadata[metadataKey] = JSON.parse(value);
-                      } catch {
-                        aiGeneratedMetadata[metadataKey] = value.split(',').map((tag: string) => tag.trim());
-                      }
-                    } else {
-                      aiGeneratedMetadata[metadataKey] = value;
-                    }
-                  }
-                }
-                
-                if (Object.keys(aiGeneratedMetadata).length > 0) {
-                  // Update the stored file with restored AI metadata
-                  stored = await storage.updateDriveFile(stored.id, {
-                    aiGeneratedMetadata: aiGeneratedMetadata,
-                    status: 'processed'
-                  }) || stored;
-                }
+              const fullMetadata = await googleDriveService.getFileMetadata(accountId!, driveFile.id);
+              const aiGeneratedMetadata = driveMetadataService.readMetadata(fullMetadata);
+
+              if (aiGeneratedMetadata) {
+                console.log(`Restoring AI metadata for ${driveFile.name}`);
+                // Update the stored file with restored AI metadata
+                stored = await metadataHistoryService.updateFileMetadata(stored.id, {
+                  aiGeneratedMetadata: aiGeneratedMetadata,
+                  status: 'processed'
+                }, { source: 'drive_restore' }) || stored;
               }
             } catch (error) {
               console.log(`Could not restore AI metadata for file ${driveFile.name}:`, error);
             }
           }
         }
-
-        storedFiles.push(stored);
       }
 
-      res.json(storedFiles);
+      const page = await storage.queryDriveFiles({ ...query, workspaceId, folderIds: [folderId] });
+      res.json(page);
     } catch (error) {
       res.status(500).json({ message: error.message });
     }
@@ -225,7 +887,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/files/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const file = await storage.getDriveFile(parseInt(id));
+      const file = inWorkspace(req, await storage.getDriveFile(parseInt(id)));
 
       if (!file) {
         return res.status(404).json({ message: "File not found" });
@@ -237,54 +899,216 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.patch("/api/files/:id", async (req, res) => {
+  app.patch("/api/files/:id", requirePermission("metadata.edit"), async (req, res) => {
     try {
       const { id } = req.params;
-      const updates = req.body;
+      const updates = updateFileMetadataSchema.parse(req.body);
 
-      const updated = await storage.updateDriveFile(parseInt(id), updates);
+      const file = inWorkspace(req, await storage.getDriveFile(parseInt(id)));
+      const updated = file && await metadataHistoryService.updateFileMetadata(file.id, updates, { source: 'manual' });
 
       if (!updated) {
         return res.status(404).json({ message: "File not found" });
       }
 
+      await recordAuditEvent(req, {
+        action: "metadata.update",
+        targetType: "file",
+        targetIds: [updated.id],
+        ...summarizeChanges(file, updates),
+      });
       res.json(updated);
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Metadata revision history, newest first
+  app.get("/api/files/:id/revisions", async (req, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const file = inWorkspace(req, await storage.getDriveFile(fileId));
+
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const revisions = await metadataHistoryService.getRevisions(fileId);
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Diff two revisions: ?from=<revisionId>&to=<revisionId>; omit "to" to diff against the current metadata
+  app.get("/api/files/:id/revisions/diff", async (req, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const from = parseInt(String(req.query.from));
+      const to = req.query.to !== undefined ? parseInt(String(req.query.to)) : undefined;
+
+      if (isNaN(from) || (to !== undefined && isNaN(to))) {
+        return res.status(400).json({ message: "from and to must be revision ids" });
+      }
+
+      const file = inWorkspace(req, await storage.getDriveFile(fileId));
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      for (const revisionId of [from, to]) {
+        if (revisionId !== undefined && !(await metadataHistoryService.getRevision(fileId, revisionId))) {
+          return res.status(404).json({ message: `Revision ${revisionId} not found` });
+        }
+      }
+
+      const diff = await metadataHistoryService.diffRevisions(fileId, from, to);
+      res.json(diff);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  app.post("/api/files/:id/revisions/:revisionId/revert", requirePermission("metadata.edit"), async (req, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const revisionId = parseInt(req.params.revisionId);
+
+      const file = inWorkspace(req, await storage.getDriveFile(fileId));
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+
+      const reverted = await metadataHistoryService.revertToRevision(fileId, revisionId);
+      if (!reverted) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      await recordAuditEvent(req, {
+        action: "metadata.revert",
+        targetType: "file",
+        targetIds: [fileId],
+        before: { aiGeneratedMetadata: file.aiGeneratedMetadata, customMetadata: file.customMetadata },
+        after: { revisionId, aiGeneratedMetadata: reverted.aiGeneratedMetadata, customMetadata: reverted.customMetadata },
+      });
+      res.json(reverted);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // LLM providers templates and jobs can pick, with their default models
+  app.get("/api/llm/providers", async (req, res) => {
+    try {
+      const list: LLMProviderList = {
+        default: llmProviders.getDefault().name,
+        providers: llmProviders.list().map(provider => ({
+          name: provider.name,
+          configured: provider.isConfigured(),
+          models: provider.defaultModels(),
+        })),
+      };
+      res.json(list);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
   // Metadata templates
   app.get("/api/templates", async (req, res) => {
     try {
-      const templates = await storage.getAllMetadataTemplates();
+      const templates = await storage.getAllMetadataTemplates(getWorkspaceId(req));
       res.json(templates);
     } catch (error) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/templates", async (req, res) => {
+  app.post("/api/templates", requirePermission("templates.manage"), async (req, res) => {
     try {
-      const validatedData = insertMetadataTemplateSchema.parse(req.body);
+      const validatedData = insertMetadataTemplateSchema.parse({ ...req.body, workspaceId: getWorkspaceId(req) });
       const template = await storage.createMetadataTemplate(validatedData);
+      await recordTemplateCreate(req, template);
       res.json(template);
     } catch (error) {
       res.status(400).json({ message: error.message });
     }
   });
 
+  // Overrides the workspace export profile for metadata generated with this
+  // template; null falls back to the workspace's
+  app.put("/api/templates/:id/export-profile", requirePermission("templates.manage"), async (req, res) => {
+    try {
+      const { exportProfile } = updateExportProfileSchema.parse(req.body);
+      const template = inWorkspace(req, await storage.getMetadataTemplate(parseInt(req.params.id)));
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const updated = await storage.updateMetadataTemplate(template.id, { exportProfile });
+      await recordAuditEvent(req, {
+        action: "export_profile.update",
+        targetType: "template",
+        targetIds: [template.id],
+        ...summarizeChanges(template, { exportProfile }),
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
+  // Picks the LLM provider and model for metadata generated with this
+  // template; null falls back to LLM_PROVIDER or the provider's default model
+  app.put("/api/templates/:id/llm", requirePermission("templates.manage"), async (req, res) => {
+    try {
+      const selection = updateTemplateLLMSchema.parse(req.body);
+      const template = inWorkspace(req, await storage.getMetadataTemplate(parseInt(req.params.id)));
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const updated = await storage.updateMetadataTemplate(template.id, selection);
+      await recordAuditEvent(req, {
+        action: "template_llm.update",
+        targetType: "template",
+        targetIds: [template.id],
+        ...summarizeChanges(template, selection),
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
   // Clear all templates
-  app.delete("/api/templates/clear", async (req, res) => {
+  app.delete("/api/templates/clear", requirePermission("templates.manage"), async (req, res) => {
     try {
-      await storage.clearAllMetadataTemplates();
+      const workspaceId = getWorkspaceId(req);
+      const templates = await storage.getAllMetadataTemplates(workspaceId);
+      await storage.clearAllMetadataTemplates(workspaceId);
+      await recordAuditEvent(req, {
+        action: "templates.clear",
+        targetType: "template",
+        targetIds: templates.map(template => template.id),
+        before: { names: templates.map(template => template.name) },
+      });
       res.json({ message: "All templates cleared successfully" });
     } catch (error) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/templates/upload", upload.single("file"), async (req, res) => {
+  app.post("/api/templates/upload", requirePermission("templates.manage"), upload.single("file"), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No file uploaded" });
@@ -343,7 +1167,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.log("Excel data:", JSON.stringify(data.slice(0, 5))); // Debug log
 
         for (let i = 1; i < data.length; i++) { // Start from 1 to skip header
-          const row = data[i] as any[];
+          const row = data[i] as unknown[];
           if (row && row.length >= 2) {
             const [fieldName, fieldDescription, fieldType, options] = row;
             console.log(`Excel row ${i}: [${row.join('] [')}]`); // Debug log
@@ -369,6 +1193,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const templateData = {
+        workspaceId: getWorkspaceId(req),
         name: name || req.file.originalname,
         description: description || `Template imported from ${req.file.originalname}`,
         fields
@@ -376,6 +1201,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const validatedData = insertMetadataTemplateSchema.parse(templateData);
       const template = await storage.createMetadataTemplate(validatedData);
+      await recordTemplateCreate(req, template);
 
       res.json(template);
     } catch (error) {
@@ -384,38 +1210,83 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // File processing
-  app.post("/api/process/file/:id", async (req, res) => {
+  app.post("/api/process/file/:id", requirePermission("files.process"), async (req, res) => {
     try {
       const { id } = req.params;
       const { templateId } = req.body;
+      const llm = llmSelectionSchema.parse(req.body);
 
-      const file = await storage.getDriveFile(parseInt(id));
-      if (!file) {
+      const stored = inWorkspace(req, await storage.getDriveFile(parseInt(id)));
+      if (!stored) {
         return res.status(404).json({ message: "File not found" });
       }
 
-      const template = templateId ? await storage.getMetadataTemplate(templateId) : undefined;
+      const template = templateId ? inWorkspace(req, await storage.getMetadataTemplate(templateId)) : undefined;
+      if (templateId && !template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      if (!checkLLMConfigured(res, llm, template)) return;
+
+      const file = await fileForCaller(req, res, stored);
+      if (!file) return;
+
+      await recordAuditEvent(req, {
+        action: "file.process",
+        targetType: "file",
+        targetIds: [file.id],
+        before: { status: file.status },
+        after: { templateId: template?.id ?? null, llmProvider: llm.llmProvider ?? null, llmModel: llm.llmModel ?? null },
+      });
 
       // Process file in background
-      fileProcessorService.processFile(file, template).catch(error => {
+      fileProcessorService.processFile(file, template, 'ai', llm).catch(error => {
         console.error("File processing failed:", error);
       });
 
       res.json({ message: "Processing started" });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/process/batch", async (req, res) => {
+  app.post("/api/process/batch", requirePermission("files.process"), async (req, res) => {
     try {
       const { folderId, templateId } = req.body;
+      const llm = llmSelectionSchema.parse(req.body);
 
-      // Start batch processing in background
-      const jobId = await fileProcessorService.processBatch(folderId, templateId);
+      const template = templateId ? inWorkspace(req, await storage.getMetadataTemplate(templateId)) : undefined;
+      if (templateId && !template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      if (!checkLLMConfigured(res, llm, template)) return;
+      // Drive folders are read through the caller's own account
+      if (!storageProviders.findServerProvider(folderId) && requireGoogleAccountId(req, res) === undefined) return;
+
+      // Recorded whether or not the batch gets to finish, with the error if not
+      let jobId: number | undefined;
+      let failure: string | null = null;
+      try {
+        jobId = await fileProcessorService.processBatch(getWorkspaceId(req), folderId, templateId, req.googleAccount?.id, llm);
+      } catch (error) {
+        failure = (error as Error).message;
+        throw error;
+      } finally {
+        await recordAuditEvent(req, {
+          action: "batch.process",
+          targetType: "processing_job",
+          targetIds: jobId !== undefined ? [jobId] : [],
+          after: { folderId, templateId: templateId ?? null, llmProvider: llm.llmProvider ?? null, llmModel: llm.llmModel ?? null, error: failure },
+        });
+      }
 
       res.json({ jobId, message: "Batch processing started" });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ message: fromZodError(error).message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
@@ -423,7 +1294,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Processing jobs
   app.get("/api/jobs", async (req, res) => {
     try {
-      const jobs = await storage.getAllProcessingJobs();
+      const jobs = await storage.getAllProcessingJobs(getWorkspaceId(req));
       res.json(jobs);
     } catch (error) {
       res.status(500).json({ message: error.message });
@@ -433,7 +1304,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/jobs/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const job = await storage.getProcessingJob(parseInt(id));
+      const job = inWorkspace(req, await storage.getProcessingJob(parseInt(id)));
 
       if (!job) {
         return res.status(404).json({ message: "Job not found" });
@@ -445,15 +1316,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Workspace backup: a gzip-compressed JSON archive of files, templates, jobs and revisions
+  app.get("/api/admin/backup", requirePermission("workspace.manage"), async (req, res) => {
+    const archive = createGzip();
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+
+    res.setHeader("Content-Type", "application/gzip");
+    res.setHeader("Content-Disposition", `attachment; filename="metadata-enhancer-backup-${timestamp}.json.gz"`);
+    archive.pipe(res);
+
+    try {
+      await backupService.writeBackup(getWorkspaceId(req), archive);
+    } catch (error) {
+      console.error("Backup failed:", error);
+      archive.unpipe(res);
+      if (res.headersSent) {
+        res.destroy(error as Error);
+      } else {
+        res.removeHeader("Content-Disposition");
+        res.status(500).json({ message: (error as Error).message });
+      }
+    }
+  });
+
+  // Restore from an uploaded archive (multipart field "archive").
+  // mode=merge|replace, onConflict=skip|overwrite for files whose driveId already exists.
+  app.post("/api/admin/restore", requirePermission("workspace.manage"), uploadBackupArchive, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No backup archive uploaded" });
+      }
+
+      let options: RestoreOptions;
+      let archive: WorkspaceArchive;
+      try {
+        options = restoreOptionsSchema.parse({ ...req.query, ...req.body });
+        archive = backupService.parseArchive(req.file.buffer);
+      } catch (error) {
+        const message = error instanceof ZodError ? fromZodError(error).message : (error as Error).message;
+        return res.status(400).json({ message: `Invalid backup archive: ${message}` });
+      }
+
+      let report: RestoreReport | undefined;
+      let failure: string | null = null;
+      try {
+        report = await backupService.restore(getWorkspaceId(req), archive, options);
+      } catch (error) {
+        failure = (error as Error).message;
+        throw error;
+      } finally {
+        await recordAuditEvent(req, {
+          action: "workspace.restore",
+          targetType: "workspace",
+          targetIds: [getWorkspaceId(req)],
+          after: { mode: options.mode, onConflict: options.onConflict, created: report?.created ?? null, updated: report?.updated ?? null, error: failure },
+        });
+      }
+      res.json(report);
+    } catch (error) {
+      res.status(500).json({ message: (error as Error).message });
+    }
+  });
+
   // Get file properties from Google Drive (AI metadata)
   app.get("/api/drive/properties/:fileId", async (req, res) => {
     try {
-      if (!googleDriveService.isAuthenticated()) {
+      if (!req.googleAccount) {
         return res.status(401).json({ error: "Not authenticated with Google Drive" });
       }
 
       const { fileId } = req.params;
-      const metadata = await googleDriveService.getFileMetadata(fileId);
+      const metadata = await googleDriveService.getFileMetadata(req.googleAccount.id, fileId);
       const properties = metadata.properties || {};
       res.json(properties);
     } catch (error) {
@@ -463,30 +1396,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Export metadata to Google Drive routes
-  app.post("/api/export/file/:id", async (req, res) => {
+  app.post("/api/export/file/:id", requirePermission("drive.export"), async (req, res) => {
     try {
       const { id } = req.params;
-      const file = await storage.getDriveFile(parseInt(id));
+      const stored = inWorkspace(req, await storage.getDriveFile(parseInt(id)));
 
-      if (!file) {
+      if (!stored) {
         return res.status(404).json({ message: "File not found" });
       }
 
-      if (!file.aiGeneratedMetadata) {
+      if (!stored.aiGeneratedMetadata) {
         return res.status(400).json({ message: "No AI-generated metadata to export" });
       }
 
+      const file = await fileForCaller(req, res, stored);
+      if (!file) return;
+
       await fileProcessorService.exportMetadataToDrive(file);
+      await recordAuditEvent(req, {
+        action: "export.file",
+        targetType: "file",
+        targetIds: [file.id],
+        after: { driveId: file.driveId, fields: Object.keys(stored.aiGeneratedMetadata) },
+      });
       res.json({ message: "Metadata exported to Google Drive successfully" });
     } catch (error) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/export/folder/:folderId", async (req, res) => {
+  app.post("/api/export/folder/:folderId", requirePermission("drive.export"), async (req, res) => {
     try {
       const { folderId } = req.params;
-      const exportedCount = await fileProcessorService.exportAllMetadataToDrive(folderId);
+      // Drive folders are written through the caller's own account
+      if (!storageProviders.findServerProvider(folderId) && requireGoogleAccountId(req, res) === undefined) return;
+
+      const exportedCount = await fileProcessorService.exportAllMetadataToDrive(getWorkspaceId(req), folderId, req.googleAccount?.id);
+      await recordAuditEvent(req, {
+        action: "export.folder",
+        targetType: "folder",
+        targetIds: [folderId],
+        after: { exportedCount },
+      });
 
       res.json({ 
         message: `Exported metadata for ${exportedCount} files to Google Drive`,
@@ -501,18 +1452,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/verify/file/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const file = await storage.getDriveFile(parseInt(id));
+      const stored = inWorkspace(req, await storage.getDriveFile(parseInt(id)));
 
-      if (!file) {
+      if (!stored) {
         return res.status(404).json({ message: "File not found" });
       }
 
-      // Get metadata directly from Google Drive
-      const driveMetadata = await googleDriveService.getFileMetadata(file.driveId);
+      const file = await fileForCaller(req, res, stored);
+      if (!file) return;
+
+      // Read back what the file's storage provider holds
+      const driveMetadata = await storageProviders.getFileMetadata(file);
 
       res.json({ 
         fileName: file.name,
         driveProperties: driveMetadata.properties || {},
+        driveMetadata: driveMetadataService.readMetadata(driveMetadata),
         exportedMetadata: file.aiGeneratedMetadata 
       });
     } catch (error) {
@@ -520,29 +1475,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Verify exported metadata for all processed files
+  // Verify exported metadata for stored files, one page at a time
   app.get("/api/verify/all-files", async (req, res) => {
     try {
-      // Get all processed files from database
-      const files = await storage
-        .getAllDriveFiles();
-
-      if (files.length === 0) {
-        return res.json([]);
-      }
+      const query = parseFileQueryParams({ limit: 25, ...req.query }, res);
+      if (!query) return;
 
+      const page = await storage.queryDriveFiles({ ...query, workspaceId: getWorkspaceId(req) });
       const verifications = [];
 
       // Get metadata for each file
-      for (const file of files) {
+      for (const file of page.files) {
         try {
-          // Get metadata directly from Google Drive
-           const driveMetadata = await googleDriveService.getFileMetadata(file.driveId);
+          const resolved = await resolveFileForCaller(req, file);
+          if ("status" in resolved) {
+            throw new Error(resolved.message);
+          }
 
+          // Read back what the file's storage provider holds
+          const driveMetadata = await storageProviders.getFileMetadata(resolved.file);
 
           verifications.push({
             fileName: file.name,
             driveProperties: driveMetadata.properties || {},
+            driveMetadata: driveMetadataService.readMetadata(driveMetadata),
             exportedMetadata: file.aiGeneratedMetadata
           });
         } catch (error) {
@@ -550,20 +1506,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
           verifications.push({
             fileName: file.name,
             driveProperties: {},
+            driveMetadata: null,
             exportedMetadata: file.aiGeneratedMetadata,
-            error: error.message
+            error: (error as Error).message
           });
         }
       }
 
-      res.json(verifications);
+      res.json({ verifications, nextCursor: page.nextCursor, total: page.total });
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
   // Bulk export multiple files
-  app.post("/api/export/bulk", async (req, res) => {
+  app.post("/api/export/bulk", requirePermission("drive.export"), async (req, res) => {
     try {
       const { fileIds } = req.body;
 
@@ -574,39 +1531,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let exportedCount = 0;
       let skippedCount = 0;
       const errors = [];
+      // Drive metadata of the files that were overwritten, for the audit log
+      const overwrittenMetadata: Record<number, DriveMetadataSource> = {};
 
       for (const fileId of fileIds) {
         try {
-          const file = await storage.getDriveFile(fileId);
+          const file = inWorkspace(req, await storage.getDriveFile(fileId));
           if (file && file.aiGeneratedMetadata) {
-            // Get existing metadata to check for changes
-            const existingDriveMetadata = await googleDriveService.getFileMetadata(file.driveId);
-            const existingProperties = existingDriveMetadata.properties || {};
-            
-            // Convert AI metadata for comparison
-            const newProperties: Record<string, string> = {};
-            Object.entries(file.aiGeneratedMetadata).forEach(([key, value]) => {
-              const sanitizedKey = `AI_${key}`.replace(/[^a-zA-Z0-9.!@$%^&*()\-_/]/g, '_');
-              let stringValue: string;
-              if (Array.isArray(value)) {
-                stringValue = value.join(', ');
-              } else {
-                stringValue = String(value);
-              }
-              newProperties[sanitizedKey] = stringValue;
-            });
-            
-            // Check for changes
-            let hasChanges = false;
-            for (const [key, value] of Object.entries(newProperties)) {
-              if (existingProperties[key] !== value) {
-                hasChanges = true;
-                break;
-              }
+            const resolved = await resolveFileForCaller(req, file);
+            if ("status" in resolved) {
+              throw new Error(resolved.message);
             }
-            
-            if (hasChanges) {
-              await fileProcessorService.exportMetadataToDrive(file);
+
+            const previous = await fileProcessorService.exportMetadataToDrive(resolved.file);
+            if (previous) {
+              overwrittenMetadata[file.id] = previous;
               exportedCount++;
             } else {
               skippedCount++;
@@ -617,6 +1556,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      await recordAuditEvent(req, {
+        action: "export.bulk",
+        targetType: "file",
+        targetIds: Object.keys(overwrittenMetadata),
+        before: { driveMetadata: overwrittenMetadata },
+        after: { exportedCount, skippedCount, failedCount: errors.length },
+      });
+
       res.json({ 
         message: `Bulk export completed. Exported ${exportedCount} files, skipped ${skippedCount} files (no changes).${errors.length > 0 ? ` ${errors.length} files failed.` : ''}`,
         exportedCount,
@@ -628,70 +1575,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // AI search endpoint with recursive folder search
+  // AI search endpoint with recursive folder search. Filtering and pagination
+  // happen in storage; results within a page are ordered by relevance unless
+  // an explicit sort is requested.
   app.post("/api/search", async (req, res) => {
     try {
-      const { query, folderId } = req.body;
+      const { query, folderId, ...params } = req.body;
       
       if (!query || typeof query !== "string") {
         return res.status(400).json({ message: "Search query is required" });
       }
 
-      // Recursive function to get all files from folder and subfolders
-      const getAllFilesRecursive = async (targetFolderId: string): Promise<any[]> => {
-        const allFiles: any[] = [];
-        
-        // Get direct files in this folder
-        const directFiles = await storage.getDriveFilesByFolder(targetFolderId);
-        allFiles.push(...directFiles);
-        
-        // Get all subfolders and recursively search them
-        try {
-          const subfolders = await googleDriveService.listFolders(targetFolderId);
-          for (const subfolder of subfolders) {
-            const subfolderFiles = await getAllFilesRecursive(subfolder.id);
-            allFiles.push(...subfolderFiles);
-          }
-        } catch (error) {
-          // Continue if we can't access some subfolders
-          console.log(`Could not access subfolders for ${targetFolderId}`);
-        }
-        
-        return allFiles;
-      };
+      const fileQuery = parseFileQueryParams(params, res);
+      if (!fileQuery) return;
 
-      // Get all files from the specified folder and all its subfolders
-      const allFiles = await getAllFilesRecursive(folderId || "root");
-      
-      // Filter files that have been processed and have AI metadata
-      const processedFiles = allFiles.filter(file => 
-        file.status === "processed" && 
-        file.aiGeneratedMetadata
-      );
-
-      // Perform search across all metadata fields
-      const searchTerms = query.toLowerCase().split(" ");
-      const searchResults = processedFiles.filter(file => {
-        const searchableContent = [
-          file.name.toLowerCase(),
-          JSON.stringify(file.aiGeneratedMetadata).toLowerCase(),
-          file.type.toLowerCase(),
-          file.mimeType.toLowerCase()
-        ].join(" ");
+      // Searching from root covers every stored file; below it the folder
+      // tree of the active Google account decides what is in scope
+      let folderIds: string[] | undefined;
+      if (folderId && folderId !== "root") {
+        const accountId = requireGoogleAccountId(req, res);
+        if (accountId === undefined) return;
+        folderIds = await folderTreeService.getSubtreeFolderIds(accountId, folderId);
+      }
 
-        return searchTerms.some(term => searchableContent.includes(term));
+      // Only processed files with AI metadata that match at least one term
+      const page = await storage.queryDriveFiles({
+        ...fileQuery,
+        workspaceId: getWorkspaceId(req),
+        folderIds,
+        statuses: fileQuery.statuses || ["processed"],
+        hasAiMetadata: true,
+        search: query
       });
 
+      if (fileQuery.sort) {
+        return res.json(page);
+      }
+
       // Sort by relevance (simple scoring based on matches)
-      const scoredResults = searchResults.map(file => {
+      const searchTerms = query.toLowerCase().split(/\s+/).filter(Boolean);
+      const scoredResults = page.files.map(file => {
         const searchableContent = [
           file.name.toLowerCase(),
           JSON.stringify(file.aiGeneratedMetadata).toLowerCase()
         ].join(" ");
         
         const score = searchTerms.reduce((acc, term) => {
-          const matches = (searchableContent.match(new RegExp(term, "g")) || []).length;
-          return acc + matches;
+          return acc + searchableContent.split(term).length - 1;
         }, 0);
         
         return { file, score };
@@ -702,9 +1632,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         .sort((a, b) => b.score - a.score)
         .map(result => result.file);
 
-      res.json(sortedResults);
+      res.json({ ...page, files: sortedResults });
     } catch (error) {
-      res.status(500).json({ message: error.message });
+      res.status(500).json({ message: (error as Error).message });
     }
   });
 
@@ -712,51 +1642,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/analytics/:folderId", async (req, res) => {
     try {
       const { folderId } = req.params;
+      const workspaceId = getWorkspaceId(req);
+      const accountId = requireGoogleAccountId(req, res);
+      if (accountId === undefined) return;
+
+      // The internal calls act as the same user, or API token, in the same workspace and Google account
+      const forwardedHeaders: Record<string, string> = {
+        [WORKSPACE_HEADER]: String(workspaceId),
+        [GOOGLE_ACCOUNT_HEADER]: String(accountId),
+        cookie: req.headers.cookie ?? "",
+        authorization: req.headers.authorization ?? "",
+      };
       
       // First, let's ensure we have files in our database by calling the files endpoint
       // This will populate the database with files from Google Drive if they don't exist
-      const response = await fetch(`http://localhost:5000/api/drive/files/${folderId}`);
+      const response = await fetch(`http://localhost:5000/api/drive/files/${folderId}?limit=1`, { headers: forwardedHeaders });
       if (response.ok) {
-        const driveFiles = await response.json();
-        console.log(`Found ${driveFiles.length} files in Google Drive for folder ${folderId}`);
+        const page = await response.json();
+        console.log(`Found ${page.total} files in Google Drive for folder ${folderId}`);
       }
       
-      // Recursive function to get all files from folder and subfolders
-      const getAllFilesRecursive = async (targetFolderId: string): Promise<any[]> => {
-        const allFiles: any[] = [];
-        
-        // Get direct files in this folder from our database
-        const directFiles = await storage.getDriveFilesByFolder(targetFolderId);
-        allFiles.push(...directFiles);
-        
-        // Get all subfolders and recursively search them
-        try {
-          const subfolders = await googleDriveService.listFolders(targetFolderId);
-          for (const subfolder of subfolders) {
-            // Also populate each subfolder
-            try {
-              const subResponse = await fetch(`http://localhost:5000/api/drive/files/${subfolder.id}`);
-              if (subResponse.ok) {
-                const subDriveFiles = await subResponse.json();
-                console.log(`Found ${subDriveFiles.length} files in subfolder ${subfolder.name}`);
-              }
-            } catch (error) {
-              console.log(`Could not populate subfolder ${subfolder.name}`);
+      // Collect files from the folder and every subfolder in the cached tree
+      const targetFolderId = folderId || 'root';
+      const allFiles: any[] = [];
+      for (const subfolderId of await folderTreeService.getSubtreeFolderIds(accountId, targetFolderId)) {
+        if (subfolderId !== targetFolderId) {
+          // Also populate each subfolder
+          try {
+            const subResponse = await fetch(`http://localhost:5000/api/drive/files/${subfolderId}?limit=1`, { headers: forwardedHeaders });
+            if (subResponse.ok) {
+              const subPage = await subResponse.json();
+              console.log(`Found ${subPage.total} files in subfolder ${subfolderId}`);
             }
-            
-            const subfolderFiles = await getAllFilesRecursive(subfolder.id);
-            allFiles.push(...subfolderFiles);
+          } catch (error) {
+            console.log(`Could not populate subfolder ${subfolderId}`);
           }
-        } catch (error) {
-          // Continue if we can't access some subfolders
-          console.log(`Could not access subfolders for ${targetFolderId}`);
         }
-        
-        return allFiles;
-      };
-      
-      // Get all files recursively from the specified folder
-      const allFiles = await getAllFilesRecursive(folderId || 'root');
+
+        allFiles.push(...await storage.getDriveFilesByFolder(workspaceId, subfolderId));
+      }
       
       // Debug logging
       console.log(`Analytics for folder ${folderId}: Found ${allFiles.length} total files in database`);
@@ -837,7 +1761,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Agentic Search - AI-powered natural language file search
   app.get("/api/agentic-search", async (req, res) => {
     try {
-      const { q: query, folderId } = req.query;
+      const { q: query, folderId, ...params } = req.query;
       
       if (!query || typeof query !== 'string') {
         return res.status(400).json({ 
@@ -845,7 +1769,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const result = await agenticSearchService.performAgenticSearch(query, folderId as string);
+      const fileQuery = parseFileQueryParams(params, res);
+      if (!fileQuery) return;
+
+      // Searching a folder syncs its subtree through the active Google account
+      if (folderId && folderId !== "root" && requireGoogleAccountId(req, res) === undefined) return;
+
+      const { sort, cursor, limit, ...filter } = fileQuery;
+      const result = await agenticSearchService.performAgenticSearch(getWorkspaceId(req), req.googleAccount?.id, query, folderId as string, limit, filter);
       res.json(result);
     } catch (error) {
       console.error('Agentic search error:', error);
@@ -1,9 +1,10 @@
-import OpenAI from "openai";
 import { storage } from "../storage";
-import { DriveFile } from "@shared/schema";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { metadataHistoryService } from "./metadata-history";
+import { folderTreeService } from "./folder-tree";
+import { driveMetadataService, type DriveMetadataSource } from "./drive-metadata";
+import { storageProviders } from "./storage-provider";
+import { llmProviders } from "./llm-provider";
+import { DriveFile, DriveFileFilter } from "@shared/schema";
 
 interface AgenticSearchResult {
   files: DriveFile[];
@@ -13,168 +14,189 @@ interface AgenticSearchResult {
 }
 
 export class AgenticSearchService {
-  async getAllFilesRecursively(folderId: string): Promise<DriveFile[]> {
-    if (folderId === "root") {
-      return await storage.getAllDriveFiles();
+  // Syncs the files of the folder and all of its subfolders (taken from the
+  // account's cached folder tree) into storage and returns the folder ids, so
+  // callers can query storage for the whole subtree.
+  async syncFolderRecursively(workspaceId: number, googleAccountId: number | null, folderId: string): Promise<string[]> {
+    const serverProvider = storageProviders.findServerProvider(folderId);
+    const folderIds = serverProvider
+      ? await serverProvider.getSubtreeFolderIds(folderId)
+      : await folderTreeService.getSubtreeFolderIds(this.requireGoogleAccount(googleAccountId), folderId);
+
+    for (const currentFolderId of folderIds) {
+      try {
+        await this.syncFolder(workspaceId, googleAccountId, currentFolderId);
+      } catch (error) {
+        // Fall back to whatever storage already holds for this folder
+        console.warn(`Could not access folder ${currentFolderId}:`, (error as Error).message);
+      }
     }
 
-    const files: DriveFile[] = [];
-    const processedFolders = new Set<string>();
-    const foldersToProcess = [folderId];
+    return folderIds;
+  }
 
-    while (foldersToProcess.length > 0) {
-      const currentFolderId = foldersToProcess.shift()!;
-      
-      if (processedFolders.has(currentFolderId)) {
-        continue;
-      }
-      processedFolders.add(currentFolderId);
-      // First, ensure all files in this folder are discovered and synced to our database
-      try {
-        const { googleDriveService } = await import('./google-drive');
-        const driveFiles = await googleDriveService.listFiles(currentFolderId);
+  // Stores every file the folder's storage provider lists, page by page,
+  // restoring AI metadata that earlier exports left in the files' properties,
+  // appProperties or description. googleAccountId is ignored for
+  // folders of providers configured on the server.
+  async syncFolder(workspaceId: number, googleAccountId: number | null, folderId: string): Promise<void> {
+    const { googleDriveService } = await import('./google-drive');
+    const provider = storageProviders.forFolder(folderId);
+    const accountId = provider.type === 'google_drive' ? this.requireGoogleAccount(googleAccountId) : null;
+
+    for await (const driveFiles of provider.listFilePages(accountId, folderId)) {
+      // Check each file and add to database if not already present
+      for (const driveFile of driveFiles) {
+        let storedFile = await storage.getDriveFileByDriveId(workspaceId, driveFile.id);
         
-        // Check each file and add to database if not already present
-        for (const driveFile of driveFiles) {
-          let storedFile = await storage.getDriveFileByDriveId(driveFile.id);
-          
-          if (!storedFile) {
-            // File not in database, add it
-            storedFile = await storage.createDriveFile({
-              driveId: driveFile.id,
-              name: driveFile.name,
-              type: googleDriveService.getFileType(driveFile.mimeType),
-              size: parseInt(driveFile.size || '0'),
-              mimeType: driveFile.mimeType,
-              parentFolderId: driveFile.parents?.[0] || currentFolderId,
-              webViewLink: driveFile.webViewLink,
-              thumbnailLink: driveFile.thumbnailLink,
-              createdTime: new Date(driveFile.createdTime),
-              modifiedTime: new Date(driveFile.modifiedTime),
-              status: 'pending'
-            });
+        if (!storedFile) {
+          // File not in database, add it
+          storedFile = await storage.createDriveFile({
+            workspaceId,
+            provider: provider.type,
+            googleAccountId: accountId,
+            driveId: driveFile.id,
+            sharedDriveId: driveFile.driveId ?? null,
+            name: driveFile.name,
+            type: googleDriveService.getFileType(driveFile.mimeType),
+            size: parseInt(driveFile.size || '0'),
+            mimeType: driveFile.mimeType,
+            parentFolderId: driveFile.parents?.[0] || folderId,
+            webViewLink: driveFile.webViewLink,
+            thumbnailLink: driveFile.thumbnailLink,
+            createdTime: new Date(driveFile.createdTime),
+            modifiedTime: new Date(driveFile.modifiedTime),
+            existingMetadata: driveMetadataService.readExistingMetadata(driveFile),
+            status: 'pending'
+          });
+        } else {
+          // Listed again after the drive sync saw it removed, or Drive's own
+          // details about it changed
+          const existingMetadata = driveMetadataService.readExistingMetadata(driveFile);
+          if (storedFile.removedAt || driveMetadataService.existingMetadataChanged(storedFile, existingMetadata)) {
+            storedFile = await storage.updateDriveFile(storedFile.id, { removedAt: null, existingMetadata }) || storedFile;
           }
-          
-          // Always try to restore AI metadata from Google Drive properties if not already present
-          if (!storedFile.aiGeneratedMetadata || Object.keys(storedFile.aiGeneratedMetadata as any).length === 0) {
-            try {
-              // First try using properties from the listFiles response
-              let properties = driveFile.properties;
+        }
+        
+        // Always try to restore AI metadata from Google Drive properties if not already present
+        if (!storedFile.aiGeneratedMetadata || Object.keys(storedFile.aiGeneratedMetadata as Record<string, unknown>).length === 0) {
+          try {
+            // First try using the fields from the listFiles response
+            let source: DriveMetadataSource = driveFile;
+            
+            // If not available in the list response, fetch individual file metadata
+            if (!driveFile.properties && !driveFile.appProperties && !driveFile.description) {
+              source = await provider.getFileMetadata(accountId, driveFile.id);
+            }
+            const properties = source.properties;
+            const restored = driveMetadataService.readMetadata(source);
+            
+            if (restored) {
+              storedFile = await metadataHistoryService.updateFileMetadata(storedFile.id, {
+                aiGeneratedMetadata: restored,
+                status: 'processed'
+              }, { source: 'drive_restore' }) || storedFile;
+            } else if (properties) {
+              const aiGeneratedMetadata: any = {};
+              let hasAiMetadata = false;
               
-              // If not available in the list response, fetch individual file metadata
-              if (!properties) {
-                const metadata = await googleDriveService.getFileMetadata(driveFile.id);
-                properties = metadata.properties;
-              }
+              // Check for AI metadata with prefixes used by previous versions
+              const possiblePrefixes = ['ai_', 'metadata_', 'generated_'];
+              const aiMetadataFieldNames = ['title', 'subject', 'description', 'detailed_description', 'category', 'quality', 'tags', 'generated_at', 'generated_by'];
               
-              if (properties) {
-                const aiGeneratedMetadata: any = {};
-                let hasAiMetadata = false;
+              for (const [key, value] of Object.entries(properties)) {
+                let foundMatch = false;
+                let cleanKey = '';
                 
-                // Check for AI metadata with multiple possible prefixes (for version compatibility)
-                const possiblePrefixes = ['AI_', 'ai_', 'metadata_', 'generated_'];
-                const aiMetadataFieldNames = ['title', 'subject', 'description', 'detailed_description', 'category', 'quality', 'tags', 'generated_at', 'generated_by'];
-                
-                for (const [key, value] of Object.entries(properties)) {
-                  let foundMatch = false;
-                  let cleanKey = '';
-                  
-                  // Try different prefixes that might have been used in previous versions
-                  for (const prefix of possiblePrefixes) {
-                    if (key.startsWith(prefix)) {
-                      cleanKey = key.replace(prefix, '');
-                      foundMatch = true;
-                      break;
-                    }
+                // Try different prefixes that might have been used in previous versions
+                for (const prefix of possiblePrefixes) {
+                  if (key.startsWith(prefix)) {
+                    cleanKey = key.replace(prefix, '');
+                    foundMatch = true;
+                    break;
                   }
-                  
-                  // Also check for unprefixed fields that look like AI metadata
-                  if (!foundMatch) {
-                    const lowerKey = key.toLowerCase();
-                    if (aiMetadataFieldNames.some(field => lowerKey.includes(field))) {
-                      cleanKey = key;
-                      foundMatch = true;
-                    }
+                }
+                
+                // Also check for unprefixed fields that look like AI metadata
+                if (!foundMatch) {
+                  const lowerKey = key.toLowerCase();
+                  if (aiMetadataFieldNames.some(field => lowerKey.includes(field))) {
+                    cleanKey = key;
+                    foundMatch = true;
                   }
-                  
-                  if (foundMatch && value) {
-                    try {
-                      // Handle arrays (tags) and other data types
-                      if (cleanKey === 'tags' && typeof value === 'string') {
-                        try {
-                          aiGeneratedMetadata[cleanKey] = JSON.parse(value);
-                        } catch {
-                          aiGeneratedMetadata[cleanKey] = value.split(',').map((tag: string) => tag.trim());
-                        }
-                      } else {
-                        aiGeneratedMetadata[cleanKey] = value;
+                }
+                
+                if (foundMatch && value) {
+                  try {
+                    // Handle arrays (tags) and other data types
+                    if (cleanKey === 'tags' && typeof value === 'string') {
+                      try {
+                        aiGeneratedMetadata[cleanKey] = JSON.parse(value);
+                      } catch {
+                        aiGeneratedMetadata[cleanKey] = value.split(',').map((tag: string) => tag.trim());
                       }
-                      hasAiMetadata = true;
-                    } catch (parseError) {
-                      // If JSON parsing fails, use raw value
+                    } else {
                       aiGeneratedMetadata[cleanKey] = value;
-                      hasAiMetadata = true;
                     }
+                    hasAiMetadata = true;
+                  } catch (parseError) {
+                    // If JSON parsing fails, use raw value
+                    aiGeneratedMetadata[cleanKey] = value;
+                    hasAiMetadata = true;
                   }
                 }
-                
-                if (hasAiMetadata) {
-                  storedFile = await storage.updateDriveFile(storedFile.id, {
-                    aiGeneratedMetadata: aiGeneratedMetadata,
-                    status: 'processed'
-                  }) || storedFile;
-                }
               }
-            } catch (error) {
-              // Continue even if metadata restoration fails
+              
+              if (hasAiMetadata) {
+                storedFile = await metadataHistoryService.updateFileMetadata(storedFile.id, {
+                  aiGeneratedMetadata: aiGeneratedMetadata,
+                  status: 'processed'
+                }, { source: 'drive_restore' }) || storedFile;
+              }
             }
+          } catch (error) {
+            // Continue even if metadata restoration fails
           }
-          
-          files.push(storedFile);
         }
-        
-        // Get subfolders and add them to processing queue
-        const subFolders = await googleDriveService.listFolders(currentFolderId);
-        console.log(`Agentic Search: Found ${subFolders.length} subfolders in ${currentFolderId}: ${subFolders.map(f => f.name).join(', ')}`);
-        for (const subFolder of subFolders) {
-          if (!processedFolders.has(subFolder.id)) {
-            console.log(`Agentic Search: Adding subfolder ${subFolder.name} (${subFolder.id}) to processing queue`);
-            foldersToProcess.push(subFolder.id);
-          }
-        }
-      } catch (error) {
-        console.warn(`Could not access folder ${currentFolderId}:`, error.message);
-        // Fallback to database-only search for this folder
-        const folderFiles = await storage.getDriveFilesByFolder(currentFolderId);
-        files.push(...folderFiles);
       }
     }
+  }
 
-    return files;
+  private requireGoogleAccount(googleAccountId: number | null): number {
+    if (googleAccountId === null) {
+      throw new Error("Not connected to Google Drive");
+    }
+    return googleAccountId;
   }
 
-  async performAgenticSearch(userQuery: string, folderId?: string, limit: number = 1000): Promise<AgenticSearchResult> {
+  // googleAccountId is only needed when the search is scoped to a Drive folder
+  async performAgenticSearch(workspaceId: number, googleAccountId: number | undefined, userQuery: string, folderId?: string, limit: number = 1000, filter: DriveFileFilter = {}): Promise<AgenticSearchResult> {
+    // Searching from root covers every file stored in the workspace
+    let scope: DriveFileFilter = { ...filter, workspaceId };
+    if (folderId && folderId !== "root") {
+      scope = { ...scope, folderIds: await this.syncFolderRecursively(workspaceId, googleAccountId ?? null, folderId) };
+    }
+
     try {
       // For large datasets, implement smart pre-filtering
-      const allFiles = folderId && folderId !== "root" 
-        ? await this.getAllFilesRecursively(folderId)
-        : await storage.getAllDriveFiles();
-      
-      // If dataset is too large, implement pre-filtering strategies
-      if (allFiles.length > limit) {
-        console.log(`Large dataset detected (${allFiles.length} files). Implementing smart filtering...`);
-        return await this.performLargeDatasetSearch(userQuery, allFiles, limit);
+      const { total } = await storage.queryDriveFiles({ ...scope, limit: 1 });
+      if (total > limit) {
+        console.log(`Large dataset detected (${total} files). Implementing smart filtering...`);
+        return await this.performLargeDatasetSearch(userQuery, scope, total, limit);
       }
       
-      // Filter files that have been processed and have AI metadata
-      const processedFiles = allFiles.filter(file => 
-        file.status === 'processed' && 
-        file.aiGeneratedMetadata && 
-        Object.keys(file.aiGeneratedMetadata as any).length > 0
-      );
+      // Prefer files that have been processed and have AI metadata
+      const processedFiles = (await storage.queryDriveFiles({
+        ...scope,
+        statuses: scope.statuses || ['processed'],
+        hasAiMetadata: true,
+        limit
+      })).files;
 
       // If no processed files, include all files for basic search
-      const searchableFiles = processedFiles.length > 0 ? processedFiles : allFiles;
+      const searchableFiles = processedFiles.length > 0
+        ? processedFiles
+        : (await storage.queryDriveFiles({ ...scope, limit })).files;
 
       if (searchableFiles.length === 0) {
         return {
@@ -198,7 +220,7 @@ export class AgenticSearchService {
         modifiedTime: file.modifiedTime
       }));
 
-      // Use OpenAI to understand the query and find relevant files
+      // Use the default LLM provider to understand the query and find relevant files
       const analysisPrompt = `
 You are an intelligent file search assistant. Analyze the user's natural language query and find the most relevant files from the provided metadata.
 
@@ -230,17 +252,13 @@ Note: Some files may not have AI-generated metadata yet (status: "pending") but
 Return only valid JSON.
 `;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const aiResponse = await llmProviders.chatJSON(llmProviders.resolve(), {
         messages: [{
           role: "user",
           content: analysisPrompt
         }],
-        response_format: { type: "json_object" },
         temperature: 0.3
       });
-
-      const aiResponse = JSON.parse(response.choices[0].message.content || '{}');
       
       // Get the relevant files based on AI analysis
       const relevantFileIds = aiResponse.relevantFileIds || [];
@@ -264,71 +282,44 @@ Return only valid JSON.
       console.error('Agentic search error:', error);
       
       // Fallback to simple keyword search if AI fails
-      const fallbackFiles = folderId && folderId !== "root" 
-        ? await this.getAllFilesRecursively(folderId)
-        : await storage.getAllDriveFiles();
-      const keywords = userQuery.toLowerCase().split(' ');
-      
-      const matchingFiles = fallbackFiles.filter(file => {
-        const searchableText = [
-          file.name,
-          file.type,
-          JSON.stringify(file.aiGeneratedMetadata || {}),
-          JSON.stringify(file.existingMetadata || {})
-        ].join(' ').toLowerCase();
-        
-        return keywords.some(keyword => searchableText.includes(keyword));
-      });
+      const { files: matchingFiles } = await storage.queryDriveFiles({ ...scope, search: userQuery, limit });
 
       return {
         files: matchingFiles,
-        reasoning: `AI analysis failed, performed fallback keyword search for: ${userQuery}. Consider checking your OpenAI API connection.`,
+        reasoning: `AI analysis failed, performed fallback keyword search for: ${userQuery}. Consider checking the connection to your LLM provider.`,
         searchQuery: userQuery,
         totalResults: matchingFiles.length
       };
     }
   }
 
-  async performLargeDatasetSearch(userQuery: string, allFiles: DriveFile[], limit: number): Promise<AgenticSearchResult> {
+  async performLargeDatasetSearch(userQuery: string, scope: DriveFileFilter, totalFiles: number, limit: number): Promise<AgenticSearchResult> {
     try {
       // Step 1: Use keyword-based pre-filtering to reduce dataset size
       const keywords = userQuery.toLowerCase().split(' ').filter(word => word.length > 2);
-      
-      let preFilteredFiles = allFiles;
-      
-      // Basic keyword filtering first
-      if (keywords.length > 0) {
-        preFilteredFiles = allFiles.filter(file => {
-          const searchableText = [
-            file.name,
-            file.type,
-            JSON.stringify(file.aiGeneratedMetadata || {}),
-            JSON.stringify(file.existingMetadata || {})
-          ].join(' ').toLowerCase();
-          
-          return keywords.some(keyword => searchableText.includes(keyword));
-        });
-      }
+      const candidateQuery = {
+        ...scope,
+        search: keywords.length > 0 ? keywords.join(' ') : undefined,
+        // Step 3: Take top candidates, most recent first
+        sort: [{ field: 'modifiedTime' as const, direction: 'desc' as const }],
+        limit: Math.min(limit, 500) // Limit to 500 files max for AI analysis
+      };
       
       // Step 2: Prioritize processed files with AI metadata
-      const processedFiles = preFilteredFiles.filter(file => 
-        file.status === 'processed' && 
-        file.aiGeneratedMetadata && 
-        Object.keys(file.aiGeneratedMetadata as any).length > 0
-      );
-      
-      // Step 3: Take top candidates (most recent first, then by file type relevance)
-      const candidateFiles = (processedFiles.length > 0 ? processedFiles : preFilteredFiles)
-        .sort((a, b) => {
-          // Prioritize by modification time (newer first)
-          return new Date(b.modifiedTime).getTime() - new Date(a.modifiedTime).getTime();
-        })
-        .slice(0, Math.min(limit, 500)); // Limit to 500 files max for AI analysis
+      const processedFiles = (await storage.queryDriveFiles({
+        ...candidateQuery,
+        statuses: scope.statuses || ['processed'],
+        hasAiMetadata: true
+      })).files;
+
+      const candidateFiles = processedFiles.length > 0
+        ? processedFiles
+        : (await storage.queryDriveFiles(candidateQuery)).files;
       
       if (candidateFiles.length === 0) {
         return {
           files: [],
-          reasoning: `No files found matching your query "${userQuery}". The search was performed on ${allFiles.length} total files.`,
+          reasoning: `No files found matching your query "${userQuery}". The search was performed on ${totalFiles} total files.`,
           searchQuery: userQuery,
           totalResults: 0
         };
@@ -352,7 +343,7 @@ Return only valid JSON.
 You are an intelligent file search assistant analyzing a subset of files from a large dataset.
 
 User Query: "${userQuery}"
-Dataset Context: Analyzed ${candidateFiles.length} most relevant files from ${allFiles.length} total files.
+Dataset Context: Analyzed ${candidateFiles.length} most relevant files from ${totalFiles} total files.
 
 Available Files Metadata:
 ${JSON.stringify(fileMetadataSummary, null, 2)}
@@ -374,17 +365,13 @@ Note: This analysis is performed on a pre-filtered subset of the most relevant f
 Return only valid JSON.
 `;
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const aiResponse = await llmProviders.chatJSON(llmProviders.resolve(), {
         messages: [{
           role: "user",
           content: analysisPrompt
         }],
-        response_format: { type: "json_object" },
         temperature: 0.3
       });
-
-      const aiResponse = JSON.parse(response.choices[0].message.content || '{}');
       
       // Get the relevant files based on AI analysis
       const relevantFileIds = aiResponse.relevantFileIds || [];
@@ -394,7 +381,7 @@ Return only valid JSON.
 
       return {
         files: sortedFiles,
-        reasoning: `${aiResponse.reasoning || "AI analysis completed on filtered dataset."} (Analyzed ${candidateFiles.length} most relevant files from ${allFiles.length} total files)`,
+        reasoning: `${aiResponse.reasoning || "AI analysis completed on filtered dataset."} (Analyzed ${candidateFiles.length} most relevant files from ${totalFiles} total files)`,
         searchQuery: userQuery,
         totalResults: sortedFiles.length
       };
@@ -403,23 +390,15 @@ Return only valid JSON.
       console.error('Large dataset agentic search error:', error);
       
       // Fallback to enhanced keyword search for large datasets
-      const keywords = userQuery.toLowerCase().split(' ');
-      const matchingFiles = allFiles
-        .filter(file => {
-          const searchableText = [
-            file.name,
-            file.type,
-            JSON.stringify(file.aiGeneratedMetadata || {}),
-            JSON.stringify(file.existingMetadata || {})
-          ].join(' ').toLowerCase();
-          
-          return keywords.some(keyword => searchableText.includes(keyword));
-        })
-        .slice(0, 50); // Limit results for large datasets
+      const { files: matchingFiles } = await storage.queryDriveFiles({
+        ...scope,
+        search: userQuery,
+        limit: 50 // Limit results for large datasets
+      });
 
       return {
         files: matchingFiles,
-        reasoning: `AI analysis failed for large dataset, performed enhanced keyword search. Found ${matchingFiles.length} results from ${allFiles.length} total files.`,
+        reasoning: `AI analysis failed for large dataset, performed enhanced keyword search. Found ${matchingFiles.length} results from ${totalFiles} total files.`,
         searchQuery: userQuery,
         totalResults: matchingFiles.length
       };
@@ -1,9 +1,4 @@
-import OpenAI from "openai";
-
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || ""
-});
+import { llmProviders, type ChatContentPart, type ChatMessage, type LLMTarget } from "./llm-provider";
 
 interface MetadataField {
   name: string;
@@ -16,15 +11,16 @@ interface GeneratedMetadata {
   [key: string]: any;
 }
 
-export class OpenAIService {
-  async analyzeImage(base64Image: string, metadataFields: MetadataField[]): Promise<GeneratedMetadata> {
+// Prompts for generating metadata from file content. Each call runs on the
+// provider and model picked for the job or template.
+export class AIMetadataService {
+  async analyzeImage(llm: LLMTarget, base64Image: string, metadataFields: MetadataField[]): Promise<GeneratedMetadata> {
     try {
       const fieldDescriptions = metadataFields.map(field => 
         `${field.name}: ${field.description} (${field.type}${field.options ? `, options: ${field.options.join(', ')}` : ''})`
       ).join('\n');
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      return await llmProviders.chatJSON(llm, {
         messages: [
           {
             role: "system",
@@ -43,32 +39,26 @@ For each field, provide appropriate values based on the image content. For 'tags
                 text: "Analyze this image and generate metadata for the specified fields."
               },
               {
-                type: "image_url",
-                image_url: {
-                  url: `data:image/jpeg;base64,${base64Image}`
-                }
+                type: "image",
+                data: base64Image
               }
             ],
           },
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 1000,
+        maxTokens: 1000,
       });
-
-      return JSON.parse(response.choices[0].message.content || '{}');
     } catch (error) {
       throw new Error(`Failed to analyze image: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async analyzePDF(text: string, metadataFields: MetadataField[]): Promise<GeneratedMetadata> {
+  async analyzePDF(llm: LLMTarget, text: string, metadataFields: MetadataField[]): Promise<GeneratedMetadata> {
     try {
       const fieldDescriptions = metadataFields.map(field => 
         `${field.name}: ${field.description} (${field.type}${field.options ? `, options: ${field.options.join(', ')}` : ''})`
       ).join('\n');
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      return await llmProviders.chatJSON(llm, {
         messages: [
           {
             role: "system",
@@ -84,23 +74,20 @@ For each field, provide appropriate values based on the document content. For 't
             content: `Analyze this PDF content and generate metadata for the specified fields:\n\n${text.substring(0, 4000)}`
           }
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 1000,
+        maxTokens: 1000,
       });
-
-      return JSON.parse(response.choices[0].message.content || '{}');
     } catch (error) {
       throw new Error(`Failed to analyze PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async analyzeVideo(metadata: any, thumbnailBase64?: string, metadataFields?: MetadataField[], videoFrames?: string[], transcript?: string): Promise<GeneratedMetadata> {
+  async analyzeVideo(llm: LLMTarget, metadata: any, thumbnailBase64?: string, metadataFields?: MetadataField[], videoFrames?: string[], transcript?: string): Promise<GeneratedMetadata> {
     try {
       const fieldDescriptions = metadataFields?.map(field => 
         `${field.name}: ${field.description} (${field.type}${field.options ? `, options: ${field.options.join(', ')}` : ''})`
       ).join('\n') || '';
 
-      let messages: any[] = [
+      const messages: ChatMessage[] = [
         {
           role: "system",
           content: `You are an expert video content analyst. Your task is to analyze video files and generate comprehensive, intelligent metadata based on visual content and audio transcription.
@@ -157,7 +144,7 @@ ${transcript}
 `;
       }
 
-      const userContent: any[] = [{
+      const userContent: ChatContentPart[] = [{
         type: "text",
         text: contentAnalysisText + `Based on the ${videoFrames && videoFrames.length > 0 ? 'video frames' : 'thumbnail'}${transcript ? ' and transcript' : ''}, provide detailed and comprehensive metadata that accurately describes the video content, themes, activities, and context.`
       }];
@@ -166,19 +153,15 @@ ${transcript}
       if (videoFrames && videoFrames.length > 0) {
         videoFrames.forEach((frameBase64, index) => {
           userContent.push({
-            type: "image_url",
-            image_url: {
-              url: `data:image/jpeg;base64,${frameBase64}`
-            }
+            type: "image",
+            data: frameBase64
           });
         });
       } else if (thumbnailBase64) {
         // Fallback to thumbnail if no frames extracted
         userContent.push({
-          type: "image_url",
-          image_url: {
-            url: `data:image/jpeg;base64,${thumbnailBase64}`
-          }
+          type: "image",
+          data: thumbnailBase64
         });
       }
 
@@ -187,46 +170,32 @@ ${transcript}
         content: userContent
       });
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      return await llmProviders.chatJSON(llm, {
         messages,
-        response_format: { type: "json_object" },
-        max_tokens: 1500, // Increased for more detailed analysis
+        maxTokens: 1500, // Increased for more detailed analysis
       });
-
-      return JSON.parse(response.choices[0].message.content || '{}');
     } catch (error) {
       throw new Error(`Failed to analyze video: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async transcribeAudio(audioBuffer: Buffer): Promise<string> {
+  // Falls back to the default provider when the job's can't transcribe
+  async transcribeAudio(llm: LLMTarget, audioPath: string): Promise<string> {
     try {
-      // Create a temporary file for the audio
-      const tempFile = new File([audioBuffer], 'temp_audio.mp3', { type: 'audio/mpeg' });
-      
-      const response = await openai.audio.transcriptions.create({
-        file: tempFile,
-        model: 'whisper-1',
-        language: 'en', // You can make this configurable
-        response_format: 'text'
-      });
-
-      return response || '';
+      return await llmProviders.transcribe(audioPath, llm);
     } catch (error) {
       console.warn(`Audio transcription failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       return ''; // Return empty string if transcription fails
     }
   }
 
-  async analyzeAudio(audioContext: any, metadataFields: MetadataField[]): Promise<GeneratedMetadata> {
+  async analyzeAudio(llm: LLMTarget, audioContext: any, metadataFields: MetadataField[]): Promise<GeneratedMetadata> {
     try {
       const fieldDescriptions = metadataFields
         .map(field => `- ${field.name}: ${field.description}`)
         .join('\n');
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      return await llmProviders.chatJSON(llm, {
         messages: [
           {
             role: "system",
@@ -259,17 +228,14 @@ ${audioContext.transcript && audioContext.transcript !== 'Transcription not avai
   : 'No transcript available - base analysis on filename and file properties.'}`
           }
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 1000,
+        maxTokens: 1000,
       });
-
-      return JSON.parse(response.choices[0].message.content || '{}');
     } catch (error) {
       throw new Error(`Failed to analyze audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async analyzeDocumentContent(extractedText: string, metadataFields: MetadataField[], fileContext: any): Promise<GeneratedMetadata> {
+  async analyzeDocumentContent(llm: LLMTarget, extractedText: string, metadataFields: MetadataField[], fileContext: any): Promise<GeneratedMetadata> {
     try {
       const fieldDescriptions = metadataFields
         .map(field => `- ${field.name}: ${field.description}`)
@@ -286,8 +252,7 @@ ${audioContext.transcript && audioContext.transcript !== 'Transcription not avai
         processedText = beginningText + '\n\n[... content truncated ...]\n\n' + endingText;
       }
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      const result = await llmProviders.chatJSON(llm, {
         messages: [
           {
             role: "system",
@@ -337,12 +302,10 @@ ${processedText}
 Based on the actual content above, provide comprehensive and accurate metadata that reflects what the document actually contains, discusses, and covers.`
           }
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 1000,
+        maxTokens: 1000,
         temperature: 0.3, // Lower temperature for more consistent, factual analysis
       });
 
-      const result = JSON.parse(response.choices[0].message.content || '{}');
       console.log('Generated content-based metadata:', Object.keys(result));
       return result;
     } catch (error) {
@@ -350,14 +313,13 @@ Based on the actual content above, provide comprehensive and accurate metadata t
     }
   }
 
-  async analyzeDocumentByContext(context: any, metadataFields: MetadataField[]): Promise<GeneratedMetadata> {
+  async analyzeDocumentByContext(llm: LLMTarget, context: any, metadataFields: MetadataField[]): Promise<GeneratedMetadata> {
     try {
       const fieldDescriptions = metadataFields
         .map(field => `- ${field.name}: ${field.description}`)
         .join('\n');
 
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      return await llmProviders.chatJSON(llm, {
         messages: [
           {
             role: "system",
@@ -389,20 +351,16 @@ File Information:
 Based on the filename and file properties, provide intelligent metadata analysis.`
           }
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 800,
+        maxTokens: 800,
       });
-
-      return JSON.parse(response.choices[0].message.content || '{}');
     } catch (error) {
       throw new Error(`Failed to analyze document by context: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async generateDefaultMetadata(fileName: string, fileType: string, mimeType: string): Promise<GeneratedMetadata> {
+  async generateDefaultMetadata(llm: LLMTarget, fileName: string, fileType: string, mimeType: string): Promise<GeneratedMetadata> {
     try {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o",
+      return await llmProviders.chatJSON(llm, {
         messages: [
           {
             role: "system",
@@ -422,11 +380,8 @@ Type: ${fileType}
 MIME Type: ${mimeType}`
           }
         ],
-        response_format: { type: "json_object" },
-        max_tokens: 500,
+        maxTokens: 500,
       });
-
-      return JSON.parse(response.choices[0].message.content || '{}');
     } catch (error) {
       throw new Error(`Failed to generate default metadata: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -435,4 +390,4 @@ MIME Type: ${mimeType}`
   
 }
 
-export const openAIService = new OpenAIService();
+export const aiMetadataService = new AIMetadataService();
@@ -0,0 +1,77 @@
+import type { ChatContentPart, ChatRequest, LLMModels, LLMProvider } from './llm-provider';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 1024;
+
+// Claude has no JSON mode, so it is asked for one in the system prompt
+const JSON_INSTRUCTION = 'Respond with a single JSON object and nothing else.';
+
+// The Messages API rejects images whose media type doesn't match their data,
+// and callers mostly don't know it, so it is read from the leading bytes
+function imageMediaType(part: Extract<ChatContentPart, { type: 'image' }>): string {
+  if (part.data.startsWith('iVBORw0KGgo')) return 'image/png';
+  if (part.data.startsWith('R0lGOD')) return 'image/gif';
+  if (part.data.startsWith('UklGR')) return 'image/webp';
+  if (part.data.startsWith('/9j/')) return 'image/jpeg';
+  return part.mimeType ?? 'image/jpeg';
+}
+
+function toAnthropicContent(content: string | ChatContentPart[]) {
+  if (typeof content === 'string') return content;
+  return content.map(part => part.type === 'text'
+    ? { type: 'text', text: part.text }
+    : { type: 'image', source: { type: 'base64', media_type: imageMediaType(part), data: part.data } });
+}
+
+// Claude through the Messages API. It has neither transcription nor
+// embeddings, so templates that pick it transcribe with the default provider.
+export class AnthropicLLMProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  isConfigured(): boolean {
+    return !!process.env.ANTHROPIC_API_KEY;
+  }
+
+  defaultModels(): LLMModels {
+    return { chat: process.env.ANTHROPIC_MODEL || 'claude-sonnet-4-5' };
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => typeof message.content === 'string'
+        ? message.content
+        : message.content.map(part => part.type === 'text' ? part.text : '').join('\n'));
+    if (request.json) system.push(JSON_INSTRUCTION);
+
+    const baseUrl = process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com';
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': process.env.ANTHROPIC_API_KEY!,
+        'anthropic-version': ANTHROPIC_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        system: system.length ? system.join('\n\n') : undefined,
+        messages: request.messages
+          .filter(message => message.role !== 'system')
+          .map(message => ({ role: message.role, content: toAnthropicContent(message.content) })),
+      }),
+    });
+
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(`Anthropic request failed (${response.status}): ${body?.error?.message ?? response.statusText}`);
+    }
+    return (body.content as { type: string; text?: string }[])
+      .filter(block => block.type === 'text')
+      .map(block => block.text)
+      .join('');
+  }
+}
+
+export const anthropicLLMProvider = new AnthropicLLMProvider();
@@ -0,0 +1,222 @@
+import { once } from 'events';
+import { gunzipSync } from 'zlib';
+import type { Writable } from 'stream';
+import { storage, type IStorage } from '../storage';
+import {
+  BACKUP_FORMAT,
+  BACKUP_SCHEMA_VERSION,
+  workspaceArchiveSchema,
+  type RestoreOptions,
+  type RestoreReport,
+  type WorkspaceArchive
+} from '@shared/schema';
+
+const FILE_PAGE_SIZE = 500;
+
+const MB = 1024 * 1024;
+// Archives are parsed in memory, so both the upload and the JSON inside a
+// gzip archive are capped; MAX_BACKUP_UPLOAD_BYTES and MAX_BACKUP_JSON_BYTES
+// change the limits
+const DEFAULT_MAX_UPLOAD_BYTES = 50 * MB;
+const DEFAULT_MAX_JSON_BYTES = 200 * MB;
+
+function limitFromEnv(name: string, fallback: number): number {
+  const configured = Number(process.env[name]);
+  return Number.isSafeInteger(configured) && configured > 0 ? configured : fallback;
+}
+
+// Jobs have no external key, so one from an archive that matches an existing
+// job's folder, template and start time is taken to be the same job
+function jobKey(job: { folderId: string; templateId: number | null; createdAt: Date }): string {
+  return `${job.folderId}\0${job.templateId ?? ''}\0${job.createdAt.getTime()}`;
+}
+
+// Revisions have no external key either; one for the same file, source and
+// time as an existing revision is taken to be that revision
+function revisionKey(revision: { fileId: number; source: string; createdAt: Date }): string {
+  return `${revision.fileId}\0${revision.source}\0${revision.createdAt.getTime()}`;
+}
+
+export class BackupService {
+  // Streams the workspace as one JSON document. Files are written page by page
+  // so large workspaces never have to be held in memory at once.
+  async writeBackup(workspaceId: number, output: Writable): Promise<void> {
+    const write = async (chunk: string) => {
+      if (!output.write(chunk)) {
+        await once(output, 'drain');
+      }
+    };
+
+    const header = { format: BACKUP_FORMAT, schemaVersion: BACKUP_SCHEMA_VERSION, createdAt: new Date() };
+    await write(JSON.stringify(header).slice(0, -1));
+    await write(`,"metadataTemplates":${JSON.stringify(await storage.getAllMetadataTemplates(workspaceId))}`);
+
+    await write(',"driveFiles":[');
+    let cursor: string | undefined;
+    let first = true;
+    do {
+      const page = await storage.queryDriveFiles({ workspaceId, limit: FILE_PAGE_SIZE, cursor });
+      for (const file of page.files) {
+        await write((first ? '' : ',') + JSON.stringify(file));
+        first = false;
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+    await write(']');
+
+    await write(`,"processingJobs":${JSON.stringify(await storage.getAllProcessingJobs(workspaceId))}`);
+    await write(`,"metadataRevisions":${JSON.stringify(await storage.getAllMetadataRevisions(workspaceId))}}`);
+    output.end();
+  }
+
+  getMaxUploadBytes(): number {
+    return limitFromEnv('MAX_BACKUP_UPLOAD_BYTES', DEFAULT_MAX_UPLOAD_BYTES);
+  }
+
+  getMaxJsonBytes(): number {
+    return limitFromEnv('MAX_BACKUP_JSON_BYTES', DEFAULT_MAX_JSON_BYTES);
+  }
+
+  // Accepts the gzip archive produced by writeBackup or the plain JSON inside
+  // it. Decompression stops at the JSON limit, so a small archive can't
+  // expand into more than that.
+  parseArchive(data: Buffer): WorkspaceArchive {
+    const maxJsonBytes = this.getMaxJsonBytes();
+    const isGzip = data.length > 1 && data[0] === 0x1f && data[1] === 0x8b;
+    let json: Buffer = data;
+    if (isGzip) {
+      try {
+        json = gunzipSync(data, { maxOutputLength: maxJsonBytes });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new Error(`archive is larger than ${maxJsonBytes} bytes when decompressed`);
+        }
+        throw error;
+      }
+    } else if (data.length > maxJsonBytes) {
+      throw new Error(`archive is larger than ${maxJsonBytes} bytes`);
+    }
+    return workspaceArchiveSchema.parse(JSON.parse(json.toString('utf8')));
+  }
+
+  // The archive must already be validated by parseArchive, so a malformed
+  // archive is rejected before anything is written or cleared. Everything is
+  // restored into the given workspace, whichever workspace it was taken from,
+  // in one transaction, so a failure part way leaves the workspace untouched.
+  async restore(workspaceId: number, archive: WorkspaceArchive, options: RestoreOptions): Promise<RestoreReport> {
+    return await storage.transaction(tx => this.restoreInto(tx, workspaceId, archive, options));
+  }
+
+  private async restoreInto(tx: IStorage, workspaceId: number, archive: WorkspaceArchive, options: RestoreOptions): Promise<RestoreReport> {
+    const report: RestoreReport = {
+      mode: options.mode,
+      onConflict: options.onConflict,
+      schemaVersion: archive.schemaVersion,
+      created: { metadataTemplates: 0, driveFiles: 0, processingJobs: 0, metadataRevisions: 0 },
+      updated: { driveFiles: 0 },
+      skipped: { metadataTemplates: 0, driveFiles: 0, processingJobs: 0, metadataRevisions: 0 },
+      conflicts: [],
+    };
+
+    if (options.mode === 'replace') {
+      await tx.clearWorkspaceData(workspaceId);
+    }
+
+    // Templates have no external key; when merging, one with the same name is reused
+    const existingTemplates = new Map((await tx.getAllMetadataTemplates(workspaceId)).map(template => [template.name, template]));
+    const templateIds = new Map<number, number>();
+    for (const { id, createdAt, ...template } of archive.metadataTemplates) {
+      const existing = existingTemplates.get(template.name);
+      if (existing) {
+        templateIds.set(id, existing.id);
+        report.skipped.metadataTemplates++;
+        continue;
+      }
+
+      const created = await tx.createMetadataTemplate({ ...template, workspaceId });
+      await tx.updateMetadataTemplate(created.id, { createdAt });
+      existingTemplates.set(created.name, created);
+      templateIds.set(id, created.id);
+      report.created.metadataTemplates++;
+    }
+
+    const fileIds = new Map<number, number>();
+    const restoredDriveIds = new Set<string>();
+    // Google accounts belong to users rather than workspaces, so restored files
+    // are linked to an account again the next time their folder is listed
+    for (const { id, googleAccountId, ...file } of archive.driveFiles) {
+      if (restoredDriveIds.has(file.driveId)) {
+        report.conflicts.push({ driveId: file.driveId, name: file.name, existingFileId: null, resolution: 'skipped' });
+        report.skipped.driveFiles++;
+        continue;
+      }
+      restoredDriveIds.add(file.driveId);
+
+      const existing = await tx.getDriveFileByDriveId(workspaceId, file.driveId);
+      if (!existing) {
+        const created = await tx.createDriveFile({ ...file, workspaceId, googleAccountId: null });
+        fileIds.set(id, created.id);
+        report.created.driveFiles++;
+      } else if (options.onConflict === 'overwrite') {
+        await tx.updateDriveFile(existing.id, { ...file, workspaceId });
+        fileIds.set(id, existing.id);
+        report.conflicts.push({ driveId: file.driveId, name: file.name, existingFileId: existing.id, resolution: 'overwritten' });
+        report.updated.driveFiles++;
+      } else {
+        report.conflicts.push({ driveId: file.driveId, name: file.name, existingFileId: existing.id, resolution: 'skipped' });
+        report.skipped.driveFiles++;
+      }
+    }
+
+    // Restoring the same archive twice must not repeat the job history
+    const existingJobs = new Set((await tx.getAllProcessingJobs(workspaceId)).map(jobKey));
+    for (const { id, createdAt, completedAt, ...job } of archive.processingJobs) {
+      const templateId = job.templateId ? templateIds.get(job.templateId) ?? null : null;
+      const key = jobKey({ folderId: job.folderId, templateId, createdAt });
+      if (existingJobs.has(key)) {
+        report.skipped.processingJobs++;
+        continue;
+      }
+
+      const created = await tx.createProcessingJob({ ...job, workspaceId, templateId });
+      await tx.updateProcessingJob(created.id, { createdAt, completedAt: completedAt ?? null });
+      existingJobs.add(key);
+      report.created.processingJobs++;
+    }
+
+    // Revisions follow their file; history of files that were skipped stays
+    // behind, and history an overwritten file already has isn't repeated
+    const revisionIds = new Map<number, number>();
+    const existingRevisions = new Map((await tx.getAllMetadataRevisions(workspaceId)).map(revision => [revisionKey(revision), revision.id]));
+    const revisions = [...archive.metadataRevisions].sort((a, b) => a.id - b.id);
+    for (const { id, ...revision } of revisions) {
+      const fileId = fileIds.get(revision.fileId);
+      if (fileId === undefined) {
+        report.skipped.metadataRevisions++;
+        continue;
+      }
+
+      const key = revisionKey({ ...revision, fileId });
+      const existingId = existingRevisions.get(key);
+      if (existingId !== undefined) {
+        revisionIds.set(id, existingId);
+        report.skipped.metadataRevisions++;
+        continue;
+      }
+
+      const created = await tx.createMetadataRevision({
+        ...revision,
+        fileId,
+        templateId: revision.templateId ? templateIds.get(revision.templateId) ?? null : null,
+        revertedFromId: revision.revertedFromId ? revisionIds.get(revision.revertedFromId) ?? null : null,
+      });
+      revisionIds.set(id, created.id);
+      existingRevisions.set(key, created.id);
+      report.created.metadataRevisions++;
+    }
+
+    return report;
+  }
+}
+
+export const backupService = new BackupService();
@@ -0,0 +1,61 @@
+import { storage } from '../storage';
+import { hashPassword } from '../auth';
+import { getDefaultWorkspace } from '../workspaces';
+import { googleDriveService } from './google-drive';
+
+export const DEMO_USERNAME = 'demo';
+const DEMO_WORKSPACE_NAME = 'Demo workspace';
+
+// Covers the fixture photos, documents and audio well enough to try a job
+const DEMO_TEMPLATE = {
+  name: 'Demo media',
+  description: 'Titles, categories and tags for the sample files',
+  fields: [
+    { name: 'title', description: 'A short human-readable title', type: 'text' },
+    { name: 'description', description: 'One or two sentences describing the content', type: 'text' },
+    { name: 'category', description: 'The kind of content', type: 'select', options: ['Photo', 'Document', 'Spreadsheet', 'Audio', 'Other'] },
+    { name: 'tags', description: 'Keywords someone might search for', type: 'tags' },
+  ],
+};
+
+export class DemoService {
+  isEnabled(): boolean {
+    return process.env.DEMO_MODE === 'true';
+  }
+
+  // Gives the demo login a workspace of its own, the fake Drive and a starter
+  // template. Runs on every start; anything already there is left as it is,
+  // including a password changed since the first run. A demo login with a
+  // known password has no place in production, so there it refuses to run.
+  async seed(): Promise<void> {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('DEMO_MODE must not be enabled in production');
+    }
+    const password = process.env.DEMO_PASSWORD;
+    if (!password) {
+      throw new Error('DEMO_PASSWORD must be set when DEMO_MODE is enabled');
+    }
+
+    // The default workspace is created first, so data from before logins
+    // existed goes to the first real account rather than to the demo
+    await getDefaultWorkspace();
+
+    const user = await storage.getUserByUsername(DEMO_USERNAME)
+      ?? await storage.createUser({ username: DEMO_USERNAME, password: await hashPassword(password) });
+
+    const workspace = (await storage.getWorkspacesForUser(user.id)).find(workspace => workspace.name === DEMO_WORKSPACE_NAME)
+      ?? await storage.createWorkspace({ name: DEMO_WORKSPACE_NAME });
+    if (!await storage.getWorkspaceMember(workspace.id, user.id)) {
+      await storage.addWorkspaceMember({ workspaceId: workspace.id, userId: user.id, role: 'admin' });
+    }
+
+    // The fake backend links without an OAuth code
+    await googleDriveService.linkAccount(user.id, 'demo');
+
+    if ((await storage.getAllMetadataTemplates(workspace.id)).length === 0) {
+      await storage.createMetadataTemplate({ workspaceId: workspace.id, ...DEMO_TEMPLATE });
+    }
+  }
+}
+
+export const demoService = new DemoService();
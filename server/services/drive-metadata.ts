@@ -0,0 +1,419 @@
+import { createHash } from 'crypto';
+import { storage } from '../storage';
+import { type DriveFileInfo, type DriveMetadataUpdate } from './google-drive';
+import {
+  DEFAULT_EXPORT_PROFILE,
+  type DriveFile,
+  type ExistingMetadata,
+  type ExportProfile,
+  type MetadataTemplate,
+  type MetadataWriteTarget
+} from '@shared/schema';
+
+const KEY_PREFIX = 'AI_';
+const GENERATED_AT_KEY = 'AI_Generated_At';
+const GENERATED_BY_KEY = 'AI_Generated_By';
+const GENERATED_BY = 'MetadataEnhancer';
+
+// Drive limits each property and appProperty to 124 bytes of key plus value,
+// and a file to 30 public properties per app
+const MAX_PROPERTY_BYTES = 120; // leaves a 4 byte buffer
+const MAX_PROPERTIES_PER_TARGET = 30;
+
+// Properties are written in this encoding: every field is stored under
+// AI_<name>, AI_<name>.2, ... and a manifest split across AI$manifest.1, ...
+// lists the written fields in order with their value type and part count,
+// plus a checksum of them
+const ENCODING_VERSION = 2;
+const MANIFEST_PREFIX = 'AI$manifest.';
+const MAX_KEY_NAME_LENGTH = 40;
+// Room for the '@<index>' that tells apart fields whose keys collide, and for
+// the '.<part>' suffix
+const KEY_SUFFIX_BYTES = 8;
+
+// The metadata summary sits between these lines in the file description, below
+// whatever description the file already had
+const DESCRIPTION_START = '--- AI metadata ---';
+const DESCRIPTION_END = '--- end AI metadata ---';
+
+type ValueType = 's' | 'j'; // stored as is, or as JSON
+type ManifestEntry = [name: string, type: ValueType, parts: number];
+
+interface Manifest {
+  v: number;
+  c: string; // checksum of the fields that were written
+  f: ManifestEntry[];
+}
+
+type PropertyTarget = Exclude<MetadataWriteTarget, 'description'>;
+const PROPERTY_TARGETS: PropertyTarget[] = ['properties', 'appProperties'];
+
+// The parts of a Drive file's metadata that exports write to
+export interface DriveMetadataSource {
+  properties?: Record<string, string> | null;
+  appProperties?: Record<string, string> | null;
+  description?: string | null;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const DESCRIPTION_BLOCK = new RegExp(`\\n*${escapeRegExp(DESCRIPTION_START)}\\n[\\s\\S]*?${escapeRegExp(DESCRIPTION_END)}\\n*`);
+
+function toText(value: unknown): string {
+  // Arrays (like tags) become comma-separated strings
+  return Array.isArray(value) ? value.join(', ') : String(value);
+}
+
+function fromText(key: string, value: string): unknown {
+  if (key === 'tags') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value.split(',').map(tag => tag.trim());
+    }
+  }
+  return value;
+}
+
+// Splits value into parts of at most maxBytes of UTF-8 without splitting a character
+function splitBytes(value: string, maxBytes: number): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of value) {
+    const bytes = Buffer.byteLength(char, 'utf8');
+    if (currentBytes + bytes > maxBytes) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts;
+}
+
+function checksum(metadata: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(metadata)).digest('hex').slice(0, 8);
+}
+
+// Only these characters are allowed in Drive property keys; '@' is kept for
+// telling colliding keys apart
+function baseKey(name: string): string {
+  return `${KEY_PREFIX}${name.replace(/[^a-zA-Z0-9.!$%^&*()\-_/]/g, '_').slice(0, MAX_KEY_NAME_LENGTH)}`;
+}
+
+function partKey(key: string, part: number): string {
+  return part === 1 ? key : `${key}.${part}`;
+}
+
+// The keys holding each manifest entry's parts. Encoder and decoder both
+// derive them from the manifest, so they always agree.
+function assignKeys(entries: ManifestEntry[]): string[] {
+  const used = new Set([GENERATED_AT_KEY, GENERATED_BY_KEY]);
+  return entries.map(([name, , parts], index) => {
+    let key = baseKey(name);
+    const partKeys = () => Array.from({ length: parts }, (_, i) => partKey(key, i + 1));
+    if (partKeys().some(candidate => used.has(candidate))) {
+      key = `${key}@${index}`;
+    }
+    partKeys().forEach(candidate => used.add(candidate));
+    return key;
+  });
+}
+
+// Encodes the fields as properties. When they don't all fit in Drive's limit
+// the largest are left out, of the manifest too: listing every field could
+// take more properties than the limit allows by itself.
+function encodeProperties(fields: [string, unknown][]): Record<string, string> {
+  const encoded = fields.map(([name, value]) => {
+    const type: ValueType = typeof value === 'string' ? 's' : 'j';
+    const text = type === 's' ? value as string : JSON.stringify(value ?? null);
+    return { name, value, type, chunks: splitBytes(text, MAX_PROPERTY_BYTES - baseKey(name).length - KEY_SUFFIX_BYTES) };
+  });
+  const included = new Set(encoded);
+
+  const build = () => {
+    const kept = encoded.filter(field => included.has(field));
+    const entries: ManifestEntry[] = kept.map(field => [field.name, field.type, field.chunks.length]);
+    const written = Object.fromEntries(kept.map(field => [field.name, field.value]));
+    const manifest: Manifest = { v: ENCODING_VERSION, c: checksum(written), f: entries };
+    const manifestChunks = splitBytes(JSON.stringify(manifest), MAX_PROPERTY_BYTES - `${MANIFEST_PREFIX}99`.length);
+
+    const properties: Record<string, string> = {};
+    manifestChunks.forEach((chunk, i) => {
+      properties[`${MANIFEST_PREFIX}${i + 1}`] = chunk;
+    });
+    assignKeys(entries).forEach((key, i) => {
+      kept[i].chunks.forEach((chunk, part) => {
+        properties[partKey(key, part + 1)] = chunk;
+      });
+    });
+    return properties;
+  };
+
+  let properties = build();
+  // Leave room for AI_Generated_At and AI_Generated_By
+  while (Object.keys(properties).length + 2 > MAX_PROPERTIES_PER_TARGET && included.size > 0) {
+    const largest = Array.from(included).reduce((a, b) => b.chunks.length > a.chunks.length ? b : a);
+    console.warn(`Metadata field "${largest.name}" doesn't fit in Drive's property limit and was left out`);
+    included.delete(largest);
+    properties = build();
+  }
+  return properties;
+}
+
+// Rebuilds the exact metadata written by encodeProperties, or returns null
+// when the manifest is missing or the parts don't add up to its checksum
+function decodeProperties(properties: Record<string, string>): Record<string, unknown> | null {
+  const manifestParts = Object.keys(properties)
+    .filter(key => key.startsWith(MANIFEST_PREFIX))
+    .map(key => Number(key.slice(MANIFEST_PREFIX.length)))
+    .sort((a, b) => a - b);
+  if (manifestParts.length === 0) return null;
+
+  try {
+    const manifest: Manifest = JSON.parse(manifestParts.map(part => properties[`${MANIFEST_PREFIX}${part}`]).join(''));
+    if (manifest.v !== ENCODING_VERSION) {
+      throw new Error(`unknown encoding version ${manifest.v}`);
+    }
+
+    const metadata: Record<string, unknown> = {};
+    assignKeys(manifest.f).forEach((key, i) => {
+      const [name, type, parts] = manifest.f[i];
+      // Manifests written before left-out fields were dropped list them with 0 parts
+      if (parts === 0) return;
+
+      const chunks = Array.from({ length: parts }, (_, part) => properties[partKey(key, part + 1)]);
+      if (chunks.some(chunk => chunk === undefined)) {
+        throw new Error(`missing parts of "${name}"`);
+      }
+      const text = chunks.join('');
+      metadata[name] = type === 's' ? text : JSON.parse(text);
+    });
+
+    if (checksum(metadata) !== manifest.c) {
+      throw new Error('checksum mismatch');
+    }
+    return metadata;
+  } catch (error) {
+    console.warn(`Ignoring exported metadata properties: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+function encodeDescriptionBlock(fields: [string, unknown][]): string {
+  const lines = fields.map(([key, value]) => `${key}: ${toText(value).replace(/\s*\n\s*/g, ' ')}`);
+  return [DESCRIPTION_START, ...lines, DESCRIPTION_END].join('\n');
+}
+
+function readDescriptionBlock(description: string): Record<string, unknown> {
+  const metadata: Record<string, unknown> = {};
+  const block = description.match(DESCRIPTION_BLOCK);
+  if (!block) return metadata;
+
+  for (const line of block[0].split('\n')) {
+    const separator = line.indexOf(': ');
+    if (separator <= 0 || line === DESCRIPTION_START || line === DESCRIPTION_END) continue;
+    const key = line.slice(0, separator);
+    metadata[key] = fromText(key, line.slice(separator + 2));
+  }
+  return metadata;
+}
+
+// Reads properties written before the manifest encoding, joining values that
+// were split into AI_<key>_1, AI_<key>_2, ...
+function readLegacyProperties(properties: Record<string, string>, into: Record<string, unknown>) {
+  const partsOf = (key: string) => {
+    const parts: string[] = [];
+    while (properties[`${key}_${parts.length + 1}`] !== undefined) {
+      parts.push(properties[`${key}_${parts.length + 1}`]);
+    }
+    return parts;
+  };
+
+  for (const [key, value] of Object.entries(properties)) {
+    // When and by what the export ran isn't metadata about the file
+    if (!key.startsWith(KEY_PREFIX) || key === GENERATED_AT_KEY || key === GENERATED_BY_KEY) continue;
+
+    const split = key.match(/^(.+)_(\d+)$/);
+    if (split && partsOf(split[1]).length >= 2 && properties[split[1]] === undefined) {
+      if (split[2] === '1') {
+        const metadataKey = split[1].substring(KEY_PREFIX.length);
+        into[metadataKey] = fromText(metadataKey, partsOf(split[1]).join(''));
+      }
+      continue;
+    }
+
+    const metadataKey = key.substring(KEY_PREFIX.length);
+    into[metadataKey] = fromText(metadataKey, value);
+  }
+}
+
+function readProperties(properties: Record<string, string>, into: Record<string, unknown>) {
+  const decoded = decodeProperties(properties);
+  if (decoded) {
+    Object.assign(into, decoded);
+  } else {
+    readLegacyProperties(properties, into);
+  }
+}
+
+// JSON with object keys sorted, so values read back from jsonb columns compare
+// equal to freshly built ones
+function canonicalJson(value: unknown): string {
+  return JSON.stringify(value, (_key, inner) => inner && typeof inner === 'object' && !Array.isArray(inner)
+    ? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => a.localeCompare(b)))
+    : inner);
+}
+
+function numberOrUndefined(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+export class DriveMetadataService {
+  // The template the metadata came from decides where it is written, then the
+  // workspace. Without a template, the one that generated the file's latest
+  // revision is used.
+  async getExportProfile(file: DriveFile, template?: MetadataTemplate): Promise<ExportProfile> {
+    if (!template) {
+      const revision = (await storage.getMetadataRevisionsByFile(file.id)).find(revision => revision.templateId !== null);
+      template = revision ? await storage.getMetadataTemplate(revision.templateId!) : undefined;
+    }
+    if (template?.exportProfile) {
+      return template.exportProfile as ExportProfile;
+    }
+
+    const workspace = await storage.getWorkspace(file.workspaceId);
+    return (workspace?.exportProfile as ExportProfile | null) ?? DEFAULT_EXPORT_PROFILE;
+  }
+
+  // The Drive update that writes the metadata where the profile says, or null
+  // when Drive already holds it. AI keys the profile no longer writes to a
+  // target are deleted from it.
+  buildUpdate(metadata: Record<string, unknown>, profile: ExportProfile, current: DriveMetadataSource): DriveMetadataUpdate | null {
+    const byTarget = new Map<MetadataWriteTarget, [string, unknown][]>();
+    for (const [key, value] of Object.entries(metadata)) {
+      for (const target of profile.fields[key] ?? profile.targets) {
+        byTarget.set(target, [...(byTarget.get(target) ?? []), [key, value]]);
+      }
+    }
+
+    const update: DriveMetadataUpdate = {};
+
+    for (const target of PROPERTY_TARGETS) {
+      const existing = current[target] ?? {};
+      const fields = byTarget.get(target) ?? [];
+      const desired = fields.length > 0 ? encodeProperties(fields) : {};
+      if (fields.length > 0) {
+        desired[GENERATED_AT_KEY] = new Date().toISOString();
+        desired[GENERATED_BY_KEY] = GENERATED_BY;
+      }
+
+      const changes: Record<string, string | null> = {};
+      for (const key of Object.keys(existing)) {
+        if ((key.startsWith(KEY_PREFIX) || key.startsWith(MANIFEST_PREFIX)) && !(key in desired)) {
+          changes[key] = null;
+        }
+      }
+      // The timestamp alone doesn't make an export necessary
+      const outdated = Object.entries(desired).some(([key, value]) => key !== GENERATED_AT_KEY && existing[key] !== value);
+      if (outdated || Object.keys(changes).length > 0) {
+        update[target] = { ...changes, ...desired };
+      }
+    }
+
+    const currentDescription = current.description ?? '';
+    const userDescription = currentDescription.replace(DESCRIPTION_BLOCK, '').trim();
+    const descriptionFields = byTarget.get('description') ?? [];
+    const description = descriptionFields.length > 0
+      ? [userDescription, encodeDescriptionBlock(descriptionFields)].filter(Boolean).join('\n\n')
+      : userDescription;
+    if (description !== currentDescription.trim()) {
+      update.description = description;
+    }
+
+    return Object.keys(update).length > 0 ? update : null;
+  }
+
+  // Drive's own description, media and sharing details for the file, or null
+  // when Drive reports none of them
+  readExistingMetadata(file: Partial<DriveFileInfo>): ExistingMetadata | null {
+    const image = file.imageMediaMetadata ?? {};
+    const video = file.videoMediaMetadata ?? {};
+    const location = image.location && {
+      latitude: numberOrUndefined(image.location.latitude),
+      longitude: numberOrUndefined(image.location.longitude),
+      altitude: numberOrUndefined(image.location.altitude),
+    };
+
+    const metadata: ExistingMetadata = {
+      description: file.description?.replace(DESCRIPTION_BLOCK, '').trim() || undefined,
+      starred: file.starred ?? undefined,
+      owners: file.owners?.map(owner => owner.displayName || owner.emailAddress).filter((owner): owner is string => !!owner),
+      shared: file.shared ?? undefined,
+      sharedBy: file.sharingUser?.displayName || file.sharingUser?.emailAddress || undefined,
+      cameraMake: image.cameraMake || undefined,
+      cameraModel: image.cameraModel || undefined,
+      exposureTime: numberOrUndefined(image.exposureTime),
+      aperture: numberOrUndefined(image.aperture),
+      isoSpeed: numberOrUndefined(image.isoSpeed),
+      focalLength: numberOrUndefined(image.focalLength),
+      flashUsed: image.flashUsed ?? undefined,
+      takenAt: image.time || undefined,
+      location: location && (location.latitude !== undefined || location.longitude !== undefined) ? location : undefined,
+      rotation: numberOrUndefined(image.rotation),
+      width: numberOrUndefined(image.width ?? video.width),
+      height: numberOrUndefined(image.height ?? video.height),
+      durationMillis: numberOrUndefined(video.durationMillis),
+    };
+
+    // Stored as JSON, so leave out what Drive didn't report
+    const reported = JSON.parse(JSON.stringify(metadata));
+    return Object.keys(reported).length > 0 ? reported : null;
+  }
+
+  existingMetadataChanged(file: DriveFile, existingMetadata: ExistingMetadata | null): boolean {
+    return canonicalJson(file.existingMetadata ?? null) !== canonicalJson(existingMetadata);
+  }
+
+  // The metadata a stored copy holds once update is applied, for providers
+  // that keep Drive-style metadata themselves. Like Drive, null deletes a key.
+  applyUpdate(current: DriveMetadataSource, update: DriveMetadataUpdate): DriveMetadataSource {
+    const merge = (properties: Record<string, string> | null | undefined, changes?: Record<string, string | null>) => {
+      if (!changes) return properties;
+
+      const merged = { ...properties };
+      for (const [key, value] of Object.entries(changes)) {
+        if (value === null) {
+          delete merged[key];
+        } else {
+          merged[key] = value;
+        }
+      }
+      return merged;
+    };
+
+    return {
+      properties: merge(current.properties, update.properties),
+      appProperties: merge(current.appProperties, update.appProperties),
+      description: update.description !== undefined ? update.description : current.description,
+    };
+  }
+
+  // Reads back metadata exported to any target. Properties and appProperties
+  // win over the description summary, which flattens line breaks and arrays.
+  // Every restore path goes through here.
+  readMetadata(source: DriveMetadataSource): Record<string, unknown> | null {
+    const metadata = source.description ? readDescriptionBlock(source.description) : {};
+    readProperties(source.properties ?? {}, metadata);
+    readProperties(source.appProperties ?? {}, metadata);
+    return Object.keys(metadata).length > 0 ? metadata : null;
+  }
+}
+
+export const driveMetadataService = new DriveMetadataService();
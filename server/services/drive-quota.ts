@@ -0,0 +1,143 @@
+import { type DriveQuotaStats } from '@shared/schema';
+
+// Budget for Drive API calls from this server across all accounts
+const QUERIES_PER_SECOND = parseRate(process.env.DRIVE_QUERIES_PER_SECOND, 10);
+const MAX_RETRIES = parseRetries(process.env.DRIVE_MAX_RETRIES, 5);
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 64 * 1000;
+
+// 403 reasons Drive uses for quota rather than permission problems
+const RATE_LIMIT_REASONS = new Set(['userRateLimitExceeded', 'rateLimitExceeded']);
+const TRANSIENT_NETWORK_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'EAI_AGAIN']);
+
+export type DriveErrorKind = 'rate_limit' | 'transient' | 'permanent';
+
+// Anything but a finite number above 0 falls back: a negative rate would
+// schedule requests in the past, and Infinity wouldn't space them at all
+function parseRate(value: string | undefined, fallback: number): number {
+  const rate = Number(value);
+  return value?.trim() && Number.isFinite(rate) && rate > 0 ? rate : fallback;
+}
+
+// Anything but a whole number from 0 up falls back, since NaN would never
+// compare as reached and retry forever
+function parseRetries(value: string | undefined, fallback: number): number {
+  const retries = Number(value);
+  return value?.trim() && Number.isSafeInteger(retries) && retries >= 0 ? retries : fallback;
+}
+
+// Errors rethrown as "Failed to ..." keep the Drive error as their cause, so
+// the chain is followed until an error says more than permanent
+export function classifyDriveError(error: any): DriveErrorKind {
+  for (let current = error, depth = 0; current && depth < 5; current = current.cause, depth++) {
+    const kind = classifyOwnError(current);
+    if (kind !== 'permanent') return kind;
+  }
+  return 'permanent';
+}
+
+function classifyOwnError(error: any): DriveErrorKind {
+  const status = error?.response?.status ?? (typeof error?.code === 'number' ? error.code : undefined);
+  const reasons: string[] = (error?.errors ?? error?.response?.data?.error?.errors ?? []).map((e: any) => e?.reason);
+
+  if (status === 429 || (status === 403 && reasons.some(reason => RATE_LIMIT_REASONS.has(reason)))) {
+    return 'rate_limit';
+  }
+  if (status === 408 || (status >= 500 && status < 600)) {
+    return 'transient';
+  }
+  if (typeof error?.code === 'string' && TRANSIENT_NETWORK_CODES.has(error.code)) {
+    return 'transient';
+  }
+  return 'permanent';
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export class DriveQuotaService {
+  private nextSlotAt = 0;
+  // After a rate limit every request waits, not just the one that was refused
+  private pausedUntil = 0;
+  private stats = {
+    requests: 0,
+    retries: 0,
+    rateLimited: 0,
+    transientErrors: 0,
+    failures: 0,
+    throttledMs: 0,
+    lastRateLimitedAt: null as Date | null,
+  };
+
+  // Runs one Drive API call within the budget, retrying rate limits and
+  // transient failures with jittered exponential backoff. Other errors, and
+  // the last one once retries run out, are rethrown unchanged.
+  async run<T>(call: () => Promise<T>): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire();
+      this.stats.requests++;
+
+      try {
+        return await call();
+      } catch (error) {
+        const kind = classifyDriveError(error);
+        if (kind === 'rate_limit') {
+          this.stats.rateLimited++;
+          this.stats.lastRateLimitedAt = new Date();
+        } else if (kind === 'transient') {
+          this.stats.transientErrors++;
+        }
+
+        if (kind === 'permanent' || attempt >= MAX_RETRIES) {
+          this.stats.failures++;
+          throw error;
+        }
+
+        const delay = this.backoffDelay(attempt, error);
+        if (kind === 'rate_limit') {
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+        }
+        console.warn(`Drive request failed (${kind}), retrying in ${delay}ms:`, (error as Error).message);
+        this.stats.retries++;
+        await sleep(delay);
+      }
+    }
+  }
+
+  // Waits until Drive is expected to accept requests again, at least minMs.
+  // Jobs call this after a rate limit rather than failing the rest of their work.
+  async cooldown(minMs: number): Promise<void> {
+    await sleep(Math.max(minMs, this.pausedUntil - Date.now()));
+  }
+
+  getStats(): DriveQuotaStats {
+    return {
+      ...this.stats,
+      queriesPerSecond: QUERIES_PER_SECOND,
+      pausedUntil: this.pausedUntil > Date.now() ? new Date(this.pausedUntil) : null,
+    };
+  }
+
+  // Spaces requests evenly so no more than QUERIES_PER_SECOND start each second
+  private async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlotAt, this.pausedUntil);
+    this.nextSlotAt = slot + 1000 / QUERIES_PER_SECOND;
+
+    if (slot > now) {
+      this.stats.throttledMs += slot - now;
+      await sleep(slot - now);
+    }
+  }
+
+  private backoffDelay(attempt: number, error: any): number {
+    const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+    const jittered = exponential / 2 + Math.random() * exponential / 2;
+    // Honor Retry-After when Drive sends one
+    const retryAfter = Number(error?.response?.headers?.['retry-after']) * 1000;
+    return Math.round(Number.isFinite(retryAfter) ? Math.max(jittered, retryAfter) : jittered);
+  }
+}
+
+export const driveQuotaService = new DriveQuotaService();
@@ -0,0 +1,264 @@
+import { storage } from '../storage';
+import { googleDriveService, type DriveChange, type DriveFileInfo } from './google-drive';
+import { folderTreeService } from './folder-tree';
+import { driveMetadataService } from './drive-metadata';
+import { metadataHistoryService } from './metadata-history';
+import {
+  type DriveSyncCounts,
+  type DriveSyncState,
+  type DriveSyncStatus,
+  type InsertDriveSyncState
+} from '@shared/schema';
+
+const SYNC_INTERVAL_MS = (Number(process.env.DRIVE_SYNC_INTERVAL_MINUTES) || 5) * 60 * 1000;
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+
+function emptyCounts(): DriveSyncCounts {
+  return { added: 0, updated: 0, moved: 0, removed: 0, stale: 0 };
+}
+
+function addCounts(total: DriveSyncCounts | null, counts: DriveSyncCounts): DriveSyncCounts {
+  const base = total ?? emptyCounts();
+  return {
+    added: base.added + counts.added,
+    updated: base.updated + counts.updated,
+    moved: base.moved + counts.moved,
+    removed: base.removed + counts.removed,
+    stale: base.stale + counts.stale,
+  };
+}
+
+// The stored columns that mirror what Drive reports about a file
+function driveFields(file: DriveFileInfo) {
+  return {
+    name: file.name,
+    sharedDriveId: file.driveId ?? null,
+    type: googleDriveService.getFileType(file.mimeType),
+    size: parseInt(file.size || '0'),
+    mimeType: file.mimeType,
+    webViewLink: file.webViewLink || null,
+    thumbnailLink: file.thumbnailLink || null,
+    modifiedTime: new Date(file.modifiedTime),
+    existingMetadata: driveMetadataService.readExistingMetadata(file),
+  };
+}
+
+export class DriveSyncService {
+  // In-flight syncs by Google account id, shared by concurrent callers
+  private running = new Map<number, Promise<DriveSyncState>>();
+  // Accounts with a sync requested while one was running
+  private queued = new Set<number>();
+  private syncTimer: NodeJS.Timeout | null = null;
+
+  // Applies the account's Drive changes since the last sync to stored files.
+  // The first sync only records where the Changes feed starts; until then
+  // files are discovered by listing their folders.
+  async sync(accountId: number): Promise<DriveSyncState> {
+    let sync = this.running.get(accountId);
+    if (!sync) {
+      sync = this.runSync(accountId).finally(() => {
+        this.running.delete(accountId);
+      });
+      this.running.set(accountId, sync);
+    }
+    return sync;
+  }
+
+  // Syncs in the background, for push notifications. A sync already running
+  // may have read the feed before the notified change, so another one follows
+  // it; any number of requests meanwhile share that one.
+  requestSync(accountId: number): void {
+    if (this.queued.has(accountId)) return;
+    this.queued.add(accountId);
+
+    const running = this.running.get(accountId)?.catch(() => undefined) ?? Promise.resolve();
+    running.then(() => {
+      this.queued.delete(accountId);
+      return this.sync(accountId);
+    }).catch(error => {
+      console.error(`Drive sync failed for Google account ${accountId}:`, (error as Error).message);
+    });
+  }
+
+  // Applies the current state of one file, for notifications from a channel
+  // on that file rather than on the Changes feed
+  async syncFile(accountId: number, fileId: string, removed = false): Promise<DriveSyncCounts> {
+    const change: DriveChange = removed
+      ? { fileId, removed: true }
+      : { fileId, removed: false, file: await googleDriveService.getFileMetadata(accountId, fileId) };
+    const counts = await this.applyChanges(accountId, [change]);
+    console.log(`Drive sync for file ${fileId} of Google account ${accountId}:`, counts);
+    return counts;
+  }
+
+  // Periodically syncs every linked Google account
+  startSyncJob(): void {
+    if (this.syncTimer) return;
+
+    this.syncTimer = setInterval(async () => {
+      try {
+        for (const account of await storage.getAllGoogleAccounts()) {
+          await this.sync(account.id).catch(error => {
+            console.error(`Drive sync failed for ${account.email}:`, (error as Error).message);
+          });
+        }
+      } catch (error) {
+        console.error('Drive sync failed:', (error as Error).message);
+      }
+    }, SYNC_INTERVAL_MS);
+    this.syncTimer.unref();
+  }
+
+  async getStatus(accountId: number): Promise<DriveSyncStatus> {
+    const state = await storage.getDriveSyncState(accountId);
+    return {
+      googleAccountId: accountId,
+      syncing: this.running.has(accountId),
+      lastSyncedAt: state?.lastSyncedAt ?? null,
+      lastError: state?.lastError ?? null,
+      lastChangeCounts: (state?.lastChangeCounts as DriveSyncCounts | null) ?? null,
+      totalChangeCounts: (state?.totalChangeCounts as DriveSyncCounts | null) ?? null,
+    };
+  }
+
+  private async runSync(accountId: number): Promise<DriveSyncState> {
+    const state = await storage.getDriveSyncState(accountId);
+    if (!state) {
+      return storage.saveDriveSyncState({
+        googleAccountId: accountId,
+        startPageToken: await googleDriveService.getStartPageToken(accountId),
+        lastSyncedAt: new Date(),
+        lastError: null,
+        lastChangeCounts: emptyCounts(),
+        totalChangeCounts: emptyCounts(),
+      });
+    }
+
+    const totalChangeCounts = state.totalChangeCounts as DriveSyncCounts | null;
+    const previous: InsertDriveSyncState = {
+      googleAccountId: accountId,
+      startPageToken: state.startPageToken,
+      lastSyncedAt: state.lastSyncedAt,
+      lastError: state.lastError,
+      lastChangeCounts: state.lastChangeCounts as DriveSyncCounts | null,
+      totalChangeCounts,
+    };
+
+    try {
+      const { changes, newStartPageToken } = await googleDriveService.listChanges(accountId, state.startPageToken);
+      const counts = await this.applyChanges(accountId, changes);
+
+      console.log(`Drive sync for Google account ${accountId}: ${changes.length} changes`, counts);
+      return await storage.saveDriveSyncState({
+        ...previous,
+        startPageToken: newStartPageToken,
+        lastSyncedAt: new Date(),
+        lastError: null,
+        lastChangeCounts: counts,
+        totalChangeCounts: addCounts(totalChangeCounts, counts),
+      });
+    } catch (error) {
+      // Keep the old token so the same changes are read again next time
+      await storage.saveDriveSyncState({ ...previous, lastError: (error as Error).message });
+      throw error;
+    }
+  }
+
+  private async applyChanges(accountId: number, changes: DriveChange[]): Promise<DriveSyncCounts> {
+    const counts = emptyCounts();
+    let foldersChanged = false;
+
+    for (const change of changes) {
+      if (await this.isFolderChange(accountId, change)) {
+        foldersChanged = true;
+        continue;
+      }
+      await this.applyChange(accountId, change, counts);
+    }
+
+    if (foldersChanged) {
+      folderTreeService.invalidate(accountId);
+    }
+    return counts;
+  }
+
+  // Folders live in the folder tree cache rather than in driveFiles
+  private async isFolderChange(accountId: number, change: DriveChange): Promise<boolean> {
+    if (change.file) {
+      return change.file.mimeType === FOLDER_MIME_TYPE;
+    }
+    return !!(await storage.getDriveFolder(accountId, change.fileId));
+  }
+
+  private async applyChange(accountId: number, change: DriveChange, counts: DriveSyncCounts): Promise<void> {
+    const file = change.file;
+    const stored = await storage.getDriveFilesByGoogleAccount(accountId, change.fileId);
+
+    // Deleted and trashed files are tombstoned so their metadata history survives
+    if (change.removed || !file || file.trashed) {
+      for (const row of stored) {
+        if (!row.removedAt) {
+          await storage.updateDriveFile(row.id, { removedAt: new Date() });
+          counts.removed++;
+        }
+      }
+      return;
+    }
+
+    const parentFolderId = file.parents?.[0];
+
+    if (stored.length === 0) {
+      // A file we haven't seen: add it to the workspaces that hold its folder,
+      // restoring AI metadata an earlier export wrote to it
+      const workspaceIds = parentFolderId ? await storage.getWorkspaceIdsWithFolder(accountId, parentFolderId) : [];
+      const aiGeneratedMetadata = driveMetadataService.readMetadata(file);
+      for (const workspaceId of workspaceIds) {
+        const created = await storage.createDriveFile({
+          ...driveFields(file),
+          workspaceId,
+          googleAccountId: accountId,
+          driveId: file.id,
+          parentFolderId,
+          createdTime: new Date(file.createdTime),
+          status: aiGeneratedMetadata ? 'processed' : 'pending',
+          aiGeneratedMetadata,
+        });
+        if (aiGeneratedMetadata) {
+          await metadataHistoryService.recordRevision(created, { source: 'drive_restore' });
+        }
+        counts.added++;
+      }
+      return;
+    }
+
+    for (const row of stored) {
+      const updates = driveFields(file);
+      const moved = !!parentFolderId && parentFolderId !== row.parentFolderId;
+      const modified = updates.modifiedTime.getTime() > row.modifiedTime.getTime();
+      const changed = moved || modified || !!row.removedAt || updates.name !== row.name
+        || driveMetadataService.existingMetadataChanged(row, updates.existingMetadata);
+      if (!changed) continue;
+
+      // Metadata generated from an older version of the file no longer describes it
+      const becameStale = modified && row.status === 'processed' && !row.stale;
+
+      await storage.updateDriveFile(row.id, {
+        ...updates,
+        parentFolderId: parentFolderId ?? row.parentFolderId,
+        removedAt: null,
+        stale: row.stale || becameStale,
+      });
+
+      if (moved) {
+        counts.moved++;
+      } else {
+        counts.updated++;
+      }
+      if (becameStale) {
+        counts.stale++;
+      }
+    }
+  }
+}
+
+export const driveSyncService = new DriveSyncService();
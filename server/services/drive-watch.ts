@@ -0,0 +1,206 @@
+import { randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { storage } from '../storage';
+import { googleDriveService, type DriveChannel, type DriveChannelRequest } from './google-drive';
+import { driveSyncService } from './drive-sync';
+import {
+  type DriveWatchChannel,
+  type DriveWatchKind,
+  type PublicDriveWatchChannel
+} from '@shared/schema';
+
+// Drive ends file channels after a day at most, so every channel asks for
+// that and is replaced once less than RENEW_BEFORE_MS is left
+const CHANNEL_TTL_MS = 24 * 60 * 60 * 1000;
+const RENEW_BEFORE_MS = 2 * 60 * 60 * 1000;
+const RENEW_INTERVAL_MS = 30 * 60 * 1000;
+
+// Resource states of a file channel that mean the file is gone
+const REMOVED_STATES = new Set(['remove', 'trash']);
+
+// A push notification as the webhook receives it
+export interface DriveNotification {
+  channelId?: string;
+  token?: string;
+  resourceId?: string;
+  resourceState?: string;
+  changed: string[];
+}
+
+export type DriveNotificationResult = 'accepted' | 'unknown_channel' | 'forbidden';
+
+export function parseDriveNotification(headers: IncomingHttpHeaders): DriveNotification {
+  const header = (name: string) => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  return {
+    channelId: header('x-goog-channel-id'),
+    token: header('x-goog-channel-token'),
+    resourceId: header('x-goog-resource-id'),
+    resourceState: header('x-goog-resource-state'),
+    changed: header('x-goog-changed')?.split(',').map(part => part.trim()).filter(Boolean) ?? [],
+  };
+}
+
+function tokensMatch(expected: string, actual: string | undefined): boolean {
+  if (actual === undefined) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export function toPublicDriveWatchChannel(channel: DriveWatchChannel): PublicDriveWatchChannel {
+  const { token: _token, ...rest } = channel;
+  return rest;
+}
+
+// Drive push notifications, for changes within seconds rather than at the
+// next sync job. Each account watches its Changes feed and may also watch
+// single files or folders. Notifications only start syncs, so a lost one
+// just waits for the sync job.
+export class DriveWatchService {
+  private renewTimer: NodeJS.Timeout | null = null;
+
+  // Drive only posts to public HTTPS addresses, so watching is off until one
+  // is configured
+  isEnabled(): boolean {
+    return !!process.env.DRIVE_WEBHOOK_URL;
+  }
+
+  // Watches the account's Changes feed unless it already is
+  async watchAccount(accountId: number): Promise<DriveWatchChannel> {
+    const existing = (await storage.getDriveWatchChannels(accountId)).find(channel => channel.kind === 'changes');
+    return existing ?? await this.openChannel(accountId, 'changes', null);
+  }
+
+  // Watches one file or folder unless it already is
+  async watchFile(accountId: number, fileId: string): Promise<DriveWatchChannel> {
+    const existing = (await storage.getDriveWatchChannels(accountId))
+      .find(channel => channel.kind === 'file' && channel.fileId === fileId);
+    return existing ?? await this.openChannel(accountId, 'file', fileId);
+  }
+
+  // Stops the channel in Drive and forgets it. Drive may have ended it
+  // already, or the account lost access, so failing to stop it is only logged.
+  async stop(channel: DriveWatchChannel): Promise<void> {
+    try {
+      await googleDriveService.stopChannel(channel.googleAccountId, channel.channelId, channel.resourceId);
+    } catch (error) {
+      console.warn(`Could not stop Drive channel ${channel.channelId}:`, (error as Error).message);
+    }
+    await storage.deleteDriveWatchChannel(channel.id);
+  }
+
+  // For accounts being disconnected
+  async stopAll(accountId: number): Promise<void> {
+    for (const channel of await storage.getDriveWatchChannels(accountId)) {
+      await this.stop(channel);
+    }
+  }
+
+  // Watches every account's Changes feed now and keeps all channels renewed
+  startWatchJob(): void {
+    if (this.renewTimer || !this.isEnabled()) return;
+
+    const run = () => this.renewAll().catch(error => {
+      console.error('Drive channel renewal failed:', (error as Error).message);
+    });
+    run();
+    this.renewTimer = setInterval(run, RENEW_INTERVAL_MS);
+    this.renewTimer.unref();
+  }
+
+  // Checks a notification against its channel and starts the matching sync
+  // in the background, so Drive gets its answer at once
+  async receive(notification: DriveNotification): Promise<DriveNotificationResult> {
+    const channel = notification.channelId
+      ? await storage.getDriveWatchChannelByChannelId(notification.channelId)
+      : undefined;
+    if (!channel) {
+      return 'unknown_channel';
+    }
+    if (!tokensMatch(channel.token, notification.token) || notification.resourceId !== channel.resourceId) {
+      return 'forbidden';
+    }
+
+    await storage.updateDriveWatchChannel(channel.id, { lastNotifiedAt: new Date() });
+
+    // Sent once when a channel opens; nothing has changed yet
+    if (notification.resourceState === 'sync') {
+      return 'accepted';
+    }
+
+    const accountId = channel.googleAccountId;
+    if (channel.kind === 'changes') {
+      driveSyncService.requestSync(accountId);
+    } else {
+      const removed = REMOVED_STATES.has(notification.resourceState ?? '');
+      driveSyncService.syncFile(accountId, channel.fileId!, removed).catch(error => {
+        console.error(`Drive sync failed for file ${channel.fileId}:`, (error as Error).message);
+      });
+      // Files added to a watched folder arrive through the Changes feed
+      if (notification.changed.includes('children')) {
+        driveSyncService.requestSync(accountId);
+      }
+    }
+    return 'accepted';
+  }
+
+  // Drive can't extend a channel, so one close to expiry is replaced by a new
+  // one, which is opened before the old one is stopped so nothing is missed
+  async renewAll(): Promise<void> {
+    for (const account of await storage.getAllGoogleAccounts()) {
+      await this.watchAccount(account.id).catch(error => {
+        console.error(`Could not watch Drive changes for ${account.email}:`, (error as Error).message);
+      });
+    }
+
+    const renewBy = Date.now() + RENEW_BEFORE_MS;
+    for (const channel of await storage.getDriveWatchChannels()) {
+      if (channel.expiresAt.getTime() > renewBy) continue;
+      try {
+        await this.openChannel(channel.googleAccountId, channel.kind as DriveWatchKind, channel.fileId);
+        await this.stop(channel);
+      } catch (error) {
+        console.error(`Could not renew Drive channel ${channel.channelId}:`, (error as Error).message);
+      }
+    }
+  }
+
+  private async openChannel(accountId: number, kind: DriveWatchKind, fileId: string | null): Promise<DriveWatchChannel> {
+    if (!this.isEnabled()) {
+      throw new Error('Drive push notifications are off; set DRIVE_WEBHOOK_URL to enable them');
+    }
+
+    const request: DriveChannelRequest = {
+      id: randomUUID(),
+      token: randomBytes(32).toString('hex'),
+      address: process.env.DRIVE_WEBHOOK_URL!,
+      expiration: new Date(Date.now() + CHANNEL_TTL_MS),
+    };
+
+    let opened: DriveChannel;
+    if (kind === 'changes') {
+      // Notifications are for changes after the account's sync position
+      const pageToken = (await storage.getDriveSyncState(accountId))?.startPageToken
+        ?? await googleDriveService.getStartPageToken(accountId);
+      opened = await googleDriveService.watchChanges(accountId, pageToken, request);
+    } else {
+      opened = await googleDriveService.watchFile(accountId, fileId!, request);
+    }
+
+    return await storage.createDriveWatchChannel({
+      googleAccountId: accountId,
+      kind,
+      fileId,
+      channelId: request.id,
+      resourceId: opened.resourceId,
+      token: request.token,
+      // Drive may shorten the requested lifetime
+      expiresAt: Number.isNaN(opened.expiration.getTime()) ? request.expiration : opened.expiration,
+    });
+  }
+}
+
+export const driveWatchService = new DriveWatchService();
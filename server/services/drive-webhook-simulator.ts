@@ -0,0 +1,30 @@
+// What Drive sends to a channel's address, as X-Goog-* headers
+export interface DriveNotificationMessage {
+  channelId: string;
+  token: string;
+  resourceId: string;
+  resourceState: string; // 'sync', 'change' for the Changes feed, 'update', 'remove', 'trash', ... for files
+  messageNumber: number;
+  changed?: string[]; // for 'update': 'content', 'properties', 'children', ...
+  expiration?: Date;
+}
+
+// Posts a notification the way Drive does and returns the response status
+export async function postDriveNotification(address: string, message: DriveNotificationMessage): Promise<number> {
+  const headers: Record<string, string> = {
+    'X-Goog-Channel-ID': message.channelId,
+    'X-Goog-Channel-Token': message.token,
+    'X-Goog-Resource-ID': message.resourceId,
+    'X-Goog-Resource-State': message.resourceState,
+    'X-Goog-Message-Number': String(message.messageNumber),
+  };
+  if (message.changed?.length) {
+    headers['X-Goog-Changed'] = message.changed.join(',');
+  }
+  if (message.expiration) {
+    headers['X-Goog-Channel-Expiration'] = message.expiration.toUTCString();
+  }
+
+  const response = await fetch(address, { method: 'POST', headers });
+  return response.status;
+}
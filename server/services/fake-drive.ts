@@ -0,0 +1,348 @@
+import { createHash } from 'crypto';
+import { createReadStream, readdirSync, readFileSync, statSync } from 'fs';
+import path from 'path';
+import { type drive_v3 } from 'googleapis';
+import { type DriveClient, type DriveFileInfo, type DriveRequestOptions } from './google-drive';
+import { mimeTypeFromName } from './file-types';
+import { driveMetadataService } from './drive-metadata';
+import { postDriveNotification } from './drive-webhook-simulator';
+
+const FOLDER_MIME_TYPE = 'application/vnd.google-apps.folder';
+const ROOT_ID = 'fakeroot';
+// Each folder in this fixture folder is a shared drive rather than part of My Drive
+const SHARED_DRIVES_DIR = 'Shared drives';
+const DEFAULT_PAGE_SIZE = 100;
+
+// The fake answers for a single Google account, linked without OAuth
+export const FAKE_DRIVE_ACCOUNT = { email: 'demo@drive.test', name: 'Demo Drive' };
+
+// Drive's limits on custom file properties
+const MAX_PROPERTY_BYTES = 124; // key plus value, UTF-8
+const MAX_PROPERTIES_PER_APP = 30; // each of properties and appProperties
+const MAX_PROPERTIES_TOTAL = 100;
+
+// Fixture files with these extensions stand in for native Google files. Like
+// Drive, they can't be downloaded, only exported to the listed formats; the
+// fixture's own content is what every export returns.
+const NATIVE_FIXTURES: Record<string, { mimeType: string; exportFormats: string[] }> = {
+  '.gdoc': { mimeType: 'application/vnd.google-apps.document', exportFormats: ['text/plain'] },
+  '.gsheet': { mimeType: 'application/vnd.google-apps.spreadsheet', exportFormats: ['text/csv'] },
+};
+
+// The Drive fields a '.<name>.drive.json' fixture may set for the file next to it
+const FIXTURE_FIELDS = ['properties', 'appProperties', 'description', 'starred', 'imageMediaMetadata', 'videoMediaMetadata'] as const;
+
+interface FakeChannel {
+  address: string;
+  token: string;
+  resourceId: string;
+  fileId?: string; // absent for the Changes feed
+  messageNumber: number;
+}
+
+interface FakeFile extends DriveFileInfo {
+  contentPath?: string; // absent for folders
+  exportFormats?: string[];
+}
+
+// Shaped like the errors googleapis throws, so retries and messages behave as
+// they do against Drive
+function driveError(status: number, reason: string, message: string) {
+  const errors = [{ reason, message }];
+  return Object.assign(new Error(message), {
+    code: status,
+    errors,
+    response: { status, headers: {}, data: { error: { code: status, message, errors } } },
+  });
+}
+
+function fakeId(relativePath: string): string {
+  return 'fake' + createHash('sha1').update(relativePath).digest('hex').slice(0, 24);
+}
+
+// The Drive calls GoogleDriveService makes, served from a fixture directory:
+// its folders become My Drive's folders and its files Drive files, except for
+// 'Shared drives', whose folders are shared drives. As with Drive, their files
+// are only seen by requests that opt in to shared drives. Property
+// and description changes live in memory until the server restarts, and are
+// reported through the Changes feed and to watch channels, which get real
+// HTTP notifications.
+export class FakeDriveClient implements DriveClient {
+  private entries = new Map<string, FakeFile>();
+  private changeLog: string[] = []; // file ids, one per change
+  private channelsById = new Map<string, FakeChannel>();
+  private sharedDrives: drive_v3.Schema$Drive[] = [];
+  // Drive's own cap, or DRIVE_FIXTURES_PAGE_SIZE so a few fixtures span pages
+  private maxPageSize = Number(process.env.DRIVE_FIXTURES_PAGE_SIZE) || 1000;
+
+  constructor(private fixturesDir: string) {
+    const created = statSync(fixturesDir).mtime.toISOString();
+    this.entries.set(ROOT_ID, { id: ROOT_ID, name: 'My Drive', mimeType: FOLDER_MIME_TYPE, createdTime: created, modifiedTime: created });
+    this.load(fixturesDir, ROOT_ID);
+    this.loadSharedDrives(path.join(fixturesDir, SHARED_DRIVES_DIR));
+  }
+
+  readonly files = {
+    // Understands the two queries GoogleDriveService sends: every folder, and
+    // the children of one folder, both leaving out the trash
+    list: async ({ q = '', pageSize, pageToken, supportsAllDrives, includeItemsFromAllDrives }: drive_v3.Params$Resource$Files$List) => {
+      const parent = q.match(/'([^']+)' in parents/)?.[1];
+      const foldersOnly = q.includes(`mimeType='${FOLDER_MIME_TYPE}'`);
+      const parentId = parent === 'root' ? ROOT_ID : parent;
+      const allDrives = supportsAllDrives && includeItemsFromAllDrives;
+
+      const matches = Array.from(this.entries.values()).filter(file =>
+        file.id !== ROOT_ID
+        && !file.trashed
+        && (!file.driveId || allDrives)
+        && (!parentId || file.parents?.[0] === parentId)
+        && (!foldersOnly || file.mimeType === FOLDER_MIME_TYPE));
+
+      return { data: this.page(matches.map(file => this.toDrive(file)), 'files', pageSize ?? DEFAULT_PAGE_SIZE, pageToken) };
+    },
+
+    // Downloads honor a 'bytes=start-end' Range header
+    get: async ({ fileId = '', alt, supportsAllDrives }: drive_v3.Params$Resource$Files$Get, options: DriveRequestOptions = {}) => {
+      const file = this.getFile(fileId, supportsAllDrives);
+      if (alt !== 'media') {
+        return { data: this.toDrive(file) };
+      }
+      if (!file.contentPath || file.exportFormats) {
+        throw driveError(403, 'fileNotDownloadable', 'Only files with binary content can be downloaded. Use Export with Docs Editors files.');
+      }
+      const range = options.headers?.Range?.match(/^bytes=(\d+)-(\d*)$/);
+      return {
+        data: createReadStream(file.contentPath, range ? { start: Number(range[1]), end: range[2] ? Number(range[2]) : undefined } : {}),
+      };
+    },
+
+    // Drive exports shared drive files without being asked to support them
+    export: async ({ fileId = '', mimeType = '' }: drive_v3.Params$Resource$Files$Export) => {
+      const file = this.getFile(fileId, true);
+      if (!file.exportFormats?.includes(mimeType)) {
+        throw driveError(400, 'badRequest', `Export only supports these MIME types: ${file.exportFormats?.join(', ') ?? 'none'}`);
+      }
+      const content = readFileSync(file.contentPath!);
+      return { data: content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength) };
+    },
+
+    // Merges properties and appProperties (null deletes a key) and replaces
+    // the description, as Drive does. Setting trashed moves the file to or
+    // from the trash.
+    update: async ({ fileId = '', requestBody = {}, supportsAllDrives }: drive_v3.Params$Resource$Files$Update) => {
+      const file = this.getFile(fileId, supportsAllDrives);
+      const { properties, appProperties, description, trashed } = requestBody;
+      const next = driveMetadataService.applyUpdate(file, {
+        properties: properties ?? undefined,
+        appProperties: appProperties ?? undefined,
+        description: description ?? undefined,
+      });
+      this.checkProperties(next.properties ?? undefined, next.appProperties ?? undefined);
+
+      file.properties = next.properties ?? undefined;
+      file.appProperties = next.appProperties ?? undefined;
+      file.description = next.description ?? undefined;
+      file.trashed = trashed ?? file.trashed;
+      file.modifiedTime = new Date().toISOString();
+      this.changeLog.push(file.id);
+      this.notify(file.id);
+      return { data: { modifiedTime: file.modifiedTime } };
+    },
+
+    watch: async ({ fileId = '', requestBody = {}, supportsAllDrives }: drive_v3.Params$Resource$Files$Watch) => {
+      return { data: this.openChannel(requestBody, this.getFile(fileId, supportsAllDrives).id) };
+    },
+  };
+
+  readonly drives = {
+    list: async ({ pageSize, pageToken }: drive_v3.Params$Resource$Drives$List) => {
+      return { data: this.page(structuredClone(this.sharedDrives), 'drives', pageSize ?? 10, pageToken) };
+    },
+  };
+
+  readonly changes = {
+    getStartPageToken: async (_params: drive_v3.Params$Resource$Changes$Getstartpagetoken) => ({ data: { startPageToken: String(this.changeLog.length) } }),
+    list: async ({ pageToken, supportsAllDrives, includeItemsFromAllDrives }: drive_v3.Params$Resource$Changes$List) => {
+      const start = Number(pageToken);
+      if (!Number.isInteger(start) || start < 0 || start > this.changeLog.length) {
+        throw driveError(400, 'invalid', `Invalid page token: ${pageToken}`);
+      }
+      const allDrives = supportsAllDrives && includeItemsFromAllDrives;
+      const changes = this.changeLog.slice(start)
+        .map(fileId => this.getFile(fileId, true))
+        .filter(file => !file.driveId || allDrives)
+        .map(file => ({ fileId: file.id, removed: false, file: this.toDrive(file) }));
+      return { data: { changes, newStartPageToken: String(this.changeLog.length) } };
+    },
+
+    watch: async ({ requestBody = {} }: drive_v3.Params$Resource$Changes$Watch) => {
+      return { data: this.openChannel(requestBody) };
+    },
+  };
+
+  readonly channels = {
+    stop: async ({ requestBody = {} }: drive_v3.Params$Resource$Channels$Stop) => {
+      const channel = this.channelsById.get(requestBody.id ?? '');
+      if (!channel || channel.resourceId !== requestBody.resourceId) {
+        throw driveError(404, 'notFound', `Channel '${requestBody.id}' not found for project`);
+      }
+      this.channelsById.delete(requestBody.id!);
+      return { data: '' };
+    },
+  };
+
+  // Channels last until they are stopped; the requested expiration is only
+  // echoed back
+  private openChannel(body: drive_v3.Schema$Channel, fileId?: string): drive_v3.Schema$Channel {
+    if (!body.id || !body.address) {
+      throw driveError(400, 'required', 'A channel needs an id and an address');
+    }
+    const resourceId = 'fakeresource' + createHash('sha1').update(fileId ?? 'changes').digest('hex').slice(0, 16);
+    this.channelsById.set(body.id, { address: body.address, token: body.token ?? '', resourceId, fileId, messageNumber: 1 });
+    return { kind: 'api#channel', id: body.id, resourceId, expiration: body.expiration };
+  }
+
+  // Tells the Changes feed's channels and the file's own that it changed
+  private notify(fileId: string) {
+    for (const [channelId, channel] of Array.from(this.channelsById.entries())) {
+      if (channel.fileId && channel.fileId !== fileId) continue;
+      postDriveNotification(channel.address, {
+        channelId,
+        token: channel.token,
+        resourceId: channel.resourceId,
+        resourceState: channel.fileId ? 'update' : 'change',
+        messageNumber: ++channel.messageNumber,
+        changed: channel.fileId ? ['properties'] : undefined,
+      }).catch(error => console.warn(`Fake Drive could not notify channel ${channelId}:`, error.message));
+    }
+  }
+
+  // A slice of results from the position pageToken holds, and the token for
+  // the next slice if there is one
+  private page<T, K extends string>(results: T[], key: K, pageSize: number, pageToken?: string) {
+    const start = pageToken ? Number(pageToken) : 0;
+    const end = start + Math.min(pageSize, this.maxPageSize);
+    return {
+      [key]: results.slice(start, end),
+      nextPageToken: end < results.length ? String(end) : undefined,
+    } as { [key in K]: T[] } & { nextPageToken?: string };
+  }
+
+  // Every file in a shared drive names the drive in driveId, and its top
+  // folders and files have the drive as their parent
+  private loadSharedDrives(dir: string) {
+    let drives;
+    try {
+      drives = readdirSync(dir, { withFileTypes: true }).filter(entry => entry.isDirectory() && !entry.name.startsWith('.'));
+    } catch {
+      return;
+    }
+    for (const entry of drives) {
+      const fullPath = path.join(dir, entry.name);
+      const id = fakeId(path.relative(this.fixturesDir, fullPath).split(path.sep).join('/'));
+      this.sharedDrives.push({ id, name: entry.name, createdTime: statSync(fullPath).mtime.toISOString() });
+      this.load(fullPath, id, id);
+    }
+  }
+
+  private load(dir: string, parentId: string, sharedDriveId?: string) {
+    const entries = readdirSync(dir, { withFileTypes: true }).filter(entry =>
+      !entry.name.startsWith('.') && !(dir === this.fixturesDir && entry.name === SHARED_DRIVES_DIR));
+    for (const entry of entries) {
+      const fullPath = path.join(dir, entry.name);
+      const relativePath = path.relative(this.fixturesDir, fullPath).split(path.sep).join('/');
+      const stats = statSync(fullPath);
+      const times = { createdTime: stats.mtime.toISOString(), modifiedTime: stats.mtime.toISOString() };
+      const id = fakeId(relativePath);
+      const driveId = sharedDriveId ? { driveId: sharedDriveId } : {};
+
+      if (entry.isDirectory()) {
+        this.entries.set(id, { id, name: entry.name, mimeType: FOLDER_MIME_TYPE, parents: [parentId], ...driveId, ...times });
+        this.load(fullPath, id, sharedDriveId);
+      } else if (entry.isFile()) {
+        const native = NATIVE_FIXTURES[path.extname(entry.name).toLowerCase()];
+        this.entries.set(id, {
+          id,
+          name: native ? path.basename(entry.name, path.extname(entry.name)) : entry.name,
+          mimeType: native?.mimeType ?? mimeTypeFromName(entry.name),
+          // Drive reports no size for native files
+          size: native ? undefined : String(stats.size),
+          parents: [parentId],
+          // Shared drives own their files, so Drive names no owner
+          owners: sharedDriveId ? undefined : [{ displayName: FAKE_DRIVE_ACCOUNT.name, emailAddress: FAKE_DRIVE_ACCOUNT.email }],
+          ...driveId,
+          ...times,
+          ...this.readFixtureFields(dir, entry.name),
+          contentPath: fullPath,
+          exportFormats: native?.exportFormats,
+        });
+      }
+    }
+  }
+
+  private readFixtureFields(dir: string, name: string): Partial<DriveFileInfo> {
+    let raw: string;
+    try {
+      raw = readFileSync(path.join(dir, `.${name}.drive.json`), 'utf8');
+    } catch {
+      return {};
+    }
+    const fields = JSON.parse(raw);
+    return Object.fromEntries(FIXTURE_FIELDS.filter(field => field in fields).map(field => [field, fields[field]]));
+  }
+
+  // Drive answers 404 for shared drive files unless the request supports them
+  private getFile(fileId: string, supportsAllDrives?: boolean | null): FakeFile {
+    const file = this.entries.get(fileId === 'root' ? ROOT_ID : fileId);
+    if (!file || (file.driveId && !supportsAllDrives)) {
+      throw driveError(404, 'notFound', `File not found: ${fileId}.`);
+    }
+    return file;
+  }
+
+  // What Drive returns for a file; fields selectors are not applied
+  private toDrive(file: FakeFile): DriveFileInfo {
+    const { contentPath: _contentPath, exportFormats: _exportFormats, ...driveFile } = file;
+    return structuredClone(driveFile);
+  }
+
+  // Enforces Drive's property limits on the properties a file would end up with
+  private checkProperties(properties: Record<string, string> = {}, appProperties: Record<string, string> = {}) {
+    for (const [key, value] of [...Object.entries(properties), ...Object.entries(appProperties)]) {
+      if (Buffer.byteLength(key + value, 'utf8') > MAX_PROPERTY_BYTES) {
+        throw driveError(400, 'invalidProperty',
+          `The property with key '${key}' exceeds the maximum size of ${MAX_PROPERTY_BYTES} bytes for key and value combined.`);
+      }
+    }
+    const publicCount = Object.keys(properties).length;
+    const privateCount = Object.keys(appProperties).length;
+    if (publicCount > MAX_PROPERTIES_PER_APP || privateCount > MAX_PROPERTIES_PER_APP) {
+      throw driveError(400, 'tooManyProperties',
+        `A file may have at most ${MAX_PROPERTIES_PER_APP} public and ${MAX_PROPERTIES_PER_APP} private properties per app.`);
+    }
+    if (publicCount + privateCount > MAX_PROPERTIES_TOTAL) {
+      throw driveError(400, 'tooManyProperties', `A file may have at most ${MAX_PROPERTIES_TOTAL} properties.`);
+    }
+  }
+}
+
+let fakeDriveClient: FakeDriveClient | null = null;
+
+// DEMO_MODE implies the fake, since a demo has no Google credentials. Anyone
+// can link the fake account, so production refuses it outright.
+export function isFakeDriveEnabled(): boolean {
+  const enabled = process.env.DRIVE_BACKEND === 'fake' || process.env.DEMO_MODE === 'true';
+  if (enabled && process.env.NODE_ENV === 'production') {
+    throw new Error('The fake Drive (DRIVE_BACKEND=fake) must not be used in production');
+  }
+  return enabled;
+}
+
+// Every linked account shares one fake Drive, loaded on first use from
+// DRIVE_FIXTURES_DIR (default fixtures/drive)
+export function getFakeDriveClient(): FakeDriveClient {
+  if (!fakeDriveClient) {
+    fakeDriveClient = new FakeDriveClient(path.resolve(process.env.DRIVE_FIXTURES_DIR || 'fixtures/drive'));
+  }
+  return fakeDriveClient;
+}
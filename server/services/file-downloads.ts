@@ -0,0 +1,188 @@
+import { createWriteStream, promises as fs } from 'fs';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { type AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { type DriveFile } from '@shared/schema';
+import { storageProviders, type ByteRange } from './storage-provider';
+
+const MB = 1024 * 1024;
+
+// The largest file of each type that is downloaded for processing; each can
+// be changed with MAX_<TYPE>_BYTES, e.g. MAX_VIDEO_BYTES. Images and audio
+// are sent to OpenAI whole and match its upload limits. Video is only read in
+// ranges, so its limit is about what ffmpeg should be pointed at at all.
+const DEFAULT_MAX_BYTES: Record<string, number> = {
+  image: 20 * MB,
+  audio: 25 * MB,
+  video: 10 * 1024 * MB,
+  pdf: 200 * MB,
+};
+const DEFAULT_MAX_BYTES_OTHER = 100 * MB; // documents, spreadsheets and the rest
+
+function formatBytes(bytes: number): string {
+  if (bytes >= 1024 * MB) return `${+(bytes / (1024 * MB)).toFixed(1)} GB`;
+  if (bytes >= MB) return `${+(bytes / MB).toFixed(1)} MB`;
+  return `${bytes} bytes`;
+}
+
+export class FileTooLargeError extends Error {
+  constructor(readonly file: DriveFile, readonly limit: number) {
+    super(`${file.name} is larger than the ${formatBytes(limit)} limit for ${file.type} files`);
+    this.name = 'FileTooLargeError';
+  }
+}
+
+// Parses a single-range Range header against a file of the given size,
+// returning null when it can't be satisfied
+function parseRange(header: string, size: number): Required<ByteRange> | null {
+  const match = header.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) return null;
+
+  const range = match[1]
+    ? { start: Number(match[1]), end: match[2] ? Math.min(Number(match[2]), size - 1) : size - 1 }
+    : { start: Math.max(size - Number(match[2]), 0), end: size - 1 }; // the last N bytes
+  return range.start <= range.end ? range : null;
+}
+
+// Downloads file content for processing without holding large files in
+// memory: content is streamed to private temp directories, which are always
+// removed afterwards, and video is served to ffmpeg a range at a time.
+export class FileDownloadService {
+  getMaxBytes(type: string): number {
+    const configured = Number(process.env[`MAX_${type.toUpperCase()}_BYTES`]);
+    return configured > 0 ? configured : DEFAULT_MAX_BYTES[type] ?? DEFAULT_MAX_BYTES_OTHER;
+  }
+
+  // Throws FileTooLargeError when the size recorded at sync is over the limit
+  checkSize(file: DriveFile): void {
+    const limit = this.getMaxBytes(file.type);
+    if (file.size > limit) {
+      throw new FileTooLargeError(file, limit);
+    }
+  }
+
+  // For content that is used whole, such as images sent for vision analysis
+  async download(file: DriveFile): Promise<Buffer> {
+    this.checkSize(file);
+    const chunks: Buffer[] = [];
+    await pipeline(
+      await storageProviders.openFileStream(file),
+      this.limitSize(file),
+      new Writable({
+        write(chunk: Buffer, _encoding, callback) {
+          chunks.push(chunk);
+          callback();
+        },
+      }),
+    );
+    return Buffer.concat(chunks);
+  }
+
+  // Streams the file into a temp directory and runs fn with its path
+  downloadToTempFile<T>(file: DriveFile, fn: (filePath: string) => Promise<T>): Promise<T> {
+    this.checkSize(file);
+    return this.withTempDir(async dir => {
+      const filePath = path.join(dir, `content${path.extname(file.name)}`);
+      await pipeline(await storageProviders.openFileStream(file), this.limitSize(file), createWriteStream(filePath));
+      return fn(filePath);
+    });
+  }
+
+  // Runs fn with a new private directory that is removed when fn settles,
+  // whether or not it succeeded
+  async withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'file-processor-'));
+    try {
+      return await fn(dir);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true }).catch(error =>
+        console.warn(`Failed to remove temp directory ${dir}:`, error.message));
+    }
+  }
+
+  // Serves the file over HTTP on localhost with Range support and runs fn
+  // with its URL. ffmpeg reads such URLs by seeking, so only the parts it
+  // needs, such as the index and the frames it extracts, are downloaded.
+  async serveRanges<T>(file: DriveFile, fn: (url: string) => Promise<T>): Promise<T> {
+    this.checkSize(file);
+    // The stored size may be stale, and Range answers need the real one
+    const size = Number((await storageProviders.getFileMetadata(file)).size);
+    if (!Number.isFinite(size) || size <= 0) {
+      throw new Error(`Size of ${file.name} is unknown, so it can't be read in ranges`);
+    }
+
+    const token = randomBytes(16).toString('hex');
+    const server = createServer((req, res) => {
+      if (req.url !== `/${token}` || (req.method !== 'GET' && req.method !== 'HEAD')) {
+        res.writeHead(404).end();
+        return;
+      }
+      this.answerRange(file, size, req, res).catch(error => {
+        console.warn(`Ranged read of ${file.name} failed:`, error.message);
+        if (res.headersSent) {
+          res.destroy();
+        } else {
+          res.writeHead(502).end();
+        }
+      });
+    });
+
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      return await fn(`http://127.0.0.1:${port}/${token}`);
+    } finally {
+      server.closeAllConnections();
+      server.close();
+    }
+  }
+
+  private async answerRange(file: DriveFile, size: number, req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const range = req.headers.range ? parseRange(req.headers.range, size) : { start: 0, end: size - 1 };
+    if (!range) {
+      res.writeHead(416, { 'Content-Range': `bytes */${size}` }).end();
+      return;
+    }
+
+    // Opened before answering so a failed download can't pass for an empty one
+    const content = req.method === 'GET' ? await storageProviders.openFileStream(file, range) : null;
+    const headers: Record<string, string | number> = {
+      'Accept-Ranges': 'bytes',
+      'Content-Length': range.end - range.start + 1,
+      'Content-Type': file.mimeType,
+    };
+    if (req.headers.range) {
+      headers['Content-Range'] = `bytes ${range.start}-${range.end}/${size}`;
+    }
+    res.writeHead(req.headers.range ? 206 : 200, headers);
+    if (!content) {
+      res.end();
+      return;
+    }
+
+    // ffmpeg drops the connection whenever it seeks elsewhere; pipeline then
+    // aborts the download instead of reading the rest of the file
+    await pipeline(content, res).catch(error => {
+      if (error.code !== 'ERR_STREAM_PREMATURE_CLOSE') throw error;
+    });
+  }
+
+  // Fails the download once it passes the limit, since a stale or missing
+  // recorded size can let an oversized file through checkSize
+  private limitSize(file: DriveFile): Transform {
+    const limit = this.getMaxBytes(file.type);
+    let received = 0;
+    return new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        callback(received > limit ? new FileTooLargeError(file, limit) : null, chunk);
+      },
+    });
+  }
+}
+
+export const fileDownloadService = new FileDownloadService();
@@ -1,30 +1,50 @@
 import { storage } from '../storage';
 import { googleDriveService } from './google-drive';
-import { openAIService } from './openai';
-import { type DriveFile, type MetadataTemplate } from '@shared/schema';
+import { aiMetadataService } from './ai-metadata';
+import { llmProviders, type LLMChoice, type LLMTarget } from './llm-provider';
+import { metadataHistoryService } from './metadata-history';
+import { agenticSearchService } from './agentic-search';
+import { classifyDriveError, driveQuotaService } from './drive-quota';
+import { storageProviders } from './storage-provider';
+import { fileDownloadService, FileTooLargeError } from './file-downloads';
+import { driveMetadataService, type DriveMetadataSource } from './drive-metadata';
+import { type DriveFile, type LLMSelection, type MetadataRevisionSource, type MetadataTemplate } from '@shared/schema';
 // PDF parsing will be imported dynamically when needed
 
+// How often a batch retries a file that failed because Drive rate limited it,
+// and how long it waits for the quota to recover first
+const BATCH_RATE_LIMIT_RETRIES = 3;
+const BATCH_RATE_LIMIT_COOLDOWN_MS = 30 * 1000;
+
 export class FileProcessorService {
-  async processFile(file: DriveFile, template?: MetadataTemplate): Promise<void> {
+  // Files over their type's size limit are marked skipped rather than failed.
+  // llm, e.g. the job's choice, takes precedence over the template's.
+  async processFile(file: DriveFile, template?: MetadataTemplate, source: MetadataRevisionSource = 'ai', llm?: LLMChoice): Promise<'processed' | 'skipped'> {
     try {
+      const target = llmProviders.resolve(llm, template);
+
+      // Downloads stop at the limit too, for when the recorded size is stale
+      fileDownloadService.checkSize(file);
+
       // Update status to processing
       await storage.updateDriveFile(file.id, { status: 'processing' });
 
       let generatedMetadata: any = {};
 
       if (file.type === 'image') {
-        generatedMetadata = await this.processImage(file, template);
+        generatedMetadata = await this.processImage(file, target, template);
       } else if (file.type === 'pdf') {
-        generatedMetadata = await this.processPDF(file, template);
+        generatedMetadata = await this.processPDF(file, target, template);
       } else if (file.type === 'video') {
-        generatedMetadata = await this.processVideo(file, template);
+        generatedMetadata = await this.processVideo(file, target, template);
       } else if (file.type === 'audio') {
-        generatedMetadata = await this.processAudio(file, template);
-      } else if (file.type === 'document' || this.isOfficeDocument(file.mimeType)) {
-        generatedMetadata = await this.processDocument(file, template);
+        generatedMetadata = await this.processAudio(file, target, template);
+      } else if (file.type === 'document' || this.isOfficeDocument(file.mimeType) || googleDriveService.isGoogleWorkspaceFile(file.mimeType)) {
+        generatedMetadata = await this.processDocument(file, target, template);
       } else {
         // For other file types, generate basic metadata
-        generatedMetadata = await openAIService.generateDefaultMetadata(
+        generatedMetadata = await aiMetadataService.generateDefaultMetadata(
+          target,
           file.name,
           file.type,
           file.mimeType
@@ -32,36 +52,51 @@ export class FileProcessorService {
       }
 
       // Update file with generated metadata
-      const updatedFile = await storage.updateDriveFile(file.id, {
+      const updatedFile = await metadataHistoryService.updateFileMetadata(file.id, {
         status: 'processed',
         aiGeneratedMetadata: generatedMetadata,
-        processingError: null
-      });
+        processingError: null,
+        skipReason: null,
+        stale: false
+      }, { source, templateId: template?.id });
 
-      // Automatically export metadata to Google Drive after successful processing
+      // Automatically export metadata to Google Drive after successful
+      // processing, through the same account the file was read with
       if (updatedFile) {
         try {
-          await this.exportMetadataToDrive(updatedFile);
+          await this.exportMetadataToDrive({ ...updatedFile, googleAccountId: file.googleAccountId }, template);
         } catch (exportError) {
           console.error(`Failed to export metadata to Google Drive for file ${file.name}:`, (exportError as Error).message);
           // Don't fail the processing if export fails, just log the error
         }
       }
 
+      return 'processed';
     } catch (error) {
+      if (error instanceof FileTooLargeError) {
+        console.warn(`Skipping ${file.name}: ${error.message}`);
+        await storage.updateDriveFile(file.id, {
+          status: 'skipped',
+          skipReason: 'too_large',
+          processingError: error.message
+        });
+        return 'skipped';
+      }
+
       console.error(`Failed to process file ${file.name}:`, error);
       await storage.updateDriveFile(file.id, {
         status: 'error',
-        processingError: error.message
+        processingError: error.message,
+        skipReason: null
       });
       throw error;
     }
   }
 
-  private async processImage(file: DriveFile, template?: MetadataTemplate): Promise<any> {
+  private async processImage(file: DriveFile, llm: LLMTarget, template?: MetadataTemplate): Promise<any> {
     try {
       // Get image content as base64
-      const imageBuffer = await googleDriveService.getFileContent(file.driveId);
+      const imageBuffer = await fileDownloadService.download(file);
       const base64Image = imageBuffer.toString('base64');
 
       const metadataFields = template?.fields as any[] || [
@@ -71,21 +106,30 @@ export class FileProcessorService {
         { name: 'mood', description: 'Mood or emotional tone of the image', type: 'text' }
       ];
 
-      return await openAIService.analyzeImage(base64Image, metadataFields);
+      return await aiMetadataService.analyzeImage(llm, base64Image, metadataFields);
     } catch (error) {
-      throw new Error(`Failed to process image: ${error.message}`);
+      if (error instanceof FileTooLargeError) throw error;
+      throw new Error(`Failed to process image: ${error.message}`, { cause: error });
     }
   }
 
-  private async processPDF(file: DriveFile, template?: MetadataTemplate): Promise<any> {
+  // The PDF is downloaded to a temp file first unless pdfPath already holds
+  // one, e.g. exported from a Google Workspace file; page images are rendered
+  // next to it so they are removed with it
+  private async processPDF(file: DriveFile, llm: LLMTarget, template?: MetadataTemplate, pdfPath?: string): Promise<any> {
+    if (!pdfPath) {
+      return fileDownloadService.downloadToTempFile(file, filePath => this.processPDF(file, llm, template, filePath));
+    }
+
     try {
       console.log(`Processing PDF: ${file.name} (${file.driveId})`);
       
-      // Download PDF content and extract text
-      const pdfBuffer = await googleDriveService.getFileContent(file.driveId);
-      console.log(`PDF buffer size: ${pdfBuffer.length} bytes`);
+      const fs = require('fs');
+      const path = require('path');
+      const pdfSize = fs.statSync(pdfPath).size;
+      console.log(`PDF file size: ${pdfSize} bytes`);
       
-      if (pdfBuffer.length === 0) {
+      if (pdfSize === 0) {
         throw new Error('PDF file is empty or could not be downloaded');
       }
       
@@ -94,25 +138,18 @@ export class FileProcessorService {
       try {
         // Use pdf2pic to convert PDF to images and then extract text using OCR-like approach
         // First try to extract text using a simple text extraction method
-        const fs = require('fs');
-        const path = require('path');
-        const tempPdfPath = path.join('/tmp', `temp_${Date.now()}.pdf`);
-        
-        // Write buffer to temporary file
-        fs.writeFileSync(tempPdfPath, pdfBuffer);
-        
         // Enhanced PDF text extraction with multiple methods
         try {
           const { exec } = require('child_process');
           const { promisify } = require('util');
           const execAsync = promisify(exec);
           
-          console.log(`Attempting PDF text extraction for: ${tempPdfPath}`);
+          console.log(`Attempting PDF text extraction for: ${pdfPath}`);
           
           // Try pdftotext command with better options
           try {
             console.log('Trying pdftotext with layout preservation...');
-            const { stdout } = await execAsync(`/nix/store/1f2vbia1rg1rh5cs0ii49v3hln9i36rv-poppler-utils-24.02.0/bin/pdftotext -layout -nopgbrk "${tempPdfPath}" -`, { timeout: 30000 });
+            const { stdout } = await execAsync(`/nix/store/1f2vbia1rg1rh5cs0ii49v3hln9i36rv-poppler-utils-24.02.0/bin/pdftotext -layout -nopgbrk "${pdfPath}" -`, { timeout: 30000 });
             extractedText = stdout.trim();
             console.log(`✓ SUCCESS: Extracted text using pdftotext: ${extractedText.length} characters`);
           } catch (pdfTextError: any) {
@@ -121,7 +158,7 @@ export class FileProcessorService {
             // Alternative: Try without layout preservation
             try {
               console.log('Trying pdftotext without layout...');
-              const { stdout: rawText } = await execAsync(`/nix/store/1f2vbia1rg1rh5cs0ii49v3hln9i36rv-poppler-utils-24.02.0/bin/pdftotext "${tempPdfPath}" -`, { timeout: 30000 });
+              const { stdout: rawText } = await execAsync(`/nix/store/1f2vbia1rg1rh5cs0ii49v3hln9i36rv-poppler-utils-24.02.0/bin/pdftotext "${pdfPath}" -`, { timeout: 30000 });
               extractedText = rawText.trim();
               console.log(`✓ SUCCESS: Extracted raw text: ${extractedText.length} characters`);
             } catch (rawTextError: any) {
@@ -131,13 +168,13 @@ export class FileProcessorService {
           
           // If text extraction failed or yielded insufficient content, use OCR approach
           if (!extractedText || extractedText.length < 100) {
-            console.log('Text extraction insufficient, using OCR approach with OpenAI Vision');
+            console.log('Text extraction insufficient, using OCR approach with the vision model');
             
             const pdf2pic = require('pdf2pic');
-            const convert = pdf2pic.fromBuffer(pdfBuffer, {
+            const convert = pdf2pic.fromPath(pdfPath, {
               density: 150, // Higher density for better OCR
               saveFilename: 'page',
-              savePath: '/tmp',
+              savePath: path.dirname(pdfPath),
               format: 'png',
               width: 1200,
               height: 1600
@@ -152,8 +189,8 @@ export class FileProcessorService {
               for (let i = 0; i < Math.min(results.length, 5); i++) {
                 const result = results[i];
                 try {
-                  console.log(`Analyzing page ${i + 1} with OpenAI Vision...`);
-                  const pageAnalysis = await openAIService.analyzeImage(result.base64, [
+                  console.log(`Analyzing page ${i + 1} with the vision model...`);
+                  const pageAnalysis = await aiMetadataService.analyzeImage(llm, result.base64, [
                     { name: 'extracted_text', description: 'Extract ALL visible text from this document page, preserving structure and formatting. Include headers, body text, captions, footnotes, and any other readable content.', type: 'text' }
                   ]);
                   
@@ -178,13 +215,6 @@ export class FileProcessorService {
           console.log('All PDF text extraction methods failed:', extractionError.message);
         }
         
-        // Clean up temporary file
-        try {
-          fs.unlinkSync(tempPdfPath);
-        } catch (cleanupError) {
-          console.log('Failed to cleanup temp file:', cleanupError);
-        }
-        
       } catch (extractionError) {
         console.log('Text extraction failed:', extractionError);
       }
@@ -209,12 +239,12 @@ export class FileProcessorService {
         console.log(`✓ SUCCESS: Analyzing PDF with actual extracted content: ${extractedText.length} characters`);
         
         // Use enhanced PDF analysis with actual content
-        return await openAIService.analyzeDocumentContent(extractedText, metadataFields, {
+        return await aiMetadataService.analyzeDocumentContent(llm, extractedText, metadataFields, {
           filename: file.name,
           fileType: 'PDF Document',
           fileSize: file.size,
           pageCount: 'multiple pages analyzed',
-          extractionMethod: extractedText.includes('--- Page') ? 'OCR via OpenAI Vision' : 'pdftotext'
+          extractionMethod: extractedText.includes('--- Page') ? 'OCR via vision model' : 'pdftotext'
         });
       } else {
         console.log(`⚠️ WARNING: Insufficient text extracted (${extractedText.length} chars), forcing OCR approach`);
@@ -222,10 +252,10 @@ export class FileProcessorService {
         // Force OCR extraction as a last resort
         try {
           const pdf2pic = require('pdf2pic');
-          const convert = pdf2pic.fromBuffer(pdfBuffer, {
+          const convert = pdf2pic.fromPath(pdfPath, {
             density: 200, // High density for better OCR
             saveFilename: 'page',
-            savePath: '/tmp',
+            savePath: path.dirname(pdfPath),
             format: 'png',
             width: 1600,
             height: 2000
@@ -239,7 +269,7 @@ export class FileProcessorService {
             const result = results[i];
             console.log(`Emergency OCR: Analyzing page ${i + 1}...`);
             
-            const pageAnalysis = await openAIService.analyzeImage(result.base64, [
+            const pageAnalysis = await aiMetadataService.analyzeImage(llm, result.base64, [
               { 
                 name: 'full_page_text', 
                 description: 'Extract ALL text from this document page. Include titles, headings, body paragraphs, bullet points, captions, footnotes, and any other readable content. Preserve structure and formatting where possible.', 
@@ -255,12 +285,12 @@ export class FileProcessorService {
           
           if (emergencyText.trim().length > 100) {
             console.log(`✓ Emergency OCR SUCCESS: Extracted ${emergencyText.length} characters total`);
-            return await openAIService.analyzeDocumentContent(emergencyText, metadataFields, {
+            return await aiMetadataService.analyzeDocumentContent(llm, emergencyText, metadataFields, {
               filename: file.name,
               fileType: 'PDF Document',
               fileSize: file.size,
               pageCount: `${results.length} pages`,
-              extractionMethod: 'Emergency OCR via OpenAI Vision'
+              extractionMethod: 'Emergency OCR via vision model'
             });
           }
         } catch (emergencyError: any) {
@@ -276,18 +306,18 @@ export class FileProcessorService {
           modifiedTime: file.modifiedTime,
           fileType: 'PDF Document'
         };
-        return await openAIService.analyzeDocumentByContext(enhancedContext, metadataFields);
+        return await aiMetadataService.analyzeDocumentByContext(llm, enhancedContext, metadataFields);
       }
     } catch (error) {
       console.error(`PDF processing error for ${file.name}:`, error);
-      throw new Error(`Failed to process PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to process PDF: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
-  private async processVideo(file: DriveFile, template?: MetadataTemplate): Promise<any> {
+  private async processVideo(file: DriveFile, llm: LLMTarget, template?: MetadataTemplate): Promise<any> {
     try {
-      // Get video metadata from Google Drive
-      const driveMetadata = await googleDriveService.getFileMetadata(file.driveId);
+      // Get video metadata from the file's storage provider
+      const driveMetadata = await storageProviders.getFileMetadata(file);
       
       let thumbnailBase64: string | undefined;
       let videoFrames: string[] = [];
@@ -298,7 +328,7 @@ export class FileProcessorService {
         try {
           const thumbnailResponse = await fetch(file.thumbnailLink, {
             headers: {
-              'Authorization': `Bearer ${await googleDriveService.getAccessToken()}`
+              'Authorization': `Bearer ${await googleDriveService.getAccessToken(googleDriveService.getFileAccountId(file))}`
             }
           });
           
@@ -312,28 +342,28 @@ export class FileProcessorService {
         }
       }
 
-      // Download video for advanced processing
+      // Read the video in ranges for advanced processing; ffmpeg fetches only
+      // the parts it seeks to instead of the whole file
       try {
-        const videoBuffer = await googleDriveService.getFileContent(file.driveId);
-        console.log(`Downloaded video file: ${file.name} (${videoBuffer.length} bytes)`);
+        await fileDownloadService.serveRanges(file, videoUrl => fileDownloadService.withTempDir(async dir => {
+          // Extract multiple frames for comprehensive analysis
+          videoFrames = await this.extractVideoFrames(videoUrl, dir, file.name);
+          console.log(`Extracted ${videoFrames.length} frames from video: ${file.name}`);
 
-        // Extract multiple frames for comprehensive analysis
-        videoFrames = await this.extractVideoFrames(videoBuffer, file.name);
-        console.log(`Extracted ${videoFrames.length} frames from video: ${file.name}`);
-
-        // Extract and transcribe audio
-        try {
-          const audioBuffer = await this.extractAudioFromVideo(videoBuffer, file.name);
-          if (audioBuffer) {
-            transcript = await openAIService.transcribeAudio(audioBuffer);
-            console.log(`Transcribed audio for video: ${file.name} (${transcript.length} characters)`);
+          // Extract and transcribe audio
+          try {
+            const audioPath = await this.extractAudioFromVideo(videoUrl, dir, file.name);
+            if (audioPath) {
+              transcript = await aiMetadataService.transcribeAudio(llm, audioPath);
+              console.log(`Transcribed audio for video: ${file.name} (${transcript.length} characters)`);
+            }
+          } catch (audioError) {
+            console.warn(`Audio extraction/transcription failed for ${file.name}:`, (audioError as Error).message);
           }
-        } catch (audioError) {
-          console.warn(`Audio extraction/transcription failed for ${file.name}:`, (audioError as Error).message);
-        }
-
+        }));
       } catch (downloadError) {
-        console.warn(`Could not download video for advanced processing: ${(downloadError as Error).message}`);
+        if (downloadError instanceof FileTooLargeError) throw downloadError;
+        console.warn(`Could not read video for advanced processing: ${(downloadError as Error).message}`);
       }
 
       const metadataFields = template?.fields as any[] || [
@@ -359,7 +389,8 @@ export class FileProcessorService {
         mimeType: file.mimeType
       };
 
-      return await openAIService.analyzeVideo(
+      return await aiMetadataService.analyzeVideo(
+        llm,
         videoContext,
         thumbnailBase64,
         metadataFields,
@@ -367,7 +398,8 @@ export class FileProcessorService {
         transcript || undefined
       );
     } catch (error) {
-      throw new Error(`Failed to process video: ${error.message}`);
+      if (error instanceof FileTooLargeError) throw error;
+      throw new Error(`Failed to process video: ${error.message}`, { cause: error });
     }
   }
 
@@ -386,58 +418,69 @@ export class FileProcessorService {
     return officeMimeTypes.includes(mimeType);
   }
 
-  private async processDocument(file: DriveFile, template?: MetadataTemplate): Promise<any> {
+  private async processDocument(file: DriveFile, llm: LLMTarget, template?: MetadataTemplate): Promise<any> {
     try {
       console.log(`Processing document: ${file.name} (${file.driveId})`);
       
-      // Download document content
-      const documentBuffer = await googleDriveService.getFileContent(file.driveId);
-      console.log(`Document buffer size: ${documentBuffer.length} bytes`);
+      // Download document content; Google Docs, Sheets and Slides are exported
+      // to an Office format, or to text, CSV or PDF when that fails
+      const { content: documentBuffer, mimeType } = googleDriveService.isGoogleWorkspaceFile(file.mimeType)
+        ? await googleDriveService.exportGoogleWorkspaceFile(googleDriveService.getFileAccountId(file), file.driveId, file.mimeType)
+        : { content: await fileDownloadService.download(file), mimeType: file.mimeType };
+      console.log(`Document buffer size: ${documentBuffer.length} bytes (${mimeType})`);
       
       if (documentBuffer.length === 0) {
         throw new Error('Document file is empty or could not be downloaded');
       }
+
+      if (mimeType === 'application/pdf') {
+        return await fileDownloadService.withTempDir(async dir => {
+          const pdfPath = require('path').join(dir, 'export.pdf');
+          await require('fs').promises.writeFile(pdfPath, documentBuffer);
+          return this.processPDF(file, llm, template, pdfPath);
+        });
+      }
       
       let extractedText = '';
       
       try {
-        if (file.mimeType.includes('wordprocessingml') || file.name.toLowerCase().endsWith('.docx')) {
+        if (mimeType.includes('wordprocessingml') || file.name.toLowerCase().endsWith('.docx')) {
           // Process Word documents using mammoth
           const mammoth = require('mammoth');
           const result = await mammoth.extractRawText({ buffer: documentBuffer });
           extractedText = result.value;
           console.log(`Extracted text from Word document: ${extractedText.length} characters`);
           
-        } else if (file.mimeType.includes('presentationml') || file.name.toLowerCase().endsWith('.pptx')) {
+        } else if (mimeType.includes('presentationml') || file.name.toLowerCase().endsWith('.pptx')) {
           // Process PowerPoint presentations
           // For PPTX, we'll use a simpler approach since full text extraction is complex
           const fs = require('fs');
           const path = require('path');
-          const tempFilePath = path.join('/tmp', `temp_${Date.now()}.pptx`);
           
           try {
-            fs.writeFileSync(tempFilePath, documentBuffer);
-            
-            // Try to use unzip to extract text from PPTX (which is essentially a ZIP file)
-            const { exec } = require('child_process');
-            const { promisify } = require('util');
-            const execAsync = promisify(exec);
-            
-            try {
-              // Extract slide text from PPTX XML content
-              const { stdout } = await execAsync(`unzip -p "${tempFilePath}" ppt/slides/*.xml | grep -oP '(?<=<a:t>)[^<]+' | head -50`);
-              extractedText = stdout.replace(/\n/g, ' ').trim();
-              console.log(`Extracted text from PowerPoint: ${extractedText.length} characters`);
-            } catch (extractError) {
-              console.log('PowerPoint text extraction failed, using filename-based analysis');
-            }
-            
-            fs.unlinkSync(tempFilePath);
+            await fileDownloadService.withTempDir(async dir => {
+              const tempFilePath = path.join(dir, 'presentation.pptx');
+              await fs.promises.writeFile(tempFilePath, documentBuffer);
+              
+              // Try to use unzip to extract text from PPTX (which is essentially a ZIP file)
+              const { exec } = require('child_process');
+              const { promisify } = require('util');
+              const execAsync = promisify(exec);
+              
+              try {
+                // Extract slide text from PPTX XML content
+                const { stdout } = await execAsync(`unzip -p "${tempFilePath}" ppt/slides/*.xml | grep -oP '(?<=<a:t>)[^<]+' | head -50`);
+                extractedText = stdout.replace(/\n/g, ' ').trim();
+                console.log(`Extracted text from PowerPoint: ${extractedText.length} characters`);
+              } catch (extractError) {
+                console.log('PowerPoint text extraction failed, using filename-based analysis');
+              }
+            });
           } catch (tempError) {
             console.log('PowerPoint processing error:', tempError);
           }
           
-        } else if (file.mimeType.includes('spreadsheetml') || file.name.toLowerCase().endsWith('.xlsx')) {
+        } else if (mimeType.includes('spreadsheetml') || file.name.toLowerCase().endsWith('.xlsx')) {
           // Process Excel spreadsheets
           const xlsx = require('xlsx');
           const workbook = xlsx.read(documentBuffer, { type: 'buffer' });
@@ -453,8 +496,8 @@ export class FileProcessorService {
           extractedText = allText;
           console.log(`Extracted text from Excel: ${extractedText.length} characters`);
           
-        } else if (file.mimeType === 'text/plain') {
-          // Process plain text files
+        } else if (mimeType === 'text/plain' || mimeType === 'text/csv') {
+          // Process plain text files and CSV exports of Google Sheets
           extractedText = documentBuffer.toString('utf-8');
           console.log(`Extracted text from plain text file: ${extractedText.length} characters`);
           
@@ -485,7 +528,7 @@ export class FileProcessorService {
         console.log(`Text sample: "${textSample}..."`);
         
         // Use enhanced document analysis with better prompting
-        return await openAIService.analyzeDocumentContent(extractedText, metadataFields, {
+        return await aiMetadataService.analyzeDocumentContent(llm, extractedText, metadataFields, {
           filename: file.name,
           fileType: this.getDocumentType(file.mimeType),
           fileSize: file.size
@@ -500,15 +543,19 @@ export class FileProcessorService {
           modifiedTime: file.modifiedTime,
           fileType: this.getDocumentType(file.mimeType)
         };
-        return await openAIService.analyzeDocumentByContext(enhancedContext, metadataFields);
+        return await aiMetadataService.analyzeDocumentByContext(llm, enhancedContext, metadataFields);
       }
     } catch (error) {
+      if (error instanceof FileTooLargeError) throw error;
       console.error(`Document processing error for ${file.name}:`, error);
-      throw new Error(`Failed to process document: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to process document: ${error instanceof Error ? error.message : 'Unknown error'}`, { cause: error });
     }
   }
 
   private getDocumentType(mimeType: string): string {
+    if (mimeType === 'application/vnd.google-apps.document') return 'Google Doc';
+    if (mimeType === 'application/vnd.google-apps.spreadsheet') return 'Google Sheet';
+    if (mimeType === 'application/vnd.google-apps.presentation') return 'Google Slides Presentation';
     if (mimeType.includes('wordprocessingml') || mimeType.includes('msword')) return 'Word Document';
     if (mimeType.includes('presentationml') || mimeType.includes('ms-powerpoint')) return 'PowerPoint Presentation';
     if (mimeType.includes('spreadsheetml') || mimeType.includes('ms-excel')) return 'Excel Spreadsheet';
@@ -517,18 +564,18 @@ export class FileProcessorService {
     return 'Office Document';
   }
 
-  private async processAudio(file: DriveFile, template?: MetadataTemplate): Promise<any> {
+  private async processAudio(file: DriveFile, llm: LLMTarget, template?: MetadataTemplate): Promise<any> {
     try {
-      // Get audio content
-      const audioBuffer = await googleDriveService.getFileContent(file.driveId);
-      
+      // Stream the audio to a temp file, which is uploaded from disk
       let transcript = '';
-      try {
-        transcript = await openAIService.transcribeAudio(audioBuffer);
-        console.log(`Transcribed audio for: ${file.name} (${transcript.length} characters)`);
-      } catch (transcriptionError) {
-        console.warn(`Audio transcription failed for ${file.name}:`, (transcriptionError as Error).message);
-      }
+      await fileDownloadService.downloadToTempFile(file, async audioPath => {
+        try {
+          transcript = await aiMetadataService.transcribeAudio(llm, audioPath);
+          console.log(`Transcribed audio for: ${file.name} (${transcript.length} characters)`);
+        } catch (transcriptionError) {
+          console.warn(`Audio transcription failed for ${file.name}:`, (transcriptionError as Error).message);
+        }
+      });
 
       const metadataFields = template?.fields as any[] || [
         { name: 'description', description: 'Description of the audio content and topic', type: 'text' },
@@ -550,63 +597,50 @@ export class FileProcessorService {
         duration: 'Duration unknown'
       };
 
-      return await openAIService.analyzeAudio(audioContext, metadataFields);
+      return await aiMetadataService.analyzeAudio(llm, audioContext, metadataFields);
     } catch (error) {
-      throw new Error(`Failed to process audio: ${error.message}`);
+      if (error instanceof FileTooLargeError) throw error;
+      throw new Error(`Failed to process audio: ${error.message}`, { cause: error });
     }
   }
 
-  private async extractVideoFrames(videoBuffer: Buffer, fileName: string): Promise<string[]> {
+  // videoUrl may be a local path or a URL ffmpeg can seek in; frames are
+  // written to dir, which the caller removes
+  private async extractVideoFrames(videoUrl: string, dir: string, fileName: string): Promise<string[]> {
     try {
       // Dynamically import fluent-ffmpeg for video processing
       const ffmpeg = await import('fluent-ffmpeg');
       const fs = await import('fs');
       const path = await import('path');
-      const { promisify } = await import('util');
-      const writeFile = promisify(fs.writeFile);
-      const readFile = promisify(fs.readFile);
-      const unlink = promisify(fs.unlink);
-
-      const tempDir = '/tmp';
-      const tempVideoPath = path.join(tempDir, `temp_video_${Date.now()}.mp4`);
       const frames: string[] = [];
 
-      // Write video buffer to temporary file
-      await writeFile(tempVideoPath, videoBuffer);
-
       // Extract frames at different timestamps (beginning, middle, end, plus a few more)
       const timestamps = ['00:00:01', '25%', '50%', '75%', '95%'];
       
       for (let i = 0; i < Math.min(timestamps.length, 5); i++) {
         const timestamp = timestamps[i];
-        const framePath = path.join(tempDir, `frame_${Date.now()}_${i}.jpg`);
+        const framePath = path.join(dir, `frame_${i}.jpg`);
         
         try {
           await new Promise<void>((resolve, reject) => {
-            ffmpeg.default(tempVideoPath)
+            ffmpeg.default(videoUrl)
               .screenshots({
                 timestamps: [timestamp],
                 filename: path.basename(framePath),
-                folder: tempDir,
+                folder: dir,
                 size: '640x480'
               })
               .on('end', () => resolve())
               .on('error', (err) => reject(err));
           });
 
-          const frameBuffer = await readFile(framePath);
+          const frameBuffer = await fs.promises.readFile(framePath);
           frames.push(frameBuffer.toString('base64'));
-          
-          // Clean up frame file
-          await unlink(framePath);
         } catch (frameError) {
           console.warn(`Failed to extract frame at ${timestamp}:`, (frameError as Error).message);
         }
       }
 
-      // Clean up temporary video file
-      await unlink(tempVideoPath);
-      
       return frames;
     } catch (error) {
       console.warn(`Frame extraction failed for ${fileName}:`, (error as Error).message);
@@ -614,28 +648,18 @@ export class FileProcessorService {
     }
   }
 
-  private async extractAudioFromVideo(videoBuffer: Buffer, fileName: string): Promise<Buffer | null> {
+  // Returns the path of the extracted audio, inside dir
+  private async extractAudioFromVideo(videoUrl: string, dir: string, fileName: string): Promise<string | null> {
     try {
       // Dynamically import fluent-ffmpeg for audio extraction
       const ffmpeg = await import('fluent-ffmpeg');
-      const fs = await import('fs');
       const path = await import('path');
-      const { promisify } = await import('util');
-      const writeFile = promisify(fs.writeFile);
-      const readFile = promisify(fs.readFile);
-      const unlink = promisify(fs.unlink);
-
-      const tempDir = '/tmp';
-      const tempVideoPath = path.join(tempDir, `temp_video_${Date.now()}.mp4`);
-      const tempAudioPath = path.join(tempDir, `temp_audio_${Date.now()}.mp3`);
-
-      // Write video buffer to temporary file
-      await writeFile(tempVideoPath, videoBuffer);
+      const audioPath = path.join(dir, 'audio.mp3');
 
       // Extract audio using ffmpeg
       await new Promise<void>((resolve, reject) => {
-        ffmpeg.default(tempVideoPath)
-          .output(tempAudioPath)
+        ffmpeg.default(videoUrl)
+          .output(audioPath)
           .audioCodec('mp3')
           .audioFrequency(16000)
           .audioChannels(1)
@@ -645,55 +669,80 @@ export class FileProcessorService {
           .run();
       });
 
-      const audioBuffer = await readFile(tempAudioPath);
-      
-      // Clean up temporary files
-      await unlink(tempVideoPath);
-      await unlink(tempAudioPath);
-      
-      return audioBuffer;
+      return audioPath;
     } catch (error) {
       console.warn(`Audio extraction failed for ${fileName}:`, (error as Error).message);
       return null;
     }
   }
 
-  async processBatch(folderId: string, templateId?: number): Promise<number> {
+  // With a Google account, or for a local or S3 folder, the folder is synced
+  // first so files that were never listed in the grid are processed too.
+  // Drive files are read through googleAccountId, the caller's account. The
+  // job records llm, which overrides the template's provider and model.
+  async processBatch(workspaceId: number, folderId: string, templateId?: number, googleAccountId?: number, llm: LLMSelection = {}): Promise<number> {
     try {
+      if (googleAccountId !== undefined || storageProviders.findServerProvider(folderId)) {
+        try {
+          await agenticSearchService.syncFolder(workspaceId, googleAccountId ?? null, folderId);
+        } catch (error) {
+          console.warn(`Could not sync folder ${folderId} before batch processing:`, (error as Error).message);
+        }
+      }
+
       // Create processing job
       const template = templateId ? await storage.getMetadataTemplate(templateId) : undefined;
-      const files = await storage.getDriveFilesByFolder(folderId);
+      const files = (await storage.getDriveFilesByFolder(workspaceId, folderId))
+        .map(file => this.withAccount(file, googleAccountId));
       
       const job = await storage.createProcessingJob({
+        workspaceId,
         folderId,
         templateId: templateId || null,
         totalFiles: files.length,
-        status: 'running'
+        status: 'running',
+        llmProvider: llm.llmProvider ?? null,
+        llmModel: llm.llmModel ?? null
       });
 
       let processed = 0;
       let failed = 0;
+      let skipped = 0;
 
       // Process files one by one
       for (const file of files) {
-        try {
-          await this.processFile(file, template);
-          processed++;
-          
-          // Add small delay to make progress visible to users
-          await new Promise(resolve => setTimeout(resolve, 2000));
-        } catch (error) {
-          failed++;
-          console.error(`Failed to process file ${file.name}:`, error);
+        for (let attempt = 0; ; attempt++) {
+          try {
+            if (await this.processFile(file, template, 'bulk', job) === 'skipped') {
+              skipped++;
+              break;
+            }
+            processed++;
+            
+            // Add small delay to make progress visible to users
+            await new Promise(resolve => setTimeout(resolve, 2000));
+            break;
+          } catch (error) {
+            // Drive was still refusing this file's requests: slow down rather than fail it
+            if (classifyDriveError(error) === 'rate_limit' && attempt < BATCH_RATE_LIMIT_RETRIES) {
+              console.warn(`Drive rate limited ${file.name}, waiting before trying it again`);
+              await driveQuotaService.cooldown(BATCH_RATE_LIMIT_COOLDOWN_MS);
+              continue;
+            }
+            failed++;
+            console.error(`Failed to process file ${file.name}:`, error);
+            break;
+          }
         }
 
         // Update job progress
         await storage.updateProcessingJob(job.id, {
           processedFiles: processed,
-          failedFiles: failed
+          failedFiles: failed,
+          skippedFiles: skipped
         });
         
-        console.log(`Batch processing progress: ${processed + failed}/${files.length} files processed`);
+        console.log(`Batch processing progress: ${processed + failed + skipped}/${files.length} files processed`);
       }
 
       // Complete the job
@@ -704,132 +753,58 @@ export class FileProcessorService {
 
       return job.id;
     } catch (error) {
-      throw new Error(`Failed to process batch: ${error.message}`);
+      throw new Error(`Failed to process batch: ${error.message}`, { cause: error });
     }
   }
 
-  async exportMetadataToDrive(file: DriveFile): Promise<void> {
+  // Writes the file's AI metadata where its export profile says. Returns what
+  // the overwritten Drive fields held before, or null when Drive was already
+  // up to date.
+  async exportMetadataToDrive(file: DriveFile, template?: MetadataTemplate): Promise<DriveMetadataSource | null> {
     try {
       if (!file.aiGeneratedMetadata) {
         throw new Error('No AI-generated metadata to export');
       }
 
-      // First, get existing metadata from Google Drive to compare
-      const existingDriveMetadata = await googleDriveService.getFileMetadata(file.driveId);
-      const existingProperties = existingDriveMetadata.properties || {};
+      const existing: DriveMetadataSource = await storageProviders.getFileMetadata(file);
+      const profile = await driveMetadataService.getExportProfile(file, template);
+      const update = driveMetadataService.buildUpdate(file.aiGeneratedMetadata as Record<string, unknown>, profile, existing);
 
-      // Convert AI metadata to the format that would be stored in Drive
-      const newProperties: Record<string, string> = {};
-      
-      Object.entries(file.aiGeneratedMetadata).forEach(([key, value]) => {
-        // Sanitize the key to only contain allowed characters for Google Drive
-        const sanitizedKey = `AI_${key}`.replace(/[^a-zA-Z0-9.!@$%^&*()\-_/]/g, '_');
-        
-        let stringValue: string;
-        if (Array.isArray(value)) {
-          // Convert arrays (like tags) to comma-separated strings
-          stringValue = value.join(', ');
-        } else {
-          stringValue = String(value);
-        }
-        
-        // Google Drive properties are limited to 124 bytes total (key + value)
-        // Calculate available space for value (subtract key length and some buffer)
-        const keyBytes = Buffer.byteLength(sanitizedKey, 'utf8');
-        const maxValueBytes = 120 - keyBytes; // Leave 4 bytes buffer
-        
-        if (Buffer.byteLength(stringValue, 'utf8') <= maxValueBytes) {
-          // Value fits in one property
-          newProperties[sanitizedKey] = stringValue;
-        } else {
-          // Split long values into multiple properties
-          let remaining = stringValue;
-          let partIndex = 1;
-          
-          while (remaining.length > 0) {
-            const partKey = `${sanitizedKey}_${partIndex}`;
-            const partKeyBytes = Buffer.byteLength(partKey, 'utf8');
-            const maxPartValueBytes = 120 - partKeyBytes;
-            
-            // Find a safe cut point that doesn't exceed byte limit
-            let cutPoint = remaining.length;
-            let testValue = remaining;
-            
-            while (Buffer.byteLength(testValue, 'utf8') > maxPartValueBytes && cutPoint > 0) {
-              cutPoint = Math.floor(cutPoint * 0.8); // Reduce by 20% each time
-              testValue = remaining.substring(0, cutPoint);
-            }
-            
-            if (cutPoint === 0) {
-              // Even a single character is too long, skip this part
-              break;
-            }
-            
-            newProperties[partKey] = testValue;
-            remaining = remaining.substring(cutPoint);
-            partIndex++;
-            
-            // Limit to prevent too many parts
-            if (partIndex > 5) break;
-          }
-        }
-      });
-
-      // Add a timestamp for when metadata was generated (ensure it fits in 124 bytes)
-      const timestamp = new Date().toISOString();
-      const timestampKey = 'AI_Generated_At';
-      if (Buffer.byteLength(timestampKey + timestamp, 'utf8') <= 120) {
-        newProperties[timestampKey] = timestamp;
-      }
-      
-      // Add source application (ensure it fits in 124 bytes)
-      const appName = 'MetadataEnhancer';
-      const appKey = 'AI_Generated_By';
-      if (Buffer.byteLength(appKey + appName, 'utf8') <= 120) {
-        newProperties[appKey] = appName;
+      if (!update) {
+        console.log(`Metadata for file "${file.name}" is already up to date, skipping export`);
+        return null;
       }
 
-      // Compare new properties with existing ones
-      let hasChanges = false;
-      
-      // Check if any new property is different from existing
-      for (const [key, value] of Object.entries(newProperties)) {
-        if (existingProperties[key] !== value) {
-          hasChanges = true;
-          break;
-        }
-      }
-      
-      // Check if any existing AI properties are no longer present
-      if (!hasChanges) {
-        for (const key of Object.keys(existingProperties)) {
-          if (key.startsWith('AI_') && !(key in newProperties)) {
-            hasChanges = true;
-            break;
+      console.log(`Exporting AI metadata for "${file.name}" (${file.provider}):`, update);
+      const modifiedTime = await storageProviders.updateFileMetadata(file, update);
+      // Our own write shouldn't make the drive sync flag the file as stale, here
+      // or in other workspaces holding the same version of it
+      if (modifiedTime) {
+        const copies = file.googleAccountId ? await storage.getDriveFilesByGoogleAccount(file.googleAccountId, file.driveId) : [file];
+        for (const copy of copies) {
+          if (copy.id === file.id || copy.modifiedTime.getTime() === file.modifiedTime.getTime()) {
+            await storage.updateDriveFile(copy.id, { modifiedTime });
           }
         }
       }
+      console.log(`Successfully exported AI metadata for "${file.name}"`);
 
-      if (!hasChanges) {
-        console.log(`Metadata for file "${file.name}" is already up to date, skipping export`);
-        return;
-      }
-
-      console.log(`Exporting AI metadata to Google Drive for "${file.name}":`, newProperties);
-      // Only export if there are changes
-      await googleDriveService.updateFileProperties(file.driveId, newProperties);
-      console.log(`Successfully exported AI metadata for "${file.name}" to Google Drive`);
-      
-      console.log(`Exported updated metadata to Google Drive for file: ${file.name}`);
+      return {
+        properties: existing.properties ?? {},
+        appProperties: existing.appProperties ?? {},
+        description: existing.description ?? null,
+      };
     } catch (error) {
       console.error(`Failed to export metadata to Drive: ${error.message}`);
       throw error;
     }
   }
 
-  async exportAllMetadataToDrive(folderId: string): Promise<number> {
+  // Drive files are written through googleAccountId, the caller's account
+  async exportAllMetadataToDrive(workspaceId: number, folderId: string, googleAccountId?: number): Promise<number> {
     try {
-      const files = await storage.getDriveFilesByFolder(folderId);
+      const files = (await storage.getDriveFilesByFolder(workspaceId, folderId))
+        .map(file => this.withAccount(file, googleAccountId));
       const processedFiles = files.filter(f => f.status === 'processed' && f.aiGeneratedMetadata);
       
       let exported = 0;
@@ -837,34 +812,7 @@ export class FileProcessorService {
       
       for (const file of processedFiles) {
         try {
-          // Get existing metadata to check for changes
-          const existingDriveMetadata = await googleDriveService.getFileMetadata(file.driveId);
-          const existingProperties = existingDriveMetadata.properties || {};
-          
-          // Convert AI metadata for comparison
-          const newProperties: Record<string, string> = {};
-          Object.entries(file.aiGeneratedMetadata).forEach(([key, value]) => {
-            const sanitizedKey = `AI_${key}`.replace(/[^a-zA-Z0-9.!@$%^&*()\-_/]/g, '_');
-            let stringValue: string;
-            if (Array.isArray(value)) {
-              stringValue = value.join(', ');
-            } else {
-              stringValue = String(value);
-            }
-            newProperties[sanitizedKey] = stringValue;
-          });
-          
-          // Check for changes
-          let hasChanges = false;
-          for (const [key, value] of Object.entries(newProperties)) {
-            if (existingProperties[key] !== value) {
-              hasChanges = true;
-              break;
-            }
-          }
-          
-          if (hasChanges) {
-            await this.exportMetadataToDrive(file);
+          if (await this.exportMetadataToDrive(file)) {
             exported++;
           } else {
             skipped++;
@@ -877,9 +825,15 @@ export class FileProcessorService {
       console.log(`Batch export completed: ${exported} files exported, ${skipped} files skipped (no changes)`);
       return exported;
     } catch (error) {
-      throw new Error(`Failed to export batch metadata: ${error.message}`);
+      throw new Error(`Failed to export batch metadata: ${error.message}`, { cause: error });
     }
   }
+
+  // Without an account a Drive file can't be read or written at all, rather
+  // than falling back to the account it was first listed through
+  private withAccount(file: DriveFile, googleAccountId?: number): DriveFile {
+    return file.provider === 'google_drive' ? { ...file, googleAccountId: googleAccountId ?? null } : file;
+  }
 }
 
 export const fileProcessorService = new FileProcessorService();
@@ -0,0 +1,222 @@
+import { storage } from '../storage';
+import { googleDriveService } from './google-drive';
+import { SHARED_DRIVES_PARENT_ID, type DriveFolder, type DriveFolderNode, type InsertDriveFolder } from '@shared/schema';
+
+const REFRESH_INTERVAL_MS = (Number(process.env.FOLDER_TREE_REFRESH_MINUTES) || 15) * 60 * 1000;
+
+type CachedFolder = Omit<InsertDriveFolder, 'googleAccountId'>;
+
+interface FolderInfo {
+  id: string;
+  name: string;
+  path: string;
+}
+
+interface AccountTreeState {
+  refreshing: Promise<number> | null;
+  lastRefreshedAt: Date | null;
+}
+
+export class FolderTreeService {
+  // Every linked Google account has its own cached tree
+  private states = new Map<number, AccountTreeState>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  private getState(accountId: number): AccountTreeState {
+    let state = this.states.get(accountId);
+    if (!state) {
+      state = { refreshing: null, lastRefreshedAt: null };
+      this.states.set(accountId, state);
+    }
+    return state;
+  }
+
+  // Rebuilds the account's cached tree from Drive. Concurrent callers share one rebuild.
+  async refresh(accountId: number): Promise<number> {
+    const state = this.getState(accountId);
+    if (!state.refreshing) {
+      state.refreshing = this.rebuild(accountId).finally(() => {
+        state.refreshing = null;
+      });
+    }
+    return state.refreshing;
+  }
+
+  // Periodically refreshes the cache of every linked Google account
+  startRefreshJob(): void {
+    if (this.refreshTimer) return;
+
+    this.refreshTimer = setInterval(async () => {
+      try {
+        for (const account of await storage.getAllGoogleAccounts()) {
+          await this.refresh(account.id).catch(error => {
+            console.error(`Folder tree refresh failed for ${account.email}:`, (error as Error).message);
+          });
+        }
+      } catch (error) {
+        console.error('Folder tree refresh failed:', (error as Error).message);
+      }
+    }, REFRESH_INTERVAL_MS);
+    this.refreshTimer.unref();
+  }
+
+  // Forgets the refresh time so the next read rebuilds the tree, e.g. after
+  // the account is linked again.
+  invalidate(accountId: number): void {
+    this.getState(accountId).lastRefreshedAt = null;
+  }
+
+  getLastRefreshedAt(accountId: number): Date | null {
+    return this.getState(accountId).lastRefreshedAt;
+  }
+
+  // Waits for a rebuild when nothing is cached yet; a stale cache is served
+  // as-is while it refreshes in the background.
+  async ensureFresh(accountId: number): Promise<void> {
+    const state = this.getState(accountId);
+
+    // After invalidate() an in-flight rebuild is the only trustworthy source
+    if (!state.lastRefreshedAt && state.refreshing) {
+      await state.refreshing.catch(() => undefined);
+      if (state.lastRefreshedAt) return;
+    }
+
+    if (!state.lastRefreshedAt) {
+      const [cached] = await storage.getDriveFolderChildren(accountId, 'root');
+      if (!cached) {
+        await this.refresh(accountId);
+        return;
+      }
+      state.lastRefreshedAt = cached.syncedAt;
+    }
+
+    if (Date.now() - state.lastRefreshedAt.getTime() > REFRESH_INTERVAL_MS) {
+      this.refresh(accountId).catch(error => {
+        console.error('Folder tree refresh failed:', (error as Error).message);
+      });
+    }
+  }
+
+  // Flat folder list with paths, optionally limited to one parent's children
+  async listFolders(accountId: number, parentId?: string): Promise<FolderInfo[]> {
+    await this.ensureFresh(accountId);
+
+    const folders = parentId
+      ? await storage.getDriveFolderChildren(accountId, parentId)
+      : await storage.getAllDriveFolders(accountId);
+
+    return folders.map(folder => ({ id: folder.driveId, name: folder.name, path: folder.path }));
+  }
+
+  // Ids of the folder and every folder below it
+  async getSubtreeFolderIds(accountId: number, folderId: string): Promise<string[]> {
+    await this.ensureFresh(accountId);
+
+    const folders = await storage.getDriveFolderSubtree(accountId, folderId);
+    return Array.from(new Set([folderId, ...folders.map(folder => folder.driveId)]));
+  }
+
+  // Children of parentId down to the given depth; deeper levels are left for
+  // the client to request when a node is expanded.
+  async getTree(accountId: number, parentId: string = 'root', depth: number = Infinity): Promise<DriveFolderNode[]> {
+    await this.ensureFresh(accountId);
+
+    const folders = await storage.getAllDriveFolders(accountId);
+    const childrenByParent = new Map<string, DriveFolder[]>();
+    for (const folder of folders) {
+      const siblings = childrenByParent.get(folder.parentDriveId) || [];
+      siblings.push(folder);
+      childrenByParent.set(folder.parentDriveId, siblings);
+    }
+
+    const buildNodes = (id: string, remainingDepth: number): DriveFolderNode[] => {
+      const children = (childrenByParent.get(id) || []).sort((a, b) => a.name.localeCompare(b.name));
+
+      return children.map(folder => {
+        const hasChildren = childrenByParent.has(folder.driveId);
+        return {
+          id: folder.driveId,
+          name: folder.name,
+          path: folder.path,
+          parentId: folder.parentDriveId,
+          sharedDriveId: folder.sharedDriveId,
+          hasChildren,
+          children: hasChildren && remainingDepth > 1 ? buildNodes(folder.driveId, remainingDepth - 1) : undefined,
+        };
+      });
+    };
+
+    return buildNodes(parentId, depth);
+  }
+
+  private async rebuild(accountId: number): Promise<number> {
+    const [root, driveFolders, sharedDrives] = await Promise.all([
+      googleDriveService.getRootFolder(accountId),
+      googleDriveService.listFolders(accountId),
+      googleDriveService.listSharedDrives(accountId),
+    ]);
+
+    const byId = new Map(driveFolders.map(folder => [folder.id, folder]));
+    const resolved = new Map<string, CachedFolder>();
+
+    // Shared drives are top-level roots; their top folders name the drive as parent
+    for (const sharedDrive of sharedDrives) {
+      byId.set(sharedDrive.id, { id: sharedDrive.id, name: sharedDrive.name, driveId: sharedDrive.id });
+      resolved.set(sharedDrive.id, {
+        driveId: sharedDrive.id,
+        name: sharedDrive.name,
+        parentDriveId: SHARED_DRIVES_PARENT_ID,
+        sharedDriveId: sharedDrive.id,
+        path: `/${sharedDrive.name}`,
+        idPath: `/${SHARED_DRIVES_PARENT_ID}/${sharedDrive.id}`,
+      });
+    }
+
+    const resolve = (folderId: string, visiting: Set<string>): CachedFolder => {
+      const cached = resolved.get(folderId);
+      if (cached) return cached;
+
+      const folder = byId.get(folderId)!;
+      const parentId = folder.parents?.[0];
+      let entry: CachedFolder;
+
+      if (parentId && parentId !== root.id && byId.has(parentId) && !visiting.has(parentId)) {
+        visiting.add(folderId);
+        const parent = resolve(parentId, visiting);
+        entry = {
+          driveId: folder.id,
+          name: folder.name,
+          parentDriveId: parentId,
+          sharedDriveId: folder.driveId ?? null,
+          path: `${parent.path}/${folder.name}`,
+          idPath: `${parent.idPath}/${folder.id}`,
+        };
+      } else {
+        // Folders under My Drive, and shared folders whose parent we can't see,
+        // hang off the root of the tree
+        entry = {
+          driveId: folder.id,
+          name: folder.name,
+          parentDriveId: 'root',
+          sharedDriveId: folder.driveId ?? null,
+          path: parentId === root.id ? `/${root.name}/${folder.name}` : `/${folder.name}`,
+          idPath: `/root/${folder.id}`,
+        };
+      }
+
+      resolved.set(folderId, entry);
+      return entry;
+    };
+
+    for (const folder of driveFolders) {
+      resolve(folder.id, new Set());
+    }
+
+    await storage.replaceDriveFolders(accountId, Array.from(resolved.values()));
+    this.getState(accountId).lastRefreshedAt = new Date();
+    console.log(`Folder tree refreshed for Google account ${accountId}: ${resolved.size} folders in ${sharedDrives.length + 1} drives`);
+    return resolved.size;
+  }
+}
+
+export const folderTreeService = new FolderTreeService();
@@ -1,5 +1,12 @@
-import { google } from 'googleapis';
+import { type Readable } from 'stream';
+import { google, type drive_v3 } from 'googleapis';
 import { OAuth2Client } from 'google-auth-library';
+import { storage } from '../storage';
+import { classifyDriveError, driveQuotaService } from './drive-quota';
+import { decryptSecret, encryptSecret } from '../crypto';
+import { type ByteRange, type StorageProvider } from './storage-provider';
+import { FAKE_DRIVE_ACCOUNT, getFakeDriveClient, isFakeDriveEnabled } from './fake-drive';
+import { type DriveFile, type GoogleAccount } from '@shared/schema';
 
 const SCOPES = [
   'https://www.googleapis.com/auth/drive.metadata',
@@ -8,7 +15,7 @@ const SCOPES = [
   'https://www.googleapis.com/auth/userinfo.email'
 ];
 
-interface DriveFileInfo {
+export interface DriveFileInfo {
   id: string;
   name: string;
   mimeType: string;
@@ -19,192 +26,587 @@ interface DriveFileInfo {
   createdTime: string;
   modifiedTime: string;
   properties?: Record<string, string>;
+  appProperties?: Record<string, string>;
+  description?: string;
+  starred?: boolean;
+  shared?: boolean;
+  owners?: drive_v3.Schema$User[];
+  sharingUser?: drive_v3.Schema$User;
+  imageMediaMetadata?: drive_v3.Schema$File['imageMediaMetadata'];
+  videoMediaMetadata?: drive_v3.Schema$File['videoMediaMetadata'];
+  trashed?: boolean;
+  driveId?: string; // shared drive the file lives in, absent for My Drive
 }
 
-interface FolderInfo {
+// Fields written by updateFileMetadata. Property and appProperty updates are
+// merged into the file's existing ones; a null value deletes that key.
+export interface DriveMetadataUpdate {
+  properties?: Record<string, string | null>;
+  appProperties?: Record<string, string | null>;
+  description?: string;
+}
+
+// One entry of the Drive Changes feed. file is missing when removed is set.
+export interface DriveChange {
+  fileId: string;
+  removed: boolean;
+  file?: DriveFileInfo;
+}
+
+// A push notification channel: Drive POSTs to address, echoing id and token,
+// until expiration
+export interface DriveChannelRequest {
+  id: string;
+  token: string;
+  address: string;
+  expiration: Date;
+}
+
+export interface DriveChannel {
+  resourceId: string; // Drive's id for what is watched
+  expiration: Date; // may be earlier than requested
+}
+
+export interface DriveFolderInfo {
   id: string;
   name: string;
-  path: string;
+  parents?: string[];
+  driveId?: string;
+}
+
+// Options for calls whose response isn't JSON, e.g. downloads and exports,
+// and for ranged downloads
+export interface DriveRequestOptions {
+  responseType?: 'stream' | 'arraybuffer';
+  headers?: Record<string, string>;
+}
+
+// The calls made below. The googleapis client implements them, and so does
+// the fake Drive.
+export interface DriveClient {
+  files: {
+    list(params: drive_v3.Params$Resource$Files$List): Promise<{ data: drive_v3.Schema$FileList }>;
+    // data is a stream with alt: 'media'
+    get(params: drive_v3.Params$Resource$Files$Get, options?: DriveRequestOptions): Promise<{ data: unknown }>;
+    export(params: drive_v3.Params$Resource$Files$Export, options?: DriveRequestOptions): Promise<{ data: unknown }>;
+    update(params: drive_v3.Params$Resource$Files$Update): Promise<{ data: drive_v3.Schema$File }>;
+    watch(params: drive_v3.Params$Resource$Files$Watch): Promise<{ data: drive_v3.Schema$Channel }>;
+  };
+  drives: {
+    list(params: drive_v3.Params$Resource$Drives$List): Promise<{ data: drive_v3.Schema$DriveList }>;
+  };
+  changes: {
+    getStartPageToken(params: drive_v3.Params$Resource$Changes$Getstartpagetoken): Promise<{ data: drive_v3.Schema$StartPageToken }>;
+    list(params: drive_v3.Params$Resource$Changes$List): Promise<{ data: drive_v3.Schema$ChangeList }>;
+    watch(params: drive_v3.Params$Resource$Changes$Watch): Promise<{ data: drive_v3.Schema$Channel }>;
+  };
+  channels: {
+    stop(params: drive_v3.Params$Resource$Channels$Stop): Promise<unknown>;
+  };
 }
 
-export class GoogleDriveService {
-  private auth: OAuth2Client;
-  private drive: any;
+interface SharedDriveInfo {
+  id: string;
+  name: string;
+}
 
-  constructor() {
+// Every request opts in to shared drives; without these Drive answers as if
+// they didn't exist
+const ALL_DRIVES = { supportsAllDrives: true } as const;
+const LIST_ALL_DRIVES = { ...ALL_DRIVES, includeItemsFromAllDrives: true, corpora: 'allDrives' } as const;
+
+// Google Docs, Sheets and Slides have no content of their own to download, so
+// they are exported instead. Later formats are fallbacks for when Drive refuses
+// an earlier one, e.g. because the export would exceed its 10MB limit.
+const GOOGLE_WORKSPACE_EXPORT_FORMATS: Record<string, string[]> = {
+  'application/vnd.google-apps.document': [
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'text/plain',
+  ],
+  'application/vnd.google-apps.spreadsheet': [
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'text/csv',
+  ],
+  'application/vnd.google-apps.presentation': [
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/pdf',
+  ],
+};
+
+// What Drive reports about the people involved with a file
+const USER_FIELDS = 'displayName, emailAddress';
+const FILE_FIELDS = 'id, name, mimeType, size, parents, webViewLink, thumbnailLink, createdTime, modifiedTime, properties, appProperties, description, driveId, '
+  + `starred, shared, owners(${USER_FIELDS}), sharingUser(${USER_FIELDS}), imageMediaMetadata, videoMediaMetadata`;
+
+export class GoogleDriveService implements StorageProvider {
+  readonly type = 'google_drive' as const;
+
+  // Authorized clients by Google account id, so tokens are decrypted once and
+  // refreshed tokens are shared by every caller
+  private clients = new Map<number, OAuth2Client>();
+
+  private createOAuthClient(): OAuth2Client {
     // Fix double slash in redirect URI by ensuring proper format
     let redirectUri = process.env.GOOGLE_REDIRECT_URI || '';
     if (redirectUri.includes('//api/')) {
       redirectUri = redirectUri.replace('//api/', '/api/');
     }
 
-    this.auth = new google.auth.OAuth2(
+    return new google.auth.OAuth2(
       process.env.GOOGLE_CLIENT_ID,
       process.env.GOOGLE_CLIENT_SECRET,
       redirectUri
     );
+  }
 
-    // Set credentials if refresh token is available
-    if (process.env.GOOGLE_REFRESH_TOKEN) {
-      this.auth.setCredentials({
-        refresh_token: process.env.GOOGLE_REFRESH_TOKEN
-      });
+  // state is echoed back to the callback so it can be checked against the session.
+  // The fake Drive skips Google and goes straight to the callback.
+  getAuthUrl(state: string): string {
+    if (isFakeDriveEnabled()) {
+      return `/api/auth/google/callback?code=fake&state=${encodeURIComponent(state)}`;
     }
 
-    this.drive = google.drive({ version: 'v3', auth: this.auth });
-  }
-
-  getAuthUrl(): string {
-    return this.auth.generateAuthUrl({
+    return this.createOAuthClient().generateAuthUrl({
       access_type: 'offline',
       scope: SCOPES,
-      prompt: 'select_account', // Force account selection every time
+      state,
+      // Account selection every time, and consent so Google always hands out a refresh token
+      prompt: 'select_account consent',
+    });
+  }
+
+  // Exchanges an authorization code and stores the Google account for the
+  // user. Linking an account again replaces its tokens.
+  async linkAccount(userId: number, code: string): Promise<GoogleAccount> {
+    if (isFakeDriveEnabled()) {
+      return this.linkFakeAccount(userId);
+    }
+
+    const auth = this.createOAuthClient();
+    const { tokens } = await auth.getToken(code);
+    auth.setCredentials(tokens);
+
+    const oauth2 = google.oauth2({ version: 'v2', auth });
+    const { data: profile } = await oauth2.userinfo.get();
+    if (!profile.email) {
+      throw new Error('Google did not return an email address for this account');
+    }
+
+    const existing = await storage.getGoogleAccountByEmail(userId, profile.email);
+    const credentials = {
+      name: profile.name || null,
+      accessToken: tokens.access_token ? encryptSecret(tokens.access_token) : null,
+      refreshToken: tokens.refresh_token ? encryptSecret(tokens.refresh_token) : existing?.refreshToken ?? null,
+      tokenExpiresAt: tokens.expiry_date ? new Date(tokens.expiry_date) : null,
+      scope: tokens.scope || null,
+    };
+
+    const account = existing
+      ? (await storage.updateGoogleAccount(existing.id, credentials))!
+      : await storage.createGoogleAccount({ userId, email: profile.email, ...credentials });
+
+    this.clients.delete(account.id);
+    return account;
+  }
+
+  // The fake Drive needs no tokens, so any code links its one account
+  private async linkFakeAccount(userId: number): Promise<GoogleAccount> {
+    const existing = await storage.getGoogleAccountByEmail(userId, FAKE_DRIVE_ACCOUNT.email);
+    return existing ?? await storage.createGoogleAccount({
+      userId,
+      email: FAKE_DRIVE_ACCOUNT.email,
+      name: FAKE_DRIVE_ACCOUNT.name,
+      accessToken: null,
+      refreshToken: null,
+      tokenExpiresAt: null,
+      scope: null,
     });
   }
 
-  isAuthenticated(): boolean {
-    const credentials = this.auth.credentials;
-    return !!(credentials && (credentials.access_token || credentials.refresh_token));
+  // Forgets the account's tokens. The grant is not revoked at Google, since
+  // that would also cut off anyone else who linked the same Google account.
+  async disconnect(accountId: number): Promise<boolean> {
+    this.clients.delete(accountId);
+    return await storage.deleteGoogleAccount(accountId);
+  }
+
+  // Account a stored file is read and written through. Routes hand over the
+  // file with the caller's own account in googleAccountId (see fileForCaller).
+  getFileAccountId(file: DriveFile): number {
+    if (!file.googleAccountId) {
+      throw new Error(`"${file.name}" is not linked to a Google account; open its folder again to resync it`);
+    }
+    return file.googleAccountId;
+  }
+
+  private async getAuth(accountId: number): Promise<OAuth2Client> {
+    const cached = this.clients.get(accountId);
+    if (cached) return cached;
+
+    const account = await storage.getGoogleAccount(accountId);
+    if (!account) {
+      throw new Error('Google account not found');
+    }
+
+    const auth = this.createOAuthClient();
+    auth.setCredentials({
+      access_token: account.accessToken ? decryptSecret(account.accessToken) : undefined,
+      refresh_token: account.refreshToken ? decryptSecret(account.refreshToken) : undefined,
+      expiry_date: account.tokenExpiresAt?.getTime(),
+      scope: account.scope ?? undefined,
+    });
+
+    // The client refreshes expired access tokens on its own; keep the stored copy current
+    auth.on('tokens', (tokens) => {
+      storage.updateGoogleAccount(accountId, {
+        accessToken: tokens.access_token ? encryptSecret(tokens.access_token) : null,
+        tokenExpiresAt: tokens.expiry_date ? new Date(tokens.expiry_date) : null,
+        ...(tokens.refresh_token ? { refreshToken: encryptSecret(tokens.refresh_token) } : {}),
+      }).catch(error => {
+        console.error(`Failed to store refreshed tokens for Google account ${accountId}:`, (error as Error).message);
+      });
+    });
+
+    this.clients.set(accountId, auth);
+    return auth;
   }
 
-  async getUserInfo(): Promise<{ name: string; email: string } | null> {
-    if (!this.isAuthenticated()) {
-      return null;
+  private async getDrive(accountId: number): Promise<DriveClient> {
+    if (isFakeDriveEnabled()) {
+      return getFakeDriveClient();
     }
+    return google.drive({ version: 'v3', auth: await this.getAuth(accountId) });
+  }
 
+  // Every folder the user can see, in as few list calls as Drive allows. Paths
+  // are derived from the parent links by the folder tree cache.
+  async listFolders(accountId: number): Promise<DriveFolderInfo[]> {
     try {
-      const oauth2 = google.oauth2({ version: 'v2', auth: this.auth });
-      const response = await oauth2.userinfo.get();
+      const drive = await this.getDrive(accountId);
+      const folders: DriveFolderInfo[] = [];
+      let pageToken: string | undefined;
+
+      do {
+        const response = await driveQuotaService.run(() => drive.files.list({
+          ...LIST_ALL_DRIVES,
+          q: `mimeType='application/vnd.google-apps.folder' and trashed=false`,
+          fields: 'nextPageToken, files(id, name, parents, driveId)',
+          pageSize: 1000,
+          pageToken,
+        }));
+
+        folders.push(...(response.data.files || []).map(folder => ({
+          id: folder.id!,
+          name: folder.name!,
+          parents: folder.parents ?? undefined,
+          driveId: folder.driveId ?? undefined,
+        })));
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
 
-      return {
-        name: response.data.name || 'Unknown User',
-        email: response.data.email || 'Unknown Email'
-      };
+      return folders;
     } catch (error: any) {
-      console.error('Failed to get user info:', error?.message || error);
-      // If it's an auth error, the tokens might be expired
-      if (error?.code === 401 || error?.status === 401) {
-        console.log('Authentication error - tokens may be expired');
-        return null;
-      }
-      return null;
+      throw new Error(`Failed to list folders: ${error.message}`, { cause: error });
+    }
+  }
+
+  // Shared drives the account is a member of
+  async listSharedDrives(accountId: number): Promise<SharedDriveInfo[]> {
+    try {
+      const drive = await this.getDrive(accountId);
+      const drives: SharedDriveInfo[] = [];
+      let pageToken: string | undefined;
+
+      do {
+        const response = await driveQuotaService.run(() => drive.drives.list({
+          fields: 'nextPageToken, drives(id, name)',
+          pageSize: 100,
+          pageToken,
+        }));
+
+        drives.push(...(response.data.drives || []).map(sharedDrive => ({ id: sharedDrive.id!, name: sharedDrive.name! })));
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      return drives;
+    } catch (error: any) {
+      throw new Error(`Failed to list shared drives: ${error.message}`, { cause: error });
     }
   }
 
-  disconnect(): void {
-    this.auth.setCredentials({});
+  // Resolves the 'root' alias to the id of the user's My Drive folder
+  async getRootFolder(accountId: number): Promise<{ id: string; name: string }> {
+    try {
+      const drive = await this.getDrive(accountId);
+      const response = await driveQuotaService.run(() => drive.files.get({
+        fileId: 'root',
+        fields: 'id, name',
+      }));
+
+      const root = response.data as drive_v3.Schema$File;
+      return { id: root.id!, name: root.name! };
+    } catch (error: any) {
+      throw new Error(`Failed to get root folder: ${error.message}`, { cause: error });
+    }
   }
 
-  async setAuthToken(code: string): Promise<void> {
-    const { tokens } = await this.auth.getToken(code);
-    this.auth.setCredentials(tokens);
+  // Yields the folder's files one Drive page at a time, following
+  // nextPageToken until Drive has returned all of them
+  async *listFilePages(accountId: number, folderId: string): AsyncGenerator<DriveFileInfo[]> {
+    try {
+      const drive = await this.getDrive(accountId);
+      let pageToken: string | undefined;
+
+      do {
+        const response = await driveQuotaService.run(() => drive.files.list({
+          ...LIST_ALL_DRIVES,
+          q: `'${folderId}' in parents and trashed=false`,
+          fields: `nextPageToken, files(${FILE_FIELDS})`,
+          pageSize: 1000,
+          pageToken,
+        }));
+
+        yield (response.data.files || []).map(file => this.toFileInfo(file));
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+    } catch (error: any) {
+      throw new Error(`Failed to list files: ${error.message}`, { cause: error });
+    }
   }
 
-  async listFolders(parentId?: string): Promise<FolderInfo[]> {
+  // Every file in the folder, however many pages that takes
+  async listFiles(accountId: number, folderId: string): Promise<DriveFileInfo[]> {
+    const files: DriveFileInfo[] = [];
+    for await (const page of this.listFilePages(accountId, folderId)) {
+      files.push(...page);
+    }
+    return files;
+  }
+
+  // Position in the Changes feed from which later changes are reported
+  async getStartPageToken(accountId: number): Promise<string> {
     try {
-      const query = parentId 
-        ? `mimeType='application/vnd.google-apps.folder' and '${parentId}' in parents and trashed=false`
-        : `mimeType='application/vnd.google-apps.folder' and trashed=false`;
-
-      const response = await this.drive.files.list({
-        q: query,
-        fields: 'files(id, name, parents)',
-        pageSize: 100,
-      });
+      const drive = await this.getDrive(accountId);
+      const response = await driveQuotaService.run(() => drive.changes.getStartPageToken({ ...ALL_DRIVES }));
+      if (!response.data.startPageToken) {
+        throw new Error('Drive returned no start page token');
+      }
+      return response.data.startPageToken;
+    } catch (error: any) {
+      throw new Error(`Failed to get changes start page token: ${error.message}`, { cause: error });
+    }
+  }
 
-      const folders: FolderInfo[] = [];
-      for (const folder of response.data.files || []) {
-        const path = await this.getFolderPath(folder.id);
-        folders.push({
-          id: folder.id,
-          name: folder.name,
-          path,
-        });
+  // Every change since pageToken, with the token to pass next time
+  async listChanges(accountId: number, pageToken: string): Promise<{ changes: DriveChange[]; newStartPageToken: string }> {
+    try {
+      const drive = await this.getDrive(accountId);
+      const changes: DriveChange[] = [];
+      let nextPageToken: string | undefined = pageToken;
+
+      while (true) {
+        const response = await driveQuotaService.run(() => drive.changes.list({
+          ...ALL_DRIVES,
+          includeItemsFromAllDrives: true,
+          pageToken: nextPageToken,
+          fields: `nextPageToken, newStartPageToken, changes(fileId, removed, file(${FILE_FIELDS}, trashed))`,
+          pageSize: 1000,
+          includeRemoved: true,
+          spaces: 'drive',
+        }));
+
+        changes.push(...(response.data.changes || []).map(change => ({
+          fileId: change.fileId!,
+          removed: !!change.removed,
+          file: change.file ? this.toFileInfo(change.file) : undefined,
+        })));
+
+        if (response.data.newStartPageToken) {
+          return { changes, newStartPageToken: response.data.newStartPageToken };
+        }
+        nextPageToken = response.data.nextPageToken ?? undefined;
+        if (!nextPageToken) {
+          throw new Error('Drive returned neither a next page nor a new start page token');
+        }
       }
+    } catch (error: any) {
+      throw new Error(`Failed to list changes: ${error.message}`, { cause: error });
+    }
+  }
 
-      return folders;
+  // Notifies the channel whenever the Changes feed moves past pageToken
+  async watchChanges(accountId: number, pageToken: string, channel: DriveChannelRequest): Promise<DriveChannel> {
+    try {
+      const drive = await this.getDrive(accountId);
+      const response = await driveQuotaService.run(() => drive.changes.watch({
+        ...ALL_DRIVES,
+        includeItemsFromAllDrives: true,
+        includeRemoved: true,
+        pageToken,
+        spaces: 'drive',
+        requestBody: this.toChannelBody(channel),
+      }));
+      return this.fromChannelResponse(response.data);
     } catch (error: any) {
-      throw new Error(`Failed to list folders: ${error.message}`);
+      throw new Error(`Failed to watch changes: ${error.message}`, { cause: error });
     }
   }
 
-  async listFiles(folderId: string): Promise<DriveFileInfo[]> {
+  // Notifies the channel when the file changes, or for a folder, when files
+  // are added to or removed from it
+  async watchFile(accountId: number, fileId: string, channel: DriveChannelRequest): Promise<DriveChannel> {
     try {
-      const response = await this.drive.files.list({
-        q: `'${folderId}' in parents and trashed=false`,
-        fields: 'files(id, name, mimeType, size, parents, webViewLink, thumbnailLink, createdTime, modifiedTime, properties)',
-        pageSize: 100,
-      });
+      const drive = await this.getDrive(accountId);
+      const response = await driveQuotaService.run(() => drive.files.watch({
+        ...ALL_DRIVES,
+        fileId,
+        requestBody: this.toChannelBody(channel),
+      }));
+      return this.fromChannelResponse(response.data);
+    } catch (error: any) {
+      throw new Error(`Failed to watch file: ${error.message}`, { cause: error });
+    }
+  }
+
+  async stopChannel(accountId: number, channelId: string, resourceId: string): Promise<void> {
+    try {
+      const drive = await this.getDrive(accountId);
+      await driveQuotaService.run(() => drive.channels.stop({ requestBody: { id: channelId, resourceId } }));
+    } catch (error: any) {
+      throw new Error(`Failed to stop channel: ${error.message}`, { cause: error });
+    }
+  }
 
-      return response.data.files || [];
+  // Whether the account can open the file. Drive answers 404 for files the
+  // account can't see, and 403 for some it sees but may not read.
+  async canAccessFile(accountId: number, fileId: string): Promise<boolean> {
+    try {
+      const drive = await this.getDrive(accountId);
+      await driveQuotaService.run(() => drive.files.get({ ...ALL_DRIVES, fileId, fields: 'id' }));
+      return true;
     } catch (error: any) {
-      throw new Error(`Failed to list files: ${error.message}`);
+      const status = error?.response?.status ?? error?.code;
+      if ((status === 403 || status === 404) && classifyDriveError(error) === 'permanent') {
+        return false;
+      }
+      throw new Error(`Failed to check access to file: ${error.message}`, { cause: error });
     }
   }
 
-  async getFileContent(fileId: string): Promise<Buffer> {
+  async openFileStream(accountId: number, fileId: string, range?: ByteRange): Promise<Readable> {
     try {
-      const response = await this.drive.files.get({
+      const drive = await this.getDrive(accountId);
+      const response = await driveQuotaService.run(() => drive.files.get({
+        ...ALL_DRIVES,
         fileId,
         alt: 'media',
-      }, { responseType: 'stream' });
-
-      const chunks: Buffer[] = [];
-      return new Promise((resolve, reject) => {
-        response.data.on('data', (chunk: Buffer) => chunks.push(chunk));
-        response.data.on('end', () => resolve(Buffer.concat(chunks)));
-        response.data.on('error', reject);
-      });
+      }, {
+        responseType: 'stream',
+        headers: range ? { Range: `bytes=${range.start}-${range.end ?? ''}` } : undefined,
+      }));
+      return response.data as Readable;
     } catch (error: any) {
-      throw new Error(`Failed to get file content: ${error.message}`);
+      throw new Error(`Failed to get file content: ${error.message}`, { cause: error });
+    }
+  }
+
+  isGoogleWorkspaceFile(mimeType: string): boolean {
+    return mimeType in GOOGLE_WORKSPACE_EXPORT_FORMATS;
+  }
+
+  // Exports a Google Docs, Sheets or Slides file in the first format Drive
+  // accepts; mimeType is the format that was used
+  async exportGoogleWorkspaceFile(accountId: number, fileId: string, nativeMimeType: string): Promise<{ content: Buffer; mimeType: string }> {
+    const formats = GOOGLE_WORKSPACE_EXPORT_FORMATS[nativeMimeType];
+    if (!formats) {
+      throw new Error(`Failed to export file: ${nativeMimeType} has no export formats`);
     }
+
+    const drive = await this.getDrive(accountId);
+    let lastError: any;
+    for (const mimeType of formats) {
+      try {
+        const response = await driveQuotaService.run(() => drive.files.export({ fileId, mimeType }, { responseType: 'arraybuffer' }));
+        return { content: Buffer.from(response.data as ArrayBuffer), mimeType };
+      } catch (error: any) {
+        console.warn(`Export of ${fileId} as ${mimeType} failed:`, error.message);
+        lastError = error;
+      }
+    }
+    throw new Error(`Failed to export file: ${lastError.message}`, { cause: lastError });
   }
 
-  async getFileMetadata(fileId: string): Promise<any> {
+  async getFileMetadata(accountId: number, fileId: string): Promise<DriveFileInfo> {
     try {
-      const response = await this.drive.files.get({
+      const drive = await this.getDrive(accountId);
+      const response = await driveQuotaService.run(() => drive.files.get({
+        ...ALL_DRIVES,
         fileId,
-        fields: 'id, name, mimeType, size, createdTime, modifiedTime, properties,videoMediaMetadata,imageMediaMetadata',
-      });
+        fields: FILE_FIELDS,
+      }));
 
-      return response.data;
+      return this.toFileInfo(response.data as drive_v3.Schema$File);
     } catch (error: any) {
-      throw new Error(`Failed to get file metadata: ${error.message}`);
+      throw new Error(`Failed to get file metadata: ${error.message}`, { cause: error });
     }
   }
 
-  async updateFileProperties(fileId: string, properties: Record<string, string>): Promise<void> {
+  // Returns the file's modifiedTime after the update
+  async updateFileMetadata(accountId: number, fileId: string, update: DriveMetadataUpdate): Promise<Date | undefined> {
     try {
-      await this.drive.files.update({
+      const drive = await this.getDrive(accountId);
+      const response = await driveQuotaService.run(() => drive.files.update({
+        ...ALL_DRIVES,
         fileId,
-        resource: {
-          properties,
-        },
-      });
+        fields: 'modifiedTime',
+        // The API deletes keys set to null, which its typings don't allow for
+        requestBody: update as any,
+      }));
+      return response.data.modifiedTime ? new Date(response.data.modifiedTime) : undefined;
     } catch (error: any) {
-      throw new Error(`Failed to update file properties: ${error.message}`);
+      throw new Error(`Failed to update file metadata: ${error.message}`, { cause: error });
     }
   }
 
-  private async getFolderPath(folderId: string): Promise<string> {
-    try {
-      const parts: string[] = [];
-      let currentId = folderId;
-
-      while (currentId) {
-        const response = await this.drive.files.get({
-          fileId: currentId,
-          fields: 'name, parents',
-        });
+  private toChannelBody(channel: DriveChannelRequest) {
+    return {
+      id: channel.id,
+      type: 'web_hook',
+      address: channel.address,
+      token: channel.token,
+      expiration: String(channel.expiration.getTime()),
+    };
+  }
 
-        parts.unshift(response.data.name);
-        currentId = response.data.parents?.[0];
-      }
+  private fromChannelResponse(data: drive_v3.Schema$Channel): DriveChannel {
+    return { resourceId: data.resourceId!, expiration: new Date(Number(data.expiration)) };
+  }
 
-      return '/' + parts.join('/');
-    } catch (error) {
-      return '/Unknown';
-    }
+  // Drive sends null for some fields it has no value for; DriveFileInfo
+  // leaves them out
+  private toFileInfo(file: drive_v3.Schema$File): DriveFileInfo {
+    return {
+      id: file.id!,
+      name: file.name!,
+      mimeType: file.mimeType!,
+      size: file.size ?? undefined,
+      parents: file.parents ?? undefined,
+      webViewLink: file.webViewLink ?? undefined,
+      thumbnailLink: file.thumbnailLink ?? undefined,
+      createdTime: file.createdTime!,
+      modifiedTime: file.modifiedTime!,
+      properties: file.properties ?? undefined,
+      appProperties: file.appProperties ?? undefined,
+      description: file.description ?? undefined,
+      starred: file.starred ?? undefined,
+      shared: file.shared ?? undefined,
+      owners: file.owners,
+      sharingUser: file.sharingUser,
+      imageMediaMetadata: file.imageMediaMetadata,
+      videoMediaMetadata: file.videoMediaMetadata,
+      trashed: file.trashed ?? undefined,
+      driveId: file.driveId ?? undefined,
+    };
   }
 
   getFileType(mimeType: string): string {
@@ -248,15 +650,20 @@ export class GoogleDriveService {
     return 'other';
   }
 
-  async getAccessToken(): Promise<string> {
+  async getAccessToken(accountId: number): Promise<string> {
+    if (isFakeDriveEnabled()) {
+      return 'fake-access-token';
+    }
+
     try {
-      const credentials = await this.auth.getAccessToken();
+      const auth = await this.getAuth(accountId);
+      const credentials = await auth.getAccessToken();
       if (!credentials.token) {
         throw new Error('No access token available');
       }
       return credentials.token;
     } catch (error: any) {
-      throw new Error(`Failed to get access token: ${error.message}`);
+      throw new Error(`Failed to get access token: ${error.message}`, { cause: error });
     }
   }
 }
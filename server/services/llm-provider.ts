@@ -0,0 +1,164 @@
+import { LLM_PROVIDERS, type LLMProviderName } from '@shared/schema';
+import { openAILLMProvider } from './openai-llm';
+import { anthropicLLMProvider } from './anthropic-llm';
+import { ollamaLLMProvider } from './ollama-llm';
+import { mockLLMProvider } from './mock-llm';
+
+// Images are sent inline as base64; JPEG is assumed when mimeType is unset
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType?: string };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  json?: boolean; // answer with a single JSON object
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMModels {
+  chat: string;
+  transcription?: string;
+  embedding?: string;
+}
+
+// A chat model backend. Transcription and embeddings are optional, and a
+// provider without them leaves the methods and their default models out.
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  isConfigured(): boolean;
+  // Read from the environment on every call so they can be changed per run
+  defaultModels(): LLMModels;
+  // Returns the answer's text; in JSON mode, text holding one JSON object
+  chat(request: ChatRequest): Promise<string>;
+  transcribe?(audioPath: string, model: string): Promise<string>;
+  embed?(texts: string[], model: string): Promise<number[][]>;
+}
+
+// Where a provider and model are picked: a request's LLMSelection, a
+// template or a processing job
+export interface LLMChoice {
+  llmProvider?: string | null;
+  llmModel?: string | null;
+}
+
+// A provider with the chat model to use on it
+export interface LLMTarget {
+  provider: LLMProvider;
+  model: string;
+}
+
+export class UnsupportedLLMFeatureError extends Error {
+  constructor(provider: LLMProviderName, feature: string) {
+    super(`The ${provider} LLM provider does not support ${feature}`);
+    this.name = 'UnsupportedLLMFeatureError';
+  }
+}
+
+// Models wrap JSON in code fences or a sentence now and then, even when
+// asked not to, so the outermost object is taken from the text. Answers cut
+// off at the token limit or holding more than one object don't parse.
+function parseJSONObject(text: string): Record<string, any> {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('The model did not answer with a JSON object');
+  }
+  try {
+    return JSON.parse(text.slice(start, end + 1));
+  } catch (error) {
+    throw new Error('The model answered with malformed JSON', { cause: error });
+  }
+}
+
+export class LLMProviderRegistry {
+  private providers: Record<LLMProviderName, LLMProvider> = {
+    openai: openAILLMProvider,
+    anthropic: anthropicLLMProvider,
+    ollama: ollamaLLMProvider,
+    mock: mockLLMProvider,
+  };
+
+  get(name: string): LLMProvider {
+    // Own keys only, so names like 'constructor' from a request don't match
+    const provider = Object.prototype.hasOwnProperty.call(this.providers, name)
+      ? this.providers[name as LLMProviderName]
+      : undefined;
+    if (!provider) {
+      throw new Error(`Unknown LLM provider: ${name}`);
+    }
+    return provider;
+  }
+
+  // LLM_PROVIDER, or OpenAI as before there was a choice
+  getDefault(): LLMProvider {
+    return this.get(process.env.LLM_PROVIDER || 'openai');
+  }
+
+  list(): LLMProvider[] {
+    return LLM_PROVIDERS.map(name => this.providers[name]);
+  }
+
+  // Picks the provider and model from selections in order of precedence,
+  // e.g. a job's and then its template's. The first selection naming a
+  // provider decides it, and a model is only taken from that selection or an
+  // earlier one, so a template's OpenAI model never goes to a job's Anthropic.
+  resolve(...selections: (LLMChoice | null | undefined)[]): LLMTarget {
+    let model: string | undefined;
+    let provider: LLMProvider | undefined;
+    for (const selection of selections) {
+      model ??= selection?.llmModel ?? undefined;
+      if (selection?.llmProvider) {
+        provider = this.get(selection.llmProvider);
+        break;
+      }
+    }
+    provider ??= this.getDefault();
+    return { provider, model: model ?? provider.defaultModels().chat };
+  }
+
+  async chat(target: LLMTarget, request: Omit<ChatRequest, 'model'>): Promise<string> {
+    this.requireConfigured(target.provider);
+    return target.provider.chat({ ...request, model: target.model });
+  }
+
+  async chatJSON(target: LLMTarget, request: Omit<ChatRequest, 'model' | 'json'>): Promise<Record<string, any>> {
+    return parseJSONObject(await this.chat(target, { ...request, json: true }));
+  }
+
+  // Chat models are picked per template, but not every provider transcribes,
+  // so the default provider stands in for one that doesn't
+  async transcribe(audioPath: string, target?: LLMTarget): Promise<string> {
+    const provider = this.withFeature('transcription', target?.provider);
+    this.requireConfigured(provider);
+    return provider.transcribe!(audioPath, provider.defaultModels().transcription!);
+  }
+
+  async embed(texts: string[], target?: LLMTarget): Promise<number[][]> {
+    const provider = this.withFeature('embedding', target?.provider);
+    this.requireConfigured(provider);
+    return provider.embed!(texts, provider.defaultModels().embedding!);
+  }
+
+  private withFeature(feature: 'transcription' | 'embedding', preferred?: LLMProvider): LLMProvider {
+    const method = feature === 'transcription' ? 'transcribe' : 'embed';
+    for (const provider of [preferred, this.getDefault()]) {
+      if (provider?.[method] && provider.defaultModels()[feature]) return provider;
+    }
+    throw new UnsupportedLLMFeatureError((preferred ?? this.getDefault()).name, feature);
+  }
+
+  private requireConfigured(provider: LLMProvider): void {
+    if (!provider.isConfigured()) {
+      throw new Error(`The ${provider.name} LLM provider is not configured`);
+    }
+  }
+}
+
+export const llmProviders = new LLMProviderRegistry();
@@ -0,0 +1,247 @@
+import { createReadStream, promises as fs, type Dirent } from 'fs';
+import path from 'path';
+import { type Readable } from 'stream';
+import { type ByteRange, type ServerStorageProvider } from './storage-provider';
+import { type DriveFileInfo, type DriveFolderInfo, type DriveMetadataUpdate } from './google-drive';
+import { driveMetadataService, type DriveMetadataSource } from './drive-metadata';
+import { mimeTypeFromName } from './file-types';
+import { type DriveFolderNode } from '@shared/schema';
+
+// Ids are this prefix followed by the base64url path below LOCAL_STORAGE_ROOT:
+// they can't collide with Drive ids in the same workspace and, like Drive ids,
+// are safe in a URL path segment. The root itself is 'local:'.
+const ID_PREFIX = 'local:';
+const PAGE_SIZE = 1000;
+
+// Metadata for photo.jpg lives next to it in .photo.jpg.metadata.json
+const SIDECAR_SUFFIX = '.metadata.json';
+
+// Hidden entries include every sidecar
+function isHidden(name: string): boolean {
+  return name.startsWith('.');
+}
+
+function isWithin(root: string, target: string): boolean {
+  const relative = path.relative(root, target);
+  return relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+export function sidecarName(fileName: string): string {
+  return `.${fileName}${SIDECAR_SUFFIX}`;
+}
+
+// Indexes a directory tree on the server, e.g. a mounted NAS share. Files are
+// only ever read; metadata goes to sidecar JSON files laid out like Drive's
+// properties, appProperties and description, so exports and restores work
+// exactly as they do for Drive.
+export class LocalStorageProvider implements ServerStorageProvider {
+  readonly type = 'local' as const;
+
+  isConfigured(): boolean {
+    return !!process.env.LOCAL_STORAGE_ROOT;
+  }
+
+  ownsId(id: string): boolean {
+    return id.startsWith(ID_PREFIX);
+  }
+
+  getRootFolder(): { id: string; name: string } {
+    return { id: ID_PREFIX, name: path.basename(this.getRoot()) };
+  }
+
+  // Every folder below the root, with parent links like Drive's folder listing
+  async listFolders(): Promise<DriveFolderInfo[]> {
+    try {
+      const folders: DriveFolderInfo[] = [];
+      const walk = async (dir: string) => {
+        for (const entry of await this.readEntries(dir)) {
+          if (!entry.isDirectory()) continue;
+          const fullPath = path.join(dir, entry.name);
+          folders.push({ id: this.toId(fullPath), name: entry.name, parents: [this.toId(dir)] });
+          await walk(fullPath);
+        }
+      };
+
+      await walk(this.getRoot());
+      return folders;
+    } catch (error: any) {
+      throw new Error(`Failed to list folders: ${error.message}`);
+    }
+  }
+
+  // The folder and every folder below it
+  async getSubtreeFolderIds(folderId: string): Promise<string[]> {
+    const dir = await this.resolve(folderId);
+    const folderIds = [folderId];
+    const walk = async (current: string) => {
+      for (const entry of await this.readEntries(current)) {
+        if (!entry.isDirectory()) continue;
+        folderIds.push(this.toId(path.join(current, entry.name)));
+        await walk(path.join(current, entry.name));
+      }
+    };
+
+    await walk(dir);
+    return folderIds;
+  }
+
+  // Folders directly inside parentId, shaped like the Drive folder tree
+  async getChildFolders(parentId: string): Promise<DriveFolderNode[]> {
+    const dir = await this.resolve(parentId);
+    const rootName = path.basename(this.getRoot());
+    const entries = (await this.readEntries(dir)).filter(entry => entry.isDirectory());
+
+    const folders = await Promise.all(entries.map(async (entry): Promise<DriveFolderNode> => {
+      const fullPath = path.join(dir, entry.name);
+      return {
+        id: this.toId(fullPath),
+        name: entry.name,
+        path: [rootName, ...path.relative(this.getRoot(), fullPath).split(path.sep)].join('/'),
+        parentId,
+        sharedDriveId: null,
+        hasChildren: (await this.readEntries(fullPath)).some(child => child.isDirectory()),
+      };
+    }));
+    return folders.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async *listFilePages(_accountId: number | null, folderId: string): AsyncGenerator<DriveFileInfo[]> {
+    try {
+      const dir = await this.resolve(folderId);
+      const names = (await this.readEntries(dir)).filter(entry => entry.isFile()).map(entry => entry.name);
+
+      for (let i = 0; i < names.length; i += PAGE_SIZE) {
+        yield await Promise.all(names.slice(i, i + PAGE_SIZE).map(name => this.describe(path.join(dir, name))));
+      }
+    } catch (error: any) {
+      throw new Error(`Failed to list files: ${error.message}`);
+    }
+  }
+
+  async openFileStream(_accountId: number | null, fileId: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const fullPath = await this.resolve(fileId);
+      // Fail here rather than on the stream's first read
+      if (!(await fs.stat(fullPath)).isFile()) {
+        throw new Error(`Not a file: ${fileId}`);
+      }
+      return createReadStream(fullPath, range);
+    } catch (error: any) {
+      throw new Error(`Failed to download file: ${error.message}`);
+    }
+  }
+
+  async getFileMetadata(_accountId: number | null, fileId: string): Promise<DriveFileInfo> {
+    try {
+      return await this.describe(await this.resolve(fileId));
+    } catch (error: any) {
+      throw new Error(`Failed to get file metadata: ${error.message}`);
+    }
+  }
+
+  // Writing the sidecar leaves the file itself, and so its modified time, untouched
+  async updateFileMetadata(_accountId: number | null, fileId: string, update: DriveMetadataUpdate): Promise<Date | undefined> {
+    try {
+      const fullPath = await this.resolve(fileId);
+      const stats = await fs.stat(fullPath);
+      const next = driveMetadataService.applyUpdate(await this.readSidecar(fullPath), update);
+
+      // Write then rename so a crash never leaves a half-written sidecar
+      const sidecarPath = this.sidecarPath(fullPath);
+      const tempPath = `${sidecarPath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(next, null, 2));
+      await fs.rename(tempPath, sidecarPath);
+      return stats.mtime;
+    } catch (error: any) {
+      throw new Error(`Failed to update file metadata: ${error.message}`);
+    }
+  }
+
+  private getRoot(): string {
+    if (!process.env.LOCAL_STORAGE_ROOT) {
+      throw new Error('Local storage is not configured; set LOCAL_STORAGE_ROOT');
+    }
+    return path.resolve(process.env.LOCAL_STORAGE_ROOT);
+  }
+
+  // Maps an id back to its path, refusing anything that would leave the root,
+  // whether through '..' or a symbolic link somewhere below it
+  private async resolve(id: string): Promise<string> {
+    if (!this.ownsId(id)) {
+      throw new Error(`Not a local file id: ${id}`);
+    }
+
+    const root = this.getRoot();
+    const relativePath = Buffer.from(id.slice(ID_PREFIX.length), 'base64url').toString('utf8');
+    const fullPath = path.resolve(root, relativePath);
+    if (!isWithin(root, fullPath)) {
+      throw new Error(`Path is outside the local storage root: ${id}`);
+    }
+
+    const [realRoot, realPath] = await Promise.all([fs.realpath(root), fs.realpath(fullPath)]);
+    if (!isWithin(realRoot, realPath)) {
+      throw new Error(`Path is outside the local storage root: ${id}`);
+    }
+    return fullPath;
+  }
+
+  private toId(fullPath: string): string {
+    const relativePath = path.relative(this.getRoot(), fullPath).split(path.sep).join('/');
+    return ID_PREFIX + Buffer.from(relativePath, 'utf8').toString('base64url');
+  }
+
+  // Symbolic links are neither files nor directories here, so they are never
+  // followed out of the root
+  private async readEntries(dir: string): Promise<Dirent[]> {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries.filter(entry => !isHidden(entry.name));
+  }
+
+  private async describe(fullPath: string): Promise<DriveFileInfo> {
+    const [stats, sidecar] = await Promise.all([fs.stat(fullPath), this.readSidecar(fullPath)]);
+    if (!stats.isFile()) {
+      throw new Error(`Not a file: ${this.toId(fullPath)}`);
+    }
+
+    const name = path.basename(fullPath);
+    return {
+      id: this.toId(fullPath),
+      name,
+      mimeType: mimeTypeFromName(name),
+      size: String(stats.size),
+      parents: [this.toId(path.dirname(fullPath))],
+      // Some filesystems don't record when a file was created
+      createdTime: (stats.birthtimeMs > 0 ? stats.birthtime : stats.mtime).toISOString(),
+      modifiedTime: stats.mtime.toISOString(),
+      properties: sidecar.properties ?? undefined,
+      appProperties: sidecar.appProperties ?? undefined,
+      description: sidecar.description ?? undefined,
+    };
+  }
+
+  private sidecarPath(fullPath: string): string {
+    return path.join(path.dirname(fullPath), sidecarName(path.basename(fullPath)));
+  }
+
+  // A missing sidecar means no metadata yet; an unreadable one is ignored so
+  // the next export replaces it
+  private async readSidecar(fullPath: string): Promise<DriveMetadataSource> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.sidecarPath(fullPath), 'utf8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return {};
+      throw error;
+    }
+
+    try {
+      const { properties, appProperties, description } = JSON.parse(raw);
+      return { properties, appProperties, description };
+    } catch (error) {
+      console.warn(`Ignoring unreadable metadata sidecar for ${this.toId(fullPath)}:`, (error as Error).message);
+      return {};
+    }
+  }
+}
+
+export const localStorageProvider = new LocalStorageProvider();
@@ -0,0 +1,132 @@
+import { storage } from '../storage';
+import {
+  type DriveFile,
+  type MetadataFieldChange,
+  type MetadataRevision,
+  type MetadataRevisionDiff,
+  type MetadataRevisionSource
+} from '@shared/schema';
+
+interface MetadataChangeOptions {
+  source: MetadataRevisionSource;
+  templateId?: number | null;
+  revertedFromId?: number | null;
+}
+
+type MetadataSnapshot = Pick<DriveFile, 'aiGeneratedMetadata' | 'customMetadata'>;
+
+export class MetadataHistoryService {
+  // Applies the updates to the file and, when they touch metadata, records the
+  // resulting metadata as a new revision.
+  async updateFileMetadata(
+    fileId: number,
+    updates: Partial<DriveFile>,
+    options: MetadataChangeOptions
+  ): Promise<DriveFile | undefined> {
+    const updated = await storage.updateDriveFile(fileId, updates);
+    if (!updated) return undefined;
+
+    if ('aiGeneratedMetadata' in updates || 'customMetadata' in updates) {
+      await this.recordRevision(updated, options);
+    }
+
+    return updated;
+  }
+
+  // Snapshots the file's current metadata, e.g. for files created with
+  // metadata already restored from Drive.
+  async recordRevision(file: DriveFile, options: MetadataChangeOptions): Promise<MetadataRevision> {
+    return await storage.createMetadataRevision({
+      fileId: file.id,
+      source: options.source,
+      templateId: options.templateId ?? null,
+      revertedFromId: options.revertedFromId ?? null,
+      aiGeneratedMetadata: file.aiGeneratedMetadata ?? null,
+      customMetadata: file.customMetadata ?? null,
+    });
+  }
+
+  async getRevisions(fileId: number): Promise<MetadataRevision[]> {
+    return await storage.getMetadataRevisionsByFile(fileId);
+  }
+
+  async getRevision(fileId: number, revisionId: number): Promise<MetadataRevision | undefined> {
+    const revision = await storage.getMetadataRevision(revisionId);
+    return revision && revision.fileId === fileId ? revision : undefined;
+  }
+
+  // Compares two revisions, or a revision against the file's current metadata
+  // when no target revision is given.
+  async diffRevisions(fileId: number, fromRevisionId: number, toRevisionId?: number): Promise<MetadataRevisionDiff> {
+    const from = await this.getRevision(fileId, fromRevisionId);
+    if (!from) {
+      throw new Error(`Revision ${fromRevisionId} not found for this file`);
+    }
+
+    let to: MetadataSnapshot | undefined;
+    if (toRevisionId !== undefined) {
+      to = await this.getRevision(fileId, toRevisionId);
+      if (!to) {
+        throw new Error(`Revision ${toRevisionId} not found for this file`);
+      }
+    } else {
+      to = await storage.getDriveFile(fileId);
+      if (!to) {
+        throw new Error('File not found');
+      }
+    }
+
+    return {
+      fromRevisionId,
+      toRevisionId: toRevisionId ?? null,
+      changes: [
+        ...this.diffSection('ai', from.aiGeneratedMetadata, to.aiGeneratedMetadata),
+        ...this.diffSection('custom', from.customMetadata, to.customMetadata),
+      ],
+    };
+  }
+
+  // Restores the metadata captured by a revision; the revert itself is recorded
+  // as a new revision so it can be undone the same way.
+  async revertToRevision(fileId: number, revisionId: number): Promise<DriveFile | undefined> {
+    const revision = await this.getRevision(fileId, revisionId);
+    if (!revision) return undefined;
+
+    return await this.updateFileMetadata(fileId, {
+      aiGeneratedMetadata: revision.aiGeneratedMetadata,
+      customMetadata: revision.customMetadata,
+    }, {
+      source: 'revert',
+      templateId: revision.templateId,
+      revertedFromId: revision.id,
+    });
+  }
+
+  private diffSection(section: MetadataFieldChange['section'], before: unknown, after: unknown): MetadataFieldChange[] {
+    const beforeFields = this.asRecord(before);
+    const afterFields = this.asRecord(after);
+    const fields = Array.from(new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)])).sort();
+    const changes: MetadataFieldChange[] = [];
+
+    for (const field of fields) {
+      const inBefore = Object.prototype.hasOwnProperty.call(beforeFields, field);
+      const inAfter = Object.prototype.hasOwnProperty.call(afterFields, field);
+
+      if (!inBefore) {
+        changes.push({ section, field, change: 'added', after: afterFields[field] });
+      } else if (!inAfter) {
+        changes.push({ section, field, change: 'removed', before: beforeFields[field] });
+      } else if (JSON.stringify(beforeFields[field]) !== JSON.stringify(afterFields[field])) {
+        changes.push({ section, field, change: 'changed', before: beforeFields[field], after: afterFields[field] });
+      }
+    }
+
+    return changes;
+  }
+
+  private asRecord(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+  }
+}
+
+export const metadataHistoryService = new MetadataHistoryService();
@@ -0,0 +1,70 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { ChatRequest, LLMModels, LLMProvider } from './llm-provider';
+
+const EMBEDDING_DIMENSIONS = 16;
+
+type MockResponder = (request: ChatRequest) => string | Record<string, unknown>;
+
+function digest(value: unknown): string {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex');
+}
+
+function lastUserText(request: ChatRequest): string {
+  const message = [...request.messages].reverse().find(candidate => candidate.role === 'user');
+  if (!message) return '';
+  return typeof message.content === 'string'
+    ? message.content
+    : message.content.map(part => part.type === 'text' ? part.text : '').join('\n');
+}
+
+// Answers without network access, the same way every time for the same
+// request, for tests and offline development. Scripts can replace the chat
+// answers with respondWith.
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock' as const;
+  private responder: MockResponder | null = null;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  defaultModels(): LLMModels {
+    return { chat: 'mock', transcription: 'mock', embedding: 'mock' };
+  }
+
+  respondWith(responder: MockResponder | null): void {
+    this.responder = responder;
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    if (this.responder) {
+      const answer = this.responder(request);
+      return typeof answer === 'string' ? answer : JSON.stringify(answer);
+    }
+
+    const id = digest(request).slice(0, 12);
+    const summary = lastUserText(request).replace(/\s+/g, ' ').trim().slice(0, 120);
+    return request.json
+      ? JSON.stringify({ description: `Mock answer ${id}`, summary, model: request.model })
+      : `Mock answer ${id}: ${summary}`;
+  }
+
+  async transcribe(audioPath: string): Promise<string> {
+    const { size } = await fs.stat(audioPath);
+    return `Mock transcript of ${path.basename(audioPath)} (${size} bytes)`;
+  }
+
+  // Unit vectors derived from a hash of each text, so equal texts match
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    return texts.map(text => {
+      const bytes = createHash('sha256').update(`${model}:${text}`).digest();
+      const vector = Array.from(bytes.subarray(0, EMBEDDING_DIMENSIONS), byte => byte / 127.5 - 1);
+      const length = Math.hypot(...vector) || 1;
+      return vector.map(value => value / length);
+    });
+  }
+}
+
+export const mockLLMProvider = new MockLLMProvider();
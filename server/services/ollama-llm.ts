@@ -0,0 +1,58 @@
+import type { ChatRequest, LLMModels, LLMProvider } from './llm-provider';
+
+// A local Ollama server at OLLAMA_URL, e.g. http://localhost:11434. Vision
+// needs a multimodal model such as the default; Ollama doesn't transcribe.
+export class OllamaLLMProvider implements LLMProvider {
+  readonly name = 'ollama' as const;
+
+  isConfigured(): boolean {
+    return !!process.env.OLLAMA_URL;
+  }
+
+  defaultModels(): LLMModels {
+    return {
+      chat: process.env.OLLAMA_MODEL || 'llama3.2-vision',
+      embedding: process.env.OLLAMA_EMBEDDING_MODEL || 'nomic-embed-text',
+    };
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    // Ollama takes images beside the text rather than as parts of it
+    const messages = request.messages.map(message => typeof message.content === 'string'
+      ? { role: message.role, content: message.content }
+      : {
+          role: message.role,
+          content: message.content.map(part => part.type === 'text' ? part.text : '').filter(Boolean).join('\n'),
+          images: message.content.flatMap(part => part.type === 'image' ? [part.data] : []),
+        });
+
+    const body = await this.post('/api/chat', {
+      model: request.model,
+      messages,
+      format: request.json ? 'json' : undefined,
+      stream: false,
+      options: { temperature: request.temperature, num_predict: request.maxTokens },
+    });
+    return body.message?.content ?? '';
+  }
+
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const body = await this.post('/api/embed', { model, input: texts });
+    return body.embeddings;
+  }
+
+  private async post(path: string, payload: unknown): Promise<any> {
+    const response = await fetch(new URL(path, process.env.OLLAMA_URL), {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(`Ollama request failed (${response.status}): ${body?.error ?? response.statusText}`);
+    }
+    return body;
+  }
+}
+
+export const ollamaLLMProvider = new OllamaLLMProvider();
@@ -0,0 +1,80 @@
+import { createReadStream } from 'fs';
+import OpenAI from 'openai';
+import type { ChatCompletionContentPart, ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import type { ChatMessage, ChatRequest, LLMModels, LLMProvider } from './llm-provider';
+
+function apiKey(): string {
+  return process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR || '';
+}
+
+function toOpenAIMessage(message: ChatMessage): ChatCompletionMessageParam {
+  if (typeof message.content === 'string' || message.role !== 'user') {
+    const text = typeof message.content === 'string'
+      ? message.content
+      : message.content.map(part => part.type === 'text' ? part.text : '').join('\n');
+    return { role: message.role, content: text };
+  }
+
+  const parts: ChatCompletionContentPart[] = message.content.map(part => part.type === 'text'
+    ? { type: 'text', text: part.text }
+    : { type: 'image_url', image_url: { url: `data:${part.mimeType ?? 'image/jpeg'};base64,${part.data}` } });
+  return { role: 'user', content: parts };
+}
+
+// OpenAI's chat completions, Whisper transcription and embeddings. The
+// client follows OPENAI_BASE_URL, so OpenAI-compatible gateways work too.
+export class OpenAILLMProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  private client: OpenAI | null = null;
+  private clientKey = '';
+
+  isConfigured(): boolean {
+    return !!apiKey();
+  }
+
+  defaultModels(): LLMModels {
+    return {
+      chat: process.env.OPENAI_MODEL || 'gpt-4o',
+      transcription: process.env.OPENAI_TRANSCRIPTION_MODEL || 'whisper-1',
+      embedding: process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+    };
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    const response = await this.getClient().chat.completions.create({
+      model: request.model,
+      messages: request.messages.map(toOpenAIMessage),
+      response_format: request.json ? { type: 'json_object' } : undefined,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    });
+    return response.choices[0].message.content || '';
+  }
+
+  // Uploads the audio file as a stream, so it isn't read into memory
+  async transcribe(audioPath: string, model: string): Promise<string> {
+    const response = await this.getClient().audio.transcriptions.create({
+      file: createReadStream(audioPath),
+      model,
+      language: 'en',
+      response_format: 'text',
+    });
+    return response || '';
+  }
+
+  async embed(texts: string[], model: string): Promise<number[][]> {
+    const response = await this.getClient().embeddings.create({ model, input: texts });
+    return response.data.map(item => item.embedding);
+  }
+
+  // Created on first use, and again if the key changes
+  private getClient(): OpenAI {
+    if (!this.client || this.clientKey !== apiKey()) {
+      this.clientKey = apiKey();
+      this.client = new OpenAI({ apiKey: this.clientKey });
+    }
+    return this.client;
+  }
+}
+
+export const openAILLMProvider = new OpenAILLMProvider();
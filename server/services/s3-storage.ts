@@ -0,0 +1,390 @@
+import {
+  S3Client,
+  GetObjectCommand,
+  GetObjectTaggingCommand,
+  HeadObjectCommand,
+  ListBucketsCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  PutObjectTaggingCommand,
+  type Tag
+} from '@aws-sdk/client-s3';
+import { type Readable } from 'stream';
+import { gunzipSync, gzipSync } from 'zlib';
+import { type ByteRange, type ServerStorageProvider } from './storage-provider';
+import { type DriveFileInfo, type DriveFolderInfo, type DriveMetadataUpdate } from './google-drive';
+import { driveMetadataService, type DriveMetadataSource } from './drive-metadata';
+import { mimeTypeFromName } from './file-types';
+import { sidecarName } from './local-storage';
+import { type DriveFolderNode } from '@shared/schema';
+
+// Ids are this prefix followed by the base64url of '<bucket>/<key>'. Folders
+// are '<bucket>/<prefix>' with a trailing slash (a bucket alone is
+// '<bucket>/'), and the root listing the buckets is 's3:'.
+const ID_PREFIX = 's3:';
+const ROOT_NAME = 'S3';
+
+// Object tags hold the metadata gzipped and base64 encoded, split across
+// ai-metadata.1, ai-metadata.2, ... S3 allows 10 tags per object, with values
+// of at most 256 characters; base64 only uses characters tags accept.
+const TAG_PREFIX = 'ai-metadata.';
+const MAX_TAGS = 10;
+const MAX_TAG_VALUE_LENGTH = 256;
+
+type MetadataTarget = 'sidecar' | 'tags';
+
+interface S3Location {
+  bucket: string;
+  key: string; // '' for a bucket, ending in '/' for a folder
+}
+
+function isNotFound(error: any): boolean {
+  return error?.name === 'NoSuchKey' || error?.name === 'NotFound' || error?.$metadata?.httpStatusCode === 404;
+}
+
+function baseName(key: string): string {
+  return key.replace(/\/$/, '').split('/').pop() ?? key;
+}
+
+// Treats buckets and the prefixes below them as folders, e.g. for media kept
+// in AWS or a MinIO server. Objects are only ever read; metadata goes to a
+// hidden sidecar object next to each one (.<name>.metadata.json, like local
+// storage) or, with S3_METADATA_TARGET=tags, to the object's tags.
+export class S3StorageProvider implements ServerStorageProvider {
+  readonly type = 's3' as const;
+  private client: S3Client | null = null;
+
+  isConfigured(): boolean {
+    return !!(process.env.S3_ENDPOINT || process.env.S3_BUCKETS || process.env.S3_ACCESS_KEY_ID);
+  }
+
+  ownsId(id: string): boolean {
+    return id.startsWith(ID_PREFIX);
+  }
+
+  getRootFolder(): { id: string; name: string } {
+    return { id: ID_PREFIX, name: ROOT_NAME };
+  }
+
+  // Every bucket and prefix, with parent links like Drive's folder listing
+  async listFolders(): Promise<DriveFolderInfo[]> {
+    try {
+      const folders: DriveFolderInfo[] = [];
+      const walk = async (parentId: string) => {
+        for (const folder of await this.getChildFolders(parentId)) {
+          folders.push({ id: folder.id, name: folder.name, parents: [parentId] });
+          await walk(folder.id);
+        }
+      };
+
+      await walk(ID_PREFIX);
+      return folders;
+    } catch (error: any) {
+      throw new Error(`Failed to list folders: ${error.message}`);
+    }
+  }
+
+  // Buckets below the root, and the prefixes one level down otherwise. S3 can't
+  // tell whether a prefix has prefixes of its own without listing it, so every
+  // folder is shown as expandable.
+  async getChildFolders(parentId: string): Promise<DriveFolderNode[]> {
+    if (parentId === ID_PREFIX) {
+      const buckets = await this.listBuckets();
+      return buckets.sort().map(bucket => ({
+        id: this.toId({ bucket, key: '' }),
+        name: bucket,
+        path: `${ROOT_NAME}/${bucket}`,
+        parentId,
+        sharedDriveId: null,
+        hasChildren: true,
+      }));
+    }
+
+    const { bucket, key: prefix } = this.parseFolderId(parentId);
+    const folders: DriveFolderNode[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.getClient().send(new ListObjectsV2Command({
+        Bucket: bucket,
+        Prefix: prefix,
+        Delimiter: '/',
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const { Prefix: childPrefix } of response.CommonPrefixes ?? []) {
+        if (!childPrefix || baseName(childPrefix).startsWith('.')) continue;
+        folders.push({
+          id: this.toId({ bucket, key: childPrefix }),
+          name: baseName(childPrefix),
+          path: `${ROOT_NAME}/${bucket}/${childPrefix.replace(/\/$/, '')}`,
+          parentId,
+          sharedDriveId: null,
+          hasChildren: true,
+        });
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return folders.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // The folder and every folder below it
+  async getSubtreeFolderIds(folderId: string): Promise<string[]> {
+    const folderIds = [folderId];
+    for (const child of await this.getChildFolders(folderId)) {
+      folderIds.push(...await this.getSubtreeFolderIds(child.id));
+    }
+    return folderIds;
+  }
+
+  // Yields the objects directly below the folder's prefix one ListObjectsV2
+  // page at a time, following continuation tokens. Listings carry no
+  // metadata; callers restoring it read each file with getFileMetadata.
+  async *listFilePages(_accountId: number | null, folderId: string): AsyncGenerator<DriveFileInfo[]> {
+    try {
+      const { bucket, key: prefix } = this.parseFolderId(folderId);
+      let continuationToken: string | undefined;
+
+      do {
+        const response = await this.getClient().send(new ListObjectsV2Command({
+          Bucket: bucket,
+          Prefix: prefix,
+          Delimiter: '/',
+          ContinuationToken: continuationToken,
+        }));
+
+        const objects = (response.Contents ?? []).filter(object =>
+          object.Key && object.Key !== prefix && !baseName(object.Key).startsWith('.'));
+        yield objects.map(object => this.describe({ bucket, key: object.Key! }, object.Size, object.LastModified));
+
+        continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+      } while (continuationToken);
+    } catch (error: any) {
+      throw new Error(`Failed to list files: ${error.message}`);
+    }
+  }
+
+  async openFileStream(_accountId: number | null, fileId: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const { bucket, key } = this.parseFileId(fileId);
+      const response = await this.getClient().send(new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end ?? ''}` : undefined,
+      }));
+      // The SDK's Node HTTP handler returns the response as a Readable
+      return response.Body as Readable;
+    } catch (error: any) {
+      throw new Error(`Failed to download file: ${error.message}`);
+    }
+  }
+
+  async getFileMetadata(_accountId: number | null, fileId: string): Promise<DriveFileInfo> {
+    try {
+      const location = this.parseFileId(fileId);
+      const [head, stored] = await Promise.all([
+        this.getClient().send(new HeadObjectCommand({ Bucket: location.bucket, Key: location.key })),
+        this.readStoredMetadata(location),
+      ]);
+
+      const file = this.describe(location, head.ContentLength, head.LastModified);
+      return {
+        ...file,
+        // The extension decides unless it is unknown and S3 knows better
+        mimeType: file.mimeType === 'application/octet-stream' && head.ContentType ? head.ContentType : file.mimeType,
+        properties: stored.properties ?? undefined,
+        appProperties: stored.appProperties ?? undefined,
+        description: stored.description ?? undefined,
+      };
+    } catch (error: any) {
+      throw new Error(`Failed to get file metadata: ${error.message}`);
+    }
+  }
+
+  // Neither sidecars nor tags change the object itself, so its LastModified
+  // stays what it was
+  async updateFileMetadata(_accountId: number | null, fileId: string, update: DriveMetadataUpdate): Promise<Date | undefined> {
+    try {
+      const location = this.parseFileId(fileId);
+      const head = await this.getClient().send(new HeadObjectCommand({ Bucket: location.bucket, Key: location.key }));
+      const next = driveMetadataService.applyUpdate(await this.readStoredMetadata(location), update);
+
+      if (this.getMetadataTarget() === 'tags') {
+        await this.writeTags(location, next);
+      } else {
+        await this.getClient().send(new PutObjectCommand({
+          Bucket: location.bucket,
+          Key: this.sidecarKey(location.key),
+          Body: JSON.stringify(next, null, 2),
+          ContentType: 'application/json',
+        }));
+      }
+      return head.LastModified;
+    } catch (error: any) {
+      throw new Error(`Failed to update file metadata: ${error.message}`);
+    }
+  }
+
+  // S3_ENDPOINT points at MinIO or another S3-compatible server, which are
+  // addressed by path rather than by bucket subdomain. Without explicit keys
+  // the SDK's default credential chain (environment, profile, instance role)
+  // is used. The SDK retries throttling and transient errors itself.
+  private getClient(): S3Client {
+    if (!this.client) {
+      if (!this.isConfigured()) {
+        throw new Error('S3 storage is not configured; set S3_ENDPOINT, S3_BUCKETS or S3_ACCESS_KEY_ID');
+      }
+
+      const { S3_ENDPOINT, S3_REGION, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+      this.client = new S3Client({
+        region: S3_REGION || 'us-east-1',
+        endpoint: S3_ENDPOINT || undefined,
+        forcePathStyle: !!S3_ENDPOINT,
+        credentials: S3_ACCESS_KEY_ID && S3_SECRET_ACCESS_KEY
+          ? { accessKeyId: S3_ACCESS_KEY_ID, secretAccessKey: S3_SECRET_ACCESS_KEY }
+          : undefined,
+      });
+    }
+    return this.client;
+  }
+
+  private getMetadataTarget(): MetadataTarget {
+    return process.env.S3_METADATA_TARGET === 'tags' ? 'tags' : 'sidecar';
+  }
+
+  // S3_BUCKETS limits browsing to the listed buckets, for credentials that
+  // can't list buckets or accounts with many unrelated ones
+  private async listBuckets(): Promise<string[]> {
+    const configured = (process.env.S3_BUCKETS ?? '').split(',').map(bucket => bucket.trim()).filter(Boolean);
+    if (configured.length > 0) return configured;
+
+    const response = await this.getClient().send(new ListBucketsCommand({}));
+    return (response.Buckets ?? []).map(bucket => bucket.Name!).filter(Boolean);
+  }
+
+  private toId(location: S3Location): string {
+    return ID_PREFIX + Buffer.from(`${location.bucket}/${location.key}`, 'utf8').toString('base64url');
+  }
+
+  private parseId(id: string): S3Location {
+    if (!this.ownsId(id) || id === ID_PREFIX) {
+      throw new Error(`Not an S3 object or folder id: ${id}`);
+    }
+
+    const decoded = Buffer.from(id.slice(ID_PREFIX.length), 'base64url').toString('utf8');
+    const separator = decoded.indexOf('/');
+    if (separator <= 0) {
+      throw new Error(`Not an S3 object or folder id: ${id}`);
+    }
+    return { bucket: decoded.slice(0, separator), key: decoded.slice(separator + 1) };
+  }
+
+  private parseFolderId(id: string): S3Location {
+    const location = this.parseId(id);
+    if (location.key !== '' && !location.key.endsWith('/')) {
+      throw new Error(`Not an S3 folder id: ${id}`);
+    }
+    return location;
+  }
+
+  private parseFileId(id: string): S3Location {
+    const location = this.parseId(id);
+    if (location.key === '' || location.key.endsWith('/')) {
+      throw new Error(`Not an S3 object id: ${id}`);
+    }
+    return location;
+  }
+
+  // S3 keeps no creation time, so an object was created when last written
+  private describe(location: S3Location, size: number | undefined, lastModified: Date | undefined): DriveFileInfo {
+    const name = baseName(location.key);
+    const modifiedTime = (lastModified ?? new Date(0)).toISOString();
+    return {
+      id: this.toId(location),
+      name,
+      mimeType: mimeTypeFromName(name),
+      size: String(size ?? 0),
+      parents: [this.toId({ bucket: location.bucket, key: location.key.slice(0, location.key.length - name.length) })],
+      createdTime: modifiedTime,
+      modifiedTime,
+    };
+  }
+
+  private sidecarKey(key: string): string {
+    const name = baseName(key);
+    return key.slice(0, key.length - name.length) + sidecarName(name);
+  }
+
+  // Missing metadata means none has been exported yet; unreadable metadata is
+  // ignored so the next export replaces it
+  private async readStoredMetadata(location: S3Location): Promise<DriveMetadataSource> {
+    let raw: string;
+    try {
+      raw = this.getMetadataTarget() === 'tags'
+        ? this.decodeTags(await this.readTags(location))
+        : await this.readSidecar(location);
+    } catch (error) {
+      if (isNotFound(error)) return {};
+      throw error;
+    }
+    if (!raw) return {};
+
+    try {
+      const { properties, appProperties, description } = JSON.parse(raw);
+      return { properties, appProperties, description };
+    } catch (error) {
+      console.warn(`Ignoring unreadable metadata for s3://${location.bucket}/${location.key}:`, (error as Error).message);
+      return {};
+    }
+  }
+
+  private async readSidecar(location: S3Location): Promise<string> {
+    const response = await this.getClient().send(new GetObjectCommand({
+      Bucket: location.bucket,
+      Key: this.sidecarKey(location.key),
+    }));
+    return response.Body ? await response.Body.transformToString('utf8') : '';
+  }
+
+  private async readTags(location: S3Location): Promise<Tag[]> {
+    const response = await this.getClient().send(new GetObjectTaggingCommand({ Bucket: location.bucket, Key: location.key }));
+    return response.TagSet ?? [];
+  }
+
+  private decodeTags(tags: Tag[]): string {
+    const parts = tags
+      .filter(tag => tag.Key?.startsWith(TAG_PREFIX))
+      .sort((a, b) => Number(a.Key!.slice(TAG_PREFIX.length)) - Number(b.Key!.slice(TAG_PREFIX.length)));
+    if (parts.length === 0) return '';
+
+    try {
+      return gunzipSync(Buffer.from(parts.map(tag => tag.Value ?? '').join(''), 'base64')).toString('utf8');
+    } catch (error) {
+      console.warn('Ignoring unreadable metadata tags:', (error as Error).message);
+      return '';
+    }
+  }
+
+  // Replaces our tags and keeps any others the object already had
+  private async writeTags(location: S3Location, metadata: DriveMetadataSource): Promise<void> {
+    const encoded = gzipSync(JSON.stringify(metadata)).toString('base64');
+    const parts: Tag[] = [];
+    for (let i = 0; i < encoded.length; i += MAX_TAG_VALUE_LENGTH) {
+      parts.push({ Key: `${TAG_PREFIX}${parts.length + 1}`, Value: encoded.slice(i, i + MAX_TAG_VALUE_LENGTH) });
+    }
+
+    const otherTags = (await this.readTags(location)).filter(tag => !tag.Key?.startsWith(TAG_PREFIX));
+    if (otherTags.length + parts.length > MAX_TAGS) {
+      throw new Error(`Metadata needs ${parts.length} tags but only ${MAX_TAGS - otherTags.length} are free; use S3_METADATA_TARGET=sidecar`);
+    }
+
+    await this.getClient().send(new PutObjectTaggingCommand({
+      Bucket: location.bucket,
+      Key: location.key,
+      Tagging: { TagSet: [...otherTags, ...parts] },
+    }));
+  }
+}
+
+export const s3StorageProvider = new S3StorageProvider();
@@ -0,0 +1,96 @@
+import { type Readable } from 'stream';
+import { type DriveFile, type DriveFolderNode, type StorageProviderType } from '@shared/schema';
+import {
+  googleDriveService,
+  type DriveFileInfo,
+  type DriveFolderInfo,
+  type DriveMetadataUpdate
+} from './google-drive';
+import { localStorageProvider } from './local-storage';
+import { s3StorageProvider } from './s3-storage';
+
+type ServerProviderType = Exclude<StorageProviderType, 'google_drive'>;
+
+// Byte offsets as in an HTTP Range header: end is inclusive and defaults to
+// the last byte of the file
+export interface ByteRange {
+  start: number;
+  end?: number;
+}
+
+// A source of files to enrich. Listings use Drive's file shape whatever the
+// provider, so stored files and exported metadata work the same everywhere.
+// accountId is the linked Google account for Google Drive and null for
+// providers configured on the server.
+export interface StorageProvider {
+  readonly type: StorageProviderType;
+  listFolders(accountId: number | null): Promise<DriveFolderInfo[]>;
+  listFilePages(accountId: number | null, folderId: string): AsyncGenerator<DriveFileInfo[]>;
+  // Content is streamed so large files never sit in memory whole
+  openFileStream(accountId: number | null, fileId: string, range?: ByteRange): Promise<Readable>;
+  getFileMetadata(accountId: number | null, fileId: string): Promise<DriveFileInfo>;
+  // Returns the file's modified time after the update
+  updateFileMetadata(accountId: number | null, fileId: string, update: DriveMetadataUpdate): Promise<Date | undefined>;
+}
+
+// A provider configured by environment variables rather than linked by a
+// user. Its ids start with its own prefix, and it browses itself instead of
+// going through the Drive folder tree cache.
+export interface ServerStorageProvider extends StorageProvider {
+  isConfigured(): boolean;
+  ownsId(id: string): boolean;
+  getRootFolder(): { id: string; name: string };
+  getChildFolders(parentId: string): Promise<DriveFolderNode[]>;
+  getSubtreeFolderIds(folderId: string): Promise<string[]>;
+}
+
+export class StorageProviderRegistry {
+  private serverProviders: Record<ServerProviderType, ServerStorageProvider> = {
+    local: localStorageProvider,
+    s3: s3StorageProvider,
+  };
+
+  get(type: string): StorageProvider {
+    if (type === 'google_drive') return googleDriveService;
+    return this.getServerProvider(type);
+  }
+
+  getServerProvider(type: string): ServerStorageProvider {
+    // Own keys only, so names like 'constructor' from the URL don't match
+    const provider = Object.prototype.hasOwnProperty.call(this.serverProviders, type)
+      ? this.serverProviders[type as ServerProviderType]
+      : undefined;
+    if (!provider) {
+      throw new Error(`Unknown storage provider: ${type}`);
+    }
+    return provider;
+  }
+
+  // The server provider whose prefix the folder id carries, if any; every
+  // other id is a Drive id
+  findServerProvider(folderId: string): ServerStorageProvider | undefined {
+    return Object.values(this.serverProviders).find(provider => provider.ownsId(folderId));
+  }
+
+  forFolder(folderId: string): StorageProvider {
+    return this.findServerProvider(folderId) ?? googleDriveService;
+  }
+
+  openFileStream(file: DriveFile, range?: ByteRange): Promise<Readable> {
+    return this.get(file.provider).openFileStream(this.getAccountId(file), file.driveId, range);
+  }
+
+  getFileMetadata(file: DriveFile): Promise<DriveFileInfo> {
+    return this.get(file.provider).getFileMetadata(this.getAccountId(file), file.driveId);
+  }
+
+  updateFileMetadata(file: DriveFile, update: DriveMetadataUpdate): Promise<Date | undefined> {
+    return this.get(file.provider).updateFileMetadata(this.getAccountId(file), file.driveId, update);
+  }
+
+  private getAccountId(file: DriveFile): number | null {
+    return file.provider === 'google_drive' ? googleDriveService.getFileAccountId(file) : null;
+  }
+}
+
+export const storageProviders = new StorageProviderRegistry();
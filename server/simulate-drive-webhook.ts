@@ -0,0 +1,48 @@
+import { DbStorage, storage, initStorage } from './storage';
+import { postDriveNotification } from './services/drive-webhook-simulator';
+
+// Posts a notification to every stored channel matching the options, e.g.
+//   npm run drive:notify -- --account 1 --state change
+//   npm run drive:notify -- --file <driveId> --state update --changed content
+// so webhook handling can be tried without Drive reaching this server.
+async function main(args: string[]) {
+  const option = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const address = option('url') ?? process.env.DRIVE_WEBHOOK_URL;
+  if (!address) {
+    throw new Error('Pass --url or set DRIVE_WEBHOOK_URL');
+  }
+
+  // The channels are the running server's, so they are read from its database
+  if (!(storage instanceof DbStorage)) {
+    throw new Error("Set DATABASE_URL to the server's database; in-memory storage holds no channels of the running server");
+  }
+  await initStorage();
+  const accountId = option('account') ? Number(option('account')) : undefined;
+  const fileId = option('file');
+  const channels = (await storage.getDriveWatchChannels(accountId))
+    .filter(channel => fileId ? channel.fileId === fileId : channel.kind === 'changes');
+  if (channels.length === 0) {
+    throw new Error('No matching watch channels are stored');
+  }
+
+  for (const channel of channels) {
+    const status = await postDriveNotification(address, {
+      channelId: channel.channelId,
+      token: channel.token,
+      resourceId: channel.resourceId,
+      resourceState: option('state') ?? (channel.kind === 'changes' ? 'change' : 'update'),
+      messageNumber: Date.now(),
+      changed: option('changed')?.split(','),
+      expiration: channel.expiresAt,
+    });
+    console.log(`Channel ${channel.channelId} (${channel.kind}${channel.fileId ? ` ${channel.fileId}` : ''}): ${status}`);
+  }
+}
+
+main(process.argv.slice(2)).then(() => process.exit(0), error => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -1,17 +1,64 @@
 import { 
   users, 
+  workspaces,
+  workspaceMembers,
   driveFiles, 
   metadataTemplates, 
   processingJobs,
+  metadataRevisions,
+  driveFolders,
+  googleAccounts,
+  apiTokens,
+  auditEvents,
+  driveSyncStates,
+  driveWatchChannels,
   type User, 
   type InsertUser,
+  type Workspace,
+  type InsertWorkspace,
+  type WorkspaceMember,
+  type InsertWorkspaceMember,
   type DriveFile,
   type InsertDriveFile,
   type MetadataTemplate,
   type InsertMetadataTemplate,
   type ProcessingJob,
-  type InsertProcessingJob
+  type InsertProcessingJob,
+  type MetadataRevision,
+  type InsertMetadataRevision,
+  type DriveFolder,
+  type InsertDriveFolder,
+  type GoogleAccount,
+  type InsertGoogleAccount,
+  type ApiToken,
+  type InsertApiToken,
+  type AuditEvent,
+  type InsertAuditEvent,
+  type AuditEventQuery,
+  type DriveSyncState,
+  type InsertDriveSyncState,
+  type DriveWatchChannel,
+  type InsertDriveWatchChannel,
+  type DriveFileFilter,
+  type DriveFileQuery,
+  type DriveFilePage
 } from "@shared/schema";
+import { and, arrayContains, asc, count, desc, eq, gt, gte, ilike, inArray, isNull, like, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import type pg from "pg";
+import { createDatabase, runMigrations, type Database, type NodePgSchemaDatabase } from "./db";
+import {
+  compareDriveFiles,
+  decodeCursor,
+  encodeCursor,
+  isAfterCursor,
+  matchesDriveFileFilter,
+  resolveLimit,
+  resolveSort,
+  searchTerms
+} from "./file-query";
 
 export interface IStorage {
   // User methods
@@ -19,50 +66,153 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
 
-  // Drive file methods
+  // Workspace methods
+  getWorkspace(id: number): Promise<Workspace | undefined>;
+  getAllWorkspaces(): Promise<Workspace[]>;
+  getWorkspacesForUser(userId: number): Promise<Workspace[]>;
+  createWorkspace(workspace: InsertWorkspace): Promise<Workspace>;
+  updateWorkspace(id: number, updates: Partial<Workspace>): Promise<Workspace | undefined>;
+  getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]>;
+  getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined>;
+  addWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember>;
+  removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean>;
+
+  // Drive file methods; lookups by Drive id or folder are scoped to a workspace
   getDriveFile(id: number): Promise<DriveFile | undefined>;
-  getDriveFileByDriveId(driveId: string): Promise<DriveFile | undefined>;
-  getDriveFilesByFolder(folderId: string): Promise<DriveFile[]>;
-  getAllDriveFiles(): Promise<DriveFile[]>;
+  getDriveFileByDriveId(workspaceId: number, driveId: string): Promise<DriveFile | undefined>;
+  getDriveFilesByFolder(workspaceId: number, folderId: string): Promise<DriveFile[]>; // leaves out files removed from Drive
+  getAllDriveFiles(workspaceId: number): Promise<DriveFile[]>;
+  getDriveFilesByGoogleAccount(googleAccountId: number, driveId: string): Promise<DriveFile[]>; // one per workspace holding the file
+  getWorkspaceIdsWithFolder(googleAccountId: number, folderId: string): Promise<number[]>; // workspaces holding files of the folder
   createDriveFile(file: InsertDriveFile): Promise<DriveFile>;
   updateDriveFile(id: number, updates: Partial<DriveFile>): Promise<DriveFile | undefined>;
   deleteDriveFile(id: number): Promise<boolean>;
+  queryDriveFiles(query: DriveFileQuery): Promise<DriveFilePage>;
+  countDriveFilesByStatus(filter: DriveFileFilter): Promise<Record<string, number>>;
 
   // Metadata template methods
   getMetadataTemplate(id: number): Promise<MetadataTemplate | undefined>;
-  getAllMetadataTemplates(): Promise<MetadataTemplate[]>;
+  getAllMetadataTemplates(workspaceId: number): Promise<MetadataTemplate[]>;
   createMetadataTemplate(template: InsertMetadataTemplate): Promise<MetadataTemplate>;
   updateMetadataTemplate(id: number, updates: Partial<MetadataTemplate>): Promise<MetadataTemplate | undefined>;
   deleteMetadataTemplate(id: number): Promise<boolean>;
-  clearAllMetadataTemplates(): Promise<void>;
+  clearAllMetadataTemplates(workspaceId: number): Promise<void>;
 
   // Processing job methods
   getProcessingJob(id: number): Promise<ProcessingJob | undefined>;
-  getAllProcessingJobs(): Promise<ProcessingJob[]>;
+  getAllProcessingJobs(workspaceId: number): Promise<ProcessingJob[]>;
   createProcessingJob(job: InsertProcessingJob): Promise<ProcessingJob>;
   updateProcessingJob(id: number, updates: Partial<ProcessingJob>): Promise<ProcessingJob | undefined>;
   deleteProcessingJob(id: number): Promise<boolean>;
+
+  // Metadata revision methods (newest first)
+  getMetadataRevision(id: number): Promise<MetadataRevision | undefined>;
+  getMetadataRevisionsByFile(fileId: number): Promise<MetadataRevision[]>;
+  getAllMetadataRevisions(workspaceId: number): Promise<MetadataRevision[]>;
+  createMetadataRevision(revision: InsertMetadataRevision): Promise<MetadataRevision>;
+
+  // Google account methods
+  getGoogleAccount(id: number): Promise<GoogleAccount | undefined>;
+  getGoogleAccountsByUser(userId: number): Promise<GoogleAccount[]>;
+  getGoogleAccountByEmail(userId: number, email: string): Promise<GoogleAccount | undefined>;
+  getAllGoogleAccounts(): Promise<GoogleAccount[]>;
+  createGoogleAccount(account: InsertGoogleAccount): Promise<GoogleAccount>;
+  updateGoogleAccount(id: number, updates: Partial<GoogleAccount>): Promise<GoogleAccount | undefined>;
+  // Also drops the account's folder cache and sync state and unlinks files read through it
+  deleteGoogleAccount(id: number): Promise<boolean>;
+
+  // Drive sync state methods, one per Google account
+  getDriveSyncState(googleAccountId: number): Promise<DriveSyncState | undefined>;
+  saveDriveSyncState(state: InsertDriveSyncState): Promise<DriveSyncState>; // creates or replaces the account's state
+
+  // Drive push notification channel methods
+  getDriveWatchChannels(googleAccountId?: number): Promise<DriveWatchChannel[]>; // every account's when none is given
+  getDriveWatchChannelByChannelId(channelId: string): Promise<DriveWatchChannel | undefined>;
+  createDriveWatchChannel(channel: InsertDriveWatchChannel): Promise<DriveWatchChannel>;
+  updateDriveWatchChannel(id: number, updates: Partial<DriveWatchChannel>): Promise<DriveWatchChannel | undefined>;
+  deleteDriveWatchChannel(id: number): Promise<boolean>;
+
+  // API token methods
+  getApiToken(id: number): Promise<ApiToken | undefined>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  getApiTokensByUser(userId: number): Promise<ApiToken[]>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  updateApiToken(id: number, updates: Partial<ApiToken>): Promise<ApiToken | undefined>;
+  deleteApiToken(id: number): Promise<boolean>;
+
+  // Audit log methods. The log is append-only, so there is no update or delete.
+  createAuditEvent(event: InsertAuditEvent): Promise<AuditEvent>;
+  queryAuditEvents(query: AuditEventQuery): Promise<AuditEvent[]>; // newest first, at most query.limit (default 50)
+
+  // Drive folder cache methods, one cached tree per Google account
+  getDriveFolder(googleAccountId: number, driveId: string): Promise<DriveFolder | undefined>;
+  getAllDriveFolders(googleAccountId: number): Promise<DriveFolder[]>;
+  getDriveFolderChildren(googleAccountId: number, parentDriveId: string): Promise<DriveFolder[]>;
+  getDriveFolderSubtree(googleAccountId: number, driveId: string): Promise<DriveFolder[]>; // the folder and all of its descendants
+  replaceDriveFolders(googleAccountId: number, folders: Omit<InsertDriveFolder, "googleAccountId">[]): Promise<void>;
+
+  // Removes the workspace's files, templates, jobs and revisions
+  clearWorkspaceData(workspaceId: number): Promise<void>;
+
+  // Runs fn with a storage whose writes are all undone if fn throws
+  transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private workspaces: Map<number, Workspace>;
+  private workspaceMembers: Map<number, WorkspaceMember>;
   private driveFiles: Map<number, DriveFile>;
   private metadataTemplates: Map<number, MetadataTemplate>;
   private processingJobs: Map<number, ProcessingJob>;
+  private metadataRevisions: Map<number, MetadataRevision>;
+  private googleAccounts: Map<number, GoogleAccount>;
+  private driveFolders: Map<number, DriveFolder>;
+  private apiTokens: Map<number, ApiToken>;
+  private auditEvents: AuditEvent[];
+  private driveSyncStates: Map<number, DriveSyncState>; // by Google account id
+  private driveWatchChannels: Map<number, DriveWatchChannel>;
   private currentUserId: number;
+  private currentWorkspaceId: number;
+  private currentMemberId: number;
   private currentDriveFileId: number;
   private currentTemplateId: number;
   private currentJobId: number;
+  private currentRevisionId: number;
+  private currentFolderId: number;
+  private currentGoogleAccountId: number;
+  private currentApiTokenId: number;
+  private currentAuditEventId: number;
+  private currentSyncStateId: number;
+  private currentWatchChannelId: number;
 
   constructor() {
     this.users = new Map();
+    this.workspaces = new Map();
+    this.workspaceMembers = new Map();
     this.driveFiles = new Map();
     this.metadataTemplates = new Map();
     this.processingJobs = new Map();
+    this.metadataRevisions = new Map();
+    this.googleAccounts = new Map();
+    this.driveFolders = new Map();
+    this.apiTokens = new Map();
+    this.auditEvents = [];
+    this.driveSyncStates = new Map();
+    this.driveWatchChannels = new Map();
     this.currentUserId = 1;
+    this.currentWorkspaceId = 1;
+    this.currentMemberId = 1;
     this.currentDriveFileId = 1;
     this.currentTemplateId = 1;
     this.currentJobId = 1;
+    this.currentRevisionId = 1;
+    this.currentFolderId = 1;
+    this.currentGoogleAccountId = 1;
+    this.currentApiTokenId = 1;
+    this.currentAuditEventId = 1;
+    this.currentSyncStateId = 1;
+    this.currentWatchChannelId = 1;
   }
 
   // User methods
@@ -81,21 +231,95 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  // Workspace methods
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    return this.workspaces.get(id);
+  }
+
+  async getAllWorkspaces(): Promise<Workspace[]> {
+    return Array.from(this.workspaces.values());
+  }
+
+  async getWorkspacesForUser(userId: number): Promise<Workspace[]> {
+    const workspaceIds = new Set(
+      Array.from(this.workspaceMembers.values())
+        .filter(member => member.userId === userId)
+        .map(member => member.workspaceId)
+    );
+    return Array.from(this.workspaces.values()).filter(workspace => workspaceIds.has(workspace.id));
+  }
+
+  async createWorkspace(insertWorkspace: InsertWorkspace): Promise<Workspace> {
+    const id = this.currentWorkspaceId++;
+    const workspace: Workspace = { ...insertWorkspace, id, exportProfile: null, createdAt: new Date() };
+    this.workspaces.set(id, workspace);
+    return workspace;
+  }
+
+  async updateWorkspace(id: number, updates: Partial<Workspace>): Promise<Workspace | undefined> {
+    const existing = this.workspaces.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates };
+    this.workspaces.set(id, updated);
+    return updated;
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]> {
+    return Array.from(this.workspaceMembers.values()).filter(member => member.workspaceId === workspaceId);
+  }
+
+  async getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+    return Array.from(this.workspaceMembers.values())
+      .find(member => member.workspaceId === workspaceId && member.userId === userId);
+  }
+
+  async addWorkspaceMember(insertMember: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const existing = await this.getWorkspaceMember(insertMember.workspaceId, insertMember.userId);
+    const member: WorkspaceMember = {
+      ...insertMember,
+      id: existing?.id ?? this.currentMemberId++,
+      role: insertMember.role ?? 'viewer',
+      createdAt: existing?.createdAt ?? new Date()
+    };
+    this.workspaceMembers.set(member.id, member);
+    return member;
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean> {
+    const member = await this.getWorkspaceMember(workspaceId, userId);
+    return member ? this.workspaceMembers.delete(member.id) : false;
+  }
+
   // Drive file methods
   async getDriveFile(id: number): Promise<DriveFile | undefined> {
     return this.driveFiles.get(id);
   }
 
-  async getDriveFileByDriveId(driveId: string): Promise<DriveFile | undefined> {
-    return Array.from(this.driveFiles.values()).find(file => file.driveId === driveId);
+  async getDriveFileByDriveId(workspaceId: number, driveId: string): Promise<DriveFile | undefined> {
+    return Array.from(this.driveFiles.values())
+      .find(file => file.workspaceId === workspaceId && file.driveId === driveId);
+  }
+
+  async getDriveFilesByFolder(workspaceId: number, folderId: string): Promise<DriveFile[]> {
+    return Array.from(this.driveFiles.values())
+      .filter(file => file.workspaceId === workspaceId && file.parentFolderId === folderId && !file.removedAt);
   }
 
-  async getDriveFilesByFolder(folderId: string): Promise<DriveFile[]> {
-    return Array.from(this.driveFiles.values()).filter(file => file.parentFolderId === folderId);
+  async getAllDriveFiles(workspaceId: number): Promise<DriveFile[]> {
+    return Array.from(this.driveFiles.values()).filter(file => file.workspaceId === workspaceId);
   }
 
-  async getAllDriveFiles(): Promise<DriveFile[]> {
-    return Array.from(this.driveFiles.values());
+  async getDriveFilesByGoogleAccount(googleAccountId: number, driveId: string): Promise<DriveFile[]> {
+    return Array.from(this.driveFiles.values())
+      .filter(file => file.googleAccountId === googleAccountId && file.driveId === driveId);
+  }
+
+  async getWorkspaceIdsWithFolder(googleAccountId: number, folderId: string): Promise<number[]> {
+    const workspaceIds = Array.from(this.driveFiles.values())
+      .filter(file => file.googleAccountId === googleAccountId && file.parentFolderId === folderId && !file.removedAt)
+      .map(file => file.workspaceId);
+    return Array.from(new Set(workspaceIds));
   }
 
   async createDriveFile(insertFile: InsertDriveFile): Promise<DriveFile> {
@@ -104,13 +328,19 @@ export class MemStorage implements IStorage {
       ...insertFile, 
       id,
       status: insertFile.status ?? 'pending',
+      provider: insertFile.provider ?? 'google_drive',
+      googleAccountId: insertFile.googleAccountId ?? null,
+      sharedDriveId: insertFile.sharedDriveId ?? null,
       parentFolderId: insertFile.parentFolderId ?? null,
       webViewLink: insertFile.webViewLink ?? null,
       thumbnailLink: insertFile.thumbnailLink ?? null,
       processingError: insertFile.processingError ?? null,
+      skipReason: insertFile.skipReason ?? null,
       existingMetadata: insertFile.existingMetadata ?? null,
       aiGeneratedMetadata: insertFile.aiGeneratedMetadata ?? null,
-      customMetadata: insertFile.customMetadata ?? null
+      customMetadata: insertFile.customMetadata ?? null,
+      stale: insertFile.stale ?? false,
+      removedAt: insertFile.removedAt ?? null
     };
     this.driveFiles.set(id, file);
     return file;
@@ -126,16 +356,48 @@ export class MemStorage implements IStorage {
   }
 
   async deleteDriveFile(id: number): Promise<boolean> {
+    for (const revision of Array.from(this.metadataRevisions.values())) {
+      if (revision.fileId === id) this.metadataRevisions.delete(revision.id);
+    }
     return this.driveFiles.delete(id);
   }
 
+  async queryDriveFiles(query: DriveFileQuery): Promise<DriveFilePage> {
+    const sort = resolveSort(query.sort);
+    const limit = resolveLimit(query.limit);
+
+    const matching = Array.from(this.driveFiles.values())
+      .filter(file => matchesDriveFileFilter(file, query))
+      .sort((a, b) => compareDriveFiles(a, b, sort));
+
+    const cursorValues = query.cursor ? decodeCursor(query.cursor, sort) : undefined;
+    const remaining = cursorValues
+      ? matching.filter(file => isAfterCursor(file, cursorValues, sort))
+      : matching;
+
+    const files = remaining.slice(0, limit);
+    const nextCursor = remaining.length > limit ? encodeCursor(files[files.length - 1], sort) : null;
+
+    return { files, nextCursor, total: matching.length };
+  }
+
+  async countDriveFilesByStatus(filter: DriveFileFilter): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    Array.from(this.driveFiles.values())
+      .filter(file => matchesDriveFileFilter(file, filter))
+      .forEach(file => {
+        counts[file.status] = (counts[file.status] || 0) + 1;
+      });
+    return counts;
+  }
+
   // Metadata template methods
   async getMetadataTemplate(id: number): Promise<MetadataTemplate | undefined> {
     return this.metadataTemplates.get(id);
   }
 
-  async getAllMetadataTemplates(): Promise<MetadataTemplate[]> {
-    return Array.from(this.metadataTemplates.values());
+  async getAllMetadataTemplates(workspaceId: number): Promise<MetadataTemplate[]> {
+    return Array.from(this.metadataTemplates.values()).filter(template => template.workspaceId === workspaceId);
   }
 
   async createMetadataTemplate(insertTemplate: InsertMetadataTemplate): Promise<MetadataTemplate> {
@@ -144,6 +406,9 @@ export class MemStorage implements IStorage {
       ...insertTemplate, 
       id, 
       description: insertTemplate.description ?? null,
+      exportProfile: insertTemplate.exportProfile ?? null,
+      llmProvider: insertTemplate.llmProvider ?? null,
+      llmModel: insertTemplate.llmModel ?? null,
       createdAt: new Date() 
     };
     this.metadataTemplates.set(id, template);
@@ -163,8 +428,10 @@ export class MemStorage implements IStorage {
     return this.metadataTemplates.delete(id);
   }
 
-  async clearAllMetadataTemplates(): Promise<void> {
-    this.metadataTemplates.clear();
+  async clearAllMetadataTemplates(workspaceId: number): Promise<void> {
+    for (const template of Array.from(this.metadataTemplates.values())) {
+      if (template.workspaceId === workspaceId) this.metadataTemplates.delete(template.id);
+    }
   }
 
   // Processing job methods
@@ -172,8 +439,8 @@ export class MemStorage implements IStorage {
     return this.processingJobs.get(id);
   }
 
-  async getAllProcessingJobs(): Promise<ProcessingJob[]> {
-    return Array.from(this.processingJobs.values());
+  async getAllProcessingJobs(workspaceId: number): Promise<ProcessingJob[]> {
+    return Array.from(this.processingJobs.values()).filter(job => job.workspaceId === workspaceId);
   }
 
   async createProcessingJob(insertJob: InsertProcessingJob): Promise<ProcessingJob> {
@@ -185,6 +452,9 @@ export class MemStorage implements IStorage {
       templateId: insertJob.templateId ?? null,
       processedFiles: insertJob.processedFiles ?? 0,
       failedFiles: insertJob.failedFiles ?? 0,
+      skippedFiles: insertJob.skippedFiles ?? 0,
+      llmProvider: insertJob.llmProvider ?? null,
+      llmModel: insertJob.llmModel ?? null,
       errorMessage: insertJob.errorMessage ?? null,
       createdAt: new Date(),
       completedAt: null
@@ -205,6 +475,918 @@ export class MemStorage implements IStorage {
   async deleteProcessingJob(id: number): Promise<boolean> {
     return this.processingJobs.delete(id);
   }
+
+  // Metadata revision methods
+  async getMetadataRevision(id: number): Promise<MetadataRevision | undefined> {
+    return this.metadataRevisions.get(id);
+  }
+
+  async getMetadataRevisionsByFile(fileId: number): Promise<MetadataRevision[]> {
+    return Array.from(this.metadataRevisions.values())
+      .filter(revision => revision.fileId === fileId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getAllMetadataRevisions(workspaceId: number): Promise<MetadataRevision[]> {
+    return Array.from(this.metadataRevisions.values())
+      .filter(revision => this.driveFiles.get(revision.fileId)?.workspaceId === workspaceId);
+  }
+
+  async createMetadataRevision(insertRevision: InsertMetadataRevision): Promise<MetadataRevision> {
+    const id = this.currentRevisionId++;
+    const revision: MetadataRevision = {
+      ...insertRevision,
+      id,
+      templateId: insertRevision.templateId ?? null,
+      revertedFromId: insertRevision.revertedFromId ?? null,
+      aiGeneratedMetadata: insertRevision.aiGeneratedMetadata ?? null,
+      customMetadata: insertRevision.customMetadata ?? null,
+      createdAt: insertRevision.createdAt ?? new Date()
+    };
+    this.metadataRevisions.set(id, revision);
+    return revision;
+  }
+
+  // Google account methods
+  async getGoogleAccount(id: number): Promise<GoogleAccount | undefined> {
+    return this.googleAccounts.get(id);
+  }
+
+  async getGoogleAccountsByUser(userId: number): Promise<GoogleAccount[]> {
+    return Array.from(this.googleAccounts.values()).filter(account => account.userId === userId);
+  }
+
+  async getGoogleAccountByEmail(userId: number, email: string): Promise<GoogleAccount | undefined> {
+    return Array.from(this.googleAccounts.values())
+      .find(account => account.userId === userId && account.email === email);
+  }
+
+  async getAllGoogleAccounts(): Promise<GoogleAccount[]> {
+    return Array.from(this.googleAccounts.values());
+  }
+
+  async createGoogleAccount(insertAccount: InsertGoogleAccount): Promise<GoogleAccount> {
+    const id = this.currentGoogleAccountId++;
+    const now = new Date();
+    const account: GoogleAccount = {
+      ...insertAccount,
+      id,
+      name: insertAccount.name ?? null,
+      accessToken: insertAccount.accessToken ?? null,
+      refreshToken: insertAccount.refreshToken ?? null,
+      tokenExpiresAt: insertAccount.tokenExpiresAt ?? null,
+      scope: insertAccount.scope ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.googleAccounts.set(id, account);
+    return account;
+  }
+
+  async updateGoogleAccount(id: number, updates: Partial<GoogleAccount>): Promise<GoogleAccount | undefined> {
+    const existing = this.googleAccounts.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates, id, updatedAt: new Date() };
+    this.googleAccounts.set(id, updated);
+    return updated;
+  }
+
+  async deleteGoogleAccount(id: number): Promise<boolean> {
+    for (const file of Array.from(this.driveFiles.values())) {
+      if (file.googleAccountId === id) {
+        this.driveFiles.set(file.id, { ...file, googleAccountId: null });
+      }
+    }
+    for (const folder of Array.from(this.driveFolders.values())) {
+      if (folder.googleAccountId === id) {
+        this.driveFolders.delete(folder.id);
+      }
+    }
+    this.driveSyncStates.delete(id);
+    for (const channel of Array.from(this.driveWatchChannels.values())) {
+      if (channel.googleAccountId === id) {
+        this.driveWatchChannels.delete(channel.id);
+      }
+    }
+    return this.googleAccounts.delete(id);
+  }
+
+  // Drive sync state methods
+  async getDriveSyncState(googleAccountId: number): Promise<DriveSyncState | undefined> {
+    return this.driveSyncStates.get(googleAccountId);
+  }
+
+  async saveDriveSyncState(insertState: InsertDriveSyncState): Promise<DriveSyncState> {
+    const existing = this.driveSyncStates.get(insertState.googleAccountId);
+    const state: DriveSyncState = {
+      ...insertState,
+      id: existing?.id ?? this.currentSyncStateId++,
+      lastSyncedAt: insertState.lastSyncedAt ?? null,
+      lastError: insertState.lastError ?? null,
+      lastChangeCounts: insertState.lastChangeCounts ?? null,
+      totalChangeCounts: insertState.totalChangeCounts ?? null,
+      createdAt: existing?.createdAt ?? new Date()
+    };
+    this.driveSyncStates.set(state.googleAccountId, state);
+    return state;
+  }
+
+  // Drive push notification channel methods
+  async getDriveWatchChannels(googleAccountId?: number): Promise<DriveWatchChannel[]> {
+    return Array.from(this.driveWatchChannels.values())
+      .filter(channel => googleAccountId === undefined || channel.googleAccountId === googleAccountId);
+  }
+
+  async getDriveWatchChannelByChannelId(channelId: string): Promise<DriveWatchChannel | undefined> {
+    return Array.from(this.driveWatchChannels.values()).find(channel => channel.channelId === channelId);
+  }
+
+  async createDriveWatchChannel(insertChannel: InsertDriveWatchChannel): Promise<DriveWatchChannel> {
+    const id = this.currentWatchChannelId++;
+    const channel: DriveWatchChannel = {
+      ...insertChannel,
+      id,
+      fileId: insertChannel.fileId ?? null,
+      lastNotifiedAt: insertChannel.lastNotifiedAt ?? null,
+      createdAt: new Date()
+    };
+    this.driveWatchChannels.set(id, channel);
+    return channel;
+  }
+
+  async updateDriveWatchChannel(id: number, updates: Partial<DriveWatchChannel>): Promise<DriveWatchChannel | undefined> {
+    const existing = this.driveWatchChannels.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates, id };
+    this.driveWatchChannels.set(id, updated);
+    return updated;
+  }
+
+  async deleteDriveWatchChannel(id: number): Promise<boolean> {
+    return this.driveWatchChannels.delete(id);
+  }
+
+  // API token methods
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    return this.apiTokens.get(id);
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find(token => token.tokenHash === tokenHash);
+  }
+
+  async getApiTokensByUser(userId: number): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values()).filter(token => token.userId === userId);
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const id = this.currentApiTokenId++;
+    const token: ApiToken = {
+      ...insertToken,
+      id,
+      lastUsedAt: insertToken.lastUsedAt ?? null,
+      rotatedAt: insertToken.rotatedAt ?? null,
+      createdAt: new Date()
+    };
+    this.apiTokens.set(id, token);
+    return token;
+  }
+
+  async updateApiToken(id: number, updates: Partial<ApiToken>): Promise<ApiToken | undefined> {
+    const existing = this.apiTokens.get(id);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...updates, id };
+    this.apiTokens.set(id, updated);
+    return updated;
+  }
+
+  async deleteApiToken(id: number): Promise<boolean> {
+    return this.apiTokens.delete(id);
+  }
+
+  // Audit log methods
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const event: AuditEvent = {
+      ...insertEvent,
+      id: this.currentAuditEventId++,
+      workspaceId: insertEvent.workspaceId ?? null,
+      actorUserId: insertEvent.actorUserId ?? null,
+      actorApiTokenId: insertEvent.actorApiTokenId ?? null,
+      before: insertEvent.before ?? null,
+      after: insertEvent.after ?? null,
+      requestId: insertEvent.requestId ?? null,
+      createdAt: new Date()
+    };
+    this.auditEvents.push(event);
+    return event;
+  }
+
+  async queryAuditEvents(query: AuditEventQuery): Promise<AuditEvent[]> {
+    const matches = this.auditEvents.filter(event =>
+      (event.workspaceId === query.workspaceId ||
+        (event.workspaceId === null && query.accountUserId !== undefined && event.actorUserId === query.accountUserId)) &&
+      (!query.actions || (query.actions as string[]).includes(event.action)) &&
+      (query.actorUserId === undefined || event.actorUserId === query.actorUserId) &&
+      (!query.targetType || event.targetType === query.targetType) &&
+      (!query.targetId || event.targetIds.includes(query.targetId)) &&
+      (!query.requestId || event.requestId === query.requestId) &&
+      (!query.after || event.createdAt >= query.after) &&
+      (!query.before || event.createdAt < query.before) &&
+      (query.cursor === undefined || event.id < query.cursor)
+    );
+    return matches.reverse().slice(0, query.limit ?? 50);
+  }
+
+  // Drive folder cache methods
+  async getDriveFolder(googleAccountId: number, driveId: string): Promise<DriveFolder | undefined> {
+    return Array.from(this.driveFolders.values())
+      .find(folder => folder.googleAccountId === googleAccountId && folder.driveId === driveId);
+  }
+
+  async getAllDriveFolders(googleAccountId: number): Promise<DriveFolder[]> {
+    return Array.from(this.driveFolders.values())
+      .filter(folder => folder.googleAccountId === googleAccountId)
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  async getDriveFolderChildren(googleAccountId: number, parentDriveId: string): Promise<DriveFolder[]> {
+    return Array.from(this.driveFolders.values())
+      .filter(folder => folder.googleAccountId === googleAccountId && folder.parentDriveId === parentDriveId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getDriveFolderSubtree(googleAccountId: number, driveId: string): Promise<DriveFolder[]> {
+    if (driveId === "root") return this.getAllDriveFolders(googleAccountId);
+
+    const folder = await this.getDriveFolder(googleAccountId, driveId);
+    if (!folder) return [];
+
+    return (await this.getAllDriveFolders(googleAccountId))
+      .filter(other => other.driveId === driveId || other.idPath.startsWith(`${folder.idPath}/`));
+  }
+
+  async replaceDriveFolders(googleAccountId: number, folders: Omit<InsertDriveFolder, "googleAccountId">[]): Promise<void> {
+    const syncedAt = new Date();
+    for (const folder of await this.getAllDriveFolders(googleAccountId)) {
+      this.driveFolders.delete(folder.id);
+    }
+    for (const folder of folders) {
+      const id = this.currentFolderId++;
+      this.driveFolders.set(id, { ...folder, googleAccountId, id, syncedAt, sharedDriveId: folder.sharedDriveId ?? null });
+    }
+  }
+
+  async clearWorkspaceData(workspaceId: number): Promise<void> {
+    for (const file of await this.getAllDriveFiles(workspaceId)) {
+      await this.deleteDriveFile(file.id);
+    }
+    for (const job of await this.getAllProcessingJobs(workspaceId)) {
+      this.processingJobs.delete(job.id);
+    }
+    await this.clearAllMetadataTemplates(workspaceId);
+  }
+
+  // Puts every collection and id counter back if fn throws. Writes other
+  // requests made in the meantime are undone as well, which is acceptable
+  // for the single-process development backend.
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    const snapshot: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(this)) {
+      snapshot[key] = value instanceof Map ? new Map(value) : Array.isArray(value) ? [...value] : value;
+    }
+
+    try {
+      return await fn(this);
+    } catch (error) {
+      Object.assign(this, snapshot);
+      throw error;
+    }
+  }
+}
+
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, "\\$&");
 }
 
-export const storage = new MemStorage();
\ No newline at end of file
+// ILIKE pattern matching the text anywhere, with LIKE wildcards escaped
+function containsPattern(text: string): string {
+  return `%${escapeLikePattern(text)}%`;
+}
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Workspace methods
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    const [workspace] = await this.db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace;
+  }
+
+  async getAllWorkspaces(): Promise<Workspace[]> {
+    return await this.db.select().from(workspaces).orderBy(workspaces.id);
+  }
+
+  async getWorkspacesForUser(userId: number): Promise<Workspace[]> {
+    const rows = await this.db.select({ workspace: workspaces })
+      .from(workspaces)
+      .innerJoin(workspaceMembers, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(workspaces.id);
+    return rows.map(row => row.workspace);
+  }
+
+  async createWorkspace(insertWorkspace: InsertWorkspace): Promise<Workspace> {
+    const [workspace] = await this.db.insert(workspaces).values(insertWorkspace).returning();
+    return workspace;
+  }
+
+  async updateWorkspace(id: number, updates: Partial<Workspace>): Promise<Workspace | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getWorkspace(id);
+
+    const [updated] = await this.db.update(workspaces).set(values).where(eq(workspaces.id, id)).returning();
+    return updated;
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]> {
+    return await this.db.select().from(workspaceMembers)
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(workspaceMembers.id);
+  }
+
+  async getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+    const [member] = await this.db.select().from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member;
+  }
+
+  async addWorkspaceMember(insertMember: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const [member] = await this.db.insert(workspaceMembers).values(insertMember)
+      .onConflictDoUpdate({
+        target: [workspaceMembers.workspaceId, workspaceMembers.userId],
+        set: { role: insertMember.role ?? 'viewer' }
+      })
+      .returning();
+    return member;
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean> {
+    const deleted = await this.db.delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning({ id: workspaceMembers.id });
+    return deleted.length > 0;
+  }
+
+  // Drive file methods
+  async getDriveFile(id: number): Promise<DriveFile | undefined> {
+    const [file] = await this.db.select().from(driveFiles).where(eq(driveFiles.id, id));
+    return file;
+  }
+
+  async getDriveFileByDriveId(workspaceId: number, driveId: string): Promise<DriveFile | undefined> {
+    const [file] = await this.db.select().from(driveFiles)
+      .where(and(eq(driveFiles.workspaceId, workspaceId), eq(driveFiles.driveId, driveId)));
+    return file;
+  }
+
+  async getDriveFilesByFolder(workspaceId: number, folderId: string): Promise<DriveFile[]> {
+    return await this.db.select().from(driveFiles).where(and(
+      eq(driveFiles.workspaceId, workspaceId),
+      eq(driveFiles.parentFolderId, folderId),
+      isNull(driveFiles.removedAt)
+    ));
+  }
+
+  async getAllDriveFiles(workspaceId: number): Promise<DriveFile[]> {
+    return await this.db.select().from(driveFiles).where(eq(driveFiles.workspaceId, workspaceId));
+  }
+
+  async getDriveFilesByGoogleAccount(googleAccountId: number, driveId: string): Promise<DriveFile[]> {
+    return await this.db.select().from(driveFiles)
+      .where(and(eq(driveFiles.googleAccountId, googleAccountId), eq(driveFiles.driveId, driveId)));
+  }
+
+  async getWorkspaceIdsWithFolder(googleAccountId: number, folderId: string): Promise<number[]> {
+    const rows = await this.db.selectDistinct({ workspaceId: driveFiles.workspaceId }).from(driveFiles).where(and(
+      eq(driveFiles.googleAccountId, googleAccountId),
+      eq(driveFiles.parentFolderId, folderId),
+      isNull(driveFiles.removedAt)
+    ));
+    return rows.map(row => row.workspaceId);
+  }
+
+  async createDriveFile(insertFile: InsertDriveFile): Promise<DriveFile> {
+    const [file] = await this.db.insert(driveFiles).values(insertFile).returning();
+    return file;
+  }
+
+  async updateDriveFile(id: number, updates: Partial<DriveFile>): Promise<DriveFile | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getDriveFile(id);
+
+    const [updated] = await this.db.update(driveFiles).set(values).where(eq(driveFiles.id, id)).returning();
+    return updated;
+  }
+
+  async deleteDriveFile(id: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(metadataRevisions).where(eq(metadataRevisions.fileId, id));
+      const deleted = await tx.delete(driveFiles).where(eq(driveFiles.id, id)).returning({ id: driveFiles.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async queryDriveFiles(query: DriveFileQuery): Promise<DriveFilePage> {
+    const sort = resolveSort(query.sort);
+    const limit = resolveLimit(query.limit);
+    const filter = this.buildDriveFileFilter(query);
+
+    const conditions = filter ? [filter] : [];
+    if (query.cursor) {
+      const cursorValues = decodeCursor(query.cursor, sort);
+      // Keyset condition: (k1 > v1) OR (k1 = v1 AND k2 > v2) OR ...
+      const clauses = sort.map((key, index) => {
+        const column = driveFiles[key.field];
+        const equalities = sort.slice(0, index).map((previous, i) => eq(driveFiles[previous.field], cursorValues[i]));
+        const comparison = key.direction === "asc" ? gt(column, cursorValues[index]) : lt(column, cursorValues[index]);
+        return and(...equalities, comparison);
+      });
+      conditions.push(or(...clauses)!);
+    }
+
+    const rows = await this.db
+      .select()
+      .from(driveFiles)
+      .where(and(...conditions))
+      .orderBy(...sort.map(key => key.direction === "asc" ? sql`${driveFiles[key.field]} asc` : sql`${driveFiles[key.field]} desc`))
+      .limit(limit + 1);
+
+    const [{ total }] = await this.db.select({ total: count() }).from(driveFiles).where(filter);
+
+    const files = rows.slice(0, limit);
+    const nextCursor = rows.length > limit ? encodeCursor(files[files.length - 1], sort) : null;
+
+    return { files, nextCursor, total };
+  }
+
+  async countDriveFilesByStatus(filter: DriveFileFilter): Promise<Record<string, number>> {
+    const rows = await this.db
+      .select({ status: driveFiles.status, total: count() })
+      .from(driveFiles)
+      .where(this.buildDriveFileFilter(filter))
+      .groupBy(driveFiles.status);
+
+    return Object.fromEntries(rows.map(row => [row.status, row.total]));
+  }
+
+  // SQL equivalent of matchesDriveFileFilter in file-query.ts
+  private buildDriveFileFilter(filter: DriveFileFilter): SQL | undefined {
+    const conditions: (SQL | undefined)[] = [];
+    const metadata = driveFiles.aiGeneratedMetadata;
+
+    if (filter.workspaceId !== undefined) conditions.push(eq(driveFiles.workspaceId, filter.workspaceId));
+    if (filter.types?.length) conditions.push(inArray(driveFiles.type, filter.types));
+    if (filter.statuses?.length) conditions.push(inArray(driveFiles.status, filter.statuses));
+    if (filter.folderIds?.length) conditions.push(inArray(driveFiles.parentFolderId, filter.folderIds));
+    if (filter.createdAfter) conditions.push(gte(driveFiles.createdTime, filter.createdAfter));
+    if (filter.createdBefore) conditions.push(lte(driveFiles.createdTime, filter.createdBefore));
+    if (filter.modifiedAfter) conditions.push(gte(driveFiles.modifiedTime, filter.modifiedAfter));
+    if (filter.modifiedBefore) conditions.push(lte(driveFiles.modifiedTime, filter.modifiedBefore));
+    if (filter.stale !== undefined) conditions.push(eq(driveFiles.stale, filter.stale));
+    if (!filter.includeRemoved) conditions.push(isNull(driveFiles.removedAt));
+
+    if (filter.hasAiMetadata !== undefined) {
+      const present = sql`(${metadata} is not null and jsonb_typeof(${metadata}) = 'object' and ${metadata} <> '{}'::jsonb)`;
+      conditions.push(filter.hasAiMetadata ? present : sql`not ${present}`);
+    }
+
+    const terms = searchTerms(filter.search);
+    if (terms.length > 0) {
+      conditions.push(or(...terms.map(term => {
+        const pattern = containsPattern(term);
+        return or(
+          ilike(driveFiles.name, pattern),
+          ilike(driveFiles.type, pattern),
+          ilike(driveFiles.mimeType, pattern),
+          sql`coalesce(${metadata}::text, '') ilike ${pattern}`,
+          sql`coalesce(${driveFiles.existingMetadata}::text, '') ilike ${pattern}`
+        );
+      })));
+    }
+
+    for (const predicate of filter.metadata || []) {
+      const value = predicate.value ?? "";
+      switch (predicate.op) {
+        case "exists":
+          conditions.push(sql`coalesce(jsonb_exists(${metadata}, ${predicate.field}), false)`);
+          break;
+        case "missing":
+          conditions.push(sql`not coalesce(jsonb_exists(${metadata}, ${predicate.field}), false)`);
+          break;
+        case "eq":
+          conditions.push(sql`(
+            (jsonb_typeof(${metadata} -> ${predicate.field}) not in ('object', 'array') and ${metadata} ->> ${predicate.field} = ${value})
+            or (jsonb_typeof(${metadata} -> ${predicate.field}) = 'array' and ${metadata} -> ${predicate.field} @> jsonb_build_array(${value}::text))
+          )`);
+          break;
+        case "contains":
+          conditions.push(sql`${metadata} ->> ${predicate.field} ilike ${containsPattern(value)}`);
+          break;
+      }
+    }
+
+    return conditions.length > 0 ? and(...conditions) : undefined;
+  }
+
+  // Metadata template methods
+  async getMetadataTemplate(id: number): Promise<MetadataTemplate | undefined> {
+    const [template] = await this.db.select().from(metadataTemplates).where(eq(metadataTemplates.id, id));
+    return template;
+  }
+
+  async getAllMetadataTemplates(workspaceId: number): Promise<MetadataTemplate[]> {
+    return await this.db.select().from(metadataTemplates)
+      .where(eq(metadataTemplates.workspaceId, workspaceId))
+      .orderBy(metadataTemplates.id);
+  }
+
+  async createMetadataTemplate(insertTemplate: InsertMetadataTemplate): Promise<MetadataTemplate> {
+    const [template] = await this.db.insert(metadataTemplates).values(insertTemplate).returning();
+    return template;
+  }
+
+  async updateMetadataTemplate(id: number, updates: Partial<MetadataTemplate>): Promise<MetadataTemplate | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getMetadataTemplate(id);
+
+    const [updated] = await this.db.update(metadataTemplates).set(values).where(eq(metadataTemplates.id, id)).returning();
+    return updated;
+  }
+
+  async deleteMetadataTemplate(id: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      // Jobs keep their history when the template they ran with goes away
+      await tx.update(processingJobs).set({ templateId: null }).where(eq(processingJobs.templateId, id));
+      await tx.update(metadataRevisions).set({ templateId: null }).where(eq(metadataRevisions.templateId, id));
+      const deleted = await tx.delete(metadataTemplates).where(eq(metadataTemplates.id, id)).returning({ id: metadataTemplates.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async clearAllMetadataTemplates(workspaceId: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const workspaceTemplateIds = tx.select({ id: metadataTemplates.id })
+        .from(metadataTemplates)
+        .where(eq(metadataTemplates.workspaceId, workspaceId));
+      await tx.update(processingJobs).set({ templateId: null }).where(inArray(processingJobs.templateId, workspaceTemplateIds));
+      await tx.update(metadataRevisions).set({ templateId: null }).where(inArray(metadataRevisions.templateId, workspaceTemplateIds));
+      await tx.delete(metadataTemplates).where(eq(metadataTemplates.workspaceId, workspaceId));
+    });
+  }
+
+  // Processing job methods
+  async getProcessingJob(id: number): Promise<ProcessingJob | undefined> {
+    const [job] = await this.db.select().from(processingJobs).where(eq(processingJobs.id, id));
+    return job;
+  }
+
+  async getAllProcessingJobs(workspaceId: number): Promise<ProcessingJob[]> {
+    return await this.db.select().from(processingJobs)
+      .where(eq(processingJobs.workspaceId, workspaceId))
+      .orderBy(processingJobs.id);
+  }
+
+  async createProcessingJob(insertJob: InsertProcessingJob): Promise<ProcessingJob> {
+    const [job] = await this.db.insert(processingJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateProcessingJob(id: number, updates: Partial<ProcessingJob>): Promise<ProcessingJob | undefined> {
+    const { id: _id, ...values } = updates;
+    if (Object.keys(values).length === 0) return this.getProcessingJob(id);
+
+    const [updated] = await this.db.update(processingJobs).set(values).where(eq(processingJobs.id, id)).returning();
+    return updated;
+  }
+
+  async deleteProcessingJob(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(processingJobs).where(eq(processingJobs.id, id)).returning({ id: processingJobs.id });
+    return deleted.length > 0;
+  }
+
+  // Metadata revision methods
+  async getMetadataRevision(id: number): Promise<MetadataRevision | undefined> {
+    const [revision] = await this.db.select().from(metadataRevisions).where(eq(metadataRevisions.id, id));
+    return revision;
+  }
+
+  async getMetadataRevisionsByFile(fileId: number): Promise<MetadataRevision[]> {
+    return await this.db.select().from(metadataRevisions)
+      .where(eq(metadataRevisions.fileId, fileId))
+      .orderBy(desc(metadataRevisions.id));
+  }
+
+  async getAllMetadataRevisions(workspaceId: number): Promise<MetadataRevision[]> {
+    const rows = await this.db.select({ revision: metadataRevisions })
+      .from(metadataRevisions)
+      .innerJoin(driveFiles, eq(driveFiles.id, metadataRevisions.fileId))
+      .where(eq(driveFiles.workspaceId, workspaceId))
+      .orderBy(metadataRevisions.id);
+    return rows.map(row => row.revision);
+  }
+
+  async createMetadataRevision(insertRevision: InsertMetadataRevision): Promise<MetadataRevision> {
+    const [revision] = await this.db.insert(metadataRevisions).values(insertRevision).returning();
+    return revision;
+  }
+
+  // Google account methods
+  async getGoogleAccount(id: number): Promise<GoogleAccount | undefined> {
+    const [account] = await this.db.select().from(googleAccounts).where(eq(googleAccounts.id, id));
+    return account;
+  }
+
+  async getGoogleAccountsByUser(userId: number): Promise<GoogleAccount[]> {
+    return await this.db.select().from(googleAccounts)
+      .where(eq(googleAccounts.userId, userId))
+      .orderBy(googleAccounts.id);
+  }
+
+  async getGoogleAccountByEmail(userId: number, email: string): Promise<GoogleAccount | undefined> {
+    const [account] = await this.db.select().from(googleAccounts)
+      .where(and(eq(googleAccounts.userId, userId), eq(googleAccounts.email, email)));
+    return account;
+  }
+
+  async getAllGoogleAccounts(): Promise<GoogleAccount[]> {
+    return await this.db.select().from(googleAccounts).orderBy(googleAccounts.id);
+  }
+
+  async createGoogleAccount(insertAccount: InsertGoogleAccount): Promise<GoogleAccount> {
+    const [account] = await this.db.insert(googleAccounts).values(insertAccount).returning();
+    return account;
+  }
+
+  async updateGoogleAccount(id: number, updates: Partial<GoogleAccount>): Promise<GoogleAccount | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [account] = await this.db.update(googleAccounts)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(googleAccounts.id, id))
+      .returning();
+    return account;
+  }
+
+  async deleteGoogleAccount(id: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      await tx.update(driveFiles).set({ googleAccountId: null }).where(eq(driveFiles.googleAccountId, id));
+      await tx.delete(driveFolders).where(eq(driveFolders.googleAccountId, id));
+      await tx.delete(driveSyncStates).where(eq(driveSyncStates.googleAccountId, id));
+      await tx.delete(driveWatchChannels).where(eq(driveWatchChannels.googleAccountId, id));
+      const deleted = await tx.delete(googleAccounts).where(eq(googleAccounts.id, id)).returning({ id: googleAccounts.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Drive sync state methods
+  async getDriveSyncState(googleAccountId: number): Promise<DriveSyncState | undefined> {
+    const [state] = await this.db.select().from(driveSyncStates)
+      .where(eq(driveSyncStates.googleAccountId, googleAccountId));
+    return state;
+  }
+
+  async saveDriveSyncState(insertState: InsertDriveSyncState): Promise<DriveSyncState> {
+    const { googleAccountId: _googleAccountId, ...changes } = insertState;
+    const [state] = await this.db.insert(driveSyncStates)
+      .values(insertState)
+      .onConflictDoUpdate({ target: driveSyncStates.googleAccountId, set: changes })
+      .returning();
+    return state;
+  }
+
+  // Drive push notification channel methods
+  async getDriveWatchChannels(googleAccountId?: number): Promise<DriveWatchChannel[]> {
+    return await this.db.select().from(driveWatchChannels)
+      .where(googleAccountId === undefined ? undefined : eq(driveWatchChannels.googleAccountId, googleAccountId))
+      .orderBy(driveWatchChannels.id);
+  }
+
+  async getDriveWatchChannelByChannelId(channelId: string): Promise<DriveWatchChannel | undefined> {
+    const [channel] = await this.db.select().from(driveWatchChannels).where(eq(driveWatchChannels.channelId, channelId));
+    return channel;
+  }
+
+  async createDriveWatchChannel(insertChannel: InsertDriveWatchChannel): Promise<DriveWatchChannel> {
+    const [channel] = await this.db.insert(driveWatchChannels).values(insertChannel).returning();
+    return channel;
+  }
+
+  async updateDriveWatchChannel(id: number, updates: Partial<DriveWatchChannel>): Promise<DriveWatchChannel | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [channel] = await this.db.update(driveWatchChannels)
+      .set(changes)
+      .where(eq(driveWatchChannels.id, id))
+      .returning();
+    return channel;
+  }
+
+  async deleteDriveWatchChannel(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(driveWatchChannels).where(eq(driveWatchChannels.id, id)).returning({ id: driveWatchChannels.id });
+    return deleted.length > 0;
+  }
+
+  // API token methods
+  async getApiToken(id: number): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.id, id));
+    return token;
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    const [token] = await this.db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getApiTokensByUser(userId: number): Promise<ApiToken[]> {
+    return await this.db.select().from(apiTokens)
+      .where(eq(apiTokens.userId, userId))
+      .orderBy(apiTokens.id);
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const [token] = await this.db.insert(apiTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async updateApiToken(id: number, updates: Partial<ApiToken>): Promise<ApiToken | undefined> {
+    const { id: _id, ...changes } = updates;
+    const [token] = await this.db.update(apiTokens)
+      .set(changes)
+      .where(eq(apiTokens.id, id))
+      .returning();
+    return token;
+  }
+
+  async deleteApiToken(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(apiTokens).where(eq(apiTokens.id, id)).returning({ id: apiTokens.id });
+    return deleted.length > 0;
+  }
+
+  // Audit log methods
+  async createAuditEvent(insertEvent: InsertAuditEvent): Promise<AuditEvent> {
+    const [event] = await this.db.insert(auditEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async queryAuditEvents(query: AuditEventQuery): Promise<AuditEvent[]> {
+    const scope = query.workspaceId !== undefined ? eq(auditEvents.workspaceId, query.workspaceId) : sql`false`;
+    const conditions: (SQL | undefined)[] = [
+      query.accountUserId !== undefined
+        ? or(scope, and(isNull(auditEvents.workspaceId), eq(auditEvents.actorUserId, query.accountUserId)))
+        : scope,
+      query.actions ? inArray(auditEvents.action, query.actions) : undefined,
+      query.actorUserId !== undefined ? eq(auditEvents.actorUserId, query.actorUserId) : undefined,
+      query.targetType ? eq(auditEvents.targetType, query.targetType) : undefined,
+      query.targetId ? arrayContains(auditEvents.targetIds, [query.targetId]) : undefined,
+      query.requestId ? eq(auditEvents.requestId, query.requestId) : undefined,
+      query.after ? gte(auditEvents.createdAt, query.after) : undefined,
+      query.before ? lt(auditEvents.createdAt, query.before) : undefined,
+      query.cursor !== undefined ? lt(auditEvents.id, query.cursor) : undefined,
+    ];
+
+    return await this.db.select().from(auditEvents)
+      .where(and(...conditions))
+      .orderBy(desc(auditEvents.id))
+      .limit(query.limit ?? 50);
+  }
+
+  // Drive folder cache methods
+  async getDriveFolder(googleAccountId: number, driveId: string): Promise<DriveFolder | undefined> {
+    const [folder] = await this.db.select().from(driveFolders)
+      .where(and(eq(driveFolders.googleAccountId, googleAccountId), eq(driveFolders.driveId, driveId)));
+    return folder;
+  }
+
+  async getAllDriveFolders(googleAccountId: number): Promise<DriveFolder[]> {
+    return await this.db.select().from(driveFolders)
+      .where(eq(driveFolders.googleAccountId, googleAccountId))
+      .orderBy(asc(driveFolders.path));
+  }
+
+  async getDriveFolderChildren(googleAccountId: number, parentDriveId: string): Promise<DriveFolder[]> {
+    return await this.db.select().from(driveFolders)
+      .where(and(eq(driveFolders.googleAccountId, googleAccountId), eq(driveFolders.parentDriveId, parentDriveId)))
+      .orderBy(asc(driveFolders.name));
+  }
+
+  async getDriveFolderSubtree(googleAccountId: number, driveId: string): Promise<DriveFolder[]> {
+    if (driveId === "root") return this.getAllDriveFolders(googleAccountId);
+
+    const folder = await this.getDriveFolder(googleAccountId, driveId);
+    if (!folder) return [];
+
+    return await this.db.select().from(driveFolders).where(and(
+      eq(driveFolders.googleAccountId, googleAccountId),
+      or(
+        eq(driveFolders.driveId, driveId),
+        like(driveFolders.idPath, `${escapeLikePattern(folder.idPath)}/%`)
+      )
+    ));
+  }
+
+  async replaceDriveFolders(googleAccountId: number, folders: Omit<InsertDriveFolder, "googleAccountId">[]): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx.delete(driveFolders).where(eq(driveFolders.googleAccountId, googleAccountId));
+      // Stay well under Postgres' bind parameter limit on large drives
+      for (let i = 0; i < folders.length; i += 1000) {
+        const batch = folders.slice(i, i + 1000).map(folder => ({ ...folder, googleAccountId }));
+        await tx.insert(driveFolders).values(batch);
+      }
+    });
+  }
+
+  async clearWorkspaceData(workspaceId: number): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const workspaceFileIds = tx.select({ id: driveFiles.id })
+        .from(driveFiles)
+        .where(eq(driveFiles.workspaceId, workspaceId));
+      await tx.delete(metadataRevisions).where(inArray(metadataRevisions.fileId, workspaceFileIds));
+      await tx.delete(processingJobs).where(eq(processingJobs.workspaceId, workspaceId));
+      await tx.delete(driveFiles).where(eq(driveFiles.workspaceId, workspaceId));
+      await tx.delete(metadataTemplates).where(eq(metadataTemplates.workspaceId, workspaceId));
+    });
+  }
+
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    return await this.db.transaction(tx => fn(new DbStorage(tx)));
+  }
+}
+
+// STORAGE_BACKEND=memory|database picks the backend explicitly; otherwise we use
+// Postgres whenever DATABASE_URL is configured.
+function resolveStorageBackend(): "memory" | "database" {
+  const backend = process.env.STORAGE_BACKEND;
+  if (backend === "memory" || backend === "database") {
+    return backend;
+  }
+  if (backend) {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}", expected "memory" or "database"`);
+  }
+  return process.env.DATABASE_URL ? "database" : "memory";
+}
+
+let database: NodePgSchemaDatabase | undefined;
+let databasePool: pg.Pool | undefined;
+
+function createStorage(): IStorage {
+  if (resolveStorageBackend() === "memory") {
+    return new MemStorage();
+  }
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("STORAGE_BACKEND=database requires DATABASE_URL");
+  }
+
+  const { db, pool } = createDatabase(process.env.DATABASE_URL);
+  database = db;
+  databasePool = pool;
+  return new DbStorage(database);
+}
+
+export const storage = createStorage();
+
+// Applies pending migrations when running against Postgres; no-op in memory mode.
+export async function initStorage(): Promise<void> {
+  if (database) {
+    await runMigrations(database);
+  }
+}
+
+// Login sessions live in the session table next to the rest of the data, or in
+// process memory (pruned daily) when running without a database.
+export function createSessionStore(): session.Store {
+  if (databasePool) {
+    const PostgresStore = connectPg(session);
+    return new PostgresStore({ pool: databasePool, tableName: "session" });
+  }
+
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
@@ -0,0 +1,126 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ApiTokenScope, PublicApiToken } from "@shared/schema";
+import { ApiClient, startTestServer, type TestServer } from "./test-server";
+
+process.env.STORAGE_BACKEND = "memory";
+
+describe("personal API tokens", () => {
+  let server: TestServer;
+  let owner: ApiClient;
+
+  const createToken = async (name: string, scopes: ApiTokenScope[]) => {
+    const { status, body } = await owner.request<PublicApiToken>("POST", "/api/tokens", { name, scopes });
+    assert.equal(status, 201);
+    return body;
+  };
+
+  // A client that sends only the bearer token, no session cookie
+  const withToken = (token: string) => {
+    const client = new ApiClient(server.baseUrl);
+    client.headers.authorization = `Bearer ${token}`;
+    return client;
+  };
+
+  before(async () => {
+    server = await startTestServer();
+    owner = new ApiClient(server.baseUrl);
+    assert.equal((await owner.request("POST", "/api/register", { username: "scripter", password: "scripter-password" })).status, 201);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("shows the secret only when a token is created", async () => {
+    const created = await createToken("CI", ["process"]);
+    assert.match(created.token!, /^mde_/);
+    assert.equal(created.tokenPrefix, created.token!.slice(0, 12));
+
+    const { body: listed } = await owner.request<PublicApiToken[]>("GET", "/api/tokens");
+    const token = listed.find(candidate => candidate.id === created.id)!;
+    assert.deepEqual(token.scopes, ["process"]);
+    assert.equal("token" in token, false);
+    assert.equal("tokenHash" in token, false);
+
+    assert.equal((await owner.request("POST", "/api/tokens", { name: "No scopes", scopes: [] })).status, 400);
+    assert.equal((await owner.request("POST", "/api/tokens", { name: "Bad scope", scopes: ["root"] })).status, 400);
+  });
+
+  it("authenticates bearer requests as the token's owner and records when it was used", async () => {
+    const { storage } = await import("../storage");
+    const created = await createToken("Reader", ["read-only"]);
+    assert.equal((await storage.getApiToken(created.id))!.lastUsedAt, null);
+
+    const user = await withToken(created.token!).request("GET", "/api/user");
+    assert.equal(user.status, 200);
+    assert.equal(user.body.username, "scripter");
+    assert.ok((await storage.getApiToken(created.id))!.lastUsedAt);
+
+    const invalid = await withToken("mde_not-a-real-token").request("GET", "/api/templates");
+    assert.equal(invalid.status, 401);
+    assert.equal(invalid.body.message, "Invalid API token");
+  });
+
+  it("limits each token to the route groups its scopes cover", async () => {
+    const reader = withToken((await createToken("Read only", ["read-only"])).token!);
+    const processor = withToken((await createToken("Processing", ["process"])).token!);
+    const exporter = withToken((await createToken("Exports", ["export"])).token!);
+    const admin = withToken((await createToken("Everything", ["admin"])).token!);
+    const template = { name: "Photos", fields: [] };
+
+    assert.equal((await reader.request("GET", "/api/templates")).status, 200);
+    const refused = await reader.request("POST", "/api/templates", template);
+    assert.equal(refused.status, 403);
+    assert.equal(refused.body.message, 'This API token needs the "process" scope');
+    assert.equal((await reader.request("GET", "/api/tokens")).status, 403);
+
+    assert.equal((await processor.request("POST", "/api/templates", template)).status, 200);
+    assert.equal((await processor.request("DELETE", "/api/templates/clear")).status, 200);
+    assert.equal((await processor.request("POST", "/api/export/bulk", { fileIds: [] })).status, 403);
+    assert.equal((await processor.request("POST", "/api/workspaces", { name: "Scripted" })).status, 403);
+
+    // Past the scope check, the empty list is what gets refused
+    assert.equal((await exporter.request("POST", "/api/export/bulk", { fileIds: [] })).status, 400);
+    assert.equal((await exporter.request("POST", "/api/templates", template)).status, 403);
+
+    assert.equal((await admin.request("POST", "/api/templates", template)).status, 200);
+    assert.equal((await admin.request("GET", "/api/tokens")).status, 200);
+    assert.equal((await admin.request("POST", "/api/workspaces", { name: "Scripted" })).status, 201);
+  });
+
+  it("stops accepting the old secret once a token is rotated", async () => {
+    const created = await createToken("Rotating", ["read-only"]);
+    await withToken(created.token!).request("GET", "/api/templates");
+
+    const rotated = await owner.request<PublicApiToken>("POST", `/api/tokens/${created.id}/rotate`);
+    assert.equal(rotated.status, 200);
+    assert.notEqual(rotated.body.token, created.token);
+    assert.equal(rotated.body.name, "Rotating");
+    assert.deepEqual(rotated.body.scopes, ["read-only"]);
+    assert.equal(rotated.body.lastUsedAt, null);
+    assert.ok(rotated.body.rotatedAt);
+
+    assert.equal((await withToken(created.token!).request("GET", "/api/templates")).status, 401);
+    assert.equal((await withToken(rotated.body.token!).request("GET", "/api/templates")).status, 200);
+  });
+
+  it("rejects a revoked token", async () => {
+    const created = await createToken("Revoked", ["read-only"]);
+    assert.equal((await owner.request("DELETE", `/api/tokens/${created.id}`)).status, 200);
+    assert.equal((await withToken(created.token!).request("GET", "/api/templates")).status, 401);
+    assert.equal((await owner.request("DELETE", `/api/tokens/${created.id}`)).status, 404);
+  });
+
+  it("keeps tokens private to their owner", async () => {
+    const created = await createToken("Mine", ["read-only"]);
+    const other = new ApiClient(server.baseUrl);
+    assert.equal((await other.request("POST", "/api/register", { username: "someone-else", password: "someone-password" })).status, 201);
+
+    const { body: listed } = await other.request<PublicApiToken[]>("GET", "/api/tokens");
+    assert.deepEqual(listed, []);
+    assert.equal((await other.request("POST", `/api/tokens/${created.id}/rotate`)).status, 404);
+    assert.equal((await other.request("DELETE", `/api/tokens/${created.id}`)).status, 404);
+    assert.equal((await withToken(created.token!).request("GET", "/api/templates")).status, 200);
+  });
+});
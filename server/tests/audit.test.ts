@@ -0,0 +1,122 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { AuditEventPage, PublicApiToken, Workspace } from "@shared/schema";
+import { ApiClient, startTestServer, type TestServer } from "./test-server";
+
+process.env.STORAGE_BACKEND = "memory";
+
+describe("the audit log", () => {
+  let server: TestServer;
+  let admin: ApiClient;
+  let workspace: Workspace;
+
+  const audit = async (client: ApiClient, query = "") => {
+    const { status, body } = await client.request<AuditEventPage>("GET", `/api/audit${query}`);
+    assert.equal(status, 200);
+    return body;
+  };
+
+  before(async () => {
+    server = await startTestServer();
+    admin = new ApiClient(server.baseUrl);
+    assert.equal((await admin.request("POST", "/api/register", { username: "auditor", password: "auditor-password" })).status, 201);
+    workspace = (await admin.request<Workspace>("POST", "/api/workspaces", { name: "Audited" })).body;
+    admin.headers["X-Workspace-Id"] = String(workspace.id);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("records who changed a file's metadata, before and after, under the request's id", async () => {
+    const { storage } = await import("../storage");
+    const file = await storage.createDriveFile({
+      workspaceId: workspace.id,
+      driveId: "drive-beach",
+      name: "beach.png",
+      type: "image",
+      size: 10,
+      mimeType: "image/png",
+      parentFolderId: "folder-1",
+      createdTime: new Date("2026-01-01T00:00:00Z"),
+      modifiedTime: new Date("2026-01-01T00:00:00Z"),
+      status: "processed",
+      aiGeneratedMetadata: { title: "Beach" },
+    });
+
+    admin.headers["X-Request-Id"] = "edit-beach";
+    try {
+      const patched = await admin.request("PATCH", `/api/files/${file.id}`, { aiGeneratedMetadata: { title: "Sandy beach" } });
+      assert.equal(patched.status, 200);
+    } finally {
+      delete admin.headers["X-Request-Id"];
+    }
+
+    const { events } = await audit(admin, "?requestId=edit-beach");
+    assert.equal(events.length, 1);
+    assert.equal(events[0].action, "metadata.update");
+    assert.equal(events[0].actorUsername, "auditor");
+    assert.equal(events[0].workspaceId, workspace.id);
+    assert.deepEqual(events[0].targetIds, [String(file.id)]);
+    assert.deepEqual(events[0].before, { aiGeneratedMetadata: { title: "Beach" } });
+    assert.deepEqual(events[0].after, { aiGeneratedMetadata: { title: "Sandy beach" } });
+  });
+
+  it("records template changes and filters by action and target", async () => {
+    const created = await admin.request("POST", "/api/templates", { name: "Photos", fields: [] });
+    assert.equal((await admin.request("DELETE", "/api/templates/clear")).status, 200);
+
+    const { events } = await audit(admin, "?actions=template.create,templates.clear");
+    assert.deepEqual(events.map(event => event.action), ["templates.clear", "template.create"]);
+    assert.deepEqual(events[0].before, { names: ["Photos"] });
+    assert.deepEqual(events[1].after, { name: "Photos", fieldCount: 0 });
+
+    const byTarget = await audit(admin, `?targetType=template&targetId=${created.body.id}`);
+    assert.deepEqual(byTarget.events.map(event => event.action), ["templates.clear", "template.create"]);
+    assert.equal((await admin.request("GET", "/api/audit?actions=not.an.action")).status, 400);
+  });
+
+  it("names the API token a change was made with", async () => {
+    const token = (await admin.request<PublicApiToken>("POST", "/api/tokens", { name: "CI", scopes: ["process"] })).body;
+    const script = new ApiClient(server.baseUrl);
+    script.headers = { authorization: `Bearer ${token.token}`, "X-Workspace-Id": String(workspace.id) };
+    assert.equal((await script.request("POST", "/api/templates", { name: "Scripted", fields: [] })).status, 200);
+
+    const { events } = await audit(admin, "?actions=template.create,api_token.create");
+    assert.equal(events[0].action, "template.create");
+    assert.equal(events[0].actorApiTokenId, token.id);
+    // Tokens belong to the account, not the workspace
+    assert.equal(events[1].action, "api_token.create");
+    assert.equal(events[1].workspaceId, null);
+    assert.deepEqual(events[1].after, { name: "CI", scopes: ["process"] });
+  });
+
+  it("pages through events newest first", async () => {
+    const all = (await audit(admin, "?limit=200")).events;
+    assert.ok(all.length >= 4);
+
+    const seen: number[] = [];
+    let cursor: number | null = null;
+    do {
+      const page: AuditEventPage = await audit(admin, `?limit=2${cursor !== null ? `&cursor=${cursor}` : ""}`);
+      assert.ok(page.events.length <= 2);
+      seen.push(...page.events.map(event => event.id));
+      cursor = page.nextCursor;
+    } while (cursor !== null);
+    assert.deepEqual(seen, all.map(event => event.id));
+  });
+
+  it("shows members only their workspace's events and their own account's", async () => {
+    const outsider = new ApiClient(server.baseUrl);
+    assert.equal((await outsider.request("POST", "/api/register", { username: "outsider", password: "outsider-password" })).status, 201);
+    assert.equal((await outsider.request("POST", "/api/tokens", { name: "Own token", scopes: ["read-only"] })).status, 201);
+
+    const { events } = await audit(outsider);
+    assert.deepEqual(events.map(event => event.action), ["api_token.create"]);
+    assert.equal(events[0].actorUsername, "outsider");
+
+    outsider.headers["X-Workspace-Id"] = String(workspace.id);
+    assert.equal((await outsider.request("GET", "/api/audit")).status, 403);
+    assert.equal((await audit(admin, "?actions=api_token.create")).events.some(event => event.actorUsername === "outsider"), false);
+  });
+});
@@ -0,0 +1,94 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { PublicUser, Workspace } from "@shared/schema";
+import { ApiClient, startTestServer, type TestServer } from "./test-server";
+
+process.env.STORAGE_BACKEND = "memory";
+
+describe("local login", () => {
+  let server: TestServer;
+
+  before(async () => {
+    server = await startTestServer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("keeps the API closed to callers who aren't logged in", async () => {
+    const anonymous = new ApiClient(server.baseUrl);
+    for (const [method, path] of [["GET", "/api/templates"], ["DELETE", "/api/templates/clear"], ["GET", "/api/user"], ["GET", "/api/workspaces"]]) {
+      const { status, body } = await anonymous.request(method, path);
+      assert.equal(status, 401, `${method} ${path}`);
+      assert.equal(body.message, "Not logged in");
+    }
+  });
+
+  it("registers an account with a hashed password and logs it in", async () => {
+    const { storage } = await import("../storage");
+    const { verifyPassword } = await import("../auth");
+    const client = new ApiClient(server.baseUrl);
+
+    const registered = await client.request<PublicUser>("POST", "/api/register", { username: " alice ", password: "alice-password" });
+    assert.equal(registered.status, 201);
+    assert.equal(registered.body.username, "alice");
+    assert.equal("password" in registered.body, false);
+
+    const stored = (await storage.getUserByUsername("alice"))!;
+    assert.notEqual(stored.password, "alice-password");
+    assert.equal(await verifyPassword("alice-password", stored.password), true);
+    assert.equal(await verifyPassword("wrong-password", stored.password), false);
+
+    const me = await client.request<PublicUser>("GET", "/api/user");
+    assert.equal(me.status, 200);
+    assert.equal(me.body.id, stored.id);
+    assert.equal((await client.request("GET", "/api/templates")).status, 200);
+  });
+
+  it("refuses invalid and duplicate registrations", async () => {
+    const client = new ApiClient(server.baseUrl);
+    assert.equal((await client.request("POST", "/api/register", { username: "bob", password: "short" })).status, 400);
+    assert.equal((await client.request("POST", "/api/register", { username: "b", password: "long-enough" })).status, 400);
+    assert.equal((await client.request("POST", "/api/register", { username: "alice", password: "another-password" })).status, 409);
+    assert.equal((await client.request("GET", "/api/user")).status, 401);
+  });
+
+  it("logs in with the right password only, and logs out", async () => {
+    const client = new ApiClient(server.baseUrl);
+    assert.equal((await client.request("POST", "/api/login", { username: "alice" })).status, 400);
+
+    const wrong = await client.request("POST", "/api/login", { username: "alice", password: "wrong-password" });
+    assert.equal(wrong.status, 401);
+    assert.equal(wrong.body.message, "Invalid username or password");
+    assert.equal((await client.request("POST", "/api/login", { username: "nobody", password: "alice-password" })).status, 401);
+    assert.equal((await client.request("GET", "/api/templates")).status, 401);
+
+    const login = await client.request<PublicUser>("POST", "/api/login", { username: "alice", password: "alice-password" });
+    assert.equal(login.status, 200);
+    assert.equal(login.body.username, "alice");
+    assert.equal((await client.request("GET", "/api/templates")).status, 200);
+
+    assert.equal((await client.request("POST", "/api/logout")).status, 204);
+    assert.equal((await client.request("GET", "/api/templates")).status, 401);
+  });
+
+  it("gives the first account the default workspace and later ones their own", async () => {
+    const { getDefaultWorkspace } = await import("../workspaces");
+    const alice = new ApiClient(server.baseUrl);
+    await alice.request("POST", "/api/login", { username: "alice", password: "alice-password" });
+    const carol = new ApiClient(server.baseUrl);
+    assert.equal((await carol.request("POST", "/api/register", { username: "carol", password: "carol-password" })).status, 201);
+
+    const defaultWorkspace = await getDefaultWorkspace();
+    const workspacesOf = async (client: ApiClient) =>
+      (await client.request<{ workspaces: Workspace[] }>("GET", "/api/workspaces")).body.workspaces;
+    assert.deepEqual((await workspacesOf(alice)).map(workspace => workspace.id), [defaultWorkspace.id]);
+    assert.deepEqual((await workspacesOf(carol)).map(workspace => workspace.name), ["carol's workspace"]);
+
+    const current = await carol.request("GET", "/api/workspaces/current");
+    assert.equal(current.body.role, "admin");
+    carol.headers["X-Workspace-Id"] = String(defaultWorkspace.id);
+    assert.equal((await carol.request("GET", "/api/templates")).status, 403);
+  });
+});
@@ -0,0 +1,188 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PassThrough } from "stream";
+import { gzipSync } from "zlib";
+import type { Workspace, WorkspaceArchive } from "@shared/schema";
+
+process.env.STORAGE_BACKEND = "memory";
+
+const { storage } = await import("../storage");
+const { backupService } = await import("../services/backup");
+
+// A workspace with a template, two files, a job and a revision history
+// ending in a revert
+async function seedWorkspace(name: string): Promise<Workspace> {
+  const workspace = await storage.createWorkspace({ name });
+  const template = await storage.createMetadataTemplate({ workspaceId: workspace.id, name: "Photos", fields: [] });
+  const file = (driveId: string, fileName: string) => storage.createDriveFile({
+    workspaceId: workspace.id,
+    driveId,
+    name: fileName,
+    type: "image",
+    size: 10,
+    mimeType: "image/png",
+    parentFolderId: "folder-1",
+    createdTime: new Date("2026-01-01T00:00:00Z"),
+    modifiedTime: new Date("2026-01-01T00:00:00Z"),
+    status: "processed",
+    aiGeneratedMetadata: { title: fileName },
+  });
+  const beach = await file("drive-beach", "beach.png");
+  await file("drive-forest", "forest.png");
+
+  await storage.createProcessingJob({ workspaceId: workspace.id, folderId: "folder-1", templateId: template.id, status: "completed", totalFiles: 2 });
+  const first = await storage.createMetadataRevision({
+    fileId: beach.id, source: "ai", templateId: template.id, aiGeneratedMetadata: { title: "Beach" }, createdAt: new Date("2026-01-02T00:00:00Z"),
+  });
+  await storage.createMetadataRevision({
+    fileId: beach.id, source: "manual", aiGeneratedMetadata: { title: "Sandy beach" }, createdAt: new Date("2026-01-03T00:00:00Z"),
+  });
+  await storage.createMetadataRevision({
+    fileId: beach.id, source: "revert", revertedFromId: first.id, aiGeneratedMetadata: { title: "Beach" }, createdAt: new Date("2026-01-04T00:00:00Z"),
+  });
+  return workspace;
+}
+
+async function backup(workspaceId: number): Promise<Buffer> {
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on("data", chunk => chunks.push(chunk));
+  await backupService.writeBackup(workspaceId, output);
+  return Buffer.concat(chunks);
+}
+
+async function archiveOf(workspaceId: number): Promise<WorkspaceArchive> {
+  return backupService.parseArchive(await backup(workspaceId));
+}
+
+describe("workspace backup archives", () => {
+  afterEach(() => {
+    delete process.env.MAX_BACKUP_JSON_BYTES;
+    delete process.env.MAX_BACKUP_UPLOAD_BYTES;
+  });
+
+  it("round-trips a workspace through gzip and plain JSON", async () => {
+    const source = await seedWorkspace("Round trip");
+    const json = await backup(source.id);
+
+    for (const data of [json, gzipSync(json)]) {
+      const archive = backupService.parseArchive(data);
+      assert.deepEqual(archive.driveFiles.map(file => file.name).sort(), ["beach.png", "forest.png"]);
+      assert.equal(archive.processingJobs.length, 1);
+      assert.equal(archive.metadataRevisions.length, 3);
+
+      const target = await storage.createWorkspace({ name: "Round trip copy" });
+      const report = await backupService.restore(target.id, archive, { mode: "merge", onConflict: "skip" });
+      assert.deepEqual(report.created, { metadataTemplates: 1, driveFiles: 2, processingJobs: 1, metadataRevisions: 3 });
+
+      const [template] = await storage.getAllMetadataTemplates(target.id);
+      const [job] = await storage.getAllProcessingJobs(target.id);
+      assert.equal(job.templateId, template.id);
+      const restored = await storage.getDriveFileByDriveId(target.id, "drive-beach");
+      assert.deepEqual(restored?.aiGeneratedMetadata, { title: "beach.png" });
+      assert.equal(restored?.googleAccountId, null);
+    }
+  });
+
+  it("refuses archives over the JSON limit, compressed or not", async () => {
+    const source = await seedWorkspace("Limits");
+    const json = await backup(source.id);
+    process.env.MAX_BACKUP_JSON_BYTES = String(json.length - 1);
+
+    assert.throws(() => backupService.parseArchive(json), /larger than \d+ bytes$/);
+    assert.throws(() => backupService.parseArchive(gzipSync(json)), /larger than \d+ bytes when decompressed/);
+
+    process.env.MAX_BACKUP_JSON_BYTES = String(json.length);
+    assert.equal(backupService.parseArchive(gzipSync(json)).driveFiles.length, 2);
+  });
+
+  it("falls back to the default limits for unusable settings", () => {
+    process.env.MAX_BACKUP_UPLOAD_BYTES = "1048576";
+    assert.equal(backupService.getMaxUploadBytes(), 1048576);
+    for (const value of ["-5", "0", "1.5", "lots"]) {
+      process.env.MAX_BACKUP_UPLOAD_BYTES = value;
+      process.env.MAX_BACKUP_JSON_BYTES = value;
+      assert.equal(backupService.getMaxUploadBytes(), 50 * 1024 * 1024);
+      assert.equal(backupService.getMaxJsonBytes(), 200 * 1024 * 1024);
+    }
+  });
+
+  it("refuses archives that aren't backups", () => {
+    assert.throws(() => backupService.parseArchive(Buffer.from("not json")));
+    assert.throws(() => backupService.parseArchive(Buffer.from(JSON.stringify({ format: "something-else" }))));
+  });
+});
+
+describe("workspace restore", () => {
+  it("merges into existing data or replaces it", async () => {
+    const source = await seedWorkspace("Modes");
+    const archive = await archiveOf(source.id);
+
+    const target = await storage.createWorkspace({ name: "Modes target" });
+    await storage.createMetadataTemplate({ workspaceId: target.id, name: "Documents", fields: [] });
+
+    await backupService.restore(target.id, archive, { mode: "merge", onConflict: "skip" });
+    assert.deepEqual((await storage.getAllMetadataTemplates(target.id)).map(template => template.name).sort(), ["Documents", "Photos"]);
+
+    const replaced = await backupService.restore(target.id, archive, { mode: "replace", onConflict: "skip" });
+    assert.deepEqual(replaced.created, { metadataTemplates: 1, driveFiles: 2, processingJobs: 1, metadataRevisions: 3 });
+    assert.deepEqual((await storage.getAllMetadataTemplates(target.id)).map(template => template.name), ["Photos"]);
+    assert.equal((await storage.getAllDriveFiles(target.id)).length, 2);
+  });
+
+  it("skips or overwrites files whose Drive id already exists", async () => {
+    const source = await seedWorkspace("Conflicts");
+    const archive = await archiveOf(source.id);
+    const target = await storage.createWorkspace({ name: "Conflicts target" });
+    await backupService.restore(target.id, archive, { mode: "merge", onConflict: "skip" });
+
+    const beach = (await storage.getDriveFileByDriveId(target.id, "drive-beach"))!;
+    await storage.updateDriveFile(beach.id, { aiGeneratedMetadata: { title: "Changed since" } });
+
+    const skipped = await backupService.restore(target.id, archive, { mode: "merge", onConflict: "skip" });
+    assert.equal(skipped.skipped.driveFiles, 2);
+    assert.deepEqual(skipped.conflicts.map(conflict => conflict.resolution), ["skipped", "skipped"]);
+    assert.deepEqual((await storage.getDriveFile(beach.id))?.aiGeneratedMetadata, { title: "Changed since" });
+
+    const overwritten = await backupService.restore(target.id, archive, { mode: "merge", onConflict: "overwrite" });
+    assert.equal(overwritten.updated.driveFiles, 2);
+    assert.equal(overwritten.conflicts.find(conflict => conflict.driveId === "drive-beach")?.existingFileId, beach.id);
+    assert.deepEqual((await storage.getDriveFile(beach.id))?.aiGeneratedMetadata, { title: "beach.png" });
+  });
+
+  it("leaves the workspace untouched when a restore fails part way", async (t) => {
+    const source = await seedWorkspace("Failure");
+    const archive = await archiveOf(source.id);
+    const target = await storage.createWorkspace({ name: "Failure target" });
+    await storage.createMetadataTemplate({ workspaceId: target.id, name: "Documents", fields: [] });
+
+    // Templates and files are written by the time jobs are restored
+    t.mock.method(storage, "createProcessingJob", async () => {
+      throw new Error("disk full");
+    });
+    await assert.rejects(backupService.restore(target.id, archive, { mode: "replace", onConflict: "skip" }), /disk full/);
+
+    assert.deepEqual((await storage.getAllMetadataTemplates(target.id)).map(template => template.name), ["Documents"]);
+    assert.deepEqual(await storage.getAllDriveFiles(target.id), []);
+  });
+
+  it("doesn't repeat revisions when the same archive is restored again", async () => {
+    const source = await seedWorkspace("Source");
+    const archive = await archiveOf(source.id);
+    const target = await storage.createWorkspace({ name: "Target" });
+
+    const first = await backupService.restore(target.id, archive, { mode: "merge", onConflict: "overwrite" });
+    assert.equal(first.created.metadataRevisions, 3);
+
+    const second = await backupService.restore(target.id, archive, { mode: "merge", onConflict: "overwrite" });
+    assert.equal(second.updated.driveFiles, 2);
+    assert.equal(second.created.metadataRevisions, 0);
+    assert.equal(second.skipped.metadataRevisions, 3);
+    assert.equal(second.created.processingJobs, 0);
+
+    const revisions = await storage.getAllMetadataRevisions(target.id);
+    assert.equal(revisions.length, 3);
+    const revert = revisions.find(revision => revision.source === "revert")!;
+    assert.equal(revisions.find(revision => revision.id === revert.revertedFromId)?.source, "ai");
+  });
+});
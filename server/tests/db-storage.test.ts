@@ -0,0 +1,147 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import type { DriveFile, InsertDriveFile, Workspace } from "@shared/schema";
+
+// DbStorage on PGlite, an embedded Postgres, with the real migrations.
+// Importing storage picks its default backend, so that is kept in memory.
+process.env.STORAGE_BACKEND = "memory";
+
+const { DbStorage } = await import("../storage");
+const { MIGRATIONS_FOLDER } = await import("../db");
+
+let storage: InstanceType<typeof DbStorage>;
+let workspace: Workspace;
+let otherWorkspace: Workspace;
+
+function driveFile(workspaceId: number, name: string, overrides: Partial<InsertDriveFile> = {}): InsertDriveFile {
+  return {
+    workspaceId,
+    driveId: `drive-${workspaceId}-${name}`,
+    name,
+    type: "image",
+    size: 100,
+    mimeType: "image/png",
+    parentFolderId: "folder-1",
+    createdTime: new Date("2026-01-01T00:00:00Z"),
+    modifiedTime: new Date("2026-01-01T00:00:00Z"),
+    status: "pending",
+    ...overrides,
+  };
+}
+
+describe("DbStorage", () => {
+  before(async () => {
+    const db = drizzle(new PGlite(), { schema });
+    await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+    storage = new DbStorage(db);
+
+    workspace = await storage.createWorkspace({ name: "Main" });
+    otherWorkspace = await storage.createWorkspace({ name: "Other" });
+
+    await storage.createDriveFile(driveFile(workspace.id, "beach.png", {
+      status: "processed",
+      aiGeneratedMetadata: { title: "Beach", tags: ["sea", "sand"] },
+      createdTime: new Date("2026-01-03T00:00:00Z"),
+    }));
+    await storage.createDriveFile(driveFile(workspace.id, "report.pdf", {
+      type: "pdf",
+      mimeType: "application/pdf",
+      existingMetadata: { description: "Quarterly figures" },
+      createdTime: new Date("2026-01-02T00:00:00Z"),
+    }));
+    await storage.createDriveFile(driveFile(workspace.id, "clip.mp4", {
+      type: "video",
+      mimeType: "video/mp4",
+      parentFolderId: "folder-2",
+      stale: true,
+    }));
+    await storage.createDriveFile(driveFile(workspace.id, "gone.png", { removedAt: new Date() }));
+    await storage.createDriveFile(driveFile(otherWorkspace.id, "beach.png"));
+  });
+
+  const names = (files: DriveFile[]) => files.map(file => file.name).sort();
+
+  it("filters queried files", async () => {
+    const query = (filter: object) => storage.queryDriveFiles({ workspaceId: workspace.id, ...filter });
+
+    assert.deepEqual(names((await query({})).files), ["beach.png", "clip.mp4", "report.pdf"]);
+    assert.deepEqual(names((await query({ includeRemoved: true })).files), ["beach.png", "clip.mp4", "gone.png", "report.pdf"]);
+    assert.deepEqual(names((await query({ types: ["pdf", "video"] })).files), ["clip.mp4", "report.pdf"]);
+    assert.deepEqual(names((await query({ statuses: ["processed"] })).files), ["beach.png"]);
+    assert.deepEqual(names((await query({ folderIds: ["folder-2"] })).files), ["clip.mp4"]);
+    assert.deepEqual(names((await query({ createdAfter: new Date("2026-01-02T00:00:00Z") })).files), ["beach.png", "report.pdf"]);
+    assert.deepEqual(names((await query({ hasAiMetadata: true })).files), ["beach.png"]);
+    assert.deepEqual(names((await query({ hasAiMetadata: false })).files), ["clip.mp4", "report.pdf"]);
+    assert.deepEqual(names((await query({ stale: true })).files), ["clip.mp4"]);
+  });
+
+  it("searches names, AI metadata and existing metadata", async () => {
+    const search = async (text: string) => names((await storage.queryDriveFiles({ workspaceId: workspace.id, search: text })).files);
+
+    assert.deepEqual(await search("CLIP"), ["clip.mp4"]);
+    assert.deepEqual(await search("sand"), ["beach.png"]);
+    assert.deepEqual(await search("quarterly"), ["report.pdf"]);
+    // LIKE wildcards are matched literally
+    assert.deepEqual(await search("%"), []);
+  });
+
+  it("matches metadata predicates", async () => {
+    const query = (field: string, op: "exists" | "missing" | "eq" | "contains", value?: string) =>
+      storage.queryDriveFiles({ workspaceId: workspace.id, metadata: [{ field, op, value }] });
+
+    assert.deepEqual(names((await query("title", "exists")).files), ["beach.png"]);
+    assert.deepEqual(names((await query("title", "missing")).files), ["clip.mp4", "report.pdf"]);
+    assert.deepEqual(names((await query("tags", "eq", "sea")).files), ["beach.png"]);
+    assert.deepEqual(names((await query("title", "eq", "beach")).files), []);
+    assert.deepEqual(names((await query("title", "contains", "EAC")).files), ["beach.png"]);
+  });
+
+  it("pages through files with keyset cursors", async () => {
+    const sort = [{ field: "createdTime" as const, direction: "desc" as const }];
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await storage.queryDriveFiles({ workspaceId: workspace.id, sort, limit: 2, cursor });
+      assert.equal(page.total, 3);
+      seen.push(...page.files.map(file => file.name));
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    assert.deepEqual(seen, ["beach.png", "report.pdf", "clip.mp4"]);
+  });
+
+  it("counts files by status", async () => {
+    assert.deepEqual(await storage.countDriveFilesByStatus({ workspaceId: workspace.id }), { pending: 2, processed: 1 });
+  });
+
+  it("rolls back a transaction that throws", async () => {
+    await assert.rejects(storage.transaction(async tx => {
+      await tx.createMetadataTemplate({ workspaceId: workspace.id, name: "Doomed", fields: [] });
+      await tx.createDriveFile(driveFile(workspace.id, "doomed.png"));
+      throw new Error("abort");
+    }), /abort/);
+
+    assert.deepEqual(await storage.getAllMetadataTemplates(workspace.id), []);
+    assert.equal(await storage.getDriveFileByDriveId(workspace.id, `drive-${workspace.id}-doomed.png`), undefined);
+
+    const created = await storage.transaction(tx => tx.createMetadataTemplate({ workspaceId: workspace.id, name: "Kept", fields: [] }));
+    assert.deepEqual((await storage.getAllMetadataTemplates(workspace.id)).map(template => template.id), [created.id]);
+  });
+
+  it("keeps workspaces apart", async () => {
+    const ours = await storage.getDriveFileByDriveId(workspace.id, `drive-${workspace.id}-beach.png`);
+    assert.equal(ours?.workspaceId, workspace.id);
+    assert.equal(await storage.getDriveFileByDriveId(otherWorkspace.id, `drive-${workspace.id}-beach.png`), undefined);
+    assert.deepEqual(names(await storage.getAllDriveFiles(otherWorkspace.id)), ["beach.png"]);
+    assert.deepEqual(names((await storage.queryDriveFiles({ workspaceId: otherWorkspace.id, search: "beach" })).files), ["beach.png"]);
+    assert.deepEqual(await storage.getAllMetadataTemplates(otherWorkspace.id), []);
+
+    await storage.clearWorkspaceData(otherWorkspace.id);
+    assert.deepEqual(await storage.getAllDriveFiles(otherWorkspace.id), []);
+    assert.equal((await storage.getAllDriveFiles(workspace.id)).length, 4);
+  });
+});
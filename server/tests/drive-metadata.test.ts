@@ -0,0 +1,127 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { ExportProfile } from "@shared/schema";
+import type { DriveMetadataSource } from "../services/drive-metadata";
+
+process.env.STORAGE_BACKEND = "memory";
+
+const { driveMetadataService } = await import("../services/drive-metadata");
+
+const PROPERTIES: ExportProfile = { targets: ["properties"], fields: {} };
+
+// What Drive holds after exporting metadata to a file that had current
+function exportTo(metadata: Record<string, unknown>, profile: ExportProfile, current: DriveMetadataSource = {}): DriveMetadataSource {
+  const update = driveMetadataService.buildUpdate(metadata, profile, current);
+  return update ? driveMetadataService.applyUpdate(current, update) : current;
+}
+
+// Drive's limits: 124 bytes of key plus value, 30 properties per file
+function assertWithinDriveLimits(properties: Record<string, string>) {
+  assert.ok(Object.keys(properties).length <= 30, `${Object.keys(properties).length} properties`);
+  for (const [key, value] of Object.entries(properties)) {
+    assert.ok(Buffer.byteLength(key + value, "utf8") <= 124, `${key} is ${Buffer.byteLength(key + value, "utf8")} bytes`);
+  }
+}
+
+describe("exported metadata encoding", () => {
+  it("reads back exactly what was written to properties and appProperties", () => {
+    const metadata = {
+      title: "Sunset över the bay",
+      summary: "A long summary ".repeat(20) + "ending in emoji 🌅",
+      tags: ["sunset", "beach"],
+      people: [{ name: "Ana", role: "photographer" }],
+      rating: 4,
+      reviewed: false,
+      "odd key: with spaces": "kept apart from odd_key__with_spaces",
+      odd_key__with_spaces: "and vice versa",
+    };
+
+    for (const target of ["properties", "appProperties"] as const) {
+      const source = exportTo(metadata, { targets: [target], fields: {} });
+      assertWithinDriveLimits(source[target]!);
+      assert.deepEqual(driveMetadataService.readMetadata(source), metadata);
+    }
+  });
+
+  it("has nothing to update when Drive already holds the metadata", () => {
+    const metadata = { title: "Beach", tags: ["sea"] };
+    const source = exportTo(metadata, PROPERTIES);
+    assert.equal(driveMetadataService.buildUpdate(metadata, PROPERTIES, source), null);
+  });
+
+  it("deletes keys left over from an earlier export", () => {
+    const source = exportTo({ title: "Beach", summary: "Sand ".repeat(60) }, PROPERTIES);
+    const reexported = exportTo({ title: "Beach" }, PROPERTIES, source);
+    assert.deepEqual(Object.keys(reexported.properties!).filter(key => key.startsWith("AI_summary")), []);
+    assert.deepEqual(driveMetadataService.readMetadata(reexported), { title: "Beach" });
+  });
+
+  it("leaves out fields too large for the property budget", () => {
+    const metadata = { title: "Beach", transcript: "words ".repeat(1000), tags: ["sea"] };
+    const source = exportTo(metadata, PROPERTIES);
+
+    assertWithinDriveLimits(source.properties!);
+    assert.deepEqual(driveMetadataService.readMetadata(source), { title: "Beach", tags: ["sea"] });
+  });
+
+  it("stays within the budget when listing every field would fill it", () => {
+    const metadata = Object.fromEntries(Array.from({ length: 150 }, (_, i) => [`field_number_${i}_with_a_long_name`, `value ${i}`]));
+    const source = exportTo(metadata, PROPERTIES);
+
+    assertWithinDriveLimits(source.properties!);
+    const read = driveMetadataService.readMetadata(source)!;
+    assert.ok(Object.keys(read).length > 0);
+    for (const [key, value] of Object.entries(read)) {
+      assert.equal(value, metadata[key]);
+    }
+  });
+
+  it("reads properties written before the manifest encoding", () => {
+    const read = driveMetadataService.readMetadata({
+      properties: {
+        AI_title: "Beach",
+        AI_summary_1: "first half, ",
+        AI_summary_2: "second half",
+        AI_tags: '["sea","sand"]',
+        AI_Generated_By: "MetadataEnhancer",
+      },
+    });
+    assert.deepEqual(read, { title: "Beach", summary: "first half, second half", tags: ["sea", "sand"] });
+  });
+});
+
+describe("the description summary", () => {
+  const DESCRIPTION: ExportProfile = { targets: ["description"], fields: {} };
+
+  it("flattens line breaks and keeps the file's own description", () => {
+    const metadata = { summary: "First line\n\n  second line", tags: ["sea", "sand"] };
+    const source = exportTo(metadata, DESCRIPTION, { description: "Taken on holiday" });
+
+    assert.match(source.description!, /^Taken on holiday\n\n--- AI metadata ---\nsummary: First line second line\ntags: sea, sand\n--- end AI metadata ---$/);
+    assert.deepEqual(driveMetadataService.readMetadata(source), { summary: "First line second line", tags: ["sea", "sand"] });
+    assert.equal(driveMetadataService.readExistingMetadata(source)?.description, "Taken on holiday");
+  });
+
+  it("replaces the summary on export and removes it when no longer exported", () => {
+    const source = exportTo({ summary: "Old" }, DESCRIPTION, { description: "Notes" });
+    const updated = exportTo({ summary: "New" }, DESCRIPTION, source);
+    assert.deepEqual(driveMetadataService.readMetadata(updated), { summary: "New" });
+
+    const moved = exportTo({ summary: "New" }, PROPERTIES, updated);
+    assert.equal(moved.description, "Notes");
+    assert.deepEqual(driveMetadataService.readMetadata(moved), { summary: "New" });
+  });
+
+  it("prefers properties over the flattened summary", () => {
+    const metadata = { summary: "Two\nlines" };
+    const source = exportTo(metadata, { targets: ["description", "properties"], fields: {} });
+    assert.deepEqual(driveMetadataService.readMetadata(source), metadata);
+  });
+
+  it("writes each field where the profile says", () => {
+    const source = exportTo({ title: "Beach", summary: "Sand" }, { targets: ["properties"], fields: { summary: ["description"] } });
+    assert.deepEqual(Object.keys(source.properties!).filter(key => key.startsWith("AI_title")), ["AI_title"]);
+    assert.match(source.description!, /summary: Sand/);
+    assert.deepEqual(driveMetadataService.readMetadata(source), { title: "Beach", summary: "Sand" });
+  });
+});
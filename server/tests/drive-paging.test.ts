@@ -0,0 +1,86 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { copyFileSync, mkdirSync, mkdtempSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import type { DriveFilePage, DriveFolderNode, ProcessingJob } from "@shared/schema";
+import { ApiClient, startTestServer, waitFor, type TestServer } from "./test-server";
+
+// A fake Drive that answers two results per list call, so every folder and
+// listing below spans more than one page
+const fixturesDir = mkdtempSync(path.join(os.tmpdir(), "drive-paging-"));
+const IMAGES = ["a.png", "b.png", "c.png"];
+for (const folder of ["Album", "Batch", "Empty"]) {
+  mkdirSync(path.join(fixturesDir, folder));
+}
+for (const name of IMAGES) {
+  copyFileSync("fixtures/drive/Photos/sunset.png", path.join(fixturesDir, "Album", name));
+  copyFileSync("fixtures/drive/Photos/sunset.png", path.join(fixturesDir, "Batch", name));
+}
+
+process.env.STORAGE_BACKEND = "memory";
+process.env.DRIVE_BACKEND = "fake";
+process.env.DRIVE_FIXTURES_DIR = fixturesDir;
+process.env.DRIVE_FIXTURES_PAGE_SIZE = "2";
+process.env.LLM_PROVIDER = "mock";
+
+describe("paging through Drive listings", () => {
+  let server: TestServer;
+  let client: ApiClient;
+  let folders: DriveFolderNode[];
+
+  before(async () => {
+    server = await startTestServer();
+    client = new ApiClient(server.baseUrl);
+    assert.equal((await client.request("POST", "/api/register", { username: "pager", password: "pager-password" })).status, 201);
+    const linked = await client.request("POST", "/api/auth/google/callback", { code: "fake" });
+    assert.equal(linked.status, 200);
+    client.headers["X-Google-Account-Id"] = String(linked.body.account.id);
+  });
+
+  after(async () => {
+    await server.close();
+    rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  it("lists every folder, however many pages they take", async (t) => {
+    const { getFakeDriveClient } = await import("../services/fake-drive");
+    const list = t.mock.method(getFakeDriveClient().files, "list");
+
+    const { status, body } = await client.request<{ folders: DriveFolderNode[] }>("GET", "/api/drive/tree");
+    assert.equal(status, 200);
+    folders = body.folders;
+    assert.deepEqual(folders.map(folder => folder.name), ["Album", "Batch", "Empty"]);
+    assert.equal(list.mock.callCount(), 2);
+    assert.equal(list.mock.calls[1].arguments[0]?.pageToken, "2");
+  });
+
+  it("lists every file in a folder larger than one page", async (t) => {
+    const { getFakeDriveClient } = await import("../services/fake-drive");
+    const list = t.mock.method(getFakeDriveClient().files, "list");
+    const album = folders.find(folder => folder.name === "Album")!;
+
+    const { body } = await client.request<DriveFilePage>("GET", `/api/drive/files/${album.id}`);
+    assert.deepEqual(body.files.map(file => file.name).sort(), IMAGES);
+    assert.equal(body.total, IMAGES.length);
+    assert.equal(list.mock.callCount(), 2);
+  });
+
+  it("processes every file of a folder larger than one page as a batch", async () => {
+    // Never listed before, so the batch's own sync is what finds the files
+    const batch = folders.find(folder => folder.name === "Batch")!;
+    const { status, body } = await client.request<{ jobId: number }>("POST", "/api/process/batch", { folderId: batch.id });
+    assert.equal(status, 200);
+
+    const job = await waitFor(
+      async () => (await client.request<ProcessingJob>("GET", `/api/jobs/${body.jobId}`)).body,
+      current => current.status === "completed",
+    );
+    assert.equal(job.totalFiles, IMAGES.length);
+    assert.equal(job.processedFiles, IMAGES.length);
+    assert.equal(job.failedFiles, 0);
+
+    const { files } = (await client.request<DriveFilePage>("GET", `/api/drive/files/${batch.id}`)).body;
+    assert.deepEqual(files.map(file => file.status), ["processed", "processed", "processed"]);
+  });
+});
@@ -0,0 +1,130 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { DriveFile, DriveFilePage, DriveFolderNode, MetadataTemplate, ProcessingJob } from "@shared/schema";
+import { ApiClient, startTestServer, waitFor, type TestServer } from "./test-server";
+
+// The demo setup end to end: the fake Drive from fixtures/drive, the mock LLM
+// provider and in-memory storage. Storage is picked when its module loads, so
+// the environment is set before anything from the server is imported.
+process.env.DEMO_MODE = "true";
+process.env.STORAGE_BACKEND = "memory";
+process.env.LLM_PROVIDER = "mock";
+process.env.DEMO_PASSWORD = "test-demo-password";
+
+const MOCK_METADATA = {
+  title: "Sunset over the water",
+  description: "A mock description",
+  category: "Photo",
+  tags: ["sunset", "mock"],
+};
+
+let server: TestServer;
+let client: ApiClient;
+
+async function findFolder(name: string): Promise<DriveFolderNode> {
+  const { status, body } = await client.request<{ folders: DriveFolderNode[] }>("GET", "/api/drive/tree?depth=1");
+  assert.equal(status, 200);
+  const folder = body.folders.find(candidate => candidate.name === name);
+  assert.ok(folder, `the fake Drive has a ${name} folder`);
+  return folder;
+}
+
+describe("Drive files and processing against the fake Drive", () => {
+  before(async () => {
+    const { demoService } = await import("../services/demo");
+    const { mockLLMProvider } = await import("../services/mock-llm");
+
+    server = await startTestServer();
+    await demoService.seed();
+    mockLLMProvider.respondWith(() => MOCK_METADATA);
+
+    client = new ApiClient(server.baseUrl);
+    const login = await client.request("POST", "/api/login", { username: "demo", password: "test-demo-password" });
+    assert.equal(login.status, 200);
+  });
+
+  after(() => server.close());
+
+  it("lists a folder's files, filtered and paginated", async () => {
+    const documents = await findFolder("Documents");
+
+    const all = await client.request<DriveFilePage>("GET", `/api/drive/files/${documents.id}`);
+    assert.equal(all.status, 200);
+    assert.deepEqual(
+      all.body.files.map(file => file.name).sort(),
+      ["Meeting notes", "Shot list", "budget.xlsx", "proposal.docx", "quarterly-report.pdf"].sort(),
+    );
+    assert.ok(all.body.files.every(file => file.status === "pending" && file.parentFolderId === documents.id));
+
+    const pdfs = await client.request<DriveFilePage>("GET", `/api/drive/files/${documents.id}?type=pdf`);
+    assert.deepEqual(pdfs.body.files.map(file => file.name), ["quarterly-report.pdf"]);
+
+    const first = await client.request<DriveFilePage>("GET", `/api/drive/files/${documents.id}?sort=name&limit=2`);
+    assert.equal(first.body.files.length, 2);
+    assert.equal(first.body.total, all.body.files.length);
+    assert.ok(first.body.nextCursor);
+
+    const second = await client.request<DriveFilePage>("GET", `/api/drive/files/${documents.id}?sort=name&limit=2&cursor=${first.body.nextCursor}`);
+    assert.equal(second.body.files.length, 2);
+    assert.ok(first.body.files.every(file => !second.body.files.some(other => other.id === file.id)));
+  });
+
+  it("answers 400 for a malformed cursor", async () => {
+    const documents = await findFolder("Documents");
+    const { status } = await client.request("GET", `/api/drive/files/${documents.id}?cursor=not-a-cursor`);
+    assert.equal(status, 400);
+  });
+
+  it("processes a file with the mock provider and exports the metadata to Drive", async () => {
+    const photos = await findFolder("Photos");
+    const listing = await client.request<DriveFilePage>("GET", `/api/drive/files/${photos.id}`);
+    const sunset = listing.body.files.find(file => file.name === "sunset.png");
+    assert.ok(sunset);
+
+    const templates = await client.request<MetadataTemplate[]>("GET", "/api/templates");
+    const template = templates.body[0];
+    const started = await client.request("POST", `/api/process/file/${sunset.id}`, { templateId: template.id });
+    assert.equal(started.status, 200);
+
+    const processed = await waitFor(
+      async () => (await client.request<DriveFile>("GET", `/api/files/${sunset.id}`)).body,
+      file => file.status !== "pending" && file.status !== "processing",
+    );
+    assert.equal(processed.status, "processed", processed.processingError ?? undefined);
+    assert.deepEqual(processed.aiGeneratedMetadata, MOCK_METADATA);
+
+    const { getFakeDriveClient } = await import("../services/fake-drive");
+    const { driveMetadataService } = await import("../services/drive-metadata");
+    // The export to Drive follows the status change
+    const exported = await waitFor(
+      async () => driveMetadataService.readMetadata((await getFakeDriveClient().files.get({ fileId: sunset.driveId })).data),
+      metadata => metadata !== null,
+    );
+    assert.deepEqual(exported, MOCK_METADATA);
+
+    // Listing the folder again keeps the processed state
+    const relisted = await client.request<DriveFilePage>("GET", `/api/drive/files/${photos.id}`);
+    assert.equal(relisted.body.files.find(file => file.id === sunset.id)?.status, "processed");
+  });
+
+  it("processes a folder as a batch job", async () => {
+    const audio = await findFolder("Audio");
+    await client.request("GET", `/api/drive/files/${audio.id}`);
+
+    const { status, body } = await client.request<{ jobId: number }>("POST", "/api/process/batch", { folderId: audio.id });
+    assert.equal(status, 200);
+
+    const job = await waitFor(
+      async () => (await client.request<ProcessingJob>("GET", `/api/jobs/${body.jobId}`)).body,
+      current => current.status !== "running" && current.status !== "pending",
+    );
+    assert.equal(job.status, "completed");
+    assert.equal(job.totalFiles, 1);
+    assert.equal(job.processedFiles, 1);
+
+    const files = await client.request<DriveFilePage>("GET", `/api/drive/files/${audio.id}`);
+    const chime = files.body.files.find(file => file.name === "chime.wav");
+    assert.equal(chime?.status, "processed", chime?.processingError ?? undefined);
+    assert.deepEqual(chime?.aiGeneratedMetadata, MOCK_METADATA);
+  });
+});
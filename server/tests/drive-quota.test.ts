@@ -0,0 +1,160 @@
+import { beforeEach, describe, it, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+
+process.env.DRIVE_MAX_RETRIES = "2";
+
+const { classifyDriveError, DriveQuotaService } = await import("../services/drive-quota");
+
+// The budget is read when the module loads, so each setting gets a fresh copy
+async function loadedRate(value: string | undefined): Promise<number> {
+  if (value === undefined) {
+    delete process.env.DRIVE_QUERIES_PER_SECOND;
+  } else {
+    process.env.DRIVE_QUERIES_PER_SECOND = value;
+  }
+  try {
+    const { driveQuotaService } = await import(`../services/drive-quota?rate=${encodeURIComponent(value ?? "unset")}`);
+    return driveQuotaService.getStats().queriesPerSecond;
+  } finally {
+    delete process.env.DRIVE_QUERIES_PER_SECOND;
+  }
+}
+
+// A googleapis error as Drive returns it
+function driveError(status: number, reason?: string, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`Drive answered ${status}`), {
+    code: status,
+    errors: reason ? [{ reason }] : [],
+    response: { status, headers },
+  });
+}
+
+describe("Drive error classification", () => {
+  it("treats 429s and quota 403s as rate limits", () => {
+    assert.equal(classifyDriveError(driveError(429)), "rate_limit");
+    assert.equal(classifyDriveError(driveError(403, "userRateLimitExceeded")), "rate_limit");
+    assert.equal(classifyDriveError(driveError(403, "rateLimitExceeded")), "rate_limit");
+    // Reasons in the response body count as well
+    const fromBody = { response: { status: 403, data: { error: { errors: [{ reason: "rateLimitExceeded" }] } } } };
+    assert.equal(classifyDriveError(fromBody), "rate_limit");
+  });
+
+  it("retries server errors, timeouts and dropped connections", () => {
+    for (const status of [408, 500, 502, 503]) {
+      assert.equal(classifyDriveError(driveError(status)), "transient", String(status));
+    }
+    for (const code of ["ECONNRESET", "ETIMEDOUT", "EAI_AGAIN"]) {
+      assert.equal(classifyDriveError(Object.assign(new Error(code), { code })), "transient", code);
+    }
+  });
+
+  it("gives up on everything else", () => {
+    assert.equal(classifyDriveError(driveError(403, "insufficientFilePermissions")), "permanent");
+    assert.equal(classifyDriveError(driveError(404, "notFound")), "permanent");
+    assert.equal(classifyDriveError(driveError(400)), "permanent");
+    assert.equal(classifyDriveError(new Error("bug")), "permanent");
+    assert.equal(classifyDriveError(undefined), "permanent");
+  });
+
+  it("looks through errors rethrown with a cause", () => {
+    const wrapped = new Error("Failed to list files: Drive answered 429", { cause: driveError(429) });
+    assert.equal(classifyDriveError(new Error("Sync failed", { cause: wrapped })), "rate_limit");
+  });
+});
+
+describe("the Drive request budget", () => {
+  it("reads DRIVE_QUERIES_PER_SECOND as a finite rate above 0", async () => {
+    assert.equal(await loadedRate(undefined), 10);
+    assert.equal(await loadedRate("25"), 25);
+    assert.equal(await loadedRate("0.5"), 0.5);
+    for (const value of ["0", "-5", "Infinity", "lots", " "]) {
+      assert.equal(await loadedRate(value), 10, value);
+    }
+  });
+});
+
+describe("Drive retries", () => {
+  let quota: InstanceType<typeof DriveQuotaService>;
+  let waits: string[];
+
+  // Sleeps end at once, and the delay each retry announced is kept. Jitter is
+  // pinned to its maximum so delays are exact.
+  const fastRetries = (t: TestContext) => {
+    const realSetTimeout = setTimeout;
+    t.mock.method(globalThis, "setTimeout", (callback: () => void) => realSetTimeout(callback, 0));
+    t.mock.method(Math, "random", () => 1);
+    t.mock.method(console, "warn", (message: string) => {
+      waits.push(message.replace(/^Drive request failed \((\w+)\), retrying in (\d+)ms:$/, "$1 $2"));
+    });
+  };
+
+  // A call that fails with each error in turn, then succeeds
+  const failing = (...errors: unknown[]) => {
+    let calls = 0;
+    const call = async () => {
+      calls++;
+      if (errors.length > 0) throw errors.shift();
+      return "done";
+    };
+    return { call, calls: () => calls };
+  };
+
+  beforeEach(() => {
+    quota = new DriveQuotaService();
+    waits = [];
+  });
+
+  it("retries rate limits and transient failures with exponential backoff", async (t) => {
+    fastRetries(t);
+    const drive = failing(driveError(503), driveError(429));
+
+    assert.equal(await quota.run(drive.call), "done");
+    assert.equal(drive.calls(), 3);
+    assert.deepEqual(waits, ["transient 1000", "rate_limit 2000"]);
+
+    const stats = quota.getStats();
+    assert.equal(stats.requests, 3);
+    assert.equal(stats.retries, 2);
+    assert.equal(stats.rateLimited, 1);
+    assert.equal(stats.transientErrors, 1);
+    assert.equal(stats.failures, 0);
+    assert.ok(stats.lastRateLimitedAt);
+  });
+
+  it("waits at least as long as Retry-After asks", async (t) => {
+    fastRetries(t);
+    const drive = failing(driveError(429, undefined, { "retry-after": "5" }));
+
+    await quota.run(drive.call);
+    assert.deepEqual(waits, ["rate_limit 5000"]);
+  });
+
+  it("pauses every request after a rate limit", async (t) => {
+    fastRetries(t);
+    const before = Date.now();
+    await quota.run(failing(driveError(429, undefined, { "retry-after": "30" })).call);
+    assert.ok(quota.getStats().pausedUntil!.getTime() >= before + 30000);
+  });
+
+  it("rethrows permanent errors without retrying", async (t) => {
+    fastRetries(t);
+    const notFound = driveError(404, "notFound");
+    const drive = failing(notFound);
+
+    await assert.rejects(quota.run(drive.call), error => error === notFound);
+    assert.equal(drive.calls(), 1);
+    assert.deepEqual(waits, []);
+    assert.equal(quota.getStats().failures, 1);
+  });
+
+  it("gives up once DRIVE_MAX_RETRIES retries have failed", async (t) => {
+    fastRetries(t);
+    const last = driveError(500);
+    const drive = failing(driveError(500), driveError(500), last);
+
+    await assert.rejects(quota.run(drive.call), error => error === last);
+    assert.equal(drive.calls(), 3);
+    assert.deepEqual(waits, ["transient 1000", "transient 2000"]);
+    assert.equal(quota.getStats().failures, 1);
+  });
+});
@@ -0,0 +1,111 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { DriveFolderNode, DriveWatchChannel, PublicDriveWatchChannel } from "@shared/schema";
+import type { DriveNotificationMessage } from "../services/drive-webhook-simulator";
+import { ApiClient, startTestServer, waitFor, type TestServer } from "./test-server";
+
+// Notifications posted by the simulator, as Drive would, to the fake Drive's
+// channels on the in-process server
+process.env.STORAGE_BACKEND = "memory";
+process.env.DRIVE_BACKEND = "fake";
+process.env.LLM_PROVIDER = "mock";
+
+const { postDriveNotification } = await import("../services/drive-webhook-simulator");
+
+describe("Drive push notifications", () => {
+  let server: TestServer;
+  let client: ApiClient;
+  let accountId: number;
+  let address: string;
+
+  // The channel as stored, token included, the way the drive:notify CLI reads it
+  const storedChannel = async (kind: "changes" | "file"): Promise<DriveWatchChannel> => {
+    const { storage } = await import("../storage");
+    const channel = (await storage.getDriveWatchChannels(accountId)).find(channel => channel.kind === kind);
+    assert.ok(channel, `no ${kind} channel`);
+    return channel;
+  };
+
+  const notify = (channel: DriveWatchChannel, overrides: Partial<DriveNotificationMessage> = {}) =>
+    postDriveNotification(address, {
+      channelId: channel.channelId,
+      token: channel.token,
+      resourceId: channel.resourceId,
+      resourceState: channel.kind === "changes" ? "change" : "update",
+      messageNumber: 2,
+      ...overrides,
+    });
+
+  before(async () => {
+    server = await startTestServer();
+    address = `${server.baseUrl}/api/drive/webhook`;
+    process.env.DRIVE_WEBHOOK_URL = address;
+
+    client = new ApiClient(server.baseUrl);
+    assert.equal((await client.request("POST", "/api/register", { username: "watcher", password: "watcher-password" })).status, 201);
+    const linked = await client.request("POST", "/api/auth/google/callback", { code: "fake" });
+    assert.equal(linked.status, 200);
+    accountId = linked.body.account.id;
+    client.headers["X-Google-Account-Id"] = String(accountId);
+  });
+
+  after(async () => {
+    delete process.env.DRIVE_WEBHOOK_URL;
+    await server.close();
+  });
+
+  it("watches a newly linked account's Changes feed", async () => {
+    const { body } = await waitFor(
+      () => client.request<{ enabled: boolean; channels: PublicDriveWatchChannel[] }>("GET", "/api/drive/watch"),
+      ({ body }) => body.channels.length > 0,
+    );
+    assert.equal(body.enabled, true);
+    assert.deepEqual(body.channels.map(channel => channel.kind), ["changes"]);
+    assert.equal("token" in body.channels[0], false);
+  });
+
+  it("syncs the account when its Changes feed channel is notified", async (t) => {
+    const { driveSyncService } = await import("../services/drive-sync");
+    const requested = t.mock.method(driveSyncService, "requestSync", () => {});
+    const channel = await storedChannel("changes");
+
+    assert.equal(await notify(channel, { resourceState: "sync", messageNumber: 1 }), 204);
+    assert.equal(requested.mock.callCount(), 0);
+
+    assert.equal(await notify(channel), 204);
+    assert.deepEqual(requested.mock.calls.map(call => call.arguments), [[accountId]]);
+    assert.ok((await storedChannel("changes")).lastNotifiedAt);
+  });
+
+  it("syncs a watched file, and its folder's changes when children change", async (t) => {
+    const { driveSyncService } = await import("../services/drive-sync");
+    const requested = t.mock.method(driveSyncService, "requestSync", () => {});
+    const synced = t.mock.method(driveSyncService, "syncFile", async () => {});
+
+    const { folders } = (await client.request<{ folders: DriveFolderNode[] }>("GET", "/api/drive/tree?depth=1")).body;
+    const photos = folders.find(folder => folder.name === "Photos")!;
+    assert.equal((await client.request("POST", "/api/drive/watch", { fileId: photos.id })).status, 201);
+    const channel = await storedChannel("file");
+
+    assert.equal(await notify(channel, { changed: ["properties"] }), 204);
+    assert.equal(await notify(channel, { resourceState: "trash", messageNumber: 3 }), 204);
+    assert.equal(await notify(channel, { changed: ["children"], messageNumber: 4 }), 204);
+    assert.deepEqual(synced.mock.calls.map(call => call.arguments), [
+      [accountId, photos.id, false],
+      [accountId, photos.id, true],
+      [accountId, photos.id, false],
+    ]);
+    assert.equal(requested.mock.callCount(), 1);
+  });
+
+  it("refuses notifications that don't match a stored channel", async (t) => {
+    const { driveSyncService } = await import("../services/drive-sync");
+    const requested = t.mock.method(driveSyncService, "requestSync", () => {});
+    const channel = await storedChannel("changes");
+
+    assert.equal(await notify(channel, { token: "guessed" }), 403);
+    assert.equal(await notify(channel, { resourceId: "someone-elses" }), 403);
+    assert.equal(await notify(channel, { channelId: "unknown-channel" }), 404);
+    assert.equal(requested.mock.callCount(), 0);
+  });
+});
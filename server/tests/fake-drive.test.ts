@@ -0,0 +1,216 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { DriveFilePage, DriveFolderNode, DriveSyncStatus, Workspace } from "@shared/schema";
+import { ApiClient, startTestServer, type TestServer } from "./test-server";
+
+// The demo setup: the fake Drive served from fixtures/drive and in-memory storage
+process.env.STORAGE_BACKEND = "memory";
+process.env.DRIVE_BACKEND = "fake";
+process.env.DEMO_PASSWORD = "test-demo-password";
+process.env.LLM_PROVIDER = "mock";
+
+const DOCUMENT_NAMES = ["Meeting notes", "Shot list", "budget.xlsx", "proposal.docx", "quarterly-report.pdf"];
+
+describe("demo mode", () => {
+  it("refuses to seed in production", async () => {
+    const { demoService } = await import("../services/demo");
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = "production";
+    try {
+      await assert.rejects(demoService.seed(), /must not be enabled in production/);
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  });
+
+  it("refuses to seed without a password", async () => {
+    const { demoService } = await import("../services/demo");
+    delete process.env.DEMO_PASSWORD;
+    try {
+      await assert.rejects(demoService.seed(), /DEMO_PASSWORD must be set/);
+    } finally {
+      process.env.DEMO_PASSWORD = "test-demo-password";
+    }
+  });
+
+  it("gives the demo login a workspace of its own, once", async () => {
+    const { storage } = await import("../storage");
+    const { demoService, DEMO_USERNAME } = await import("../services/demo");
+    const { getDefaultWorkspace } = await import("../workspaces");
+
+    await demoService.seed();
+    await demoService.seed();
+
+    const user = (await storage.getUserByUsername(DEMO_USERNAME))!;
+    const workspaces = await storage.getWorkspacesForUser(user.id);
+    assert.deepEqual(workspaces.map(workspace => workspace.name), ["Demo workspace"]);
+    assert.notEqual(workspaces[0].id, (await getDefaultWorkspace()).id);
+    assert.equal((await storage.getAllMetadataTemplates(workspaces[0].id)).length, 1);
+    assert.equal((await storage.getGoogleAccountsByUser(user.id)).length, 1);
+  });
+});
+
+describe("the fake Drive", () => {
+  let server: TestServer;
+  let client: ApiClient;
+  let workspace: Workspace;
+
+  const findFolder = async (name: string) => {
+    const { status, body } = await client.request<{ folders: DriveFolderNode[] }>("GET", "/api/drive/tree?depth=1");
+    assert.equal(status, 200);
+    const folder = body.folders.find(candidate => candidate.name === name);
+    assert.ok(folder, `the fake Drive has a ${name} folder`);
+    return folder;
+  };
+
+  before(async () => {
+    const { demoService } = await import("../services/demo");
+    await demoService.seed();
+
+    server = await startTestServer();
+    client = new ApiClient(server.baseUrl);
+    const login = await client.request("POST", "/api/login", { username: "demo", password: "test-demo-password" });
+    assert.equal(login.status, 200);
+    workspace = (await client.request("GET", "/api/workspaces/current")).body.workspace;
+  });
+
+  after(() => server.close());
+
+  it("serves the fixture folders and files", async () => {
+    const { body } = await client.request<{ folders: DriveFolderNode[] }>("GET", "/api/drive/tree?depth=1");
+    assert.deepEqual(body.folders.map(folder => folder.name).sort(), ["Audio", "Documents", "Photos"]);
+
+    const documents = await findFolder("Documents");
+    const all = await client.request<DriveFilePage>("GET", `/api/drive/files/${documents.id}`);
+    assert.equal(all.status, 200);
+    assert.deepEqual(all.body.files.map(file => file.name).sort(), [...DOCUMENT_NAMES].sort());
+    assert.ok(all.body.files.every(file => file.status === "pending" && file.parentFolderId === documents.id));
+    // .gdoc and .gsheet fixtures stand in for native Google files
+    assert.equal(all.body.files.find(file => file.name === "Meeting notes")?.mimeType, "application/vnd.google-apps.document");
+  });
+
+  it("refuses to serve in production", async () => {
+    const { isFakeDriveEnabled } = await import("../services/fake-drive");
+    const { googleDriveService } = await import("../services/google-drive");
+    const nodeEnv = process.env.NODE_ENV;
+    process.env.NODE_ENV = "production";
+    try {
+      assert.throws(() => isFakeDriveEnabled(), /must not be used in production/);
+      assert.throws(() => googleDriveService.getAuthUrl("state"), /must not be used in production/);
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  });
+
+  it("exports native files to the formats it supports", async () => {
+    const { googleDriveService } = await import("../services/google-drive");
+    const documents = await findFolder("Documents");
+    const { files } = (await client.request<DriveFilePage>("GET", `/api/drive/files/${documents.id}`)).body;
+    const notes = files.find(file => file.name === "Meeting notes")!;
+
+    // The fake refuses the Word format, so the text fallback is used
+    const exported = await googleDriveService.exportGoogleWorkspaceFile(notes.googleAccountId!, notes.driveId, notes.mimeType);
+    assert.equal(exported.mimeType, "text/plain");
+    assert.ok(exported.content.length > 0);
+  });
+
+  it("holds property updates to Drive's limits", async () => {
+    const { getFakeDriveClient } = await import("../services/fake-drive");
+    const photos = await findFolder("Photos");
+    const [sunset] = (await client.request<DriveFilePage>("GET", `/api/drive/files/${photos.id}`)).body.files;
+
+    const tooMany = Object.fromEntries(Array.from({ length: 31 }, (_, i) => [`key${i}`, "value"]));
+    await assert.rejects(getFakeDriveClient().files.update({ fileId: sunset.driveId, requestBody: { properties: tooMany } }), /at most 30/);
+    await assert.rejects(
+      getFakeDriveClient().files.update({ fileId: sunset.driveId, requestBody: { properties: { long: "x".repeat(200) } } }),
+      /exceeds the maximum size of 124 bytes/,
+    );
+  });
+
+  it("syncs added and trashed files from the Changes feed", async () => {
+    const { storage } = await import("../storage");
+    const { getFakeDriveClient } = await import("../services/fake-drive");
+    const { driveMetadataService } = await import("../services/drive-metadata");
+    const { DEFAULT_EXPORT_PROFILE } = await import("@shared/schema");
+
+    const documents = await findFolder("Documents");
+    const { files } = (await client.request<DriveFilePage>("GET", `/api/drive/files/${documents.id}`)).body;
+    // The first sync only records where the feed starts
+    assert.equal((await client.request("POST", "/api/drive/sync")).status, 200);
+
+    // proposal.docx is unknown here but carries metadata exported elsewhere,
+    // and budget.xlsx goes to the trash
+    const proposal = files.find(file => file.name === "proposal.docx")!;
+    const budget = files.find(file => file.name === "budget.xlsx")!;
+    await storage.deleteDriveFile(proposal.id);
+    const exported = { title: "Proposal", tags: ["sales", "2026"] };
+    const update = driveMetadataService.buildUpdate(exported, DEFAULT_EXPORT_PROFILE, {})!;
+    await getFakeDriveClient().files.update({ fileId: proposal.driveId, requestBody: update as object });
+    await getFakeDriveClient().files.update({ fileId: budget.driveId, requestBody: { trashed: true } });
+
+    const synced = await client.request<DriveSyncStatus>("POST", "/api/drive/sync");
+    assert.deepEqual(synced.body.lastChangeCounts, { added: 1, updated: 0, moved: 0, removed: 1, stale: 0 });
+
+    const restored = (await storage.getDriveFileByDriveId(workspace.id, proposal.driveId))!;
+    assert.equal(restored.status, "processed");
+    assert.deepEqual(restored.aiGeneratedMetadata, exported);
+    assert.deepEqual((await storage.getMetadataRevisionsByFile(restored.id)).map(revision => revision.source), ["drive_restore"]);
+
+    assert.ok((await storage.getDriveFile(budget.id))?.removedAt instanceof Date);
+    const relisted = (await client.request<DriveFilePage>("GET", `/api/drive/files/${documents.id}`)).body.files;
+    assert.ok(!relisted.some(file => file.name === "budget.xlsx"));
+  });
+
+  it("doesn't flag copies in other workspaces as stale after an export", async () => {
+    const { storage } = await import("../storage");
+    const { fileProcessorService } = await import("../services/file-processor");
+
+    const photos = await findFolder("Photos");
+    const { files } = (await client.request<DriveFilePage>("GET", `/api/drive/files/${photos.id}`)).body;
+    const sunset = files.find(file => file.name === "sunset.png")!;
+    const ours = (await storage.updateDriveFile(sunset.id, { status: "processed", aiGeneratedMetadata: { title: "Ours" } }))!;
+    const { id: _id, workspaceId: _workspaceId, ...fields } = ours;
+    const otherWorkspace = await storage.createWorkspace({ name: "Other team" });
+    const theirs = await storage.createDriveFile({ ...fields, workspaceId: otherWorkspace.id });
+
+    assert.equal((await client.request("POST", "/api/drive/sync")).status, 200);
+    await fileProcessorService.exportMetadataToDrive(ours);
+    const synced = await client.request<DriveSyncStatus>("POST", "/api/drive/sync");
+    assert.equal(synced.body.lastChangeCounts?.stale, 0);
+    assert.equal((await storage.getDriveFile(theirs.id))?.stale, false);
+    assert.equal((await storage.getDriveFile(ours.id))?.stale, false);
+  });
+
+  it("reads and writes Drive through the caller's own account", async (t) => {
+    const { googleDriveService } = await import("../services/google-drive");
+    const photos = await findFolder("Photos");
+    const { files } = (await client.request<DriveFilePage>("GET", `/api/drive/files/${photos.id}`)).body;
+    const sunset = files.find(file => file.name === "sunset.png")!;
+
+    const editor = new ApiClient(server.baseUrl);
+    assert.equal((await editor.request("POST", "/api/register", { username: "drive-editor", password: "editor-password" })).status, 201);
+    assert.equal((await client.request("POST", `/api/workspaces/${workspace.id}/members`, { username: "drive-editor", role: "editor" })).status, 201);
+    editor.headers["X-Workspace-Id"] = String(workspace.id);
+
+    // The demo login's account listed the folder, but the editor has none
+    assert.equal((await editor.request("GET", `/api/verify/file/${sunset.id}`)).status, 401);
+    assert.equal((await editor.request("POST", `/api/process/file/${sunset.id}`, {})).status, 401);
+    assert.equal((await editor.request("POST", "/api/process/batch", { folderId: photos.id })).status, 401);
+
+    const linked = await editor.request("POST", "/api/auth/google/callback", { code: "fake" });
+    assert.equal(linked.status, 200);
+    editor.headers["X-Google-Account-Id"] = String(linked.body.account.id);
+
+    const checked: number[] = [];
+    t.mock.method(googleDriveService, "canAccessFile", async (accountId: number) => {
+      checked.push(accountId);
+      return false;
+    });
+    assert.equal((await editor.request("GET", `/api/verify/file/${sunset.id}`)).status, 403);
+    assert.equal((await editor.request("POST", `/api/process/file/${sunset.id}`, {})).status, 403);
+    assert.deepEqual(checked, [linked.body.account.id, linked.body.account.id]);
+
+    t.mock.restoreAll();
+    assert.equal((await editor.request("GET", `/api/verify/file/${sunset.id}`)).status, 200);
+  });
+});
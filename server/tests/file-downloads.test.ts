@@ -0,0 +1,133 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { copyFileSync, mkdirSync, mkdtempSync, promises as fs, readFileSync, rmSync } from "fs";
+import os from "os";
+import path from "path";
+import type { DriveFile, DriveFilePage, DriveFolderNode, ProcessingJob } from "@shared/schema";
+import { ApiClient, startTestServer, waitFor, type TestServer } from "./test-server";
+
+// A fake Drive with one image over the lowered image limit and one under it
+const fixturesDir = mkdtempSync(path.join(os.tmpdir(), "file-downloads-"));
+mkdirSync(path.join(fixturesDir, "Images"));
+copyFileSync("fixtures/drive/Photos/sunset.png", path.join(fixturesDir, "Images", "large.png"));
+copyFileSync("fixtures/drive/Photos/Archive/harbor.png", path.join(fixturesDir, "Images", "small.png"));
+const LARGE = readFileSync(path.join(fixturesDir, "Images", "large.png"));
+const SMALL = readFileSync(path.join(fixturesDir, "Images", "small.png"));
+const LIMIT = 6400;
+assert.ok(SMALL.length < LIMIT && LARGE.length > LIMIT);
+
+process.env.STORAGE_BACKEND = "memory";
+process.env.DRIVE_BACKEND = "fake";
+process.env.DRIVE_FIXTURES_DIR = fixturesDir;
+process.env.MAX_IMAGE_BYTES = String(LIMIT);
+process.env.LLM_PROVIDER = "mock";
+
+const { fileDownloadService, FileTooLargeError } = await import("../services/file-downloads");
+
+describe("file downloads", () => {
+  let server: TestServer;
+  let client: ApiClient;
+  let images: DriveFolderNode;
+
+  const file = async (name: string) => {
+    const { files } = (await client.request<DriveFilePage>("GET", `/api/drive/files/${images.id}`)).body;
+    return files.find(candidate => candidate.name === name)!;
+  };
+
+  before(async () => {
+    server = await startTestServer();
+    client = new ApiClient(server.baseUrl);
+    assert.equal((await client.request("POST", "/api/register", { username: "downloader", password: "downloader-password" })).status, 201);
+    const linked = await client.request("POST", "/api/auth/google/callback", { code: "fake" });
+    assert.equal(linked.status, 200);
+    client.headers["X-Google-Account-Id"] = String(linked.body.account.id);
+    [images] = (await client.request<{ folders: DriveFolderNode[] }>("GET", "/api/drive/tree")).body.folders;
+  });
+
+  after(async () => {
+    await server.close();
+    rmSync(fixturesDir, { recursive: true, force: true });
+  });
+
+  it("skips files over their type's limit and counts them in the batch", async () => {
+    const { body } = await client.request<{ jobId: number }>("POST", "/api/process/batch", { folderId: images.id });
+    const job = await waitFor(
+      async () => (await client.request<ProcessingJob>("GET", `/api/jobs/${body.jobId}`)).body,
+      current => current.status === "completed",
+    );
+    assert.equal(job.totalFiles, 2);
+    assert.equal(job.processedFiles, 1);
+    assert.equal(job.skippedFiles, 1);
+    assert.equal(job.failedFiles, 0);
+
+    const large = await file("large.png");
+    assert.equal(large.status, "skipped");
+    assert.equal(large.skipReason, "too_large");
+    assert.equal(large.processingError, `large.png is larger than the ${LIMIT} bytes limit for image files`);
+    assert.equal(large.aiGeneratedMetadata, null);
+    assert.equal((await file("small.png")).status, "processed");
+  });
+
+  it("cuts a download off at the limit when the recorded size is stale", async () => {
+    const { storage } = await import("../storage");
+    const { fileProcessorService } = await import("../services/file-processor");
+    const large = (await storage.updateDriveFile((await file("large.png")).id, { size: 100, status: "pending", skipReason: null }))!;
+
+    await assert.rejects(fileDownloadService.download(large), FileTooLargeError);
+    assert.equal(await fileProcessorService.processFile(large), "skipped");
+    const skipped = (await storage.getDriveFile(large.id))!;
+    assert.equal(skipped.status, "skipped");
+    assert.equal(skipped.skipReason, "too_large");
+  });
+
+  it("removes the temp directory even when the callback throws", async () => {
+    const small = await file("small.png");
+    let tempPath = "";
+
+    await assert.rejects(fileDownloadService.downloadToTempFile(small, async filePath => {
+      tempPath = filePath;
+      assert.deepEqual(await fs.readFile(filePath), SMALL);
+      throw new Error("Processing failed");
+    }), /Processing failed/);
+    await assert.rejects(fs.access(path.dirname(tempPath)), { code: "ENOENT" });
+
+    let tempDir = "";
+    await assert.rejects(fileDownloadService.withTempDir(async dir => {
+      tempDir = dir;
+      await fs.writeFile(path.join(dir, "partial"), "partial");
+      throw new Error("Extraction failed");
+    }), /Extraction failed/);
+    await assert.rejects(fs.access(tempDir), { code: "ENOENT" });
+  });
+
+  it("serves ranges of the file to holders of the URL's token only", async () => {
+    const small: DriveFile = await file("small.png");
+    let served = "";
+
+    await fileDownloadService.serveRanges(small, async url => {
+      served = url;
+      const partial = await fetch(url, { headers: { Range: "bytes=10-19" } });
+      assert.equal(partial.status, 206);
+      assert.equal(partial.headers.get("content-range"), `bytes 10-19/${SMALL.length}`);
+      assert.deepEqual(Buffer.from(await partial.arrayBuffer()), SMALL.subarray(10, 20));
+
+      const whole = await fetch(url);
+      assert.equal(whole.status, 200);
+      assert.deepEqual(Buffer.from(await whole.arrayBuffer()), SMALL);
+
+      const unsatisfiable = await fetch(url, { headers: { Range: `bytes=${SMALL.length}-` } });
+      assert.equal(unsatisfiable.status, 416);
+      await unsatisfiable.arrayBuffer();
+
+      const { origin, pathname } = new URL(url);
+      for (const guess of [origin, `${origin}/not-the-token`, `${origin}${pathname}x`]) {
+        const refused = await fetch(guess, { headers: { Range: "bytes=0-9" } });
+        assert.equal(refused.status, 404, guess);
+        await refused.arrayBuffer();
+      }
+    });
+
+    // Nothing listens once the callback is done
+    await assert.rejects(fetch(served));
+  });
+});
@@ -0,0 +1,111 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SHARED_DRIVES_PARENT_ID, type DriveFolderNode } from "@shared/schema";
+import { ApiClient, startTestServer, type TestServer } from "./test-server";
+
+// The fake Drive's folders: Audio, Documents and Photos/Archive in My Drive,
+// and the Marketing shared drive with Marketing/Campaigns
+process.env.STORAGE_BACKEND = "memory";
+process.env.DRIVE_BACKEND = "fake";
+
+describe("the Drive folder tree", () => {
+  let server: TestServer;
+  let client: ApiClient;
+  let accountId: number;
+
+  const tree = async (query = "") => {
+    const { status, body } = await client.request<{ parentId: string; folders: DriveFolderNode[] }>("GET", `/api/drive/tree${query}`);
+    assert.equal(status, 200);
+    return body.folders;
+  };
+
+  // The cached folders by name, as stored with their materialized paths
+  const cachedFolders = async () => {
+    const { storage } = await import("../storage");
+    return new Map((await storage.getAllDriveFolders(accountId)).map(folder => [folder.name, folder]));
+  };
+
+  before(async () => {
+    server = await startTestServer();
+    client = new ApiClient(server.baseUrl);
+    assert.equal((await client.request("POST", "/api/register", { username: "browser", password: "browser-password" })).status, 201);
+    const linked = await client.request("POST", "/api/auth/google/callback", { code: "fake" });
+    assert.equal(linked.status, 200);
+    accountId = linked.body.account.id;
+    client.headers["X-Google-Account-Id"] = String(accountId);
+  });
+
+  after(() => server.close());
+
+  it("links nested folders to their parents with name and id paths", async () => {
+    const [audio, documents, photos] = await tree();
+    assert.deepEqual([audio.name, documents.name, photos.name], ["Audio", "Documents", "Photos"]);
+    assert.equal(photos.parentId, "root");
+    assert.equal(photos.path, "/My Drive/Photos");
+
+    const [archive] = photos.children!;
+    assert.equal(archive.name, "Archive");
+    assert.equal(archive.parentId, photos.id);
+    assert.equal(archive.path, "/My Drive/Photos/Archive");
+    assert.equal(archive.sharedDriveId, null);
+
+    const cached = await cachedFolders();
+    assert.equal(cached.get("Photos")!.idPath, `/root/${photos.id}`);
+    assert.equal(cached.get("Archive")!.idPath, `/root/${photos.id}/${archive.id}`);
+  });
+
+  it("puts shared drives and their folders under their own root", async () => {
+    const [marketing] = await tree(`?parentId=${SHARED_DRIVES_PARENT_ID}`);
+    const [campaigns] = marketing.children!;
+    assert.equal(marketing.parentId, SHARED_DRIVES_PARENT_ID);
+    assert.equal(campaigns.parentId, marketing.id);
+    assert.equal(campaigns.path, "/Marketing/Campaigns");
+
+    const cached = await cachedFolders();
+    assert.equal(cached.get("Marketing")!.idPath, `/${SHARED_DRIVES_PARENT_ID}/${marketing.id}`);
+    assert.equal(cached.get("Campaigns")!.idPath, `/${SHARED_DRIVES_PARENT_ID}/${marketing.id}/${campaigns.id}`);
+    assert.ok(!(await tree()).some(folder => folder.id === marketing.id));
+  });
+
+  it("stops at the requested depth and says which folders have more", async () => {
+    const top = await tree("?depth=1");
+    assert.deepEqual(top.map(folder => [folder.name, folder.hasChildren, folder.children]), [
+      ["Audio", false, undefined],
+      ["Documents", false, undefined],
+      ["Photos", true, undefined],
+    ]);
+
+    const photos = top.find(folder => folder.name === "Photos")!;
+    const [archive] = (await tree("?depth=2")).find(folder => folder.id === photos.id)!.children!;
+    assert.equal(archive.hasChildren, false);
+    assert.equal(archive.children, undefined);
+
+    // An expanded node's children are loaded by its id
+    assert.deepEqual((await tree(`?parentId=${photos.id}&depth=1`)).map(folder => folder.id), [archive.id]);
+  });
+
+  it("refuses a depth below 1", async () => {
+    for (const depth of ["0", "-1", "all"]) {
+      const { status, body } = await client.request("GET", `/api/drive/tree?depth=${depth}`);
+      assert.equal(status, 400, depth);
+      assert.equal(body.message, "depth must be a positive integer");
+    }
+  });
+
+  it("collects a folder's whole subtree", async () => {
+    const { folderTreeService } = await import("../services/folder-tree");
+    const [, , photos] = await tree();
+    const [marketing] = await tree(`?parentId=${SHARED_DRIVES_PARENT_ID}`);
+
+    assert.deepEqual(
+      (await folderTreeService.getSubtreeFolderIds(accountId, photos.id)).sort(),
+      [photos.id, photos.children![0].id].sort(),
+    );
+    assert.deepEqual(
+      (await folderTreeService.getSubtreeFolderIds(accountId, marketing.id)).sort(),
+      [marketing.id, marketing.children![0].id].sort(),
+    );
+    const archive = photos.children![0].id;
+    assert.deepEqual(await folderTreeService.getSubtreeFolderIds(accountId, archive), [archive]);
+  });
+});
@@ -0,0 +1,102 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+// Default models and configuration come from the environment, so start from none
+for (const name of ["LLM_PROVIDER", "OPENAI_API_KEY", "OPENAI_API_KEY_ENV_VAR", "OPENAI_MODEL", "ANTHROPIC_API_KEY", "ANTHROPIC_MODEL"]) {
+  delete process.env[name];
+}
+
+const { llmProviders } = await import("../services/llm-provider");
+const { mockLLMProvider } = await import("../services/mock-llm");
+
+describe("LLM provider selection", () => {
+  afterEach(() => {
+    delete process.env.LLM_PROVIDER;
+  });
+
+  it("falls back to LLM_PROVIDER and its default chat model", () => {
+    const openai = llmProviders.resolve();
+    assert.equal(openai.provider.name, "openai");
+    assert.equal(openai.model, "gpt-4o");
+
+    process.env.LLM_PROVIDER = "anthropic";
+    const anthropic = llmProviders.resolve(null, undefined, {});
+    assert.equal(anthropic.provider.name, "anthropic");
+    assert.equal(anthropic.model, "claude-sonnet-4-5");
+  });
+
+  it("lets the first selection naming a provider decide it", () => {
+    const target = llmProviders.resolve(
+      { llmProvider: "anthropic", llmModel: "claude-haiku" },
+      { llmProvider: "openai", llmModel: "gpt-4o-mini" },
+    );
+    assert.equal(target.provider.name, "anthropic");
+    assert.equal(target.model, "claude-haiku");
+  });
+
+  it("takes a model from an earlier selection that names no provider", () => {
+    const target = llmProviders.resolve({ llmModel: "llama3.1" }, { llmProvider: "ollama" });
+    assert.equal(target.provider.name, "ollama");
+    assert.equal(target.model, "llama3.1");
+
+    // Without any provider named, the model goes to the default provider
+    assert.equal(llmProviders.resolve({ llmModel: "gpt-4o-mini" }).model, "gpt-4o-mini");
+  });
+
+  it("never hands a later selection's model to an earlier selection's provider", () => {
+    const target = llmProviders.resolve({ llmProvider: "anthropic" }, { llmProvider: "openai", llmModel: "gpt-4o-mini" });
+    assert.equal(target.provider.name, "anthropic");
+    assert.equal(target.model, "claude-sonnet-4-5");
+  });
+
+  it("refuses providers it doesn't know", () => {
+    assert.throws(() => llmProviders.resolve({ llmProvider: "skynet" }), /Unknown LLM provider: skynet/);
+    assert.throws(() => llmProviders.resolve({ llmProvider: "constructor" }), /Unknown LLM provider: constructor/);
+    process.env.LLM_PROVIDER = "toString";
+    assert.throws(() => llmProviders.resolve(), /Unknown LLM provider: toString/);
+  });
+});
+
+describe("JSON answers", () => {
+  const mock = llmProviders.resolve({ llmProvider: "mock" });
+  const answer = (text: string) => {
+    mockLLMProvider.respondWith(() => text);
+    return llmProviders.chatJSON(mock, { messages: [{ role: "user", content: "Describe this file" }] });
+  };
+
+  afterEach(() => {
+    mockLLMProvider.respondWith(null);
+  });
+
+  it("asks for JSON and parses the object", async () => {
+    mockLLMProvider.respondWith(request => ({ json: request.json ?? false }));
+    assert.deepEqual(await llmProviders.chatJSON(mock, { messages: [] }), { json: true });
+  });
+
+  it("takes the object out of code fences and surrounding sentences", async () => {
+    assert.deepEqual(await answer('```json\n{"title": "Beach", "tags": ["sand"]}\n```'), { title: "Beach", tags: ["sand"] });
+    assert.deepEqual(await answer('Here is the metadata: {"title": "Beach"}. Let me know!'), { title: "Beach" });
+  });
+
+  it("fails clearly when no object comes back", async () => {
+    await assert.rejects(answer("I can't describe this file."), /did not answer with a JSON object/);
+    await assert.rejects(answer('} "title": "Beach" {'), /did not answer with a JSON object/);
+  });
+
+  it("fails clearly on malformed JSON and keeps the parser's error", async () => {
+    for (const text of ['{"title": "Beach", "tags": ["sand", }', '{"title": "Beach"} {"title": "Dunes"}', "{title: 'Beach'}"]) {
+      await assert.rejects(answer(text), (error: Error) => {
+        assert.equal(error.message, "The model answered with malformed JSON", text);
+        assert.ok(error.cause instanceof SyntaxError, text);
+        return true;
+      });
+    }
+  });
+
+  it("refuses providers that aren't configured before calling them", async () => {
+    await assert.rejects(
+      llmProviders.chatJSON(llmProviders.resolve({ llmProvider: "anthropic" }), { messages: [] }),
+      /The anthropic LLM provider is not configured/,
+    );
+  });
+});
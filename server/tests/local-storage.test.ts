@@ -0,0 +1,123 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { type Readable } from "stream";
+
+process.env.STORAGE_BACKEND = "memory";
+
+const { localStorageProvider } = await import("../services/local-storage");
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function allFiles(folderId: string) {
+  const files = [];
+  for await (const page of localStorageProvider.listFilePages(null, folderId)) files.push(...page);
+  return files.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+async function folderId(name: string): Promise<string> {
+  const folder = (await localStorageProvider.listFolders()).find(folder => folder.name === name);
+  assert.ok(folder, `no folder ${name}`);
+  return folder.id;
+}
+
+// A root holding Photos/ (two files and a hidden one), Photos/2026/, an empty
+// Documents/ and a link pointing out of the root
+describe("local storage", () => {
+  let base: string;
+  let root: string;
+
+  before(async () => {
+    base = await fs.mkdtemp(path.join(os.tmpdir(), "local-storage-test-"));
+    root = path.join(base, "media");
+    await fs.mkdir(path.join(root, "Photos", "2026"), { recursive: true });
+    await fs.mkdir(path.join(root, "Documents"));
+    await fs.writeFile(path.join(root, "Photos", "beach.png"), "0123456789");
+    await fs.writeFile(path.join(root, "Photos", "notes.txt"), "hello");
+    await fs.writeFile(path.join(root, "Photos", ".hidden.txt"), "secret");
+    await fs.writeFile(path.join(base, "outside.txt"), "outside");
+    await fs.symlink(path.join(base, "outside.txt"), path.join(root, "Photos", "escape.txt"));
+    process.env.LOCAL_STORAGE_ROOT = root;
+  });
+
+  after(async () => {
+    delete process.env.LOCAL_STORAGE_ROOT;
+    await fs.rm(base, { recursive: true, force: true });
+  });
+
+  it("lists folders with parent links and browses them", async () => {
+    const rootId = localStorageProvider.getRootFolder().id;
+    const folders = await localStorageProvider.listFolders();
+    assert.deepEqual(folders.map(folder => folder.name).sort(), ["2026", "Documents", "Photos"]);
+
+    const photos = folders.find(folder => folder.name === "Photos")!;
+    assert.deepEqual(photos.parents, [rootId]);
+    assert.deepEqual(folders.find(folder => folder.name === "2026")!.parents, [photos.id]);
+
+    const children = await localStorageProvider.getChildFolders(rootId);
+    assert.deepEqual(children.map(child => [child.name, child.path, child.hasChildren]), [
+      ["Documents", "media/Documents", false],
+      ["Photos", "media/Photos", true],
+    ]);
+    assert.equal((await localStorageProvider.getSubtreeFolderIds(photos.id)).length, 2);
+  });
+
+  it("lists a folder's files without hidden files or links", async () => {
+    const files = await allFiles(await folderId("Photos"));
+    assert.deepEqual(files.map(file => [file.name, file.mimeType, file.size]), [
+      ["beach.png", "image/png", "10"],
+      ["notes.txt", "text/plain", "5"],
+    ]);
+    assert.deepEqual(files[0].parents, [await folderId("Photos")]);
+    assert.deepEqual(await allFiles(await folderId("Documents")), []);
+  });
+
+  it("streams whole files and byte ranges", async () => {
+    const [beach] = await allFiles(await folderId("Photos"));
+    assert.equal(await readAll(await localStorageProvider.openFileStream(null, beach.id)), "0123456789");
+    assert.equal(await readAll(await localStorageProvider.openFileStream(null, beach.id, { start: 2, end: 4 })), "234");
+    assert.equal(await readAll(await localStorageProvider.openFileStream(null, beach.id, { start: 7 })), "789");
+    await assert.rejects(localStorageProvider.openFileStream(null, await folderId("Photos")), /Not a file/);
+  });
+
+  it("writes metadata to a sidecar without touching the file", async () => {
+    const [beach] = await allFiles(await folderId("Photos"));
+    const modified = await localStorageProvider.updateFileMetadata(null, beach.id, {
+      properties: { AI_title: "Beach", AI_old: "x" },
+      description: "By the sea",
+    });
+    assert.equal(modified?.toISOString(), beach.modifiedTime);
+
+    await localStorageProvider.updateFileMetadata(null, beach.id, { properties: { AI_old: null } });
+    const metadata = await localStorageProvider.getFileMetadata(null, beach.id);
+    assert.deepEqual(metadata.properties, { AI_title: "Beach" });
+    assert.equal(metadata.description, "By the sea");
+    assert.equal(metadata.modifiedTime, beach.modifiedTime);
+    assert.equal(await fs.readFile(path.join(root, "Photos", "beach.png"), "utf8"), "0123456789");
+
+    // The sidecar is hidden from listings
+    assert.deepEqual((await allFiles(await folderId("Photos"))).map(file => file.name), ["beach.png", "notes.txt"]);
+  });
+
+  it("ignores an unreadable sidecar", async () => {
+    const [, notes] = await allFiles(await folderId("Photos"));
+    await fs.writeFile(path.join(root, "Photos", ".notes.txt.metadata.json"), "{ not json");
+    assert.equal((await localStorageProvider.getFileMetadata(null, notes.id)).properties, undefined);
+
+    await localStorageProvider.updateFileMetadata(null, notes.id, { description: "Fixed" });
+    assert.equal((await localStorageProvider.getFileMetadata(null, notes.id)).description, "Fixed");
+  });
+
+  it("refuses ids outside the root", async () => {
+    const idOf = (relativePath: string) => `local:${Buffer.from(relativePath).toString("base64url")}`;
+    await assert.rejects(localStorageProvider.getFileMetadata(null, idOf("../outside.txt")), /outside the local storage root/);
+    await assert.rejects(localStorageProvider.openFileStream(null, idOf("Photos/escape.txt")), /outside the local storage root/);
+    await assert.rejects(localStorageProvider.getFileMetadata(null, "s3:abc"), /Not a local file id/);
+  });
+});
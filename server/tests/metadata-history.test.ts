@@ -0,0 +1,124 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type {
+  DriveFile,
+  DriveFilePage,
+  DriveFolderNode,
+  MetadataRevision,
+  MetadataRevisionDiff,
+  MetadataTemplate
+} from "@shared/schema";
+import { ApiClient, startTestServer, waitFor, type TestServer } from "./test-server";
+
+// Files from the fake Drive, processed by the mock LLM provider
+process.env.STORAGE_BACKEND = "memory";
+process.env.DRIVE_BACKEND = "fake";
+process.env.LLM_PROVIDER = "mock";
+
+const EDITED = { title: "Handwritten title", notes: "draft" };
+const GENERATED = { title: "Sunset over the water", tags: ["sunset"] };
+
+describe("metadata revisions", () => {
+  let server: TestServer;
+  let client: ApiClient;
+  let sunset: DriveFile;
+  let harbor: DriveFile;
+
+  const revisions = async (file: DriveFile) => {
+    const { status, body } = await client.request<MetadataRevision[]>("GET", `/api/files/${file.id}/revisions`);
+    assert.equal(status, 200);
+    return body;
+  };
+
+  const filesIn = async (folderId: string) =>
+    (await client.request<DriveFilePage>("GET", `/api/drive/files/${folderId}`)).body.files;
+
+  before(async () => {
+    const { mockLLMProvider } = await import("../services/mock-llm");
+    mockLLMProvider.respondWith(() => GENERATED);
+
+    server = await startTestServer();
+    client = new ApiClient(server.baseUrl);
+    assert.equal((await client.request("POST", "/api/register", { username: "historian", password: "historian-password" })).status, 201);
+    const linked = await client.request("POST", "/api/auth/google/callback", { code: "fake" });
+    assert.equal(linked.status, 200);
+    client.headers["X-Google-Account-Id"] = String(linked.body.account.id);
+
+    const { body } = await client.request<{ folders: DriveFolderNode[] }>("GET", "/api/drive/tree?depth=2");
+    const photos = body.folders.find(folder => folder.name === "Photos")!;
+    const archive = photos.children!.find(folder => folder.name === "Archive")!;
+    sunset = (await filesIn(photos.id)).find(file => file.name === "sunset.png")!;
+    harbor = (await filesIn(archive.id)).find(file => file.name === "harbor.png")!;
+  });
+
+  after(async () => {
+    const { mockLLMProvider } = await import("../services/mock-llm");
+    mockLLMProvider.respondWith(null);
+    await server.close();
+  });
+
+  it("records an edit and an AI run with their source and template", async () => {
+    const template = (await client.request<MetadataTemplate>("POST", "/api/templates", { name: "Photos", fields: [] })).body;
+    assert.equal((await client.request("PATCH", `/api/files/${sunset.id}`, { aiGeneratedMetadata: EDITED })).status, 200);
+    assert.equal((await client.request("POST", `/api/process/file/${sunset.id}`, { templateId: template.id })).status, 200);
+
+    const [generated, edited] = await waitFor(() => revisions(sunset), current => current.length === 2);
+    assert.equal(edited.source, "manual");
+    assert.equal(edited.templateId, null);
+    assert.deepEqual(edited.aiGeneratedMetadata, EDITED);
+    assert.equal(generated.source, "ai");
+    assert.equal(generated.templateId, template.id);
+    assert.deepEqual(generated.aiGeneratedMetadata, GENERATED);
+  });
+
+  it("reports added, removed and changed fields between revisions", async () => {
+    const [generated, edited] = await revisions(sunset);
+    const expected = [
+      { section: "ai", field: "notes", change: "removed", before: "draft" },
+      { section: "ai", field: "tags", change: "added", after: ["sunset"] },
+      { section: "ai", field: "title", change: "changed", before: EDITED.title, after: GENERATED.title },
+    ];
+
+    const between = await client.request<MetadataRevisionDiff>("GET", `/api/files/${sunset.id}/revisions/diff?from=${edited.id}&to=${generated.id}`);
+    assert.equal(between.status, 200);
+    assert.deepEqual(between.body, { fromRevisionId: edited.id, toRevisionId: generated.id, changes: expected });
+
+    // Without "to", against the current metadata, which custom fields are part of
+    assert.equal((await client.request("PATCH", `/api/files/${sunset.id}`, { customMetadata: { rating: 5 } })).status, 200);
+    const current = await client.request<MetadataRevisionDiff>("GET", `/api/files/${sunset.id}/revisions/diff?from=${edited.id}`);
+    assert.deepEqual(current.body, {
+      fromRevisionId: edited.id,
+      toRevisionId: null,
+      changes: [...expected, { section: "custom", field: "rating", change: "added", after: 5 }],
+    });
+
+    assert.equal((await client.request("GET", `/api/files/${sunset.id}/revisions/diff?from=latest`)).status, 400);
+  });
+
+  it("reverts to an earlier revision and records the revert", async () => {
+    const history = await revisions(sunset);
+    const edited = history.find(revision => revision.source === "manual" && revision.customMetadata === null)!;
+
+    const reverted = await client.request<DriveFile>("POST", `/api/files/${sunset.id}/revisions/${edited.id}/revert`);
+    assert.equal(reverted.status, 200);
+    assert.deepEqual(reverted.body.aiGeneratedMetadata, EDITED);
+    assert.equal(reverted.body.customMetadata, null);
+
+    const [latest] = await revisions(sunset);
+    assert.equal(latest.source, "revert");
+    assert.equal(latest.revertedFromId, edited.id);
+    assert.deepEqual(latest.aiGeneratedMetadata, EDITED);
+
+    const unchanged = await client.request<MetadataRevisionDiff>("GET", `/api/files/${sunset.id}/revisions/diff?from=${edited.id}`);
+    assert.deepEqual(unchanged.body.changes, []);
+  });
+
+  it("doesn't find a revision through another file", async () => {
+    const [revision] = await revisions(sunset);
+    const harborHistory = await revisions(harbor);
+    assert.equal((await client.request("POST", `/api/files/${harbor.id}/revisions/${revision.id}/revert`)).status, 404);
+    assert.equal((await client.request("GET", `/api/files/${harbor.id}/revisions/diff?from=${revision.id}`)).status, 404);
+    assert.deepEqual(await revisions(harbor), harborHistory);
+    assert.deepEqual((await client.request<DriveFile>("GET", `/api/files/${harbor.id}`)).body.aiGeneratedMetadata, harbor.aiGeneratedMetadata);
+  });
+});
@@ -0,0 +1,109 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  WORKSPACE_PERMISSIONS,
+  WORKSPACE_PERMISSION_MATRIX,
+  WORKSPACE_ROLES,
+  type Workspace,
+  type WorkspacePermission,
+  type WorkspaceRole
+} from "@shared/schema";
+import { ApiClient, startTestServer, type TestServer } from "./test-server";
+
+process.env.STORAGE_BACKEND = "memory";
+
+// A request guarded by each permission, and what it answers once allowed.
+// Bodies and ids are invalid where that keeps the request from changing
+// anything past the permission check.
+const GUARDED_REQUESTS: [WorkspacePermission, string, string, unknown, number][] = [
+  ["metadata.edit", "PATCH", "/api/files/999999", { aiGeneratedMetadata: { title: "Edited" } }, 404],
+  ["metadata.edit", "POST", "/api/files/999999/revisions/1/revert", undefined, 404],
+  ["files.process", "POST", "/api/process/batch", { folderId: "folder", templateId: 999999 }, 404],
+  ["templates.manage", "POST", "/api/templates", {}, 400],
+  ["templates.manage", "DELETE", "/api/templates/clear", undefined, 200],
+  ["drive.export", "POST", "/api/export/bulk", { fileIds: [] }, 400],
+  ["workspace.manage", "PUT", "/api/workspaces/current/export-profile", {}, 400],
+  ["audit.view", "GET", "/api/audit", undefined, 200],
+];
+
+describe("workspace roles", () => {
+  let server: TestServer;
+  let workspace: Workspace;
+  const clients = {} as Record<WorkspaceRole, ApiClient>;
+
+  before(async () => {
+    server = await startTestServer();
+    for (const role of WORKSPACE_ROLES) {
+      clients[role] = new ApiClient(server.baseUrl);
+      assert.equal((await clients[role].request("POST", "/api/register", { username: `${role}-user`, password: `${role}-password` })).status, 201);
+    }
+
+    workspace = (await clients.admin.request<Workspace>("POST", "/api/workspaces", { name: "Team" })).body;
+    for (const role of WORKSPACE_ROLES) {
+      if (role !== "admin") {
+        const added = await clients.admin.request("POST", `/api/workspaces/${workspace.id}/members`, { username: `${role}-user`, role });
+        assert.equal(added.status, 201);
+      }
+      clients[role].headers["X-Workspace-Id"] = String(workspace.id);
+    }
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("reports each role's permissions from the matrix", async () => {
+    for (const role of WORKSPACE_ROLES) {
+      const { body } = await clients[role].request("GET", "/api/workspaces/current");
+      assert.equal(body.role, role);
+      assert.deepEqual(body.permissions, WORKSPACE_PERMISSIONS.filter(permission => WORKSPACE_PERMISSION_MATRIX[permission].includes(role)));
+    }
+  });
+
+  it("refuses every guarded route to roles without its permission", async () => {
+    for (const [permission, method, path, body, allowedStatus] of GUARDED_REQUESTS) {
+      for (const role of WORKSPACE_ROLES) {
+        const { status, body: response } = await clients[role].request(method, path, body);
+        if (WORKSPACE_PERMISSION_MATRIX[permission].includes(role)) {
+          assert.equal(status, allowedStatus, `${role}: ${method} ${path}`);
+        } else {
+          assert.equal(status, 403, `${role}: ${method} ${path}`);
+          assert.equal(response.message, `Your workspace role (${role}) does not allow ${permission}`);
+        }
+      }
+    }
+  });
+
+  it("lets every role browse", async () => {
+    for (const role of WORKSPACE_ROLES) {
+      assert.equal((await clients[role].request("GET", "/api/templates")).status, 200, role);
+      assert.equal((await clients[role].request("GET", "/api/jobs")).status, 200, role);
+    }
+  });
+
+  it("leaves managing members to admins and keeps one admin", async () => {
+    const members = `/api/workspaces/${workspace.id}/members`;
+    assert.equal((await clients.editor.request("POST", members, { username: "viewer-user", role: "admin" })).status, 403);
+    assert.equal((await clients.viewer.request("GET", members)).status, 200);
+
+    const { storage } = await import("../storage");
+    const admin = (await storage.getUserByUsername("admin-user"))!;
+    assert.equal((await clients.admin.request("POST", members, { username: "admin-user", role: "viewer" })).status, 400);
+    assert.equal((await clients.admin.request("DELETE", `${members}/${admin.id}`)).status, 400);
+  });
+
+  it("applies a changed role to the member's next request", async () => {
+    const members = `/api/workspaces/${workspace.id}/members`;
+    const { storage } = await import("../storage");
+    const editor = (await storage.getUserByUsername("editor-user"))!;
+
+    assert.equal((await clients.editor.request("DELETE", "/api/templates/clear")).status, 200);
+    assert.equal((await clients.admin.request("POST", members, { username: "editor-user", role: "viewer" })).status, 201);
+    assert.equal((await clients.editor.request("DELETE", "/api/templates/clear")).status, 403);
+
+    assert.equal((await clients.admin.request("DELETE", `${members}/${editor.id}`)).status, 200);
+    const removed = await clients.editor.request("GET", "/api/templates");
+    assert.equal(removed.status, 403);
+    assert.equal(removed.body.message, "You are not a member of this workspace");
+  });
+});
@@ -0,0 +1,248 @@
+import { after, afterEach, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { Readable } from "stream";
+import {
+  S3Client,
+  GetObjectCommand,
+  GetObjectTaggingCommand,
+  HeadObjectCommand,
+  ListBucketsCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  PutObjectTaggingCommand,
+  type Tag
+} from "@aws-sdk/client-s3";
+
+process.env.STORAGE_BACKEND = "memory";
+
+const { s3StorageProvider } = await import("../services/s3-storage");
+
+interface StoredObject {
+  body: Buffer;
+  contentType?: string;
+  lastModified: Date;
+  tags: Tag[];
+}
+
+// Answers the commands the provider sends the way S3 does, from objects kept
+// in memory. Listings return two entries a page so continuation is exercised.
+class FakeS3 {
+  objects = new Map<string, StoredObject>();
+  private pageSize = 2;
+
+  put(bucket: string, key: string, body: string, contentType?: string) {
+    this.objects.set(`${bucket}/${key}`, { body: Buffer.from(body), contentType, lastModified: new Date("2026-01-01T00:00:00Z"), tags: [] });
+  }
+
+  get(bucket: string, key: string): StoredObject {
+    const object = this.objects.get(`${bucket}/${key}`);
+    if (!object) {
+      throw Object.assign(new Error("The specified key does not exist."), { name: "NoSuchKey", $metadata: { httpStatusCode: 404 } });
+    }
+    return object;
+  }
+
+  async send(command: unknown): Promise<unknown> {
+    if (command instanceof ListBucketsCommand) {
+      const buckets = new Set(Array.from(this.objects.keys(), id => id.split("/")[0]));
+      return { Buckets: Array.from(buckets, Name => ({ Name })) };
+    }
+    if (command instanceof ListObjectsV2Command) {
+      return this.list(command.input.Bucket!, command.input.Prefix ?? "", command.input.ContinuationToken);
+    }
+    if (command instanceof HeadObjectCommand) {
+      const object = this.get(command.input.Bucket!, command.input.Key!);
+      return { ContentLength: object.body.length, ContentType: object.contentType, LastModified: object.lastModified };
+    }
+    if (command instanceof GetObjectCommand) {
+      const object = this.get(command.input.Bucket!, command.input.Key!);
+      const range = command.input.Range?.match(/^bytes=(\d+)-(\d*)$/);
+      const body = range ? object.body.subarray(Number(range[1]), range[2] ? Number(range[2]) + 1 : undefined) : object.body;
+      return { Body: Object.assign(Readable.from([body]), { transformToString: async () => body.toString("utf8") }) };
+    }
+    if (command instanceof PutObjectCommand) {
+      this.put(command.input.Bucket!, command.input.Key!, String(command.input.Body), command.input.ContentType);
+      return {};
+    }
+    if (command instanceof GetObjectTaggingCommand) {
+      return { TagSet: this.get(command.input.Bucket!, command.input.Key!).tags };
+    }
+    if (command instanceof PutObjectTaggingCommand) {
+      this.get(command.input.Bucket!, command.input.Key!).tags = command.input.Tagging!.TagSet!;
+      return {};
+    }
+    throw new Error(`Unexpected command ${(command as object).constructor.name}`);
+  }
+
+  // Keys and common prefixes below prefix in key order, delimited by '/'
+  private list(bucket: string, prefix: string, token?: string) {
+    const entries: { key?: string; prefix?: string }[] = [];
+    const keys = Array.from(this.objects.keys())
+      .filter(id => id.startsWith(`${bucket}/${prefix}`))
+      .map(id => id.slice(bucket.length + 1))
+      .sort();
+    for (const key of keys) {
+      const slash = key.indexOf("/", prefix.length);
+      if (slash === -1) {
+        entries.push({ key });
+      } else if (entries.at(-1)?.prefix !== key.slice(0, slash + 1)) {
+        entries.push({ prefix: key.slice(0, slash + 1) });
+      }
+    }
+
+    const start = Number(token ?? 0);
+    const page = entries.slice(start, start + this.pageSize);
+    const more = start + this.pageSize < entries.length;
+    return {
+      Contents: page.filter(entry => entry.key).map(entry => {
+        const object = this.objects.get(`${bucket}/${entry.key}`)!;
+        return { Key: entry.key, Size: object.body.length, LastModified: object.lastModified };
+      }),
+      CommonPrefixes: page.filter(entry => entry.prefix).map(entry => ({ Prefix: entry.prefix })),
+      IsTruncated: more,
+      NextContinuationToken: more ? String(start + this.pageSize) : undefined,
+    };
+  }
+}
+
+function idOf(bucket: string, key: string): string {
+  return `s3:${Buffer.from(`${bucket}/${key}`).toString("base64url")}`;
+}
+
+async function allFiles(folderId: string) {
+  const files = [];
+  for await (const page of s3StorageProvider.listFilePages(null, folderId)) files.push(...page);
+  return files;
+}
+
+async function readAll(stream: Readable): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+describe("S3 storage", () => {
+  let s3: FakeS3;
+
+  before(() => {
+    process.env.S3_ENDPOINT = "http://127.0.0.1:9000";
+    mock.method(S3Client.prototype, "send", (command: unknown) => s3.send(command));
+  });
+
+  after(() => {
+    mock.restoreAll();
+    delete process.env.S3_ENDPOINT;
+  });
+
+  // media/ holds a folder marker, photos with a hidden sidecar, a nested
+  // prefix, and five files at the top for paging; archive/ has one object
+  function seed() {
+    s3 = new FakeS3();
+    s3.put("media", "photos/", "");
+    s3.put("media", "photos/beach.png", "0123456789");
+    s3.put("media", "photos/.beach.png.metadata.json", "{}");
+    s3.put("media", "photos/2026/forest.png", "forest");
+    s3.put("media", "photos/raw.unknownext", "raw", "image/x-raw");
+    s3.put("media", ".trash/old.png", "old");
+    for (const name of ["a", "b", "c", "d", "e"]) {
+      s3.put("media", `${name}.txt`, name);
+    }
+    s3.put("archive", "2020.zip", "zip");
+  }
+
+  afterEach(() => {
+    delete process.env.S3_BUCKETS;
+    delete process.env.S3_METADATA_TARGET;
+  });
+
+  it("lists buckets and prefixes as folders", async () => {
+    seed();
+    const rootId = s3StorageProvider.getRootFolder().id;
+    assert.deepEqual((await s3StorageProvider.getChildFolders(rootId)).map(folder => folder.path), ["S3/archive", "S3/media"]);
+
+    process.env.S3_BUCKETS = "media";
+    assert.deepEqual((await s3StorageProvider.getChildFolders(rootId)).map(folder => folder.name), ["media"]);
+
+    const folders = await s3StorageProvider.listFolders();
+    assert.deepEqual(folders.map(folder => folder.name), ["media", "photos", "2026"]);
+    assert.deepEqual(folders[1].parents, [idOf("media", "")]);
+    assert.deepEqual(await s3StorageProvider.getSubtreeFolderIds(idOf("media", "photos/")), [idOf("media", "photos/"), idOf("media", "photos/2026/")]);
+  });
+
+  it("lists a prefix's objects across pages, without hidden objects or folder markers", async () => {
+    seed();
+    const top = await allFiles(idOf("media", ""));
+    assert.deepEqual(top.map(file => file.name), ["a.txt", "b.txt", "c.txt", "d.txt", "e.txt"]);
+    assert.deepEqual(top[0].parents, [idOf("media", "")]);
+
+    const photos = await allFiles(idOf("media", "photos/"));
+    assert.deepEqual(photos.map(file => [file.name, file.size, file.modifiedTime]), [
+      ["beach.png", "10", "2026-01-01T00:00:00.000Z"],
+      ["raw.unknownext", "3", "2026-01-01T00:00:00.000Z"],
+    ]);
+    await assert.rejects(allFiles(idOf("media", "photos/beach.png")), /Not an S3 folder id/);
+  });
+
+  it("streams whole objects and byte ranges", async () => {
+    seed();
+    const beach = idOf("media", "photos/beach.png");
+    assert.equal(await readAll(await s3StorageProvider.openFileStream(null, beach)), "0123456789");
+    assert.equal(await readAll(await s3StorageProvider.openFileStream(null, beach, { start: 2, end: 4 })), "234");
+    assert.equal(await readAll(await s3StorageProvider.openFileStream(null, beach, { start: 7 })), "789");
+    await assert.rejects(s3StorageProvider.openFileStream(null, idOf("media", "photos/")), /Not an S3 object id/);
+  });
+
+  it("describes objects, trusting S3's content type only for unknown extensions", async () => {
+    seed();
+    s3.put("media", "photos/beach.png", "0123456789", "application/octet-stream");
+    assert.equal((await s3StorageProvider.getFileMetadata(null, idOf("media", "photos/beach.png"))).mimeType, "image/png");
+    assert.equal((await s3StorageProvider.getFileMetadata(null, idOf("media", "photos/raw.unknownext"))).mimeType, "image/x-raw");
+    await assert.rejects(s3StorageProvider.getFileMetadata(null, idOf("media", "photos/missing.png")), /Failed to get file metadata/);
+  });
+
+  it("writes metadata to a sidecar object without touching the object", async () => {
+    seed();
+    const id = idOf("media", "photos/raw.unknownext");
+    const modified = await s3StorageProvider.updateFileMetadata(null, id, {
+      properties: { AI_title: "Raw", AI_old: "x" },
+      description: "Unprocessed",
+    });
+    assert.equal(modified?.toISOString(), "2026-01-01T00:00:00.000Z");
+
+    await s3StorageProvider.updateFileMetadata(null, id, { properties: { AI_old: null } });
+    const metadata = await s3StorageProvider.getFileMetadata(null, id);
+    assert.deepEqual(metadata.properties, { AI_title: "Raw" });
+    assert.equal(metadata.description, "Unprocessed");
+    assert.ok(s3.objects.has("media/photos/.raw.unknownext.metadata.json"));
+    assert.equal(s3.get("media", "photos/raw.unknownext").body.toString(), "raw");
+  });
+
+  it("writes metadata to object tags, keeping the object's other tags", async () => {
+    seed();
+    process.env.S3_METADATA_TARGET = "tags";
+    const id = idOf("media", "photos/beach.png");
+    s3.get("media", "photos/beach.png").tags = [{ Key: "owner", Value: "ana" }];
+
+    await s3StorageProvider.updateFileMetadata(null, id, { properties: { AI_title: "Beach" }, description: "Sea" });
+    const tags = s3.get("media", "photos/beach.png").tags;
+    assert.deepEqual(tags[0], { Key: "owner", Value: "ana" });
+    assert.ok(tags.slice(1).every(tag => tag.Key!.startsWith("ai-metadata.") && tag.Value!.length <= 256));
+
+    const metadata = await s3StorageProvider.getFileMetadata(null, id);
+    assert.deepEqual(metadata.properties, { AI_title: "Beach" });
+    assert.equal(metadata.description, "Sea");
+    assert.equal(s3.get("media", "photos/.beach.png.metadata.json").body.toString(), "{}");
+  });
+
+  it("refuses metadata that needs more tags than the object has free", async () => {
+    seed();
+    process.env.S3_METADATA_TARGET = "tags";
+    const id = idOf("media", "photos/beach.png");
+    s3.get("media", "photos/beach.png").tags = Array.from({ length: 9 }, (_, i) => ({ Key: `label${i}`, Value: "x" }));
+
+    // Random text barely compresses, so it takes several 256 character tags
+    const noise = Array.from({ length: 600 }, () => Math.random().toString(36).slice(2)).join("");
+    await assert.rejects(s3StorageProvider.updateFileMetadata(null, id, { description: noise }), /only 1 are free; use S3_METADATA_TARGET=sidecar/);
+    assert.equal(s3.get("media", "photos/beach.png").tags.length, 9);
+  });
+});
@@ -0,0 +1,102 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { SHARED_DRIVES_PARENT_ID, type DriveFile, type DriveFilePage, type DriveFolderNode } from "@shared/schema";
+import { ApiClient, startTestServer, waitFor, type TestServer } from "./test-server";
+
+// The fake Drive's 'Shared drives' fixtures: Marketing, holding logo.png and
+// Campaigns/launch.png
+process.env.STORAGE_BACKEND = "memory";
+process.env.DRIVE_BACKEND = "fake";
+process.env.LLM_PROVIDER = "mock";
+
+const GENERATED = { title: "Marketing logo", tags: ["brand"] };
+
+describe("shared drives", () => {
+  let server: TestServer;
+  let client: ApiClient;
+  let marketing: DriveFolderNode;
+
+  const tree = async (query: string) => {
+    const { status, body } = await client.request<{ folders: DriveFolderNode[] }>("GET", `/api/drive/tree${query}`);
+    assert.equal(status, 200);
+    return body.folders;
+  };
+
+  const fileIn = async (folderId: string, name: string) => {
+    const { files } = (await client.request<DriveFilePage>("GET", `/api/drive/files/${folderId}`)).body;
+    const file = files.find(candidate => candidate.name === name);
+    assert.ok(file, `no ${name} in ${folderId}`);
+    return file;
+  };
+
+  // What Drive holds for the file, read the way the app reads shared drives
+  const inDrive = async (file: DriveFile) => {
+    const { getFakeDriveClient } = await import("../services/fake-drive");
+    return (await getFakeDriveClient().files.get({ fileId: file.driveId, supportsAllDrives: true })).data;
+  };
+
+  before(async () => {
+    const { mockLLMProvider } = await import("../services/mock-llm");
+    mockLLMProvider.respondWith(() => GENERATED);
+
+    server = await startTestServer();
+    client = new ApiClient(server.baseUrl);
+    assert.equal((await client.request("POST", "/api/register", { username: "marketer", password: "marketer-password" })).status, 201);
+    const linked = await client.request("POST", "/api/auth/google/callback", { code: "fake" });
+    assert.equal(linked.status, 200);
+    client.headers["X-Google-Account-Id"] = String(linked.body.account.id);
+  });
+
+  after(async () => {
+    const { mockLLMProvider } = await import("../services/mock-llm");
+    mockLLMProvider.respondWith(null);
+    await server.close();
+  });
+
+  it("shows each shared drive as a root of its own, next to My Drive", async () => {
+    [marketing] = await tree(`?parentId=${SHARED_DRIVES_PARENT_ID}`);
+    assert.equal(marketing.name, "Marketing");
+    assert.equal(marketing.parentId, SHARED_DRIVES_PARENT_ID);
+    assert.equal(marketing.sharedDriveId, marketing.id);
+    assert.equal(marketing.path, "/Marketing");
+    assert.deepEqual(marketing.children?.map(folder => [folder.name, folder.path, folder.sharedDriveId]), [
+      ["Campaigns", "/Marketing/Campaigns", marketing.id],
+    ]);
+
+    const myDrive = await tree("");
+    assert.ok(myDrive.every(folder => folder.sharedDriveId === null && folder.name !== "Campaigns"));
+  });
+
+  it("lists shared drive files with the drive they come from", async () => {
+    const logo = await fileIn(marketing.id, "logo.png");
+    assert.equal(logo.sharedDriveId, marketing.id);
+    assert.equal(logo.parentFolderId, marketing.id);
+
+    const launch = await fileIn(marketing.children![0].id, "launch.png");
+    assert.equal(launch.sharedDriveId, marketing.id);
+  });
+
+  it("processes a shared drive file and exports its metadata back to the drive", async () => {
+    const { driveMetadataService } = await import("../services/drive-metadata");
+    const { getFakeDriveClient } = await import("../services/fake-drive");
+    const logo = await fileIn(marketing.id, "logo.png");
+
+    assert.equal((await client.request("POST", `/api/process/file/${logo.id}`, {})).status, 200);
+    const processed = await waitFor(
+      async () => (await client.request<DriveFile>("GET", `/api/files/${logo.id}`)).body,
+      file => file.status !== "pending" && file.status !== "processing",
+    );
+    assert.equal(processed.status, "processed", processed.processingError ?? undefined);
+    assert.deepEqual(processed.aiGeneratedMetadata, GENERATED);
+    // The export to Drive follows the status change
+    await waitFor(async () => driveMetadataService.readMetadata(await inDrive(logo)), metadata => metadata !== null);
+
+    const edited = { ...GENERATED, title: "Brand logo" };
+    assert.equal((await client.request("PATCH", `/api/files/${logo.id}`, { aiGeneratedMetadata: edited })).status, 200);
+    assert.equal((await client.request("POST", `/api/export/file/${logo.id}`)).status, 200);
+    assert.deepEqual(driveMetadataService.readMetadata(await inDrive(logo)), edited);
+
+    // Drive only finds shared drive files for requests that support them
+    await assert.rejects(getFakeDriveClient().files.get({ fileId: logo.driveId }), /File not found/);
+  });
+});
@@ -0,0 +1,64 @@
+import express from "express";
+import type { AddressInfo } from "net";
+
+// The API on a free local port. Storage and the Drive backend are picked
+// when their modules load, so a test file sets its environment before
+// starting one; the server modules are imported only here.
+export interface TestServer {
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+export async function startTestServer(): Promise<TestServer> {
+  process.env.SESSION_SECRET ??= "test-session-secret";
+  const { registerRoutes } = await import("../routes");
+  const { initStorage } = await import("../storage");
+
+  await initStorage();
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    },
+  };
+}
+
+// JSON requests that keep the session cookie from the last response. headers
+// go with every request, e.g. X-Workspace-Id.
+export class ApiClient {
+  private cookie = "";
+  headers: Record<string, string> = {};
+
+  constructor(private baseUrl: string) {}
+
+  async request<T = any>(method: string, path: string, body?: unknown): Promise<{ status: number; body: T }> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: { ...this.headers, "content-type": "application/json", cookie: this.cookie },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    this.cookie = response.headers.get("set-cookie")?.split(";")[0] ?? this.cookie;
+    // 204 responses have no body
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : undefined };
+  }
+}
+
+// Processing runs after the response, so its results are polled for
+export async function waitFor<T>(load: () => Promise<T>, done: (value: T) => boolean, timeoutMs = 30000): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = await load();
+    if (done(value)) return value;
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting, last value: ${JSON.stringify(value)}`);
+    }
+    await new Promise(resolve => setTimeout(resolve, 200));
+  }
+}
@@ -0,0 +1,107 @@
+import type { NextFunction, Request, Response } from "express";
+import { storage } from "./storage";
+import {
+  hasWorkspacePermission,
+  type Workspace,
+  type WorkspaceMember,
+  type WorkspacePermission
+} from "@shared/schema";
+
+export const WORKSPACE_HEADER = "X-Workspace-Id";
+
+const DEFAULT_WORKSPACE_NAME = "Default workspace";
+
+declare global {
+  namespace Express {
+    interface Request {
+      workspace?: Workspace;
+      workspaceMember?: WorkspaceMember;
+    }
+  }
+}
+
+let defaultWorkspace: Promise<Workspace> | null = null;
+
+// The oldest workspace; it is created on first use so a fresh install works
+// without any setup, and is handed to the first account that registers.
+export function getDefaultWorkspace(): Promise<Workspace> {
+  if (!defaultWorkspace) {
+    defaultWorkspace = (async () => {
+      const [first] = (await storage.getAllWorkspaces()).sort((a, b) => a.id - b.id);
+      return first ?? await storage.createWorkspace({ name: DEFAULT_WORKSPACE_NAME });
+    })();
+    defaultWorkspace.catch(() => {
+      defaultWorkspace = null;
+    });
+  }
+  return defaultWorkspace;
+}
+
+// Resolves the caller's active workspace from the X-Workspace-Id header, or the
+// workspaceId query param for plain links such as backup downloads. Only
+// workspaces the logged-in user is a member of can be selected.
+export async function workspaceContext(req: Request, res: Response, next: NextFunction) {
+  try {
+    if (!req.user) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+
+    const requested = req.header(WORKSPACE_HEADER) ?? req.query.workspaceId;
+    let workspaceId: number;
+    if (requested === undefined || requested === "") {
+      // Without a choice the user's oldest workspace is used
+      const [first] = await storage.getWorkspacesForUser(req.user.id);
+      if (!first) {
+        return res.status(403).json({ message: "You are not a member of any workspace" });
+      }
+      workspaceId = first.id;
+    } else {
+      workspaceId = Number(requested);
+      if (!Number.isInteger(workspaceId)) {
+        return res.status(400).json({ message: "Invalid workspace id" });
+      }
+    }
+
+    const [workspace, member] = await Promise.all([
+      storage.getWorkspace(workspaceId),
+      storage.getWorkspaceMember(workspaceId, req.user.id),
+    ]);
+    if (!workspace) {
+      return res.status(404).json({ message: "Workspace not found" });
+    }
+    if (!member) {
+      return res.status(403).json({ message: "You are not a member of this workspace" });
+    }
+
+    req.workspace = workspace;
+    req.workspaceMember = member;
+    next();
+  } catch (error) {
+    res.status(500).json({ message: (error as Error).message });
+  }
+}
+
+// Only valid behind workspaceContext
+export function getWorkspaceId(req: Request): number {
+  if (!req.workspace) {
+    throw new Error("No active workspace for this request");
+  }
+  return req.workspace.id;
+}
+
+// Answers 403 unless the caller's role in the active workspace holds the
+// permission (see WORKSPACE_PERMISSION_MATRIX). Only valid behind workspaceContext.
+export function requirePermission(permission: WorkspacePermission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const role = req.workspaceMember?.role;
+    if (!role || !hasWorkspacePermission(role, permission)) {
+      return res.status(403).json({ message: `Your workspace role (${role ?? "none"}) does not allow ${permission}` });
+    }
+    next();
+  };
+}
+
+// Records scoped to another workspace are reported as missing, never exposed
+export function inWorkspace<T extends { workspaceId: number }>(req: Request, record: T | undefined): T | undefined {
+  return record && record.workspaceId === getWorkspaceId(req) ? record : undefined;
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, timestamp, jsonb, json, varchar, index, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,51 +8,335 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+// Login sessions, read and written by connect-pg-simple; declared here so the
+// table is created by our migrations
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_session_expire").on(table.expire),
+]);
+
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  exportProfile: jsonb("export_profile"), // ExportProfile for Drive exports, null for DEFAULT_EXPORT_PROFILE
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  role: text("role").notNull().default("viewer"), // see WORKSPACE_ROLES
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  unique("workspace_members_workspace_user_unique").on(table.workspaceId, table.userId),
+]);
+
+// Google accounts linked by a user. Tokens are encrypted at rest and only
+// decrypted by GoogleDriveService.
+export const googleAccounts = pgTable("google_accounts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  email: text("email").notNull(),
+  name: text("name"),
+  accessToken: text("access_token"), // encrypted
+  refreshToken: text("refresh_token"), // encrypted
+  tokenExpiresAt: timestamp("token_expires_at"),
+  scope: text("scope"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  unique("google_accounts_user_email_unique").on(table.userId, table.email),
+]);
+
+// Personal API tokens for scripts and CI. Only a hash of the token is stored;
+// the token itself is shown once when it is created or rotated.
+export const apiTokens = pgTable("api_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(), // sha256 hex
+  tokenPrefix: text("token_prefix").notNull(), // start of the token, to tell tokens apart
+  scopes: text("scopes").array().notNull(), // see API_TOKEN_SCOPES
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  rotatedAt: timestamp("rotated_at"),
+});
+
 export const driveFiles = pgTable("drive_files", {
   id: serial("id").primaryKey(),
-  driveId: text("drive_id").notNull().unique(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
+  provider: text("provider").notNull().default("google_drive"), // StorageProviderType the file is read from
+  googleAccountId: integer("google_account_id").references(() => googleAccounts.id), // account the file is read through
+  driveId: text("drive_id").notNull(), // unique per workspace
+  sharedDriveId: text("shared_drive_id"), // shared drive holding the file, null for My Drive
   name: text("name").notNull(),
   type: text("type").notNull(), // 'image', 'video', 'pdf', 'other'
-  size: integer("size").notNull(),
+  size: bigint("size", { mode: "number" }).notNull(), // bytes; files can pass 2 GB
   mimeType: text("mime_type").notNull(),
   parentFolderId: text("parent_folder_id"),
   webViewLink: text("web_view_link"),
   thumbnailLink: text("thumbnail_link"),
   createdTime: timestamp("created_time").notNull(),
   modifiedTime: timestamp("modified_time").notNull(),
-  status: text("status").notNull().default("pending"), // 'pending', 'processing', 'processed', 'error'
+  status: text("status").notNull().default("pending"), // 'pending', 'processing', 'processed', 'skipped', 'error'
+  skipReason: text("skip_reason"), // FileSkipReason, set while the status is 'skipped'
   processingError: text("processing_error"),
-  existingMetadata: jsonb("existing_metadata"),
+  existingMetadata: jsonb("existing_metadata"), // ExistingMetadata captured from Drive when the file is synced
   aiGeneratedMetadata: jsonb("ai_generated_metadata"),
   customMetadata: jsonb("custom_metadata"),
-});
+  stale: boolean("stale").notNull().default(false), // changed in Drive after it was processed
+  removedAt: timestamp("removed_at"), // set when the file is deleted or trashed in Drive
+}, (table) => [
+  unique("drive_files_workspace_drive_id_unique").on(table.workspaceId, table.driveId),
+]);
 
 export const metadataTemplates = pgTable("metadata_templates", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
   name: text("name").notNull(),
   description: text("description"),
   fields: jsonb("fields").notNull(), // Array of field definitions
+  exportProfile: jsonb("export_profile"), // ExportProfile overriding the workspace's for metadata from this template
+  llmProvider: text("llm_provider"), // LLMProviderName; null uses LLM_PROVIDER
+  llmModel: text("llm_model"), // null uses the provider's default model
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const processingJobs = pgTable("processing_jobs", {
   id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id),
   folderId: text("folder_id").notNull(),
   templateId: integer("template_id").references(() => metadataTemplates.id),
   status: text("status").notNull().default("pending"), // 'pending', 'running', 'completed', 'failed'
   totalFiles: integer("total_files").notNull(),
   processedFiles: integer("processed_files").notNull().default(0),
   failedFiles: integer("failed_files").notNull().default(0),
+  skippedFiles: integer("skipped_files").notNull().default(0),
+  llmProvider: text("llm_provider"), // overrides the template's provider and model for this job
+  llmModel: text("llm_model"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
   completedAt: timestamp("completed_at"),
   errorMessage: text("error_message"),
 });
 
+export const metadataRevisions = pgTable("metadata_revisions", {
+  id: serial("id").primaryKey(),
+  fileId: integer("file_id").notNull().references(() => driveFiles.id),
+  source: text("source").notNull(), // 'ai', 'manual', 'drive_restore', 'bulk', 'revert'
+  templateId: integer("template_id").references(() => metadataTemplates.id),
+  revertedFromId: integer("reverted_from_id"), // revision restored by a 'revert'
+  aiGeneratedMetadata: jsonb("ai_generated_metadata"), // snapshot after the change
+  customMetadata: jsonb("custom_metadata"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("metadata_revisions_file_id_idx").on(table.fileId),
+]);
+
+// Append-only log of state-changing actions; rows are never updated or deleted
+export const auditEvents = pgTable("audit_events", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").references(() => workspaces.id), // null for account-level actions such as linking Google
+  actorUserId: integer("actor_user_id").references(() => users.id),
+  actorApiTokenId: integer("actor_api_token_id"), // no foreign key, revoked tokens are deleted but their history stays
+  action: text("action").notNull(), // see auditActions
+  targetType: text("target_type").notNull(), // 'file', 'folder', 'template', 'workspace', 'processing_job', 'google_account'
+  targetIds: text("target_ids").array().notNull(),
+  before: jsonb("before"), // summary of the affected state before the action
+  after: jsonb("after"),
+  requestId: text("request_id"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_events_workspace_id_idx").on(table.workspaceId),
+]);
+
+// Where each Google account is in the Drive Changes feed, advanced by the drive sync job
+export const driveSyncStates = pgTable("drive_sync_states", {
+  id: serial("id").primaryKey(),
+  googleAccountId: integer("google_account_id").notNull().unique().references(() => googleAccounts.id),
+  startPageToken: text("start_page_token").notNull(), // next changes.list page to read
+  lastSyncedAt: timestamp("last_synced_at"),
+  lastError: text("last_error"),
+  lastChangeCounts: jsonb("last_change_counts"), // DriveSyncCounts of the latest sync
+  totalChangeCounts: jsonb("total_change_counts"), // DriveSyncCounts since the account was linked
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Drive push notification channels: one per account on its Changes feed, plus
+// any on single files or folders. Drive can't extend a channel, so each is
+// replaced by a new one before it expires.
+export const driveWatchChannels = pgTable("drive_watch_channels", {
+  id: serial("id").primaryKey(),
+  googleAccountId: integer("google_account_id").notNull().references(() => googleAccounts.id),
+  kind: text("kind").notNull(), // DriveWatchKind
+  fileId: text("file_id"), // watched file or folder, null for 'changes'
+  channelId: text("channel_id").notNull().unique(), // ours, echoed in X-Goog-Channel-ID
+  resourceId: text("resource_id").notNull(), // Drive's id for the watched resource, needed to stop the channel
+  token: text("token").notNull(), // secret echoed in X-Goog-Channel-Token
+  expiresAt: timestamp("expires_at").notNull(),
+  lastNotifiedAt: timestamp("last_notified_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Cached Drive folder hierarchy per Google account, rebuilt by the folder tree refresh job
+export const driveFolders = pgTable("drive_folders", {
+  id: serial("id").primaryKey(),
+  googleAccountId: integer("google_account_id").notNull().references(() => googleAccounts.id),
+  driveId: text("drive_id").notNull(),
+  name: text("name").notNull(),
+  parentDriveId: text("parent_drive_id").notNull(), // 'root' for top-level folders and folders whose parent isn't visible, SHARED_DRIVES_PARENT_ID for shared drives
+  sharedDriveId: text("shared_drive_id"), // shared drive holding the folder (its own id for the drive itself), null for My Drive
+  path: text("path").notNull(), // materialized name path, e.g. '/My Drive/Photos/2024'
+  idPath: text("id_path").notNull(), // materialized id path, e.g. '/root/<id>/<id>'
+  syncedAt: timestamp("synced_at").notNull().defaultNow(),
+}, (table) => [
+  index("drive_folders_parent_drive_id_idx").on(table.parentDriveId),
+  unique("drive_folders_account_drive_id_unique").on(table.googleAccountId, table.driveId),
+]);
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
 });
 
+// Credentials accepted by registration; the password is hashed before it is stored
+export const registerUserSchema = z.object({
+  username: z.string().trim().min(3).max(64),
+  password: z.string().min(8).max(256),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+export const WORKSPACE_ROLES = ["viewer", "editor", "reviewer", "admin"] as const;
+
+export const WORKSPACE_PERMISSIONS = [
+  "metadata.edit", // edit and revert a file's metadata
+  "files.process", // run AI processing on files and folders
+  "templates.manage", // create, upload and clear metadata templates
+  "drive.export", // write metadata back to Drive properties
+  "workspace.manage", // members, backups and restores
+  "audit.view", // read the workspace audit log
+] as const;
+
+// Which roles hold each permission. Every member can browse and search.
+export const WORKSPACE_PERMISSION_MATRIX: Record<WorkspacePermission, readonly WorkspaceRole[]> = {
+  "metadata.edit": ["editor", "reviewer", "admin"],
+  "files.process": ["editor", "admin"],
+  "templates.manage": ["editor", "admin"],
+  "drive.export": ["reviewer", "admin"],
+  "workspace.manage": ["admin"],
+  "audit.view": ["reviewer", "admin"],
+};
+
+export function hasWorkspacePermission(role: string, permission: WorkspacePermission): boolean {
+  return (WORKSPACE_PERMISSION_MATRIX[permission] as readonly string[]).includes(role);
+}
+
+// Where a file's content comes from and where its metadata is written back
+export const STORAGE_PROVIDER_TYPES = ["google_drive", "local", "s3"] as const;
+export type StorageProviderType = typeof STORAGE_PROVIDER_TYPES[number];
+
+// What a Drive push notification channel watches: an account's Changes feed,
+// or one file or folder
+export const DRIVE_WATCH_KINDS = ["changes", "file"] as const;
+export type DriveWatchKind = typeof DRIVE_WATCH_KINDS[number];
+
+// Why a file was left unprocessed; processingError explains it for people
+export const FILE_SKIP_REASONS = ["too_large"] as const;
+export type FileSkipReason = typeof FILE_SKIP_REASONS[number];
+
+// Backends metadata generation, transcription and search can run on; `mock`
+// answers deterministically without network access
+export const LLM_PROVIDERS = ["openai", "anthropic", "ollama", "mock"] as const;
+export type LLMProviderName = typeof LLM_PROVIDERS[number];
+
+// Provider and model of a template or job; unset fields fall back in turn to
+// the template's and then to LLM_PROVIDER and the provider's default model
+export const llmSelectionSchema = z.object({
+  llmProvider: z.enum(LLM_PROVIDERS).nullable().optional(),
+  llmModel: z.string().trim().min(1).max(200).nullable().optional(),
+});
+export type LLMSelection = z.infer<typeof llmSelectionSchema>;
+
+// GET /api/llm/providers
+export interface LLMProviderList {
+  default: LLMProviderName; // used when neither job nor template picks one
+  providers: {
+    name: LLMProviderName;
+    configured: boolean;
+    models: { chat: string; transcription?: string; embedding?: string };
+  }[];
+}
+
+// Where exported metadata is written on the Drive file: public properties
+// (visible to every app), appProperties (private to this app) or a summary
+// block in the file description
+export const METADATA_WRITE_TARGETS = ["properties", "appProperties", "description"] as const;
+
+// targets applies to every metadata field without its own entry in fields; a
+// field mapped to no targets is not exported
+export const exportProfileSchema = z.object({
+  targets: z.array(z.enum(METADATA_WRITE_TARGETS)).min(1),
+  fields: z.record(z.string(), z.array(z.enum(METADATA_WRITE_TARGETS))).default({}),
+});
+
+export type MetadataWriteTarget = typeof METADATA_WRITE_TARGETS[number];
+export type ExportProfile = z.infer<typeof exportProfileSchema>;
+
+export const DEFAULT_EXPORT_PROFILE: ExportProfile = { targets: ["properties"], fields: {} };
+
+// PUT /api/workspaces/current/export-profile and /api/templates/:id/export-profile
+export const updateExportProfileSchema = z.object({
+  exportProfile: exportProfileSchema.nullable(),
+});
+
+// POST /api/drive/watch
+export const createDriveWatchSchema = z.object({
+  fileId: z.string().min(1), // a file or folder of the active Google account
+});
+
+// PUT /api/templates/:id/llm; null falls back to LLM_PROVIDER or the
+// provider's default model
+export const updateTemplateLLMSchema = llmSelectionSchema.required();
+
+export const insertWorkspaceSchema = createInsertSchema(workspaces).pick({
+  name: true,
+}).extend({
+  name: z.string().trim().min(1).max(100),
+});
+
+export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  role: z.enum(WORKSPACE_ROLES).optional(),
+});
+
+// read-only allows GET requests only; admin covers every other scope
+export const API_TOKEN_SCOPES = ["read-only", "process", "export", "admin"] as const;
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens).omit({
+  id: true,
+  createdAt: true,
+});
+
+// What a user submits to create a token; the secret itself is generated
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1).transform(scopes => Array.from(new Set(scopes))),
+});
+
+export const insertAuditEventSchema = createInsertSchema(auditEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertDriveFileSchema = createInsertSchema(driveFiles).omit({
   id: true,
 });
@@ -60,16 +344,72 @@ export const insertDriveFileSchema = createInsertSchema(driveFiles).omit({
 export const insertMetadataTemplateSchema = createInsertSchema(metadataTemplates).omit({
   id: true,
   createdAt: true,
-});
+}).extend({
+  exportProfile: exportProfileSchema.nullable().optional(),
+}).merge(llmSelectionSchema);
 
 export const insertProcessingJobSchema = createInsertSchema(processingJobs).omit({
   id: true,
   createdAt: true,
   completedAt: true,
+}).merge(llmSelectionSchema);
+
+// createdAt stays optional so restored backups keep their original timestamps
+export const insertMetadataRevisionSchema = createInsertSchema(metadataRevisions).omit({
+  id: true,
+});
+
+export const insertDriveFolderSchema = createInsertSchema(driveFolders).omit({
+  id: true,
+  syncedAt: true,
+});
+
+export const insertDriveSyncStateSchema = createInsertSchema(driveSyncStates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDriveWatchChannelSchema = createInsertSchema(driveWatchChannels).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertGoogleAccountSchema = createInsertSchema(googleAccounts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
 });
 
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type PublicUser = Omit<User, "password">;
+export type RegisterUser = z.infer<typeof registerUserSchema>;
+export type LoginCredentials = z.infer<typeof loginSchema>;
+
+export type Workspace = typeof workspaces.$inferSelect;
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+export type WorkspacePermission = typeof WORKSPACE_PERMISSIONS[number];
+
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
+
+export type GoogleAccount = typeof googleAccounts.$inferSelect;
+export type InsertGoogleAccount = z.infer<typeof insertGoogleAccountSchema>;
+// What the client gets to see of a linked account
+export type PublicGoogleAccount = Pick<GoogleAccount, "id" | "email" | "name" | "createdAt">;
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiTokenScope = typeof API_TOKEN_SCOPES[number];
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
+// Tokens as listed to their owner; the secret is only included right after
+// it is created or rotated
+export type PublicApiToken = Omit<ApiToken, "tokenHash"> & { token?: string };
+
+export type AuditEvent = typeof auditEvents.$inferSelect;
+export type InsertAuditEvent = z.infer<typeof insertAuditEventSchema>;
 
 export type DriveFile = typeof driveFiles.$inferSelect;
 export type InsertDriveFile = z.infer<typeof insertDriveFileSchema>;
@@ -78,4 +418,265 @@ export type MetadataTemplate = typeof metadataTemplates.$inferSelect;
 export type InsertMetadataTemplate = z.infer<typeof insertMetadataTemplateSchema>;
 
 export type ProcessingJob = typeof processingJobs.$inferSelect;
-export type InsertProcessingJob = z.infer<typeof insertProcessingJobSchema>;
\ No newline at end of file
+export type InsertProcessingJob = z.infer<typeof insertProcessingJobSchema>;
+
+export type DriveFolder = typeof driveFolders.$inferSelect;
+export type InsertDriveFolder = z.infer<typeof insertDriveFolderSchema>;
+
+export type MetadataRevision = typeof metadataRevisions.$inferSelect;
+export type InsertMetadataRevision = z.infer<typeof insertMetadataRevisionSchema>;
+
+export type DriveSyncState = typeof driveSyncStates.$inferSelect;
+export type InsertDriveSyncState = z.infer<typeof insertDriveSyncStateSchema>;
+
+export type DriveWatchChannel = typeof driveWatchChannels.$inferSelect;
+export type InsertDriveWatchChannel = z.infer<typeof insertDriveWatchChannelSchema>;
+export type PublicDriveWatchChannel = Omit<DriveWatchChannel, "token">;
+
+// What one or more drive syncs did to stored files
+export interface DriveSyncCounts {
+  added: number;
+  updated: number;
+  moved: number;
+  removed: number;
+  stale: number; // processed files that changed in Drive afterwards
+}
+
+// What Drive itself knows about a file, captured whenever files are synced.
+// Only the values Drive reports are present.
+export interface ExistingMetadata {
+  description?: string; // without any exported AI metadata summary
+  starred?: boolean;
+  owners?: string[]; // display names, or email addresses when there is no name
+  shared?: boolean;
+  sharedBy?: string;
+  cameraMake?: string;
+  cameraModel?: string;
+  exposureTime?: number; // seconds
+  aperture?: number; // f-number
+  isoSpeed?: number;
+  focalLength?: number; // millimeters
+  flashUsed?: boolean;
+  takenAt?: string; // as reported by the camera
+  location?: { latitude?: number; longitude?: number; altitude?: number };
+  rotation?: number; // clockwise 90 degree turns from the original orientation
+  width?: number;
+  height?: number;
+  durationMillis?: number;
+}
+
+// GET /api/drive/sync/status
+export interface DriveSyncStatus {
+  googleAccountId: number;
+  syncing: boolean;
+  lastSyncedAt: Date | null;
+  lastError: string | null;
+  lastChangeCounts: DriveSyncCounts | null;
+  totalChangeCounts: DriveSyncCounts | null;
+}
+
+// GET /api/drive/quota: Drive API usage by this server since it started
+export interface DriveQuotaStats {
+  queriesPerSecond: number; // budget shared by every account
+  requests: number;
+  retries: number;
+  rateLimited: number; // 429 and rate limit 403 responses
+  transientErrors: number; // 5xx responses and dropped connections
+  failures: number; // requests given up on
+  throttledMs: number; // total time requests waited for the budget
+  lastRateLimitedAt: Date | null;
+  pausedUntil: Date | null; // every request waits until then after a rate limit
+}
+
+// PATCH /api/files/:id. Only the metadata is editable; ids, provider and
+// account stay as synced, so unknown keys are rejected
+export const updateFileMetadataSchema = z.object({
+  aiGeneratedMetadata: z.record(z.unknown()).nullable().optional(),
+  customMetadata: z.record(z.unknown()).nullable().optional(),
+}).strict();
+
+// File queries: server-side filtering, sorting and cursor pagination
+export const driveFileSortFields = ["name", "type", "status", "size", "createdTime", "modifiedTime", "id"] as const;
+export type DriveFileSortField = typeof driveFileSortFields[number];
+
+export const metadataPredicateSchema = z.object({
+  field: z.string().min(1),
+  op: z.enum(["exists", "missing", "eq", "contains"]), // 'eq' also matches an element of an array field
+  value: z.string().optional(),
+});
+
+export const driveFileFilterSchema = z.object({
+  workspaceId: z.number().int().optional(), // set by the server from the active workspace, never from request params
+  types: z.array(z.string()).optional(),
+  statuses: z.array(z.string()).optional(),
+  folderIds: z.array(z.string()).optional(),
+  createdAfter: z.coerce.date().optional(),
+  createdBefore: z.coerce.date().optional(),
+  modifiedAfter: z.coerce.date().optional(),
+  modifiedBefore: z.coerce.date().optional(),
+  hasAiMetadata: z.boolean().optional(),
+  stale: z.boolean().optional(),
+  includeRemoved: z.boolean().optional(), // files removed from Drive are left out unless set
+  search: z.string().optional(), // whitespace-separated terms, any term may match
+  metadata: z.array(metadataPredicateSchema).optional(), // predicates on aiGeneratedMetadata, all must match
+});
+
+export const driveFileSortSchema = z.object({
+  field: z.enum(driveFileSortFields),
+  direction: z.enum(["asc", "desc"]),
+});
+
+export const driveFileQuerySchema = driveFileFilterSchema.extend({
+  sort: z.array(driveFileSortSchema).optional(),
+  limit: z.number().int().min(1).max(1000).optional(),
+  cursor: z.string().optional(),
+});
+
+export type MetadataPredicate = z.infer<typeof metadataPredicateSchema>;
+export type DriveFileFilter = z.infer<typeof driveFileFilterSchema>;
+export type DriveFileSort = z.infer<typeof driveFileSortSchema>;
+export type DriveFileQuery = z.infer<typeof driveFileQuerySchema>;
+
+export interface DriveFilePage {
+  files: DriveFile[];
+  nextCursor: string | null;
+  total: number;
+}
+
+// Audit log queries (GET /api/audit), newest first
+export const auditActions = [
+  "template.create",
+  "templates.clear",
+  "metadata.update",
+  "metadata.revert",
+  "file.process",
+  "batch.process",
+  "export.file",
+  "export.folder",
+  "export.bulk",
+  "export_profile.update",
+  "template_llm.update",
+  "google.connect",
+  "google.disconnect",
+  "workspace.create",
+  "workspace.restore",
+  "member.add",
+  "member.update",
+  "member.remove",
+  "api_token.create",
+  "api_token.rotate",
+  "api_token.revoke",
+] as const;
+export type AuditAction = typeof auditActions[number];
+
+export const auditEventQuerySchema = z.object({
+  workspaceId: z.number().int().optional(), // set by the server from the active workspace
+  accountUserId: z.number().int().optional(), // also include this user's account-level events
+  actions: z.array(z.enum(auditActions)).optional(),
+  actorUserId: z.coerce.number().int().optional(),
+  targetType: z.string().optional(),
+  targetId: z.string().optional(),
+  requestId: z.string().optional(),
+  after: z.coerce.date().optional(),
+  before: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  cursor: z.coerce.number().int().optional(), // id of the last event on the previous page
+});
+
+export type AuditEventQuery = z.infer<typeof auditEventQuerySchema>;
+
+export interface AuditEventPage {
+  events: (AuditEvent & { actorUsername: string | null })[];
+  nextCursor: number | null;
+}
+
+// Metadata revision history
+export const metadataRevisionSources = ["ai", "manual", "drive_restore", "bulk", "revert"] as const;
+export type MetadataRevisionSource = typeof metadataRevisionSources[number];
+
+export interface MetadataFieldChange {
+  section: "ai" | "custom"; // aiGeneratedMetadata or customMetadata
+  field: string;
+  change: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface MetadataRevisionDiff {
+  fromRevisionId: number;
+  toRevisionId: number | null; // null when diffing against the file's current metadata
+  changes: MetadataFieldChange[];
+}
+
+// Folder tree returned by GET /api/drive/tree
+// Parent id of the shared drives in the folder tree; they sit next to My
+// Drive ('root') as top-level roots
+export const SHARED_DRIVES_PARENT_ID = "shared-drives";
+
+export interface DriveFolderNode {
+  id: string;
+  name: string;
+  path: string;
+  parentId: string | null;
+  sharedDriveId: string | null;
+  hasChildren: boolean;
+  children?: DriveFolderNode[]; // omitted below the requested depth
+}
+
+// Workspace backup archives (GET /api/admin/backup, POST /api/admin/restore)
+export const BACKUP_FORMAT = "metadata-enhancer-backup";
+export const BACKUP_SCHEMA_VERSION = 1;
+
+// Archived rows keep their ids so references between them can be remapped on
+// restore; rows always land in the workspace being restored into
+export const workspaceArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  schemaVersion: z.number().int().min(1).max(BACKUP_SCHEMA_VERSION),
+  createdAt: z.coerce.date(),
+  metadataTemplates: z.array(insertMetadataTemplateSchema.extend({
+    id: z.number().int(),
+    workspaceId: z.number().int().optional(),
+    createdAt: z.coerce.date(),
+  })),
+  driveFiles: z.array(insertDriveFileSchema.extend({
+    id: z.number().int(),
+    workspaceId: z.number().int().optional(),
+    createdTime: z.coerce.date(),
+    modifiedTime: z.coerce.date(),
+  })),
+  processingJobs: z.array(insertProcessingJobSchema.extend({
+    id: z.number().int(),
+    workspaceId: z.number().int().optional(),
+    createdAt: z.coerce.date(),
+    completedAt: z.coerce.date().nullable().optional(),
+  })),
+  metadataRevisions: z.array(insertMetadataRevisionSchema.extend({
+    id: z.number().int(),
+    createdAt: z.coerce.date(),
+  })).default([]),
+});
+
+export const restoreOptionsSchema = z.object({
+  mode: z.enum(["merge", "replace"]).default("merge"), // 'replace' clears the workspace first
+  onConflict: z.enum(["skip", "overwrite"]).default("skip"), // for files whose driveId already exists
+});
+
+export type WorkspaceArchive = z.infer<typeof workspaceArchiveSchema>;
+export type RestoreOptions = z.infer<typeof restoreOptionsSchema>;
+
+export interface DriveIdConflict {
+  driveId: string;
+  name: string;
+  existingFileId: number | null; // null when the archive itself repeats the driveId
+  resolution: "skipped" | "overwritten";
+}
+
+export interface RestoreReport {
+  mode: RestoreOptions["mode"];
+  onConflict: RestoreOptions["onConflict"];
+  schemaVersion: number;
+  created: { metadataTemplates: number; driveFiles: number; processingJobs: number; metadataRevisions: number };
+  updated: { driveFiles: number };
+  skipped: { metadataTemplates: number; driveFiles: number; processingJobs: number; metadataRevisions: number };
+  conflicts: DriveIdConflict[];
+}